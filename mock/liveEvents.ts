@@ -0,0 +1,78 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Connect, Plugin } from "vite";
+
+/* ────────────────────────────────────────────────────────────
+ *  Mock live event stream for demos
+ *
+ *  Serves Server-Sent Events at /mock/live/events from both
+ *  `vite` and `vite preview`, imitating a paper-trading session:
+ *  ticks on three engines, occasional orders answered by fills,
+ *  and a slow AI agent cycle that ends in a command.
+ * ──────────────────────────────────────────────────────────── */
+
+const PATH = "/mock/live/events";
+
+const ENGINE_COUNT = 3;
+const TICK_MS = 900;
+const ORDER_CHANCE = 0.2;
+const ORDER_DELAY_MS = 300;
+const FILL_DELAY_MS = 400;
+const AGENT_CYCLE_MS = 9000;
+const COMMAND_DELAY_MS = 3800;
+
+type MockEvent = { type: "tick" | "order" | "fill" | "agent_cycle" | "command"; engine?: number };
+
+function streamEvents(req: IncomingMessage, res: ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const send = (event: MockEvent) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+  const later = (ms: number, fn: () => void) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, ms);
+    timers.add(timer);
+  };
+
+  const ticks = setInterval(() => {
+    for (let engine = 0; engine < ENGINE_COUNT; engine++) {
+      later(Math.random() * TICK_MS, () => {
+        send({ type: "tick", engine });
+        if (Math.random() < ORDER_CHANCE) {
+          later(ORDER_DELAY_MS, () => send({ type: "order", engine }));
+          later(ORDER_DELAY_MS + FILL_DELAY_MS, () => send({ type: "fill", engine }));
+        }
+      });
+    }
+  }, TICK_MS);
+
+  const agent = setInterval(() => {
+    send({ type: "agent_cycle" });
+    later(COMMAND_DELAY_MS, () => send({ type: "command" }));
+  }, AGENT_CYCLE_MS);
+
+  req.on("close", () => {
+    clearInterval(ticks);
+    clearInterval(agent);
+    timers.forEach(clearTimeout);
+  });
+}
+
+const middleware: Connect.NextHandleFunction = (req, res) => streamEvents(req, res);
+
+export function mockLiveEvents(): Plugin {
+  return {
+    name: "mock-live-events",
+    configureServer(server) {
+      server.middlewares.use(PATH, middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(PATH, middleware);
+    },
+  };
+}
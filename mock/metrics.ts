@@ -0,0 +1,58 @@
+import type { Connect, Plugin } from "vite";
+
+/* ────────────────────────────────────────────────────────────
+ *  Mock Metrics API for demos
+ *
+ *  Serves GET /mock/metrics/summary from both `vite` and
+ *  `vite preview` in the shape of the Metrics API summary: a
+ *  portfolio whose greeks random-walk (delta and P&L now and then
+ *  swing across zero) and per-deployment engine throughput.
+ * ──────────────────────────────────────────────────────────── */
+
+const PATH = "/mock/metrics/summary";
+
+const SINGLE_ENGINE_TPS = 1000;
+const THROUGHPUT_JITTER = 0.05;
+
+const portfolio = { delta: -0.23, theta: 2450, vega: -890, pnl: 45200 };
+
+const walk = (value: number, step: number) => value + (Math.random() - 0.5) * 2 * step;
+const jitter = (value: number) => Math.round(value * (1 + (Math.random() - 0.5) * 2 * THROUGHPUT_JITTER));
+
+function nextSummary() {
+  portfolio.delta = Math.max(-1, Math.min(1, walk(portfolio.delta, 0.08)));
+  portfolio.theta = walk(portfolio.theta, 120);
+  portfolio.vega = walk(portfolio.vega, 60);
+  portfolio.pnl = walk(portfolio.pnl, 9000);
+
+  return {
+    portfolio: {
+      delta: Number(portfolio.delta.toFixed(2)),
+      theta: Math.round(portfolio.theta),
+      vega: Math.round(portfolio.vega),
+      pnl: Math.round(portfolio.pnl),
+    },
+    throughput: {
+      single_engine: jitter(SINGLE_ENGINE_TPS),
+      three_engines: jitter(SINGLE_ENGINE_TPS * 3),
+      n_engines: jitter(SINGLE_ENGINE_TPS * 10),
+    },
+  };
+}
+
+const middleware: Connect.NextHandleFunction = (_req, res) => {
+  res.writeHead(200, { "Content-Type": "application/json", "Cache-Control": "no-cache" });
+  res.end(JSON.stringify(nextSummary()));
+};
+
+export function mockMetrics(): Plugin {
+  return {
+    name: "mock-metrics",
+    configureServer(server) {
+      server.middlewares.use(PATH, middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(PATH, middleware);
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Connect, Plugin, PreviewServer, ViteDevServer } from "vite";
+import { toRemoteMessage } from "../src/components/slides/shared/remote";
+
+/* ────────────────────────────────────────────────────────────
+ *  Phone-as-remote relay
+ *
+ *  A tiny message hub at /remote/relay, mounted on `vite` and
+ *  `vite preview`. `GET` opens a Server-Sent Events stream; a
+ *  JSON `POST` is fanned out to every open stream. The deck
+ *  posts its state and listens for commands, the phone does the
+ *  reverse. The last state is replayed to streams that join late.
+ *  Start the server with `--host` so phones on the LAN reach it.
+ *
+ *  Every request must carry the pairing token, minted once per
+ *  server process and printed with the server URLs as the deck's
+ *  `?remote=<token>` link; the deck hands it on to the phone.
+ *  Anything else on the network gets a 403, and a body that is
+ *  not a well-formed state or command (`toRemoteMessage`, shared
+ *  with the deck and phone) a 400.
+ * ──────────────────────────────────────────────────────────── */
+
+const PATH = "/remote/relay";
+const MAX_BODY_BYTES = 16 * 1024;
+const TOKEN = randomBytes(12).toString("base64url");
+
+const streams = new Set<ServerResponse>();
+let lastState: string | null = null;
+
+function isPaired(req: IncomingMessage) {
+  const token = new URL(req.url ?? "", "http://relay").searchParams.get("token") ?? "";
+  const given = Buffer.from(token);
+  const expected = Buffer.from(TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function reject(res: ServerResponse, status: number) {
+  res.statusCode = status;
+  res.end();
+}
+
+function openStream(req: IncomingMessage, res: ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  if (lastState) res.write(`data: ${lastState}\n\n`);
+  streams.add(res);
+  req.on("close", () => streams.delete(res));
+}
+
+function relayMessage(req: IncomingMessage, res: ServerResponse) {
+  let body = "";
+  req.setEncoding("utf8");
+  req.on("data", (chunk: string) => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) req.destroy();
+  });
+  req.on("end", () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return reject(res, 400);
+    }
+    const message = toRemoteMessage(parsed);
+    if (!message) return reject(res, 400);
+
+    const data = JSON.stringify(message);
+    if (message.kind === "state") lastState = data;
+    streams.forEach((stream) => stream.write(`data: ${data}\n\n`));
+    res.statusCode = 204;
+    res.end();
+  });
+}
+
+const middleware: Connect.NextHandleFunction = (req, res, next) => {
+  if (req.method !== "GET" && req.method !== "POST") return next();
+  if (!isPaired(req)) return reject(res, 403);
+  if (req.method === "GET") openStream(req, res);
+  else relayMessage(req, res);
+};
+
+/** Print the deck's paired link under Vite's own URLs */
+function printPairing(server: ViteDevServer | PreviewServer) {
+  const printUrls = server.printUrls;
+  server.printUrls = () => {
+    printUrls();
+    const urls = server.resolvedUrls;
+    const bases = urls?.network.length ? urls.network : (urls?.local ?? []);
+    bases.forEach((base) => server.config.logger.info(`  ➜  Remote:  ${base}?remote=${TOKEN}`));
+  };
+}
+
+export function remoteRelay(): Plugin {
+  return {
+    name: "remote-relay",
+    configureServer(server) {
+      server.middlewares.use(PATH, middleware);
+      printPairing(server);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(PATH, middleware);
+      printPairing(server);
+    },
+  };
+}
@@ -1,13 +1,30 @@
 import { BrowserRouter, Route, Routes } from "react-router-dom";
 import { BackupPresentation } from "@/pages/BackupPresentation";
+import { PlaylistPresentation } from "@/pages/PlaylistPresentation";
 import { Presentation } from "@/pages/Presentation";
+import { PresenterView } from "@/pages/PresenterView";
+import { RemoteView } from "@/pages/RemoteView";
+import { ThemeEditor } from "@/pages/ThemeEditor";
+import { BACKUP_DECK, MAIN_DECK } from "@/pages/slideDecks";
 
 function App() {
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<Presentation />} />
-        <Route path="/backup" element={<BackupPresentation />} />
+        <Route path="/:slideId?" element={<Presentation />} />
+        <Route path="/backup/:slideId?" element={<BackupPresentation />} />
+        <Route path="/deck/:name/:slideId?" element={<PlaylistPresentation />} />
+        <Route
+          path="/presenter/:slideId?"
+          element={<PresenterView slides={MAIN_DECK.slides} basePath={MAIN_DECK.basePath} />}
+        />
+        <Route
+          path="/backup/presenter/:slideId?"
+          element={<PresenterView slides={BACKUP_DECK.slides} basePath={BACKUP_DECK.basePath} />}
+        />
+        <Route path="/deck/:name/presenter/:slideId?" element={<PlaylistPresentation presenter />} />
+        <Route path="/remote" element={<RemoteView />} />
+        <Route path="/theme-editor" element={<ThemeEditor />} />
       </Routes>
     </BrowserRouter>
   );
@@ -0,0 +1,106 @@
+import { createElement, useRef, useState, type PointerEvent } from "react";
+import { createPortal } from "react-dom";
+import {
+  annotationShapes,
+  toSvgPoint,
+  type Annotation,
+  type AnnotationTool,
+  type Point,
+} from "@/components/slides/shared/annotations";
+
+interface AnnotationOverlayProps {
+  /** The current slide's SVG; marks are drawn inside it */
+  svg: SVGSVGElement | null;
+  /** Active tool, or null to leave the slide interactive */
+  tool: AnnotationTool | null;
+  marks: Annotation[];
+  onAdd: (annotation: Annotation) => void;
+}
+
+/** How long the laser trail lingers after the pointer stops (ms) */
+const LASER_TRAIL_MS = 160;
+const LASER_TRAIL_POINTS = 12;
+
+function Shapes({ annotation }: { annotation: Annotation }) {
+  return annotationShapes(annotation).map(({ tag, attrs }, i) => createElement(tag, { key: i, ...attrs }));
+}
+
+export function AnnotationOverlay({ svg, tool, marks, onAdd }: AnnotationOverlayProps) {
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [laser, setLaser] = useState<Point[]>([]);
+  const trailTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const pointAt = (e: PointerEvent) => (svg ? toSvgPoint(svg, e.clientX, e.clientY) : null);
+
+  const handleDown = (e: PointerEvent<HTMLDivElement>) => {
+    const point = pointAt(e);
+    if (!point || tool === "laser") return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(tool === "pen" ? { kind: "pen", points: [point] } : { kind: tool === "arrow" ? "arrow" : "highlight", from: point, to: point });
+  };
+
+  const handleMove = (e: PointerEvent<HTMLDivElement>) => {
+    const point = pointAt(e);
+    if (!point) return;
+
+    if (tool === "laser") {
+      setLaser((trail) => [...trail.slice(-(LASER_TRAIL_POINTS - 1)), point]);
+      clearTimeout(trailTimerRef.current);
+      trailTimerRef.current = setTimeout(() => setLaser((trail) => trail.slice(-1)), LASER_TRAIL_MS);
+      return;
+    }
+    setDraft((d) => {
+      if (!d) return d;
+      return d.kind === "pen" ? { ...d, points: [...d.points, point] } : { ...d, to: point };
+    });
+  };
+
+  const handleUp = () => {
+    if (draft) onAdd(draft);
+    setDraft(null);
+  };
+
+  const laserHead = laser[laser.length - 1];
+
+  return (
+    <>
+      {svg &&
+        createPortal(
+          <g className="annotation-layer" pointerEvents="none">
+            {marks.map((annotation, i) => (
+              <Shapes key={i} annotation={annotation} />
+            ))}
+            {draft && <Shapes annotation={draft} />}
+            {tool === "laser" && laserHead && (
+              <>
+                <polyline
+                  points={laser.map(([x, y]) => `${x},${y}`).join(" ")}
+                  fill="none"
+                  stroke="var(--accent-red)"
+                  strokeWidth={6}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  opacity={0.35}
+                />
+                <circle cx={laserHead[0]} cy={laserHead[1]} r={18} fill="var(--accent-red)" opacity={0.25} />
+                <circle cx={laserHead[0]} cy={laserHead[1]} r={7} fill="var(--accent-red)" />
+              </>
+            )}
+          </g>,
+          svg,
+        )}
+
+      {tool && (
+        <div
+          className={`absolute inset-0 z-40 ${tool === "laser" ? "cursor-none" : "cursor-crosshair"}`}
+          style={{ touchAction: "none" }}
+          onPointerDown={handleDown}
+          onPointerMove={handleMove}
+          onPointerUp={handleUp}
+          onPointerCancel={handleUp}
+          onPointerLeave={() => setLaser([])}
+        />
+      )}
+    </>
+  );
+}
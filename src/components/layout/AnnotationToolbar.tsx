@@ -0,0 +1,81 @@
+import { useEffect, useEffectEvent } from "react";
+import { Crosshair, Highlighter, MoveUpRight, PenLine, Save, Trash2, Undo2 } from "lucide-react";
+import type { AnnotationTool } from "@/components/slides/shared/annotations";
+import { isTypingTarget } from "@/hooks/useDeckOverview";
+
+interface AnnotationToolbarProps {
+  tool: AnnotationTool | null;
+  onTool: (tool: AnnotationTool | null) => void;
+  canUndo: boolean;
+  onUndo: () => void;
+  onClear: () => void;
+  /** Whether marks are kept in localStorage */
+  persist: boolean;
+  onTogglePersist: () => void;
+}
+
+const TOOLS: { tool: AnnotationTool; icon: typeof PenLine; title: string }[] = [
+  { tool: "laser", icon: Crosshair, title: "Laser pointer" },
+  { tool: "pen", icon: PenLine, title: "Pen" },
+  { tool: "highlight", icon: Highlighter, title: "Highlight box" },
+  { tool: "arrow", icon: MoveUpRight, title: "Arrow" },
+];
+
+/** Annotation tools down the left edge; Esc puts the tool away, Ctrl+Z undoes */
+export function AnnotationToolbar({ tool, onTool, canUndo, onUndo, onClear, persist, onTogglePersist }: AnnotationToolbarProps) {
+  const handleKeyDown = useEffectEvent((e: KeyboardEvent) => {
+    if (e.key === "Escape") onTool(null);
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z" && !isTypingTarget(e.target)) {
+      e.preventDefault();
+      onUndo();
+    }
+  });
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => handleKeyDown(e);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
+  const buttonClass =
+    "flex h-8 w-8 items-center justify-center rounded-md transition-colors duration-150 hover:bg-[var(--bg-card-hover)] disabled:opacity-40";
+
+  return (
+    <div
+      className="fixed left-4 top-1/2 z-50 flex -translate-y-1/2 flex-col gap-1 rounded-xl p-1 opacity-40 transition-opacity duration-200 hover:opacity-100"
+      style={{
+        background: "var(--bg-card)",
+        border: "1px solid var(--border-subtle)",
+        color: "var(--text-secondary)",
+        opacity: tool ? 1 : undefined,
+      }}
+    >
+      {TOOLS.map(({ tool: t, icon: Icon, title }) => (
+        <button
+          key={t}
+          onClick={() => onTool(tool === t ? null : t)}
+          className={buttonClass}
+          style={{ color: tool === t ? "var(--accent-amber)" : undefined }}
+          title={title}
+        >
+          <Icon size={16} />
+        </button>
+      ))}
+      <div className="mx-1.5 my-0.5 h-px" style={{ background: "var(--border-subtle)" }} />
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClass} title="Undo (Ctrl+Z)">
+        <Undo2 size={16} />
+      </button>
+      <button onClick={onClear} className={buttonClass} title="Clear slide">
+        <Trash2 size={16} />
+      </button>
+      <button
+        onClick={onTogglePersist}
+        className={buttonClass}
+        style={{ color: persist ? "var(--accent-emerald)" : undefined }}
+        title={persist ? "Annotations are saved in this browser" : "Save annotations in this browser"}
+      >
+        <Save size={16} />
+      </button>
+    </div>
+  );
+}
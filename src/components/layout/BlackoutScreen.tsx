@@ -0,0 +1,16 @@
+import { motion } from "framer-motion";
+
+/** Full-screen black, over everything including the deck chrome; click to return */
+export function BlackoutScreen({ onDismiss }: { onDismiss: () => void }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3, ease: "easeOut" }}
+      className="fixed inset-0 z-[80] cursor-none"
+      style={{ background: "#000" }}
+      onClick={onDismiss}
+    />
+  );
+}
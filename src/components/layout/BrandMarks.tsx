@@ -0,0 +1,30 @@
+import { useContext } from "react";
+import { BrandContext } from "@/components/slides/shared/brand";
+import { useI18n } from "@/hooks/useI18n";
+
+/** The client's logo beside the slide title and in the footer, when a brand theme is applied */
+export function BrandMarks() {
+  const brand = useContext(BrandContext);
+  const { t } = useI18n();
+  if (!brand) return null;
+  const { name, logo } = brand;
+
+  return (
+    <>
+      {logo && (
+        <img
+          src={logo.src}
+          alt={logo.alt ?? name}
+          className="pointer-events-none absolute left-8 top-6 h-10 max-w-48 object-contain"
+        />
+      )}
+      <div
+        className="pointer-events-none absolute bottom-[5.5rem] right-8 flex items-center gap-2 text-xs font-medium"
+        style={{ color: "var(--text-muted)" }}
+      >
+        {logo && <img src={logo.src} alt="" className="h-5 max-w-24 object-contain" />}
+        {t("Prepared for {name}", { name })}
+      </div>
+    </>
+  );
+}
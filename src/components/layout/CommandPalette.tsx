@@ -0,0 +1,115 @@
+import { useMemo, useState, type KeyboardEvent } from "react";
+import { motion } from "framer-motion";
+import { Search } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import type { DeckDefinition } from "@/pages/slideDecks";
+import { searchSlides, type SlideMatchKind } from "@/pages/slideSearch";
+
+interface CommandPaletteProps {
+  decks: DeckDefinition[];
+  onSelect: (deck: DeckDefinition, index: number) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 8;
+
+const KIND_LABEL: Record<SlideMatchKind, string> = { title: "Slide", node: "Node", note: "Note" };
+
+export function CommandPalette({ decks, onSelect, onClose }: CommandPaletteProps) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+  const results = useMemo(() => searchSlides(decks, query).slice(0, MAX_RESULTS), [decks, query]);
+
+  const choose = (i: number) => {
+    const match = results[i];
+    if (match) onSelect(match.deck, match.index);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setSelected((s) => Math.min(s + 1, results.length - 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setSelected((s) => Math.max(s - 1, 0));
+        break;
+      case "Enter":
+        e.preventDefault();
+        choose(selected);
+        break;
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.15, ease: "easeOut" }}
+      className="fixed inset-0 z-[70] flex justify-center bg-black/40 pt-24"
+      onClick={onClose}
+    >
+      <div
+        className="flex h-fit w-[560px] flex-col overflow-hidden rounded-xl"
+        style={{
+          background: "var(--bg-card)",
+          border: "1px solid var(--border-accent)",
+          boxShadow: "var(--glow-amber)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <label className="flex items-center gap-3 px-4 py-3" style={{ borderBottom: "1px solid var(--border-subtle)" }}>
+          <Search size={16} style={{ color: "var(--text-muted)" }} />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.currentTarget.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Jump to a slide, node or note…"
+            className="flex-1 bg-transparent text-base outline-none"
+            style={{ color: "var(--text-primary)" }}
+          />
+        </label>
+
+        <ul className="max-h-[420px] overflow-y-auto py-1.5">
+          {results.length === 0 && (
+            <li className="px-4 py-3 text-sm" style={{ color: "var(--text-muted)" }}>No matching slides</li>
+          )}
+          {results.map((match, i) => (
+            <li key={`${match.deck.basePath}/${match.slide.id}`}>
+              <button
+                onClick={() => choose(i)}
+                onMouseMove={() => setSelected(i)}
+                className="flex w-full flex-col gap-0.5 px-4 py-2 text-left"
+                style={{ background: i === selected ? "var(--bg-card-hover)" : undefined }}
+              >
+                <span className="flex items-center justify-between gap-3">
+                  <span className="font-semibold" style={{ color: i === selected ? "var(--accent-amber)" : "var(--text-primary)" }}>
+                    {t(match.slide.title)}
+                  </span>
+                  <span className="shrink-0 text-xs" style={{ color: "var(--text-muted)" }}>
+                    {match.deck.name} · {match.index + 1}
+                  </span>
+                </span>
+                {match.kind !== "title" && (
+                  <span className="truncate text-xs" style={{ color: "var(--text-secondary)" }}>
+                    <span className="mr-1.5 font-semibold uppercase" style={{ color: "var(--text-muted)" }}>
+                      {KIND_LABEL[match.kind]}
+                    </span>
+                    {match.text}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </motion.div>
+  );
+}
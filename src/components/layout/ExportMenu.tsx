@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Download, LoaderCircle, X } from "lucide-react";
+
+interface ExportMenuProps {
+  exporting: boolean;
+  /** Recording progress from 0 to 1, or null when not recording */
+  recordProgress: number | null;
+  /** False where the browser cannot record WebM; hides the video items */
+  canRecord: boolean;
+  /** Why the last export or recording failed */
+  error: string | null;
+  onDismissError: () => void;
+  onExportSvg: () => void;
+  onExportPng: () => void;
+  onExportPdf: () => void;
+  onRecordSlide: () => void;
+  onRecordDeck: () => void;
+}
+
+export function ExportMenu({
+  exporting,
+  recordProgress,
+  canRecord,
+  error,
+  onDismissError,
+  onExportSvg,
+  onExportPng,
+  onExportPdf,
+  onRecordSlide,
+  onRecordDeck,
+}: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  const items = [
+    { label: "Slide as SVG", onSelect: onExportSvg },
+    { label: "Slide as PNG", onSelect: onExportPng },
+    { label: "Deck as PDF", onSelect: onExportPdf },
+    ...(canRecord
+      ? [
+          { label: "Slide as WebM", onSelect: onRecordSlide },
+          { label: "Deck as WebM", onSelect: onRecordDeck },
+        ]
+      : []),
+  ];
+
+  const busy = exporting || recordProgress !== null;
+  const recordPercent = recordProgress !== null ? `${Math.round(recordProgress * 100)}%` : null;
+
+  return (
+    <div className="fixed right-[12.75rem] top-4 z-50">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={busy}
+        className="flex h-9 w-9 items-center justify-center rounded-lg transition-all duration-200 hover:scale-110 disabled:opacity-60"
+        style={{
+          background: "var(--bg-card)",
+          border: "1px solid var(--border-subtle)",
+          color: "var(--text-secondary)",
+        }}
+        title={recordPercent ? `Recording… ${recordPercent}` : exporting ? "Exporting…" : "Export"}
+      >
+        {busy ? <LoaderCircle size={16} className="animate-spin" /> : <Download size={16} />}
+      </button>
+
+      {recordPercent && (
+        <span
+          className="absolute left-1/2 top-full mt-1 -translate-x-1/2 text-[10px] font-semibold tabular-nums"
+          style={{ color: "var(--text-muted)" }}
+        >
+          {recordPercent}
+        </span>
+      )}
+
+      {error && !open && (
+        <div
+          role="alert"
+          className="absolute right-0 mt-2 flex w-56 items-start gap-2 rounded-lg px-3 py-2 text-xs"
+          style={{
+            background: "var(--bg-card)",
+            border: "1px solid var(--accent-red)",
+            color: "var(--text-secondary)",
+          }}
+        >
+          <span className="flex-1">
+            <span className="font-semibold" style={{ color: "var(--accent-red)" }}>Export failed: </span>
+            {error}
+          </span>
+          <button onClick={onDismissError} aria-label="Dismiss" style={{ color: "var(--text-muted)" }}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {open && (
+        <div
+          className="absolute right-0 mt-2 flex w-40 flex-col overflow-hidden rounded-lg py-1"
+          style={{
+            background: "var(--bg-card)",
+            border: "1px solid var(--border-subtle)",
+          }}
+        >
+          {items.map(({ label, onSelect }) => (
+            <button
+              key={label}
+              onClick={() => {
+                setOpen(false);
+                onSelect();
+              }}
+              className="px-3 py-2 text-left text-sm font-medium transition-colors duration-150 hover:bg-[var(--bg-card-hover)]"
+              style={{ color: "var(--text-secondary)" }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
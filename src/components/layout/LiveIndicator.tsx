@@ -0,0 +1,23 @@
+interface LiveIndicatorProps {
+  connected: boolean;
+}
+
+export function LiveIndicator({ connected }: LiveIndicatorProps) {
+  return (
+    <div
+      className="fixed left-4 top-4 z-50 flex h-9 items-center gap-2 rounded-lg px-3 text-xs font-semibold uppercase tracking-widest"
+      style={{
+        background: "var(--bg-card)",
+        border: "1px solid var(--border-subtle)",
+        color: connected ? "var(--accent-emerald)" : "var(--text-muted)",
+      }}
+      title={connected ? "Driven by live engine events" : "Waiting for the live event stream"}
+    >
+      <span
+        className={`h-2 w-2 rounded-full ${connected ? "animate-pulse" : ""}`}
+        style={{ background: connected ? "var(--accent-emerald)" : "var(--text-muted)" }}
+      />
+      {connected ? "Live" : "Connecting"}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { LocaleDefinition, LocaleId } from "@/components/slides/shared/i18n";
+
+interface LocaleToggleProps {
+  locale: LocaleDefinition;
+  locales: LocaleDefinition[];
+  onSelect: (id: LocaleId) => void;
+}
+
+/** Cycles the slide language */
+export function LocaleToggle({ locale, locales, onSelect }: LocaleToggleProps) {
+  const next = locales[(locales.indexOf(locale) + 1) % locales.length];
+
+  return (
+    <button
+      onClick={() => onSelect(next.id)}
+      className="fixed right-[4.25rem] top-4 z-50 flex h-9 w-9 items-center justify-center rounded-lg text-xs font-bold transition-all duration-200 hover:scale-110"
+      style={{
+        background: "var(--bg-card)",
+        border: "1px solid var(--border-subtle)",
+        color: "var(--text-secondary)",
+      }}
+      title={`Switch to ${next.label}`}
+      lang={locale.tag}
+    >
+      {locale.label.slice(0, 2).toUpperCase()}
+    </button>
+  );
+}
@@ -0,0 +1,24 @@
+import { Activity, Pause } from "lucide-react";
+
+interface MotionToggleProps {
+  reduced: boolean;
+  onToggle: () => void;
+}
+
+export function MotionToggle({ reduced, onToggle }: MotionToggleProps) {
+  return (
+    <button
+      onClick={onToggle}
+      className="fixed right-[7rem] top-4 z-50 flex h-9 w-9 items-center justify-center rounded-lg transition-all duration-200 hover:scale-110"
+      style={{
+        background: "var(--bg-card)",
+        border: "1px solid var(--border-subtle)",
+        color: reduced ? "var(--accent-amber)" : "var(--text-secondary)",
+      }}
+      title={reduced ? "Play animations" : "Reduce motion"}
+      aria-pressed={reduced}
+    >
+      {reduced ? <Pause size={16} /> : <Activity size={16} />}
+    </button>
+  );
+}
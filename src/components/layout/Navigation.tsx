@@ -3,6 +3,8 @@ import { ChevronLeft, ChevronRight } from "lucide-react";
 interface NavigationProps {
   current: number;
   total: number;
+  /** Section of each slide; dots are grouped by consecutive section */
+  sections?: readonly string[];
   onPrev: () => void;
   onNext: () => void;
   onGoTo: (index: number) => void;
@@ -10,9 +12,22 @@ interface NavigationProps {
   isLast: boolean;
 }
 
+/** Runs of consecutive slides sharing a section; one run when there are none */
+function groupBySection(total: number, sections?: readonly string[]) {
+  const groups: { section?: string; indices: number[] }[] = [];
+  for (let i = 0; i < total; i++) {
+    const section = sections?.[i];
+    const last = groups[groups.length - 1];
+    if (last && last.section === section) last.indices.push(i);
+    else groups.push({ section, indices: [i] });
+  }
+  return groups;
+}
+
 export function Navigation({
   current,
   total,
+  sections,
   onPrev,
   onNext,
   onGoTo,
@@ -36,26 +51,31 @@ export function Navigation({
         Prev
       </button>
 
-      {/* Slide dots */}
-      <div className="flex items-center gap-2.5">
-        {Array.from({ length: total }, (_, i) => (
-          <button
-            key={i}
-            onClick={() => onGoTo(i)}
-            className="h-2.5 rounded-full transition-all duration-300"
-            style={{
-              width: i === current ? "30px" : "10px",
-              background:
-                i === current ? "var(--accent-amber)" : "var(--text-muted)",
-              opacity: i === current ? 1 : 0.5,
-            }}
-          />
+      {/* Slide dots, grouped by section */}
+      <div className="flex items-center gap-6">
+        {groupBySection(total, sections).map(({ section, indices }) => (
+          <div key={indices[0]} className="flex items-center gap-2.5" title={section}>
+            {indices.map((i) => (
+              <button
+                key={i}
+                onClick={() => onGoTo(i)}
+                className="h-2.5 rounded-full transition-all duration-300"
+                style={{
+                  width: i === current ? "30px" : "10px",
+                  background:
+                    i === current ? "var(--accent-amber)" : "var(--text-muted)",
+                  opacity: i === current ? 1 : 0.5,
+                }}
+              />
+            ))}
+          </div>
         ))}
         <span
-          className="ml-4 text-sm tabular-nums font-medium"
+          className="text-sm tabular-nums font-medium"
           style={{ color: "var(--text-muted)" }}
         >
           {current + 1} / {total}
+          {sections?.[current] && ` · ${sections[current]}`}
         </span>
       </div>
 
@@ -0,0 +1,119 @@
+import { AnimatePresence, motion } from "framer-motion";
+import { ExternalLink, X } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import type { MiniDiagram, NodeDetail } from "@/components/slides/shared/inspect";
+
+interface NodeDetailPanelProps {
+  detail: NodeDetail | null;
+  onClose: () => void;
+}
+
+const MINI_NODE_W = 96;
+const MINI_NODE_H = 30;
+
+function MiniDiagramView({ diagram }: { diagram: MiniDiagram }) {
+  const { t } = useI18n();
+  const byId = new Map(diagram.nodes.map((n) => [n.id, n]));
+
+  return (
+    <svg viewBox={`0 0 ${diagram.width} ${diagram.height}`} className="w-full">
+      {diagram.edges.map(({ from, to }) => {
+        const a = byId.get(from);
+        const b = byId.get(to);
+        if (!a || !b) return null;
+        return <line key={`${from}-${to}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="var(--text-muted)" strokeWidth={1.2} opacity={0.6} />;
+      })}
+      {diagram.nodes.map((n) => (
+        <g key={n.id}>
+          <rect
+            x={n.x - MINI_NODE_W / 2}
+            y={n.y - MINI_NODE_H / 2}
+            width={MINI_NODE_W}
+            height={MINI_NODE_H}
+            rx={7}
+            fill="var(--bg-secondary)"
+            stroke={n.color ?? "var(--accent-amber)"}
+            strokeWidth={1}
+          />
+          <text x={n.x} y={n.y + 4} textAnchor="middle" className="text-[10px] font-semibold" fill={n.color ?? "var(--accent-amber)"}>
+            {t(n.label)}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export function NodeDetailPanel({ detail, onClose }: NodeDetailPanelProps) {
+  const { t } = useI18n();
+
+  return (
+    <AnimatePresence>
+      {detail && (
+        <motion.aside
+          key={detail.id}
+          initial={{ x: 40, opacity: 0 }}
+          animate={{ x: 0, opacity: 1 }}
+          exit={{ x: 40, opacity: 0 }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+          className="absolute bottom-20 right-6 top-20 z-40 flex w-[340px] flex-col gap-4 overflow-y-auto rounded-xl p-5"
+          style={{
+            background: "var(--bg-card)",
+            border: "1px solid var(--border-accent)",
+            boxShadow: "var(--glow-amber)",
+          }}
+        >
+          <div className="flex items-start justify-between gap-3">
+            <h3 className="text-xl" style={{ color: "var(--accent-amber)" }}>{t(detail.title)}</h3>
+            <button
+              onClick={onClose}
+              className="flex h-7 w-7 shrink-0 items-center justify-center rounded-md transition-colors duration-150 hover:bg-[var(--bg-card-hover)]"
+              style={{ color: "var(--text-muted)" }}
+              title={t("Close (Esc)")}
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          <p className="text-sm leading-relaxed" style={{ color: "var(--text-secondary)" }}>{t(detail.summary)}</p>
+
+          {detail.properties && (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-sm">
+              {detail.properties.map(({ label, value }) => (
+                <div key={label} className="contents">
+                  <dt className="font-semibold" style={{ color: "var(--text-muted)" }}>{t(label)}</dt>
+                  <dd style={{ color: "var(--text-primary)" }}>{t(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
+          {detail.diagram && (
+            <div className="rounded-lg p-2" style={{ background: "var(--bg-primary)", border: "1px solid var(--border-subtle)" }}>
+              <MiniDiagramView diagram={detail.diagram} />
+            </div>
+          )}
+
+          {detail.links && (
+            <ul className="mt-auto flex flex-col gap-1.5 text-sm">
+              {detail.links.map(({ label, href }) => (
+                <li key={href}>
+                  <a
+                    href={href}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-flex items-center gap-1.5 font-medium hover:underline"
+                    style={{ color: "var(--accent-orange)" }}
+                  >
+                    {t(label)}
+                    <ExternalLink size={12} />
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,22 @@
+import { Presentation } from "lucide-react";
+
+interface PresenterButtonProps {
+  onOpen: () => void;
+}
+
+export function PresenterButton({ onOpen }: PresenterButtonProps) {
+  return (
+    <button
+      onClick={onOpen}
+      className="fixed right-[9.75rem] top-4 z-50 flex h-9 w-9 items-center justify-center rounded-lg transition-all duration-200 hover:scale-110"
+      style={{
+        background: "var(--bg-card)",
+        border: "1px solid var(--border-subtle)",
+        color: "var(--text-secondary)",
+      }}
+      title="Open presenter view"
+    >
+      <Presentation size={16} />
+    </button>
+  );
+}
@@ -1,10 +1,13 @@
 interface ProgressBarProps {
   current: number;
   total: number;
+  /** Section of each slide; a divider marks where a new one begins */
+  sections?: readonly string[];
 }
 
-export function ProgressBar({ current, total }: ProgressBarProps) {
+export function ProgressBar({ current, total, sections }: ProgressBarProps) {
   const progress = ((current + 1) / total) * 100;
+  const boundaries = sections?.flatMap((section, i) => (i > 0 && section !== sections[i - 1] ? [i] : [])) ?? [];
 
   return (
     <div className="fixed top-0 left-0 right-0 z-50 h-[5px]" style={{ background: "var(--bg-secondary)" }}>
@@ -15,6 +18,14 @@ export function ProgressBar({ current, total }: ProgressBarProps) {
           background: `linear-gradient(90deg, var(--accent-amber), var(--accent-orange))`,
         }}
       />
+      {boundaries.map((i) => (
+        <div
+          key={i}
+          className="absolute top-0 h-full w-[3px] -translate-x-1/2"
+          style={{ left: `${(i / total) * 100}%`, background: "var(--bg-primary)" }}
+          title={sections?.[i]}
+        />
+      ))}
     </div>
   );
 }
@@ -0,0 +1,32 @@
+import { Smartphone } from "lucide-react";
+
+interface RemoteIndicatorProps {
+  /** Pairing token from `?remote=<token>`; empty when the deck was opened without one */
+  token: string;
+  connected: boolean;
+}
+
+/** Remote-mode badge, telling the presenter where the phone should go */
+export function RemoteIndicator({ token, connected }: RemoteIndicatorProps) {
+  const remoteUrl = token ? `${window.location.host}/remote?token=${encodeURIComponent(token)}` : "Open the ?remote= link the server printed";
+  const title = !token
+    ? "The relay needs the pairing token printed by the dev server"
+    : connected
+      ? "Relay connected; open this address on your phone"
+      : "Waiting for the remote relay";
+
+  return (
+    <div
+      className="fixed bottom-20 left-4 z-50 flex h-9 items-center gap-2 rounded-lg px-3 text-xs font-semibold tracking-wide opacity-60 transition-opacity duration-200 hover:opacity-100"
+      style={{
+        background: "var(--bg-card)",
+        border: "1px solid var(--border-subtle)",
+        color: connected ? "var(--accent-emerald)" : "var(--text-muted)",
+      }}
+      title={title}
+    >
+      <Smartphone size={14} />
+      {remoteUrl}
+    </div>
+  );
+}
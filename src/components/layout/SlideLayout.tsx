@@ -1,4 +1,7 @@
-import type { ReactNode } from "react";
+import { useLayoutEffect, useRef, type ReactNode } from "react";
+import { BrandMarks } from "@/components/layout/BrandMarks";
+import { fitTextToBoxes } from "@/components/slides/shared/text-fit";
+import { useI18n } from "@/hooks/useI18n";
 
 interface SlideLayoutProps {
   children: ReactNode;
@@ -6,8 +9,23 @@ interface SlideLayoutProps {
 }
 
 export function SlideLayout({ children, className = "" }: SlideLayoutProps) {
+  const slideRef = useRef<HTMLDivElement>(null);
+  const { locale } = useI18n();
+
+  /* Labels change length with the language; refit when it changes and when the slide is resized */
+  useLayoutEffect(() => {
+    const slide = slideRef.current;
+    if (!slide) return;
+
+    fitTextToBoxes(slide);
+    const observer = new ResizeObserver(() => fitTextToBoxes(slide));
+    observer.observe(slide);
+    return () => observer.disconnect();
+  }, [locale.id]);
+
   return (
-    <div className={`slide ${className}`}>
+    <div ref={slideRef} className={`slide ${className}`}>
+      <BrandMarks />
       {children}
     </div>
   );
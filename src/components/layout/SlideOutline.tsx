@@ -0,0 +1,49 @@
+import { useI18n } from "@/hooks/useI18n";
+import type { SlideDefinition } from "@/pages/slideDecks";
+
+interface SlideOutlineProps {
+  slide: SlideDefinition;
+  /** Referenced by the stage's `aria-describedby` */
+  id: string;
+  /** 0-based position in the deck, announced on every slide change */
+  index: number;
+  total: number;
+}
+
+/** Screen-reader-only outline of the current diagram: its components and flows */
+export function SlideOutline({ slide, id, index, total }: SlideOutlineProps) {
+  const { summary, flows } = slide.description;
+  const nodes = slide.Component.details ?? [];
+  const { t } = useI18n();
+  const title = t(slide.title);
+
+  return (
+    <>
+      <p className="sr-only" aria-live="polite">
+        {t("Slide {number} of {total}: {title}", { number: index + 1, total, title })}
+      </p>
+      <section id={id} className="sr-only" aria-label={t("Diagram outline")}>
+        <h2>{title}</h2>
+        <p>{t(summary)}</p>
+        {nodes.length > 0 && (
+          <>
+            <h3>{t("Components")}</h3>
+            <ul>
+              {nodes.map((node) => (
+                <li key={node.id}>
+                  {t(node.title)}: {t(node.summary)}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        <h3>{t("Flows")}</h3>
+        <ol>
+          {flows.map((flow, i) => (
+            <li key={i}>{t(flow)}</li>
+          ))}
+        </ol>
+      </section>
+    </>
+  );
+}
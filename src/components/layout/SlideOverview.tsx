@@ -0,0 +1,62 @@
+import { motion } from "framer-motion";
+import { SlideThumbnail } from "@/components/layout/SlideThumbnail";
+import { useI18n } from "@/hooks/useI18n";
+import type { DeckDefinition } from "@/pages/slideDecks";
+
+interface SlideOverviewProps {
+  decks: DeckDefinition[];
+  /** Deck and slide currently on screen, outlined in the grid */
+  currentBasePath: string;
+  currentSlideId: string;
+  onSelect: (deck: DeckDefinition, index: number) => void;
+}
+
+export function SlideOverview({ decks, currentBasePath, currentSlideId, onSelect }: SlideOverviewProps) {
+  const { t } = useI18n();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2, ease: "easeOut" }}
+      className="fixed inset-0 z-[60] overflow-y-auto px-10 py-8"
+      style={{ background: "var(--bg-primary)" }}
+    >
+      <div className="mb-6 flex items-baseline justify-between">
+        <h2 className="text-3xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
+          Overview
+        </h2>
+        <span className="text-sm" style={{ color: "var(--text-muted)" }}>
+          O / Esc to close · Ctrl+K to search
+        </span>
+      </div>
+
+      {decks.map((deck) => (
+        <section key={deck.basePath} className="mb-10">
+          <h3 className="mb-3 text-sm font-semibold uppercase tracking-widest" style={{ color: "var(--accent-amber)" }}>
+            {deck.name}
+          </h3>
+          <div className="grid grid-cols-3 gap-6">
+            {deck.slides.map((slide, index) => {
+              const current = deck.basePath === currentBasePath && slide.id === currentSlideId;
+              return (
+                <button
+                  key={slide.id}
+                  onClick={() => onSelect(deck, index)}
+                  className="group flex flex-col gap-2 rounded-xl p-1.5 text-left transition-colors duration-150 hover:bg-[var(--bg-card-hover)]"
+                  style={{ outline: current ? "2px solid var(--accent-amber)" : undefined }}
+                >
+                  <SlideThumbnail slide={slide} step={(slide.Component.steps?.length ?? 1) - 1} />
+                  <span className="px-1 text-sm font-medium" style={{ color: current ? "var(--accent-amber)" : "var(--text-secondary)" }}>
+                    {index + 1}. {t(slide.title)}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+    </motion.div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from "react";
+import type { SlideDefinition } from "@/pages/slideDecks";
+
+/** Virtual stage the slide is laid out on before being scaled to fit */
+const STAGE_W = 1600;
+const STAGE_H = 900;
+
+interface SlideThumbnailProps {
+  slide: SlideDefinition;
+  /** Whether the slide runs its reveal + loop animations */
+  active?: boolean;
+  /** Build step to show */
+  step?: number;
+}
+
+export function SlideThumbnail({ slide, active = true, step = 0 }: SlideThumbnailProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(0);
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setScale(entry.contentRect.width / STAGE_W);
+    });
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div
+      ref={frameRef}
+      className="relative w-full overflow-hidden rounded-xl"
+      style={{
+        aspectRatio: `${STAGE_W} / ${STAGE_H}`,
+        background: "var(--bg-primary)",
+        border: "1px solid var(--border-subtle)",
+      }}
+    >
+      <div
+        className="pointer-events-none absolute left-0 top-0 origin-top-left"
+        style={{ width: STAGE_W, height: STAGE_H, transform: `scale(${scale})` }}
+      >
+        <slide.Component key={slide.id} active={active} step={step} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Check, Moon, Sun } from "lucide-react";
+import { AUTO_THEME, type ThemeDefinition } from "@/hooks/useTheme";
+
+interface ThemeMenuProps {
+  /** The theme in effect, which picks the icon */
+  theme: ThemeDefinition;
+  /** The chosen theme id, or `AUTO_THEME` */
+  preference: string;
+  themes: ThemeDefinition[];
+  onSelect: (id: string) => void;
+}
+
+export function ThemeMenu({ theme, preference, themes, onSelect }: ThemeMenuProps) {
+  const [open, setOpen] = useState(false);
+  const items = [{ id: AUTO_THEME, label: "Match system" }, ...themes];
+
+  return (
+    <div className="fixed right-6 top-4 z-50">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="flex h-9 w-9 items-center justify-center rounded-lg transition-all duration-200 hover:scale-110"
+        style={{
+          background: "var(--bg-card)",
+          border: "1px solid var(--border-subtle)",
+          color: "var(--text-secondary)",
+        }}
+        title={`Theme: ${preference === AUTO_THEME ? `${theme.label} (system)` : theme.label}`}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        {theme.scheme === "dark" ? <Moon size={16} /> : <Sun size={16} />}
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 flex w-48 flex-col overflow-hidden rounded-lg py-1"
+          style={{
+            background: "var(--bg-card)",
+            border: "1px solid var(--border-subtle)",
+          }}
+        >
+          {items.map(({ id, label }) => (
+            <button
+              key={id}
+              role="menuitemradio"
+              aria-checked={id === preference}
+              onClick={() => {
+                setOpen(false);
+                onSelect(id);
+              }}
+              className="flex items-center justify-between px-3 py-2 text-left text-sm font-medium transition-colors duration-150 hover:bg-[var(--bg-card-hover)]"
+              style={{ color: id === preference ? "var(--accent-amber)" : "var(--text-secondary)" }}
+            >
+              {label}
+              {id === preference && <Check size={14} />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
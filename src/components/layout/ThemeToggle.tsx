@@ -1,23 +0,0 @@
-import { Sun, Moon } from "lucide-react";
-
-interface ThemeToggleProps {
-  theme: "dark" | "light";
-  onToggle: () => void;
-}
-
-export function ThemeToggle({ theme, onToggle }: ThemeToggleProps) {
-  return (
-    <button
-      onClick={onToggle}
-      className="fixed right-6 top-4 z-50 flex h-9 w-9 items-center justify-center rounded-lg transition-all duration-200 hover:scale-110"
-      style={{
-        background: "var(--bg-card)",
-        border: "1px solid var(--border-subtle)",
-        color: "var(--text-secondary)",
-      }}
-      title={`Switch to ${theme === "dark" ? "light" : "dark"} mode`}
-    >
-      {theme === "dark" ? <Sun size={16} /> : <Moon size={16} />}
-    </button>
-  );
-}
@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+import gsap from "gsap";
+import { Pause, Play, RotateCcw } from "lucide-react";
+import { PLAYBACK_SPEEDS, type TimelineController } from "@/components/slides/shared/timeline-controller";
+
+interface TransportBarProps {
+  controller: TimelineController;
+  playing: boolean;
+  speed: number;
+  /** Disabled while no slide has registered its timelines */
+  attached: boolean;
+}
+
+const SCRUB_STEPS = 1000;
+
+export function TransportBar({ controller, playing, speed, attached }: TransportBarProps) {
+  const scrubRef = useRef<HTMLInputElement>(null);
+  const scrubbingRef = useRef(false);
+
+  /* Follow the timelines on the GSAP ticker instead of re-rendering each frame */
+  useEffect(() => {
+    const follow = () => {
+      const scrub = scrubRef.current;
+      if (scrub && !scrubbingRef.current) scrub.value = String(Math.round(controller.progress() * SCRUB_STEPS));
+    };
+    gsap.ticker.add(follow);
+    return () => gsap.ticker.remove(follow);
+  }, [controller]);
+
+  const buttonClass =
+    "flex h-7 w-7 items-center justify-center rounded-md transition-colors duration-150 hover:bg-[var(--bg-card-hover)] disabled:opacity-40";
+
+  return (
+    <div
+      className="fixed bottom-20 left-1/2 z-50 flex -translate-x-1/2 items-center gap-2 rounded-xl px-3 py-1.5 opacity-40 transition-opacity duration-200 hover:opacity-100 focus-within:opacity-100"
+      style={{
+        background: "var(--bg-card)",
+        border: "1px solid var(--border-subtle)",
+        color: "var(--text-secondary)",
+      }}
+    >
+      <button onClick={controller.toggle} disabled={!attached} className={buttonClass} title={playing ? "Pause (K)" : "Play (K)"}>
+        {playing ? <Pause size={15} /> : <Play size={15} />}
+      </button>
+      <button onClick={controller.restart} disabled={!attached} className={buttonClass} title="Restart slide">
+        <RotateCcw size={14} />
+      </button>
+
+      <input
+        ref={scrubRef}
+        type="range"
+        min={0}
+        max={SCRUB_STEPS}
+        defaultValue={0}
+        disabled={!attached}
+        onPointerDown={() => { scrubbingRef.current = true; }}
+        onPointerUp={(e) => {
+          scrubbingRef.current = false;
+          /* Hand the arrow keys back to slide navigation */
+          e.currentTarget.blur();
+        }}
+        onChange={(e) => controller.seek(Number(e.currentTarget.value) / SCRUB_STEPS)}
+        className="w-56 accent-[var(--accent-amber)]"
+        title="Scrub"
+      />
+
+      <div className="flex items-center gap-0.5" title="Speed (J / L)">
+        {PLAYBACK_SPEEDS.map((s) => (
+          <button
+            key={s}
+            onClick={() => controller.setSpeed(s)}
+            className="rounded-md px-1.5 py-0.5 text-xs font-semibold tabular-nums transition-colors duration-150 hover:bg-[var(--bg-card-hover)]"
+            style={{ color: s === speed ? "var(--accent-amber)" : "var(--text-muted)" }}
+          >
+            {s}x
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
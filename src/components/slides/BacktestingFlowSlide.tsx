@@ -1,10 +1,16 @@
 import { useRef, useEffect } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
 import { VB_W, VB_H, ENGINE_ITEMS, bezierH } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
 import { EngineBox, ENGINE_ITEM_COUNT } from "./shared/engine-box";
 import { animateDot, animateDotReverse } from "./shared/animate-dot";
+import type { NodeDetail } from "./shared/inspect";
+import { frameBoxes, type FocusPreset } from "./shared/focus";
 
 /* ================================================================
  *  BacktestingFlowSlide - Warm Industrial Aesthetic
@@ -19,6 +25,7 @@ import { animateDot, animateDotReverse } from "./shared/animate-dot";
 
 interface BacktestingFlowSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -42,6 +49,15 @@ const CLOCK_CY = ENGINE.cy - ENGINE.h / 2 - 24;
 const AGENT = { cx: 984, cy: 648, w: 192, h: 132 };
 const LLM = { cx: 1248, cy: 648, w: 144, h: 84 };
 
+/* ────────────────────────────────────────────────────────────
+ *  FOCUS PRESETS
+ * ──────────────────────────────────────────────────────────── */
+const FOCUS_PRESETS: FocusPreset[] = [
+  { id: "replay", label: "Replay path", box: frameBoxes([SQLITE, DISPATCHER, ENGINE, REPLAY_OMS]) },
+  { id: "engine", label: "Zoom into the Engine", box: frameBoxes([ENGINE], 60) },
+  { id: "llm", label: "Optional LLM", box: frameBoxes([AGENT, LLM]) },
+];
+
 /* ────────────────────────────────────────────────────────────
  *  Path builders — Including full Agent/LLM integration
  * ──────────────────────────────────────────────────────────── */
@@ -87,18 +103,90 @@ const pathLLMToAgent = (): string => {
   return `M ${x1} ${y1} C ${cpx} ${y1 + 30}, ${cpx} ${y2 + 30}, ${x2} ${y2}`;
 };
 
-
+/* ────────────────────────────────────────────────────────────
+ *  Node details — drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const NODE_DETAILS: NodeDetail[] = [
+  {
+    id: "s3",
+    title: "S3 Historical Data",
+    summary: "Recorded tick data for every trading day, archived per day as compressed SQLite databases.",
+    properties: [{ label: "Format", value: ".db.zst per day" }],
+    links: [{ label: "Amazon S3", href: "https://docs.aws.amazon.com/s3/" }],
+  },
+  {
+    id: "sqlite",
+    title: "SQLite DB",
+    summary: "The requested date range is downloaded and decompressed locally, then read as a tick provider in place of the live feed.",
+    properties: [{ label: "Source", value: "Decompressed .db.zst" }],
+    links: [{ label: "SQLite", href: "https://www.sqlite.org/docs.html" }],
+  },
+  {
+    id: "dispatcher",
+    title: "Backtesting Dispatcher",
+    summary: "Replaces the realtime dispatcher. It feeds ticks strictly in chronological order and advances simulated time with them, so a day replays in minutes.",
+    properties: [
+      { label: "Ordering", value: "Chronological" },
+      { label: "Clock", value: "Simulated, 09:15 → 15:30" },
+    ],
+    diagram: {
+      width: 300,
+      height: 110,
+      nodes: [
+        { id: "live", label: "Realtime", x: 60, y: 30, color: "var(--text-muted)" },
+        { id: "bt", label: "Backtesting", x: 60, y: 80, color: "var(--accent-amber)" },
+        { id: "engine", label: "Same engine", x: 230, y: 55, color: "var(--accent-emerald)" },
+      ],
+      edges: [
+        { from: "live", to: "engine" },
+        { from: "bt", to: "engine" },
+      ],
+    },
+  },
+  {
+    id: "engine",
+    title: "Engine",
+    summary: "The exact engine and strategy code that trades live. Only the dispatcher feeding it and the OMS behind it are swapped.",
+    properties: [
+      { label: "Code", value: "Identical to live" },
+      { label: "Stages", value: ENGINE_ITEMS.join(", ") },
+    ],
+  },
+  {
+    id: "replay-oms",
+    title: "Replay OMS",
+    summary: "Stands in for the broker. Orders fill against the replayed market with simulated slippage, and fills return to the engine as the same events a broker would send.",
+    properties: [
+      { label: "Fills", value: "Simulated, with slippage" },
+      { label: "Interface", value: "Same OMS as live brokers" },
+    ],
+  },
+  {
+    id: "agent",
+    title: "AI Agent",
+    summary: "Runs the same code as in live trading, on simulated time, so its decisions can be benchmarked before deployment.",
+  },
+  {
+    id: "llm",
+    title: "LLM",
+    summary: "Called exactly as in live trading, through the same provider interface.",
+    properties: [{ label: "Providers", value: "Gemini, Claude" }],
+  },
+];
 
 /* ================================================================
  *  Main component
  * ================================================================ */
-export function BacktestingFlowSlide({ active }: BacktestingFlowSlideProps) {
+export function BacktestingFlowSlide({ active, step }: BacktestingFlowSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const loopTlRef = useRef<gsap.core.Timeline | null>(null);
   const clockRef = useRef<SVGTextElement>(null);
 
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
+  const { t } = useI18n();
+
   useEffect(() => {
     if (!active) {
       revealTlRef.current?.pause(0);
@@ -113,8 +201,9 @@ export function BacktestingFlowSlide({ active }: BacktestingFlowSlideProps) {
     loopTlRef.current?.kill();
 
     /* ──────── REVEAL (refined, subtle animations) ──────── */
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("pipeline");
 
     /* Set ALL paths invisible initially (fixes lines-before-boxes issue) */
     const allPaths = svg.querySelectorAll<SVGPathElement>(".ane-path, .int-path, .ret-path, .slow-path");
@@ -131,6 +220,7 @@ export function BacktestingFlowSlide({ active }: BacktestingFlowSlideProps) {
     reveal.fromTo(nodes, { opacity: 0, y: 12 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.04, ease: "power2.out" }, "-=0.2");
 
     /* Paths (after nodes, with opacity) */
+    reveal.addLabel("data flow");
     reveal.to(allPaths, { opacity: 0.35, strokeDashoffset: 0, duration: 0.6, stagger: 0.03, ease: "power1.inOut" });
 
     /* Internal items */
@@ -139,7 +229,8 @@ export function BacktestingFlowSlide({ active }: BacktestingFlowSlideProps) {
 
     /* Badges */
     const badges = svg.querySelectorAll(".badge-node");
-    reveal.fromTo(badges, { opacity: 0, y: 5 }, { opacity: 1, y: 0, duration: 0.35, stagger: 0.05 }, "-=0.2");
+    reveal.addLabel("annotations");
+    reveal.fromTo(badges, { opacity: 0, y: 5 }, { opacity: 1, y: 0, duration: 0.35, stagger: 0.05 });
 
     /* Labels */
     const labels = svg.querySelectorAll(".label-node");
@@ -228,14 +319,16 @@ export function BacktestingFlowSlide({ active }: BacktestingFlowSlideProps) {
     };
   }, [active]);
 
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps: BacktestingFlowSlide.steps, active, step });
+
   return (
     <SlideLayout className="justify-start pt-8">
       <div ref={titleRef} className="mb-4 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          Benchmark AI Before You Deploy
+          {t("Benchmark AI Before You Deploy")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          Test AI agents with production accuracy, then deploy with confidence
+          {t("Test AI agents with production accuracy, then deploy with confidence")}
         </p>
       </div>
 
@@ -250,52 +343,52 @@ export function BacktestingFlowSlide({ active }: BacktestingFlowSlideProps) {
         <rect width={VB_W} height={VB_H} fill="url(#dotgrid)" />
 
         {/* ═══════════ PATHS ═══════════ */}
-        <path d={pathS3ToSqlite()} className="ane-path path-s3-sqlite" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
-        <path d={pathSqliteToDispatcher()} className="ane-path path-sqlite-disp" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
-        <path d={pathDispatcherToEngine()} className="ane-path path-disp-engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
-        <path d={pathEngineToReplayOms()} className="ane-path path-engine-oms" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} opacity={0.35} />
-        <path d={pathReplayOmsToEngine()} className="ret-path path-oms-engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.4} opacity={0.3} strokeDasharray="7 5" />
+        <path d={pathS3ToSqlite()} className="ane-path path-s3-sqlite" data-from="s3" data-to="sqlite" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
+        <path d={pathSqliteToDispatcher()} className="ane-path path-sqlite-disp" data-from="sqlite" data-to="dispatcher" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
+        <path d={pathDispatcherToEngine()} className="ane-path path-disp-engine" data-from="dispatcher" data-to="engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
+        <path d={pathEngineToReplayOms()} className="ane-path path-engine-oms" data-from="engine" data-to="replay-oms" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} opacity={0.35} />
+        <path d={pathReplayOmsToEngine()} className="ret-path path-oms-engine" data-from="replay-oms" data-to="engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.4} opacity={0.3} strokeDasharray="7 5" />
 
         {/* Agent/LLM paths — fully integrated */}
-        <path d={pathEngineToAgent()} className="slow-path path-engine-agent" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} opacity={0.3} />
-        <path d={pathAgentToLLM()} className="slow-path path-agent-llm" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} opacity={0.3} />
-        <path d={pathLLMToAgent()} className="slow-path path-llm-agent" fill="none" stroke="var(--accent-coral)" strokeWidth={1.4} opacity={0.25} strokeDasharray="7 5" />
+        <path d={pathEngineToAgent()} className="slow-path path-engine-agent" data-from="engine" data-to="agent" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} opacity={0.3} />
+        <path d={pathAgentToLLM()} className="slow-path path-agent-llm" data-from="agent" data-to="llm" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} opacity={0.3} />
+        <path d={pathLLMToAgent()} className="slow-path path-llm-agent" data-from="llm" data-to="agent" fill="none" stroke="var(--accent-coral)" strokeWidth={1.4} opacity={0.25} strokeDasharray="7 5" />
 
         {/* ═══════════ NODES ═══════════ */}
 
         {/* S3 */}
-        <g className="ane-node" style={{ opacity: 0 }}>
+        <g className="ane-node" data-node="s3" style={{ opacity: 0 }}>
           <rect x={S3.cx - S3.w / 2} y={S3.cy - S3.h / 2} width={S3.w} height={S3.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={S3.cx} y={S3.cy - 7} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">S3</text>
-          <text x={S3.cx} y={S3.cy + 14} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">Historical Data</text>
+          <text x={S3.cx} y={S3.cy - 7} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">{t("S3")}</text>
+          <text x={S3.cx} y={S3.cy + 14} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">{t("Historical Data")}</text>
         </g>
 
         {/* SQLite DB */}
-        <g className="ane-node" style={{ opacity: 0 }}>
+        <g className="ane-node" data-node="sqlite" style={{ opacity: 0 }}>
           <rect x={SQLITE.cx - SQLITE.w / 2} y={SQLITE.cy - SQLITE.h / 2} width={SQLITE.w} height={SQLITE.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={1.4} />
-          <text x={SQLITE.cx} y={SQLITE.cy - 7} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">SQLite DB</text>
-          <text x={SQLITE.cx} y={SQLITE.cy + 14} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">.db.zst archives</text>
+          <text x={SQLITE.cx} y={SQLITE.cy - 7} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">{t("SQLite DB")}</text>
+          <text x={SQLITE.cx} y={SQLITE.cy + 14} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">{t(".db.zst archives")}</text>
         </g>
 
         {/* Backtesting Dispatcher */}
-        <g className="ane-node" style={{ opacity: 0 }}>
+        <g className="ane-node" data-node="dispatcher" style={{ opacity: 0 }}>
           <rect x={DISPATCHER.cx - DISPATCHER.w / 2} y={DISPATCHER.cy - DISPATCHER.h / 2} width={DISPATCHER.w} height={DISPATCHER.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={1.8} />
-          <text x={DISPATCHER.cx} y={DISPATCHER.cy - 12} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">Backtesting</text>
-          <text x={DISPATCHER.cx} y={DISPATCHER.cy + 10} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">Dispatcher</text>
-          <text x={DISPATCHER.cx} y={DISPATCHER.cy + 31} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">chronological replay</text>
+          <text x={DISPATCHER.cx} y={DISPATCHER.cy - 12} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">{t("Backtesting")}</text>
+          <text x={DISPATCHER.cx} y={DISPATCHER.cy + 10} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">{t("Dispatcher")}</text>
+          <text x={DISPATCHER.cx} y={DISPATCHER.cy + 31} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("chronological replay")}</text>
         </g>
 
         {/* Engine */}
         <EngineBox
           cx={ENGINE.cx} cy={ENGINE.cy} w={ENGINE.w} h={ENGINE.h}
-          label="Engine" engineIdx={0}
+          label="Engine" engineIdx={0} nodeId="engine"
           badge="Same engine code"
         />
 
         {/* Simulated time clock overlay */}
         <g className="badge-node" style={{ opacity: 0 }}>
           <rect x={CLOCK_CX - 60} y={CLOCK_CY - 17} width={120} height={34} rx={7} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.2} />
-          <text x={CLOCK_CX - 24} y={CLOCK_CY + 5} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Time:</text>
+          <text x={CLOCK_CX - 24} y={CLOCK_CY + 5} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("Time:")}</text>
           <text ref={clockRef} x={CLOCK_CX + 24} y={CLOCK_CY + 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-orange)">09:15</text>
         </g>
 
@@ -307,30 +400,30 @@ export function BacktestingFlowSlide({ active }: BacktestingFlowSlideProps) {
             fill="color-mix(in srgb, var(--accent-emerald) 18%, transparent)"
             stroke="var(--accent-emerald)" strokeWidth={0.8}
           />
-          <text x={ENGINE.cx} y={ENGINE.cy + ENGINE.h / 2 + 28} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-emerald)">Same strategy code</text>
+          <text x={ENGINE.cx} y={ENGINE.cy + ENGINE.h / 2 + 28} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-emerald)">{t("Same strategy code")}</text>
         </g>
 
         {/* Replay OMS */}
-        <g className="ane-node" style={{ opacity: 0 }}>
+        <g className="ane-node" data-node="replay-oms" style={{ opacity: 0 }}>
           <rect x={REPLAY_OMS.cx - REPLAY_OMS.w / 2} y={REPLAY_OMS.cy - REPLAY_OMS.h / 2} width={REPLAY_OMS.w} height={REPLAY_OMS.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={REPLAY_OMS.cx} y={REPLAY_OMS.cy - 10} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">Replay OMS</text>
-          <text x={REPLAY_OMS.cx} y={REPLAY_OMS.cy + 12} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">slippage simulation</text>
-          <text x={REPLAY_OMS.cx} y={REPLAY_OMS.cy + 29} textAnchor="middle" className="text-[11px]" fill="var(--accent-orange)" opacity={0.8}>simulated fills</text>
+          <text x={REPLAY_OMS.cx} y={REPLAY_OMS.cy - 10} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">{t("Replay OMS")}</text>
+          <text x={REPLAY_OMS.cx} y={REPLAY_OMS.cy + 12} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">{t("slippage simulation")}</text>
+          <text x={REPLAY_OMS.cx} y={REPLAY_OMS.cy + 29} textAnchor="middle" className="text-[11px]" fill="var(--accent-orange)" opacity={0.8}>{t("simulated fills")}</text>
         </g>
 
         {/* AI Agent — Fully integrated in backtest */}
-        <g className="ane-node" style={{ opacity: 0 }}>
+        <g className="ane-node" data-node="agent" style={{ opacity: 0 }}>
           <rect x={AGENT.cx - AGENT.w / 2} y={AGENT.cy - AGENT.h / 2} width={AGENT.w} height={AGENT.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.4} />
-          <text x={AGENT.cx} y={AGENT.cy - 24} textAnchor="middle" className="text-[16px] font-bold" fill="var(--accent-coral)">AI Agent</text>
-          <text x={AGENT.cx} y={AGENT.cy + 2} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">Same agent code</text>
-          <text x={AGENT.cx} y={AGENT.cy + 22} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">as live trading</text>
+          <text x={AGENT.cx} y={AGENT.cy - 24} textAnchor="middle" className="text-[16px] font-bold" fill="var(--accent-coral)">{t("AI Agent")}</text>
+          <text x={AGENT.cx} y={AGENT.cy + 2} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">{t("Same agent code")}</text>
+          <text x={AGENT.cx} y={AGENT.cy + 22} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("as live trading")}</text>
         </g>
 
         {/* LLM — Fully integrated in backtest */}
-        <g className="ane-node" style={{ opacity: 0 }}>
+        <g className="ane-node" data-node="llm" style={{ opacity: 0 }}>
           <rect x={LLM.cx - LLM.w / 2} y={LLM.cy - LLM.h / 2} width={LLM.w} height={LLM.h} rx={19} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.4} />
-          <text x={LLM.cx} y={LLM.cy - 7} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-coral)">LLM</text>
-          <text x={LLM.cx} y={LLM.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Gemini / Claude</text>
+          <text x={LLM.cx} y={LLM.cy - 7} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-coral)">{t("LLM")}</text>
+          <text x={LLM.cx} y={LLM.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("Gemini / Claude")}</text>
         </g>
 
         {/* Agent integration badge */}
@@ -341,56 +434,62 @@ export function BacktestingFlowSlide({ active }: BacktestingFlowSlideProps) {
             fill="color-mix(in srgb, var(--accent-coral) 15%, transparent)"
             stroke="var(--accent-coral)" strokeWidth={0.6}
           />
-          <text x={AGENT.cx} y={AGENT.cy + AGENT.h / 2 + 24} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-coral)">AI Agent runs identically in backtest</text>
+          <text x={AGENT.cx} y={AGENT.cy + AGENT.h / 2 + 24} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-coral)">{t("AI Agent runs identically in backtest")}</text>
         </g>
 
         {/* ═══════════ CALLOUTS ═══════════ */}
         <g className="label-node" style={{ opacity: 0 }}>
           <rect x={DISPATCHER.cx - 78} y={DISPATCHER.cy + DISPATCHER.h / 2 + 12} width={156} height={26} rx={5} fill="color-mix(in srgb, var(--accent-amber) 18%, transparent)" stroke="var(--accent-amber)" strokeWidth={0.8} />
-          <text x={DISPATCHER.cx} y={DISPATCHER.cy + DISPATCHER.h / 2 + 30} textAnchor="middle" className="text-[12px] font-semibold" fill="var(--accent-amber)">Simulated time</text>
+          <text x={DISPATCHER.cx} y={DISPATCHER.cy + DISPATCHER.h / 2 + 30} textAnchor="middle" className="text-[12px] font-semibold" fill="var(--accent-amber)">{t("Simulated time")}</text>
         </g>
 
         <g className="label-node" style={{ opacity: 0 }}>
           <rect x={REPLAY_OMS.cx - 66} y={REPLAY_OMS.cy + REPLAY_OMS.h / 2 + 12} width={132} height={26} rx={5} fill="color-mix(in srgb, var(--accent-orange) 18%, transparent)" stroke="var(--accent-orange)" strokeWidth={0.8} />
-          <text x={REPLAY_OMS.cx} y={REPLAY_OMS.cy + REPLAY_OMS.h / 2 + 30} textAnchor="middle" className="text-[12px] font-semibold" fill="var(--accent-orange)">Slippage injection</text>
+          <text x={REPLAY_OMS.cx} y={REPLAY_OMS.cy + REPLAY_OMS.h / 2 + 30} textAnchor="middle" className="text-[12px] font-semibold" fill="var(--accent-orange)">{t("Slippage injection")}</text>
         </g>
 
         {/* Path labels */}
-        <text x={(ENGINE.cx + ENGINE.w / 2 + REPLAY_OMS.cx - REPLAY_OMS.w / 2) / 2} y={REPLAY_OMS.cy - REPLAY_OMS.h / 2 - 10} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-coral)" opacity={0}>Orders</text>
-        <text x={(ENGINE.cx + ENGINE.w / 2 + REPLAY_OMS.cx - REPLAY_OMS.w / 2) / 2} y={ENGINE.cy + ENGINE.h / 2 + 26} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-emerald)" opacity={0}>Simulated Fills</text>
+        <text x={(ENGINE.cx + ENGINE.w / 2 + REPLAY_OMS.cx - REPLAY_OMS.w / 2) / 2} y={REPLAY_OMS.cy - REPLAY_OMS.h / 2 - 10} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-coral)" opacity={0}>{t("Orders")}</text>
+        <text x={(ENGINE.cx + ENGINE.w / 2 + REPLAY_OMS.cx - REPLAY_OMS.w / 2) / 2} y={ENGINE.cy + ENGINE.h / 2 + 26} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-emerald)" opacity={0}>{t("Simulated Fills")}</text>
 
         {/* Fast-forward indicator (top right) */}
         <g className="badge-node" style={{ opacity: 0 }}>
           <rect x={VB_W - 180} y={36} width={144} height={34} rx={7} fill="color-mix(in srgb, var(--accent-amber) 15%, transparent)" stroke="var(--accent-amber)" strokeWidth={1} />
-          <text x={VB_W - 108} y={59} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-amber)">▶▶ Fast replay</text>
+          <text x={VB_W - 108} y={59} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-amber)">{t("▶▶ Fast replay")}</text>
         </g>
 
         {/* ═══════════ WHY THIS MATTERS FOR AI - KEY CALLOUT ═══════════ */}
         <g className="badge-node" style={{ opacity: 0 }}>
           <rect x={36} y={VB_H - 190} width={440} height={155} rx={12} fill="color-mix(in srgb, var(--accent-emerald) 12%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1.5} />
-          <text x={60} y={VB_H - 158} className="text-[15px] font-bold" fill="var(--accent-emerald)">Why This Matters for AI</text>
-          <text x={60} y={VB_H - 130} className="text-[12px]" fill="var(--text-muted)">• AI agent runs identical code in backtest</text>
-          <text x={60} y={VB_H - 106} className="text-[12px]" fill="var(--text-muted)">• Benchmark performance before deployment</text>
-          <text x={60} y={VB_H - 82} className="text-[12px]" fill="var(--text-muted)">• Build confidence with production-accurate results</text>
-          <text x={60} y={VB_H - 54} className="text-[11px] font-semibold" fill="var(--accent-emerald)">Impossible with traditional setups — different code</text>
-          <text x={60} y={VB_H - 38} className="text-[11px] font-semibold" fill="var(--accent-emerald)">means you can't trust AI backtests</text>
+          <text x={60} y={VB_H - 158} className="text-[15px] font-bold" fill="var(--accent-emerald)">{t("Why This Matters for AI")}</text>
+          <text x={60} y={VB_H - 130} className="text-[12px]" fill="var(--text-muted)">{t("• AI agent runs identical code in backtest")}</text>
+          <text x={60} y={VB_H - 106} className="text-[12px]" fill="var(--text-muted)">{t("• Benchmark performance before deployment")}</text>
+          <text x={60} y={VB_H - 82} className="text-[12px]" fill="var(--text-muted)">{t("• Build confidence with production-accurate results")}</text>
+          <text x={60} y={VB_H - 54} className="text-[11px] font-semibold" fill="var(--accent-emerald)">{t("Impossible with traditional setups — different code")}</text>
+          <text x={60} y={VB_H - 38} className="text-[11px] font-semibold" fill="var(--accent-emerald)">{t("means you can't trust AI backtests")}</text>
         </g>
 
         {/* ═══════════ DOTS ═══════════ */}
-        <circle className="dot-s3-sqlite" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
-        <circle className="dot-sqlite-disp" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
-        <circle className="dot-disp-engine" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-s3-sqlite" data-flow="tick" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-sqlite-disp" data-flow="tick" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-disp-engine" data-flow="tick" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
         {ENGINE_ITEMS.map((_, i) => (
-          <circle key={`id-${i}`} className={`int-dot-0-${i}`} r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+          <circle key={`id-${i}`} className={`int-dot-0-${i}`} data-flow="tick" r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         ))}
-        <circle className="dot-engine-oms" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-oms-engine" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-engine-oms" data-flow="order" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-oms-engine" data-flow="fill" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         
         {/* Agent/LLM dots */}
-        <circle className="dot-engine-agent" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-agent-llm" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-llm-agent" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-engine-agent" data-flow="data" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-agent-llm" data-flow="data" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-llm-agent" data-flow="data" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+BacktestingFlowSlide.steps = ["pipeline", "data flow", "annotations"];
+BacktestingFlowSlide.details = NODE_DETAILS;
+BacktestingFlowSlide.focus = FOCUS_PRESETS;
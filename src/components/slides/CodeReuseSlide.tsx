@@ -1,9 +1,14 @@
 import { useRef, useEffect } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
 import { VB_W, VB_H, ENGINE_ITEMS, bezierH, itemY, ITEM_W, ITEM_H } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
 import { animateDot, animateDotReverse } from "./shared/animate-dot";
+import type { NodeDetail } from "./shared/inspect";
 
 /* ================================================================
  *  CodeReuseSlide - "One Codebase, Two Modes"
@@ -17,6 +22,7 @@ import { animateDot, animateDotReverse } from "./shared/animate-dot";
 
 interface CodeReuseSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -86,8 +92,10 @@ function pathBtOmsToEngine(): string {
  *  Central Engine Box Component
  * ================================================================ */
 function CentralEngineBox() {
+  const { t } = useI18n();
+
   return (
-    <g className="engine-node" style={{ opacity: 0 }}>
+    <g className="engine-node" data-node="engine" style={{ opacity: 0 }}>
       {/* Outer glow */}
       <rect
         x={ENGINE.cx - ENGINE.w / 2 - 4}
@@ -115,7 +123,7 @@ function CentralEngineBox() {
 
       {/* Engine label */}
       <text x={ENGINE.cx} y={ENGINE.cy - ENGINE.h / 2 + 28} textAnchor="middle" className="text-[17px] font-bold" fill="var(--accent-amber)">
-        Anekant Engine
+        {t("Anekant Engine")}
       </text>
 
       {/* Internal items */}
@@ -135,7 +143,7 @@ function CentralEngineBox() {
               opacity={0.8}
             />
             <text x={ENGINE.cx} y={iy + 5} textAnchor="middle" className="text-[12px] font-semibold" fill="var(--accent-emerald)">
-              {item}
+              {t(item)}
             </text>
           </g>
         );
@@ -144,15 +152,69 @@ function CentralEngineBox() {
   );
 }
 
+/* ────────────────────────────────────────────────────────────
+ *  NODE DETAILS — drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const NODE_DETAILS: NodeDetail[] = [
+  {
+    id: "live-exchange",
+    title: "Exchange",
+    summary: "Live mode's data source: ticks arrive as they happen on the market.",
+  },
+  {
+    id: "live-redis",
+    title: "Redis Streams",
+    summary: "Carries live ticks to the engine in real time.",
+  },
+  {
+    id: "engine",
+    title: "Anekant Engine",
+    summary: "The same engine and strategy code in both modes. Only what feeds it and what receives its orders changes.",
+    properties: [{ label: "Shared", value: "Indicators, async I/O, strategy code" }],
+  },
+  {
+    id: "live-broker",
+    title: "Broker",
+    summary: "Live mode's order sink: real orders go out and real fills come back.",
+  },
+  {
+    id: "bt-s3",
+    title: "S3",
+    summary: "Backtest mode's data source: recorded historical market data.",
+  },
+  {
+    id: "bt-dispatcher",
+    title: "Backtesting Dispatcher",
+    summary: "Replays historical data into the engine on a simulated clock, in place of Redis Streams.",
+  },
+  {
+    id: "replay-oms",
+    title: "Replay OMS",
+    summary: "Backtest mode's order sink: fills orders against the recorded market and returns simulated fills.",
+  },
+  {
+    id: "granularity",
+    title: "Granularity Options",
+    summary: "Replay 1-minute bars for speed or every tick for accuracy.",
+    properties: [
+      { label: "Fast", value: "1-min bars, ~100x speed" },
+      { label: "Accurate", value: "Tick-by-tick replay" },
+    ],
+  },
+];
+
 /* ================================================================
  *  COMPONENT
  * ================================================================ */
-export function CodeReuseSlide({ active }: CodeReuseSlideProps) {
+export function CodeReuseSlide({ active, step }: CodeReuseSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const loopTlRef = useRef<gsap.core.Timeline | null>(null);
 
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
+  const { t } = useI18n();
+
   useEffect(() => {
     if (!active) {
       revealTlRef.current?.pause(0);
@@ -166,8 +228,9 @@ export function CodeReuseSlide({ active }: CodeReuseSlideProps) {
     revealTlRef.current?.kill();
     loopTlRef.current?.kill();
 
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("shared engine");
 
     const allPaths = svg.querySelectorAll<SVGPathElement>(".flow-path, .ret-path");
     allPaths.forEach((p) => {
@@ -190,12 +253,14 @@ export function CodeReuseSlide({ active }: CodeReuseSlideProps) {
     reveal.fromTo(items, { opacity: 0, x: -8 }, { opacity: 1, x: 0, duration: 0.3, stagger: 0.04, ease: "power2.out" }, "-=0.2");
 
     const sideNodes = svg.querySelectorAll(".side-node");
-    reveal.fromTo(sideNodes, { opacity: 0 }, { opacity: 1, duration: 0.4, stagger: 0.05, ease: "power2.out" }, "-=0.2");
+    reveal.addLabel("live & backtest");
+    reveal.fromTo(sideNodes, { opacity: 0 }, { opacity: 1, duration: 0.4, stagger: 0.05, ease: "power2.out" });
 
     reveal.to(allPaths, { opacity: 0.4, strokeDashoffset: 0, duration: 0.6, stagger: 0.03, ease: "power1.inOut" });
 
     const granularityBadges = svg.querySelectorAll(".granularity-badge");
-    reveal.fromTo(granularityBadges, { opacity: 0, y: 5 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.1, ease: "power2.out" }, "-=0.2");
+    reveal.addLabel("granularity");
+    reveal.fromTo(granularityBadges, { opacity: 0, y: 5 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.1, ease: "power2.out" });
 
     const loop = gsap.timeline({ repeat: -1, repeatDelay: 0.3, paused: true });
     loopTlRef.current = loop;
@@ -249,14 +314,16 @@ export function CodeReuseSlide({ active }: CodeReuseSlideProps) {
     };
   }, [active]);
 
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps: CodeReuseSlide.steps, active, step });
+
   return (
     <SlideLayout className="justify-start pt-6">
       <div ref={titleRef} className="mb-2 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          One Engine, Live & Backtest
+          {t("One Engine, Live & Backtest")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          Same engine, same strategy, same indicators
+          {t("Same engine, same strategy, same indicators")}
         </p>
       </div>
 
@@ -273,27 +340,27 @@ export function CodeReuseSlide({ active }: CodeReuseSlideProps) {
         {/* ═══════════ COLUMN HEADERS ═══════════ */}
         <g className="col-header" style={{ opacity: 0 }}>
           <rect x={50} y={130} width={240} height={40} rx={8} fill="color-mix(in srgb, var(--accent-amber) 15%, transparent)" stroke="var(--accent-amber)" strokeWidth={1} />
-          <text x={170} y={157} textAnchor="middle" className="text-[15px] font-bold uppercase tracking-wide" fill="var(--accent-amber)">Live Trading</text>
+          <text x={170} y={157} textAnchor="middle" className="text-[15px] font-bold uppercase tracking-wide" fill="var(--accent-amber)">{t("Live Trading")}</text>
         </g>
 
         <g className="col-header" style={{ opacity: 0 }}>
           <rect x={VB_W - 290} y={130} width={240} height={40} rx={8} fill="color-mix(in srgb, var(--accent-coral) 15%, transparent)" stroke="var(--accent-coral)" strokeWidth={1} />
-          <text x={VB_W - 170} y={157} textAnchor="middle" className="text-[15px] font-bold uppercase tracking-wide" fill="var(--accent-coral)">Backtesting</text>
+          <text x={VB_W - 170} y={157} textAnchor="middle" className="text-[15px] font-bold uppercase tracking-wide" fill="var(--accent-coral)">{t("Backtesting")}</text>
         </g>
 
         {/* ═══════════ PATHS ═══════════ */}
         
         {/* Live side paths */}
-        <path d={pathLiveExchangeToRedis()} className="flow-path path-live-ex-redis" fill="none" stroke="var(--accent-amber)" strokeWidth={2} />
-        <path d={pathLiveRedisToEngine()} className="flow-path path-live-redis-engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2} />
-        <path d={pathLiveEngineToBroker()} className="flow-path path-live-engine-broker" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
-        <path d={pathLiveBrokerToEngine()} className="ret-path path-live-broker-engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
+        <path d={pathLiveExchangeToRedis()} className="flow-path path-live-ex-redis" data-from="live-exchange" data-to="live-redis" fill="none" stroke="var(--accent-amber)" strokeWidth={2} />
+        <path d={pathLiveRedisToEngine()} className="flow-path path-live-redis-engine" data-from="live-redis" data-to="engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2} />
+        <path d={pathLiveEngineToBroker()} className="flow-path path-live-engine-broker" data-from="engine" data-to="live-broker" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
+        <path d={pathLiveBrokerToEngine()} className="ret-path path-live-broker-engine" data-from="live-broker" data-to="engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
 
         {/* Backtest side paths */}
-        <path d={pathBtS3ToDispatcher()} className="flow-path path-bt-s3-disp" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
-        <path d={pathBtDispatcherToEngine()} className="flow-path path-bt-disp-engine" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
-        <path d={pathBtEngineToOms()} className="flow-path path-bt-engine-oms" fill="none" stroke="var(--accent-amber)" strokeWidth={2} />
-        <path d={pathBtOmsToEngine()} className="ret-path path-bt-oms-engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
+        <path d={pathBtS3ToDispatcher()} className="flow-path path-bt-s3-disp" data-from="bt-s3" data-to="bt-dispatcher" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
+        <path d={pathBtDispatcherToEngine()} className="flow-path path-bt-disp-engine" data-from="bt-dispatcher" data-to="engine" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
+        <path d={pathBtEngineToOms()} className="flow-path path-bt-engine-oms" data-from="engine" data-to="replay-oms" fill="none" stroke="var(--accent-amber)" strokeWidth={2} />
+        <path d={pathBtOmsToEngine()} className="ret-path path-bt-oms-engine" data-from="replay-oms" data-to="engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
 
         {/* ═══════════ CENTRAL ENGINE ═══════════ */}
         <CentralEngineBox />
@@ -301,97 +368,102 @@ export function CodeReuseSlide({ active }: CodeReuseSlideProps) {
         {/* ═══════════ SAME CODE BADGES ═══════════ */}
         <g className="same-code-badge" style={{ opacity: 0 }}>
           <rect x={ENGINE.cx - 85} y={ENGINE.cy - ENGINE.h / 2 - 50} width={170} height={32} rx={8} fill="color-mix(in srgb, var(--accent-emerald) 20%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1.2} />
-          <text x={ENGINE.cx} y={ENGINE.cy - ENGINE.h / 2 - 28} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-emerald)">Same Engine Code</text>
+          <text x={ENGINE.cx} y={ENGINE.cy - ENGINE.h / 2 - 28} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-emerald)">{t("Same Engine Code")}</text>
         </g>
 
         <g className="same-code-badge" style={{ opacity: 0 }}>
           <rect x={ENGINE.cx - 90} y={ENGINE.cy + ENGINE.h / 2 + 15} width={180} height={32} rx={8} fill="color-mix(in srgb, var(--accent-emerald) 20%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1.2} />
-          <text x={ENGINE.cx} y={ENGINE.cy + ENGINE.h / 2 + 37} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-emerald)">Same Strategy Code</text>
+          <text x={ENGINE.cx} y={ENGINE.cy + ENGINE.h / 2 + 37} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-emerald)">{t("Same Strategy Code")}</text>
         </g>
 
         {/* ═══════════ LEFT SIDE NODES (Live) ═══════════ */}
         
         {/* Exchange */}
-        <g className="side-node" style={{ opacity: 0 }}>
+        <g className="side-node" data-node="live-exchange" style={{ opacity: 0 }}>
           <rect x={LIVE_EXCHANGE.cx - LIVE_EXCHANGE.w / 2} y={LIVE_EXCHANGE.cy - LIVE_EXCHANGE.h / 2} width={LIVE_EXCHANGE.w} height={LIVE_EXCHANGE.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={LIVE_EXCHANGE.cx} y={LIVE_EXCHANGE.cy - 5} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-primary)">Exchange</text>
-          <text x={LIVE_EXCHANGE.cx} y={LIVE_EXCHANGE.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">live ticks</text>
+          <text x={LIVE_EXCHANGE.cx} y={LIVE_EXCHANGE.cy - 5} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-primary)">{t("Exchange")}</text>
+          <text x={LIVE_EXCHANGE.cx} y={LIVE_EXCHANGE.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("live ticks")}</text>
         </g>
 
         {/* Redis */}
-        <g className="side-node" style={{ opacity: 0 }}>
+        <g className="side-node" data-node="live-redis" style={{ opacity: 0 }}>
           <rect x={LIVE_REDIS.cx - LIVE_REDIS.w / 2} y={LIVE_REDIS.cy - LIVE_REDIS.h / 2} width={LIVE_REDIS.w} height={LIVE_REDIS.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={1.4} />
-          <text x={LIVE_REDIS.cx} y={LIVE_REDIS.cy - 8} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">Redis</text>
-          <text x={LIVE_REDIS.cx} y={LIVE_REDIS.cy + 10} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">Streams</text>
-          <text x={LIVE_REDIS.cx} y={LIVE_REDIS.cy + 28} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">real-time</text>
+          <text x={LIVE_REDIS.cx} y={LIVE_REDIS.cy - 8} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">{t("Redis")}</text>
+          <text x={LIVE_REDIS.cx} y={LIVE_REDIS.cy + 10} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">{t("Streams")}</text>
+          <text x={LIVE_REDIS.cx} y={LIVE_REDIS.cy + 28} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">{t("real-time")}</text>
         </g>
 
         {/* Broker */}
-        <g className="side-node" style={{ opacity: 0 }}>
+        <g className="side-node" data-node="live-broker" style={{ opacity: 0 }}>
           <rect x={LIVE_BROKER.cx - LIVE_BROKER.w / 2} y={LIVE_BROKER.cy - LIVE_BROKER.h / 2} width={LIVE_BROKER.w} height={LIVE_BROKER.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={LIVE_BROKER.cx} y={LIVE_BROKER.cy - 5} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-primary)">Broker</text>
-          <text x={LIVE_BROKER.cx} y={LIVE_BROKER.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">real orders</text>
+          <text x={LIVE_BROKER.cx} y={LIVE_BROKER.cy - 5} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-primary)">{t("Broker")}</text>
+          <text x={LIVE_BROKER.cx} y={LIVE_BROKER.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("real orders")}</text>
         </g>
 
         {/* Fills label */}
-        <text x={LIVE_BROKER.cx} y={LIVE_BROKER.cy + LIVE_BROKER.h / 2 + 20} textAnchor="middle" className="side-node text-[10px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0 }}>fills</text>
+        <text x={LIVE_BROKER.cx} y={LIVE_BROKER.cy + LIVE_BROKER.h / 2 + 20} textAnchor="middle" className="side-node text-[10px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0 }}>{t("fills")}</text>
 
         {/* ═══════════ RIGHT SIDE NODES (Backtest) ═══════════ */}
         
         {/* S3 */}
-        <g className="side-node" style={{ opacity: 0 }}>
+        <g className="side-node" data-node="bt-s3" style={{ opacity: 0 }}>
           <rect x={BT_S3.cx - BT_S3.w / 2} y={BT_S3.cy - BT_S3.h / 2} width={BT_S3.w} height={BT_S3.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={BT_S3.cx} y={BT_S3.cy - 5} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-primary)">S3</text>
-          <text x={BT_S3.cx} y={BT_S3.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">historical data</text>
+          <text x={BT_S3.cx} y={BT_S3.cy - 5} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-primary)">{t("S3")}</text>
+          <text x={BT_S3.cx} y={BT_S3.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("historical data")}</text>
         </g>
 
         {/* Backtesting Dispatcher */}
-        <g className="side-node" style={{ opacity: 0 }}>
+        <g className="side-node" data-node="bt-dispatcher" style={{ opacity: 0 }}>
           <rect x={BT_DISPATCHER.cx - BT_DISPATCHER.w / 2} y={BT_DISPATCHER.cy - BT_DISPATCHER.h / 2} width={BT_DISPATCHER.w} height={BT_DISPATCHER.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.4} />
-          <text x={BT_DISPATCHER.cx} y={BT_DISPATCHER.cy - 8} textAnchor="middle" className="text-[12px] font-bold" fill="var(--text-primary)">Backtesting</text>
-          <text x={BT_DISPATCHER.cx} y={BT_DISPATCHER.cy + 10} textAnchor="middle" className="text-[12px] font-bold" fill="var(--text-primary)">Dispatcher</text>
-          <text x={BT_DISPATCHER.cx} y={BT_DISPATCHER.cy + 28} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">simulated time</text>
+          <text x={BT_DISPATCHER.cx} y={BT_DISPATCHER.cy - 8} textAnchor="middle" className="text-[12px] font-bold" fill="var(--text-primary)">{t("Backtesting")}</text>
+          <text x={BT_DISPATCHER.cx} y={BT_DISPATCHER.cy + 10} textAnchor="middle" className="text-[12px] font-bold" fill="var(--text-primary)">{t("Dispatcher")}</text>
+          <text x={BT_DISPATCHER.cx} y={BT_DISPATCHER.cy + 28} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">{t("simulated time")}</text>
         </g>
 
         {/* Replay OMS */}
-        <g className="side-node" style={{ opacity: 0 }}>
+        <g className="side-node" data-node="replay-oms" style={{ opacity: 0 }}>
           <rect x={BT_REPLAY_OMS.cx - BT_REPLAY_OMS.w / 2} y={BT_REPLAY_OMS.cy - BT_REPLAY_OMS.h / 2} width={BT_REPLAY_OMS.w} height={BT_REPLAY_OMS.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={BT_REPLAY_OMS.cx} y={BT_REPLAY_OMS.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">Replay OMS</text>
-          <text x={BT_REPLAY_OMS.cx} y={BT_REPLAY_OMS.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">simulated fills</text>
+          <text x={BT_REPLAY_OMS.cx} y={BT_REPLAY_OMS.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">{t("Replay OMS")}</text>
+          <text x={BT_REPLAY_OMS.cx} y={BT_REPLAY_OMS.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("simulated fills")}</text>
         </g>
 
         {/* Fills label */}
-        <text x={BT_REPLAY_OMS.cx} y={BT_REPLAY_OMS.cy + BT_REPLAY_OMS.h / 2 + 20} textAnchor="middle" className="side-node text-[10px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0 }}>simulated fills</text>
+        <text x={BT_REPLAY_OMS.cx} y={BT_REPLAY_OMS.cy + BT_REPLAY_OMS.h / 2 + 20} textAnchor="middle" className="side-node text-[10px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0 }}>{t("simulated fills")}</text>
 
         {/* ═══════════ GRANULARITY MODE BADGES ═══════════ */}
-        <g className="granularity-badge" style={{ opacity: 0 }}>
+        <g className="granularity-badge" data-node="granularity" style={{ opacity: 0 }}>
           <rect x={VB_W - 300} y={520} width={260} height={75} rx={10} fill="color-mix(in srgb, var(--accent-coral) 12%, var(--bg-card))" stroke="var(--accent-coral)" strokeWidth={1} />
-          <text x={VB_W - 170} y={545} textAnchor="middle" className="text-[12px] font-bold" fill="var(--accent-coral)">Granularity Options</text>
-          <text x={VB_W - 285} y={568} className="text-[11px]" fill="var(--text-muted)">• Fast: 1-min bars (~100x speed)</text>
-          <text x={VB_W - 285} y={586} className="text-[11px]" fill="var(--text-muted)">• Accurate: tick-by-tick replay</text>
+          <text x={VB_W - 170} y={545} textAnchor="middle" className="text-[12px] font-bold" fill="var(--accent-coral)">{t("Granularity Options")}</text>
+          <text x={VB_W - 285} y={568} className="text-[11px]" fill="var(--text-muted)">{t("• Fast: 1-min bars (~100x speed)")}</text>
+          <text x={VB_W - 285} y={586} className="text-[11px]" fill="var(--text-muted)">{t("• Accurate: tick-by-tick replay")}</text>
         </g>
 
         {/* ═══════════ BOTTOM BENEFITS ═══════════ */}
         <g className="same-code-badge" style={{ opacity: 0 }}>
           <rect x={CENTER_X - 220} y={800} width={440} height={55} rx={10} fill="color-mix(in srgb, var(--accent-emerald) 15%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1.2} />
-          <text x={CENTER_X} y={825} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-emerald)">Backtest results = Production behavior</text>
-          <text x={CENTER_X} y={845} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">Same indicators • Same async I/O • No code divergence</text>
+          <text x={CENTER_X} y={825} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-emerald)">{t("Backtest results = Production behavior")}</text>
+          <text x={CENTER_X} y={845} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">{t("Same indicators • Same async I/O • No code divergence")}</text>
         </g>
 
         {/* ═══════════ FLOW DOTS ═══════════ */}
         
         {/* Live side dots */}
-        <circle className="dot-live-ex-redis" r={5} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
-        <circle className="dot-live-redis-engine" r={5} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
-        <circle className="dot-live-engine-broker" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-live-broker-engine" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-live-ex-redis" data-flow="tick" r={5} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-live-redis-engine" data-flow="tick" r={5} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-live-engine-broker" data-flow="order" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-live-broker-engine" data-flow="fill" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
 
         {/* Backtest side dots */}
-        <circle className="dot-bt-s3-disp" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-bt-disp-engine" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-bt-engine-oms" r={5} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
-        <circle className="dot-bt-oms-engine" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-bt-s3-disp" data-flow="tick" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-bt-disp-engine" data-flow="tick" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-bt-engine-oms" data-flow="order" r={5} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-bt-oms-engine" data-flow="fill" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+CodeReuseSlide.steps = ["shared engine", "live & backtest", "granularity"];
+CodeReuseSlide.details = NODE_DETAILS;
@@ -1,10 +1,19 @@
 import { useRef, useEffect } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useLiveFlows } from "@/hooks/useLiveFlows";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
 import { VB_W, VB_H, ENGINE_ITEMS, bezierH } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
 import { EngineBox, ENGINE_ITEM_COUNT } from "./shared/engine-box";
+import { BoxLabel } from "./shared/box-label";
 import { animateDot, animateDotReverse } from "./shared/animate-dot";
+import type { LiveEvent, LiveFlow } from "./shared/live-events";
+import type { NodeDetail } from "./shared/inspect";
+import type { FocusPreset } from "./shared/focus";
 
 /* ================================================================
  *  EngineFlowSlide - Redesigned for Speed & Architecture Comparison
@@ -16,6 +25,7 @@ import { animateDot, animateDotReverse } from "./shared/animate-dot";
 
 interface EngineFlowSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -34,6 +44,9 @@ const TRAD_STRATEGY = { cx: 640, cy: TRAD_Y, w: TRAD_BOX_W, h: TRAD_BOX_H };
 const TRAD_ORDER = { cx: 775, cy: TRAD_Y, w: TRAD_BOX_W, h: TRAD_BOX_H };
 const TRAD_BROKER = { cx: 910, cy: TRAD_Y, w: 110, h: TRAD_BOX_H };
 
+/* Inspection ids, in pipeline order — trad-path-i joins nodes i and i + 1 */
+const TRAD_NODE_IDS = ["trad-exchange", "trad-poll", "trad-candles", "trad-indicators", "trad-strategy", "trad-order", "trad-broker"];
+
 const WAIT_POSITIONS = [
   { x: (TRAD_POLL.cx + TRAD_CANDLES.cx) / 2, y: TRAD_Y + 40 },
   { x: (TRAD_CANDLES.cx + TRAD_INDICATORS.cx) / 2, y: TRAD_Y + 40 },
@@ -63,6 +76,24 @@ const ENGINES = [
 
 const ANE_BROKER = { cx: 1200, cy: ANE_MID_Y, w: 150, h: 110 };
 
+/* ────────────────────────────────────────────────────────────
+ *  FOCUS PRESETS — the engine internals are too small to read
+ *  on a projector at full view
+ * ──────────────────────────────────────────────────────────── */
+const engineFocus = (i: number): FocusPreset => ({
+  id: `engine-${i}`,
+  label: `Zoom into ${ENGINES[i].label}`,
+  box: [ENGINE_X - 40, ENGINES[i].cy - ENGINE_H / 2 - 30, ENGINE_W + 80, ENGINE_H + 60],
+});
+
+const FOCUS_PRESETS: FocusPreset[] = [
+  { id: "traditional", label: "Traditional row", box: [30, TRAD_Y - 70, 950, 140] },
+  { id: "async", label: "Async row", box: [0, ANE_TOP - 20, VB_W, VB_H - ANE_TOP + 20] },
+  engineFocus(0),
+  { ...engineFocus(1), step: 3 },
+  engineFocus(2),
+];
+
 /* ────────────────────────────────────────────────────────────
  *  PATH BUILDERS
  * ──────────────────────────────────────────────────────────── */
@@ -94,15 +125,118 @@ function aneBrokerToEngine(engineIdx: number): string {
   return `M ${x1} ${y1} C ${cpx} ${y1 + 32}, ${cpx} ${y2 + 32}, ${x2} ${y2}`;
 }
 
+/* ────────────────────────────────────────────────────────────
+ *  LIVE ROUTES — same paths and timing as the Anekant loop,
+ *  scoped to the engine named by the event
+ * ──────────────────────────────────────────────────────────── */
+function liveRoutes(event: LiveEvent): LiveFlow[] {
+  const engines = event.engine === undefined ? ENGINES.map((_, i) => i) : [event.engine];
+
+  switch (event.type) {
+    case "tick":
+      return [
+        { path: ".ane-path-ex-redis", dot: ".ane-dot-ex-redis", duration: 0.5 },
+        ...engines.flatMap((e) => [
+          { path: `.ane-path-r2e-${e}`, dot: `.ane-dot-r2e-${e}`, duration: 0.4, delay: 0.35 },
+          ...ENGINE_ITEMS.map((_, item) => ({
+            path: `.int-path-${e}-${item}`,
+            dot: `.int-dot-${e}-${item}`,
+            duration: 0.3,
+            delay: 0.65 + item * 0.02,
+          })),
+        ]),
+      ];
+    case "order":
+      return engines.map((e) => ({ path: `.ane-path-e2b-${e}`, dot: `.ane-dot-e2b-${e}`, duration: 0.35 }));
+    case "fill":
+      return engines.map((e) => ({ path: `.ret-path-b2e-${e}`, dot: `.ret-dot-b2e-${e}`, duration: 0.35, reverse: true }));
+    default:
+      return [];
+  }
+}
+
+/* ────────────────────────────────────────────────────────────
+ *  NODE DETAILS — drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const TRAD_STEP_DETAIL = "Runs only after the previous step returns, so one slow call stalls every tick queued behind it.";
+
+const NODE_DETAILS: NodeDetail[] = [
+  { id: "trad-exchange", title: "Exchange", summary: "Publishes ticks continuously, whether or not the pipeline is ready to read them." },
+  { id: "trad-poll", title: "Poll API", summary: `Fetches the latest quote over HTTP on a timer. ${TRAD_STEP_DETAIL}`, properties: [{ label: "Transport", value: "HTTP request / response" }] },
+  { id: "trad-candles", title: "Candles", summary: `Rebuilds candles from the polled snapshot. ${TRAD_STEP_DETAIL}` },
+  { id: "trad-indicators", title: "Indicators", summary: `Recomputes every indicator from scratch. ${TRAD_STEP_DETAIL}` },
+  { id: "trad-strategy", title: "Strategy", summary: `Evaluates the strategy on data that is already seconds old. ${TRAD_STEP_DETAIL}` },
+  { id: "trad-order", title: "Place Order", summary: `Sends the order over HTTP and waits for the acknowledgement. ${TRAD_STEP_DETAIL}` },
+  { id: "trad-broker", title: "Broker", summary: "Receives orders one cycle at a time; fills are discovered on the next poll.", properties: [{ label: "Cycle", value: "3-5 s per tick" }] },
+  {
+    id: "exchange",
+    title: "Exchange",
+    summary: "Market data arrives as a push feed. Every tick is published to Redis Streams the moment it lands, without waiting on any consumer.",
+    properties: [{ label: "Delivery", value: "Push, per tick" }],
+  },
+  {
+    id: "redis",
+    title: "Redis Streams",
+    summary: "The real-time bus between market data and engines. Each engine reads the stream independently, so a slow engine never holds up the others, and commands from the AI agent travel on the same bus.",
+    properties: [
+      { label: "Role", value: "Tick and command bus" },
+      { label: "Consumers", value: "Every running engine" },
+      { label: "Ordering", value: "Per stream, append-only" },
+    ],
+    links: [{ label: "Redis Streams", href: "https://redis.io/docs/latest/develop/data-types/streams/" }],
+    diagram: {
+      width: 300,
+      height: 130,
+      nodes: [
+        { id: "feed", label: "Tick feed", x: 60, y: 65, color: "var(--accent-orange)" },
+        { id: "stream", label: "Stream", x: 150, y: 65, color: "var(--accent-coral)" },
+        { id: "e1", label: "Engine 1", x: 245, y: 25 },
+        { id: "e2", label: "Engine 2", x: 245, y: 65 },
+        { id: "e3", label: "Engine 3", x: 245, y: 105 },
+      ],
+      edges: [
+        { from: "feed", to: "stream" },
+        { from: "stream", to: "e1" },
+        { from: "stream", to: "e2" },
+        { from: "stream", to: "e3" },
+      ],
+    },
+  },
+  ...ENGINES.map((eng, i): NodeDetail => ({
+    id: `engine-${i}`,
+    title: eng.label,
+    summary: "An async event loop dispatches each tick to candles, indicators, metrics and strategy concurrently. Orders go out as soon as the strategy decides; fills come back as events.",
+    properties: [
+      { label: "Dispatch", value: "Async, event-driven" },
+      { label: "Per tick", value: "1-2 ms" },
+      { label: "Stages", value: ENGINE_ITEMS.join(", ") },
+    ],
+    links: [{ label: "Python asyncio", href: "https://docs.python.org/3/library/asyncio.html" }],
+  })),
+  {
+    id: "broker",
+    title: "Broker",
+    summary: "Receives orders from every engine in parallel through the OMS abstraction and streams fills straight back to the engine that placed them.",
+    properties: [
+      { label: "Orders", value: "Engine → Broker" },
+      { label: "Fills", value: "Broker → Engine, as events" },
+    ],
+  },
+];
+
 /* ================================================================
  *  COMPONENT
  * ================================================================ */
-export function EngineFlowSlide({ active }: EngineFlowSlideProps) {
+export function EngineFlowSlide({ active, step }: EngineFlowSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const loopTlRef = useRef<gsap.core.Timeline | null>(null);
 
+  const live = useLiveFlows({ svgRef, revealTlRef, routes: liveRoutes, engines: ENGINES.length, active });
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
+  const { t } = useI18n();
+
   useEffect(() => {
     if (!active) {
       revealTlRef.current?.pause(0);
@@ -117,8 +251,9 @@ export function EngineFlowSlide({ active }: EngineFlowSlideProps) {
     loopTlRef.current?.kill();
 
     /* ──────── REVEAL TIMELINE ──────── */
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("traditional row");
 
     const tradPaths = svg.querySelectorAll<SVGPathElement>(".trad-path");
     const anePaths = svg.querySelectorAll<SVGPathElement>(".ane-path");
@@ -146,7 +281,8 @@ export function EngineFlowSlide({ active }: EngineFlowSlideProps) {
     reveal.fromTo(waitIndicators, { opacity: 0 }, { opacity: 1, duration: 0.3, stagger: 0.05 }, "-=0.2");
 
     const aneNodes = svg.querySelectorAll(".ane-node");
-    reveal.fromTo(aneNodes, { opacity: 0, y: 12 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.04, ease: "power2.out" }, "-=0.1");
+    reveal.addLabel("async engine");
+    reveal.fromTo(aneNodes, { opacity: 0, y: 12 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.04, ease: "power2.out" });
 
     reveal.to(anePaths, { opacity: 0.4, strokeDashoffset: 0, duration: 0.6, stagger: 0.03, ease: "power1.inOut" });
 
@@ -158,13 +294,14 @@ export function EngineFlowSlide({ active }: EngineFlowSlideProps) {
 
     /* Timing callouts - reveal and keep visible */
     const timingCallouts = svg.querySelectorAll(".timing-callout");
-    reveal.fromTo(timingCallouts, { opacity: 0, scale: 0.9 }, { opacity: 1, scale: 1, duration: 0.4, stagger: 0.1, ease: "back.out" }, "-=0.2");
+    reveal.addLabel("timings");
+    reveal.fromTo(timingCallouts, { opacity: 0, scale: 0.9 }, { opacity: 1, scale: 1, duration: 0.4, stagger: 0.1, ease: "back.out" });
 
     /* ──────── LOOPING TIMELINE ──────── */
     const loop = gsap.timeline({ repeat: -1, repeatDelay: 0.3, paused: true });
     loopTlRef.current = loop;
 
-    reveal.eventCallback("onComplete", () => { loop.play(); });
+    reveal.eventCallback("onComplete", () => { if (!live) loop.play(); });
 
     /* ═══ TRADITIONAL: Slow blocking flow ═══ */
     const tradDot = svg.querySelector<SVGCircleElement>(".trad-dot");
@@ -263,16 +400,18 @@ export function EngineFlowSlide({ active }: EngineFlowSlideProps) {
       reveal.kill();
       loop.kill();
     };
-  }, [active]);
+  }, [active, live]);
+
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps: EngineFlowSlide.steps, active, step });
 
   return (
     <SlideLayout className="justify-start pt-6">
       <div ref={titleRef} className="mb-3 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          Speed Matters: Async vs Blocking
+          {t("Speed Matters: Async vs Blocking")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          3-5 seconds vs sub-millisecond tick processing
+          {t("3-5 seconds vs sub-millisecond tick processing")}
         </p>
       </div>
 
@@ -293,108 +432,103 @@ export function EngineFlowSlide({ active }: EngineFlowSlideProps) {
         <g className="row-label" style={{ opacity: 0 }}>
           <rect x={36} y={62} width={300} height={34} rx={7} fill="color-mix(in srgb, var(--accent-red) 14%, transparent)" stroke="var(--accent-red)" strokeWidth={1} opacity={0.8} />
           <text x={186} y={85} textAnchor="middle" className="text-[13px] font-bold uppercase tracking-wider" fill="var(--accent-red)">
-            Traditional (Blocking I/O)
+            {t("Traditional (Blocking I/O)")}
           </text>
         </g>
 
         <g className="row-label" style={{ opacity: 0 }}>
           <rect x={36} y={DIVIDER_Y + 12} width={320} height={34} rx={7} fill="color-mix(in srgb, var(--accent-amber) 14%, transparent)" stroke="var(--accent-amber)" strokeWidth={1} opacity={0.8} />
           <text x={196} y={DIVIDER_Y + 35} textAnchor="middle" className="text-[13px] font-bold uppercase tracking-wider" fill="var(--accent-amber)">
-            Anekant (Async Event-Driven)
+            {t("Anekant (Async Event-Driven)")}
           </text>
         </g>
 
         {/* ═══════════ TRADITIONAL ROW ═══════════ */}
-        <g className="trad-node" style={{ opacity: 0 }}>
+        <g className="trad-node" data-node="trad-exchange" style={{ opacity: 0 }}>
           <rect x={TRAD_EXCHANGE.cx - TRAD_EXCHANGE.w / 2} y={TRAD_EXCHANGE.cy - TRAD_EXCHANGE.h / 2} width={TRAD_EXCHANGE.w} height={TRAD_EXCHANGE.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.2} />
-          <text x={TRAD_EXCHANGE.cx} y={TRAD_EXCHANGE.cy + 5} textAnchor="middle" className="text-[12px] font-bold" fill="var(--accent-red)">Exchange</text>
+          <BoxLabel box={TRAD_EXCHANGE} label={t("Exchange")} color="var(--accent-red)" size={[9, 12]} padding={8} />
         </g>
 
-        <g className="trad-node" style={{ opacity: 0 }}>
+        <g className="trad-node" data-node="trad-poll" style={{ opacity: 0 }}>
           <rect x={TRAD_POLL.cx - TRAD_POLL.w / 2} y={TRAD_POLL.cy - TRAD_POLL.h / 2} width={TRAD_POLL.w} height={TRAD_POLL.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.2} />
-          <text x={TRAD_POLL.cx} y={TRAD_POLL.cy - 3} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-red)">Poll API</text>
-          <text x={TRAD_POLL.cx} y={TRAD_POLL.cy + 11} textAnchor="middle" className="text-[9px]" fill="var(--text-muted)">HTTP</text>
+          <BoxLabel box={TRAD_POLL} label={t("Poll API")} sublabel={t("HTTP")} color="var(--accent-red)" size={[9, 11]} sublabelSize={[7, 9]} padding={8} />
         </g>
 
-        <g className="trad-node" style={{ opacity: 0 }}>
+        <g className="trad-node" data-node="trad-candles" style={{ opacity: 0 }}>
           <rect x={TRAD_CANDLES.cx - TRAD_CANDLES.w / 2} y={TRAD_CANDLES.cy - TRAD_CANDLES.h / 2} width={TRAD_CANDLES.w} height={TRAD_CANDLES.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.2} />
-          <text x={TRAD_CANDLES.cx} y={TRAD_CANDLES.cy - 3} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-red)">Candles</text>
-          <text x={TRAD_CANDLES.cx} y={TRAD_CANDLES.cy + 11} textAnchor="middle" className="text-[9px]" fill="var(--text-muted)">blocking</text>
+          <BoxLabel box={TRAD_CANDLES} label={t("Candles")} sublabel={t("blocking")} color="var(--accent-red)" size={[9, 11]} sublabelSize={[7, 9]} padding={8} />
         </g>
 
-        <g className="trad-node" style={{ opacity: 0 }}>
+        <g className="trad-node" data-node="trad-indicators" style={{ opacity: 0 }}>
           <rect x={TRAD_INDICATORS.cx - TRAD_INDICATORS.w / 2} y={TRAD_INDICATORS.cy - TRAD_INDICATORS.h / 2} width={TRAD_INDICATORS.w} height={TRAD_INDICATORS.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.2} />
-          <text x={TRAD_INDICATORS.cx} y={TRAD_INDICATORS.cy - 3} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-red)">Indicators</text>
-          <text x={TRAD_INDICATORS.cx} y={TRAD_INDICATORS.cy + 11} textAnchor="middle" className="text-[9px]" fill="var(--text-muted)">blocking</text>
+          <BoxLabel box={TRAD_INDICATORS} label={t("Indicators")} sublabel={t("blocking")} color="var(--accent-red)" size={[9, 11]} sublabelSize={[7, 9]} padding={8} />
         </g>
 
-        <g className="trad-node" style={{ opacity: 0 }}>
+        <g className="trad-node" data-node="trad-strategy" style={{ opacity: 0 }}>
           <rect x={TRAD_STRATEGY.cx - TRAD_STRATEGY.w / 2} y={TRAD_STRATEGY.cy - TRAD_STRATEGY.h / 2} width={TRAD_STRATEGY.w} height={TRAD_STRATEGY.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.2} />
-          <text x={TRAD_STRATEGY.cx} y={TRAD_STRATEGY.cy - 3} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-red)">Strategy</text>
-          <text x={TRAD_STRATEGY.cx} y={TRAD_STRATEGY.cy + 11} textAnchor="middle" className="text-[9px]" fill="var(--text-muted)">evaluate</text>
+          <BoxLabel box={TRAD_STRATEGY} label={t("Strategy")} sublabel={t("evaluate")} color="var(--accent-red)" size={[9, 11]} sublabelSize={[7, 9]} padding={8} />
         </g>
 
-        <g className="trad-node" style={{ opacity: 0 }}>
+        <g className="trad-node" data-node="trad-order" style={{ opacity: 0 }}>
           <rect x={TRAD_ORDER.cx - TRAD_ORDER.w / 2} y={TRAD_ORDER.cy - TRAD_ORDER.h / 2} width={TRAD_ORDER.w} height={TRAD_ORDER.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.2} />
-          <text x={TRAD_ORDER.cx} y={TRAD_ORDER.cy - 3} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-red)">Place Order</text>
-          <text x={TRAD_ORDER.cx} y={TRAD_ORDER.cy + 11} textAnchor="middle" className="text-[9px]" fill="var(--text-muted)">HTTP</text>
+          <BoxLabel box={TRAD_ORDER} label={t("Place Order")} sublabel={t("HTTP")} color="var(--accent-red)" size={[9, 11]} sublabelSize={[7, 9]} padding={8} />
         </g>
 
-        <g className="trad-node" style={{ opacity: 0 }}>
+        <g className="trad-node" data-node="trad-broker" style={{ opacity: 0 }}>
           <rect x={TRAD_BROKER.cx - TRAD_BROKER.w / 2} y={TRAD_BROKER.cy - TRAD_BROKER.h / 2} width={TRAD_BROKER.w} height={TRAD_BROKER.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.2} />
-          <text x={TRAD_BROKER.cx} y={TRAD_BROKER.cy + 5} textAnchor="middle" className="text-[12px] font-bold" fill="var(--accent-red)">Broker</text>
+          <BoxLabel box={TRAD_BROKER} label={t("Broker")} color="var(--accent-red)" size={[9, 12]} padding={8} />
         </g>
 
         {/* Traditional paths */}
-        <path d={tradPath(TRAD_EXCHANGE, TRAD_POLL)} className="trad-path trad-path-0" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
-        <path d={tradPath(TRAD_POLL, TRAD_CANDLES)} className="trad-path trad-path-1" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
-        <path d={tradPath(TRAD_CANDLES, TRAD_INDICATORS)} className="trad-path trad-path-2" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
-        <path d={tradPath(TRAD_INDICATORS, TRAD_STRATEGY)} className="trad-path trad-path-3" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
-        <path d={tradPath(TRAD_STRATEGY, TRAD_ORDER)} className="trad-path trad-path-4" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
-        <path d={tradPath(TRAD_ORDER, TRAD_BROKER)} className="trad-path trad-path-5" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
+        <path d={tradPath(TRAD_EXCHANGE, TRAD_POLL)} className="trad-path trad-path-0 dot-route" data-from={TRAD_NODE_IDS[0]} data-to={TRAD_NODE_IDS[1]} fill="none" stroke="var(--accent-red)" strokeWidth={2} />
+        <path d={tradPath(TRAD_POLL, TRAD_CANDLES)} className="trad-path trad-path-1 dot-route" data-from={TRAD_NODE_IDS[1]} data-to={TRAD_NODE_IDS[2]} fill="none" stroke="var(--accent-red)" strokeWidth={2} />
+        <path d={tradPath(TRAD_CANDLES, TRAD_INDICATORS)} className="trad-path trad-path-2 dot-route" data-from={TRAD_NODE_IDS[2]} data-to={TRAD_NODE_IDS[3]} fill="none" stroke="var(--accent-red)" strokeWidth={2} />
+        <path d={tradPath(TRAD_INDICATORS, TRAD_STRATEGY)} className="trad-path trad-path-3 dot-route" data-from={TRAD_NODE_IDS[3]} data-to={TRAD_NODE_IDS[4]} fill="none" stroke="var(--accent-red)" strokeWidth={2} />
+        <path d={tradPath(TRAD_STRATEGY, TRAD_ORDER)} className="trad-path trad-path-4 dot-route" data-from={TRAD_NODE_IDS[4]} data-to={TRAD_NODE_IDS[5]} fill="none" stroke="var(--accent-red)" strokeWidth={2} />
+        <path d={tradPath(TRAD_ORDER, TRAD_BROKER)} className="trad-path trad-path-5 dot-route" data-from={TRAD_NODE_IDS[5]} data-to={TRAD_NODE_IDS[6]} fill="none" stroke="var(--accent-red)" strokeWidth={2} />
 
         {/* Wait indicators */}
         {WAIT_POSITIONS.map((pos, i) => (
           <g key={`wait-${i}`} className={`wait-indicator wait-indicator-${i}`} style={{ opacity: 0 }}>
             <rect x={pos.x - 26} y={pos.y - 9} width={52} height={18} rx={4} fill="color-mix(in srgb, var(--accent-red) 20%, transparent)" stroke="var(--accent-red)" strokeWidth={0.8} />
-            <text x={pos.x} y={pos.y + 4} textAnchor="middle" className="text-[9px] font-semibold" fill="var(--accent-red)">wait...</text>
+            <text x={pos.x} y={pos.y + 4} textAnchor="middle" className="text-[9px] font-semibold" fill="var(--accent-red)">{t("wait...")}</text>
           </g>
         ))}
 
         {/* Traditional timing callout - PERSISTENT */}
         <g className="timing-callout" style={{ opacity: 0 }}>
           <rect x={TRAD_BROKER.cx + TRAD_BROKER.w / 2 + 25} y={TRAD_Y - 40} width={160} height={80} rx={10} fill="color-mix(in srgb, var(--accent-red) 15%, var(--bg-card))" stroke="var(--accent-red)" strokeWidth={1.5} />
-          <text x={TRAD_BROKER.cx + TRAD_BROKER.w / 2 + 105} y={TRAD_Y - 15} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-red)">3-5 sec</text>
-          <text x={TRAD_BROKER.cx + TRAD_BROKER.w / 2 + 105} y={TRAD_Y + 5} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">per tick cycle</text>
-          <text x={TRAD_BROKER.cx + TRAD_BROKER.w / 2 + 105} y={TRAD_Y + 25} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-red)">Synchronous</text>
-          <text x={TRAD_BROKER.cx + TRAD_BROKER.w / 2 + 105} y={TRAD_Y + 38} textAnchor="middle" className="text-[10px]" fill="var(--accent-red)">Blocking I/O</text>
+          <text x={TRAD_BROKER.cx + TRAD_BROKER.w / 2 + 105} y={TRAD_Y - 15} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-red)">{t("3-5 sec")}</text>
+          <text x={TRAD_BROKER.cx + TRAD_BROKER.w / 2 + 105} y={TRAD_Y + 5} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("per tick cycle")}</text>
+          <text x={TRAD_BROKER.cx + TRAD_BROKER.w / 2 + 105} y={TRAD_Y + 25} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-red)">{t("Synchronous")}</text>
+          <text x={TRAD_BROKER.cx + TRAD_BROKER.w / 2 + 105} y={TRAD_Y + 38} textAnchor="middle" className="text-[10px]" fill="var(--accent-red)">{t("Blocking I/O")}</text>
         </g>
 
         {/* Traditional dot */}
-        <circle className="trad-dot" cx={TRAD_EXCHANGE.cx} cy={TRAD_Y} r={6} fill="var(--accent-red)" opacity={0} filter="url(#glowRed)" />
+        <circle className="trad-dot flow-dot" data-flow="tick" cx={TRAD_EXCHANGE.cx} cy={TRAD_Y} r={6} fill="var(--accent-red)" opacity={0} filter="url(#glowRed)" />
 
         {/* ═══════════ ANEKANT ROW ═══════════ */}
         
         {/* Exchange */}
-        <g className="ane-node" style={{ opacity: 0 }}>
+        <g className="ane-node" data-node="exchange" style={{ opacity: 0 }}>
           <rect x={ANE_EXCHANGE.cx - ANE_EXCHANGE.w / 2} y={ANE_EXCHANGE.cy - ANE_EXCHANGE.h / 2} width={ANE_EXCHANGE.w} height={ANE_EXCHANGE.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={ANE_EXCHANGE.cx} y={ANE_EXCHANGE.cy + 5} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">Exchange</text>
+          <BoxLabel box={ANE_EXCHANGE} label={t("Exchange")} size={[12, 16]} />
         </g>
 
         {/* Redis Streams */}
-        <g className="ane-node" style={{ opacity: 0 }}>
+        <g className="ane-node" data-node="redis" style={{ opacity: 0 }}>
           <rect x={ANE_REDIS.cx - ANE_REDIS.w / 2} y={ANE_REDIS.cy - ANE_REDIS.h / 2} width={ANE_REDIS.w} height={ANE_REDIS.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.4} />
-          <text x={ANE_REDIS.cx} y={ANE_REDIS.cy - 22} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">Redis</text>
-          <text x={ANE_REDIS.cx} y={ANE_REDIS.cy} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">Streams</text>
-          <text x={ANE_REDIS.cx} y={ANE_REDIS.cy + 26} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">real-time bus</text>
+          <text x={ANE_REDIS.cx} y={ANE_REDIS.cy - 22} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">{t("Redis")}</text>
+          <text x={ANE_REDIS.cx} y={ANE_REDIS.cy} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">{t("Streams")}</text>
+          <text x={ANE_REDIS.cx} y={ANE_REDIS.cy + 26} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("real-time bus")}</text>
         </g>
 
         {/* Exchange → Redis path */}
-        <path d={aneExchangeToRedis()} className="ane-path ane-path-ex-redis" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
+        <path d={aneExchangeToRedis()} className="ane-path ane-path-ex-redis" data-from="exchange" data-to="redis" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
 
         {/* Redis → Engine paths */}
         {ENGINES.map((_, i) => (
-          <path key={`r2e-${i}`} d={aneRedisToEngine(i)} className={`ane-path ane-path-r2e-${i}`} fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
+          <path key={`r2e-${i}`} d={aneRedisToEngine(i)} className={`ane-path ane-path-r2e-${i}`} data-from="redis" data-to={`engine-${i}`} fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} opacity={0.4} />
         ))}
 
         {/* Engine boxes */}
@@ -402,64 +536,70 @@ export function EngineFlowSlide({ active }: EngineFlowSlideProps) {
           <EngineBox
             key={eng.label}
             cx={eng.cx} cy={eng.cy} w={ENGINE_W} h={ENGINE_H}
-            label={eng.label} engineIdx={eIdx}
+            label={eng.label} engineIdx={eIdx} nodeId={`engine-${eIdx}`}
             badge={eIdx === 0 ? "Async Dispatcher" : undefined}
           />
         ))}
 
         {/* Engine → Broker paths */}
         {ENGINES.map((_, i) => (
-          <path key={`e2b-${i}`} d={aneEngineToBroker(i)} className={`ane-path ane-path-e2b-${i}`} fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} opacity={0.35} />
+          <path key={`e2b-${i}`} d={aneEngineToBroker(i)} className={`ane-path ane-path-e2b-${i}`} data-from={`engine-${i}`} data-to="broker" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} opacity={0.35} />
         ))}
 
         {/* Orders label */}
-        <text x={(ENGINES[0].cx + ENGINE_W / 2 + ANE_BROKER.cx - ANE_BROKER.w / 2) / 2} y={ENGINES[0].cy - 24} textAnchor="middle" className="ane-node text-[11px] font-semibold" fill="var(--accent-coral)" style={{ opacity: 0 }}>Orders</text>
+        <text x={(ENGINES[0].cx + ENGINE_W / 2 + ANE_BROKER.cx - ANE_BROKER.w / 2) / 2} y={ENGINES[0].cy - 24} textAnchor="middle" className="ane-node text-[11px] font-semibold" fill="var(--accent-coral)" style={{ opacity: 0 }}>{t("Orders")}</text>
 
         {/* Broker */}
-        <g className="ane-node" style={{ opacity: 0 }}>
+        <g className="ane-node" data-node="broker" style={{ opacity: 0 }}>
           <rect x={ANE_BROKER.cx - ANE_BROKER.w / 2} y={ANE_BROKER.cy - ANE_BROKER.h / 2} width={ANE_BROKER.w} height={ANE_BROKER.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={ANE_BROKER.cx} y={ANE_BROKER.cy + 5} textAnchor="middle" className="text-[16px] font-bold" fill="var(--text-primary)">Broker</text>
+          <BoxLabel box={ANE_BROKER} label={t("Broker")} size={[12, 16]} />
         </g>
 
         {/* Broker → Engine return paths */}
         {ENGINES.map((_, i) => (
-          <path key={`b2e-${i}`} d={aneBrokerToEngine(i)} className={`ane-path ret-path ret-path-b2e-${i}`} fill="none" stroke="var(--accent-emerald)" strokeWidth={1.4} opacity={0.3} strokeDasharray="7 5" />
+          <path key={`b2e-${i}`} d={aneBrokerToEngine(i)} className={`ane-path ret-path ret-path-b2e-${i}`} data-from="broker" data-to={`engine-${i}`} fill="none" stroke="var(--accent-emerald)" strokeWidth={1.4} opacity={0.3} strokeDasharray="7 5" />
         ))}
 
         {/* Fills label */}
-        <text x={(ENGINES[2].cx + ENGINE_W / 2 + ANE_BROKER.cx - ANE_BROKER.w / 2) / 2} y={ENGINES[2].cy + ENGINE_H / 2 + 38} textAnchor="middle" className="ane-node text-[11px] font-semibold" fill="var(--accent-emerald)" style={{ opacity: 0 }}>Fills</text>
+        <text x={(ENGINES[2].cx + ENGINE_W / 2 + ANE_BROKER.cx - ANE_BROKER.w / 2) / 2} y={ENGINES[2].cy + ENGINE_H / 2 + 38} textAnchor="middle" className="ane-node text-[11px] font-semibold" fill="var(--accent-emerald)" style={{ opacity: 0 }}>{t("Fills")}</text>
 
         {/* Anekant timing callout - PERSISTENT */}
         <g className="timing-callout" style={{ opacity: 0 }}>
           <rect x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 25} y={ANE_MID_Y - 50} width={160} height={100} rx={10} fill="color-mix(in srgb, var(--accent-emerald) 15%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1.5} />
-          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y - 22} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-emerald)">1-2 ms</text>
-          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y - 2} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">per tick</text>
-          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y + 20} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-amber)">Async I/O</text>
-          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y + 35} textAnchor="middle" className="text-[10px]" fill="var(--accent-coral)">Event-driven</text>
-          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y + 50} textAnchor="middle" className="text-[10px]" fill="var(--accent-emerald)">Non-blocking</text>
+          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y - 22} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-emerald)">{t("1-2 ms")}</text>
+          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y - 2} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("per tick")}</text>
+          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y + 20} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-amber)">{t("Async I/O")}</text>
+          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y + 35} textAnchor="middle" className="text-[10px]" fill="var(--accent-coral)">{t("Event-driven")}</text>
+          <text x={ANE_BROKER.cx + ANE_BROKER.w / 2 + 105} y={ANE_MID_Y + 50} textAnchor="middle" className="text-[10px]" fill="var(--accent-emerald)">{t("Non-blocking")}</text>
         </g>
 
         {/* ═══════════ FLOW DOTS ═══════════ */}
-        <circle className="ane-dot-ex-redis" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="ane-dot-ex-redis" data-flow="tick" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
 
         {ENGINES.map((_, i) => (
-          <circle key={`rd-${i}`} className={`ane-dot-r2e-${i}`} r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+          <circle key={`rd-${i}`} className={`ane-dot-r2e-${i}`} data-flow="tick" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
         ))}
 
         {ENGINES.map((_, eIdx) =>
           ENGINE_ITEMS.map((_, iIdx) => (
-            <circle key={`id-${eIdx}-${iIdx}`} className={`int-dot-${eIdx}-${iIdx}`} r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+            <circle key={`id-${eIdx}-${iIdx}`} className={`int-dot-${eIdx}-${iIdx}`} data-flow="tick" r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
           )),
         )}
 
         {ENGINES.map((_, i) => (
-          <circle key={`od-${i}`} className={`ane-dot-e2b-${i}`} r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+          <circle key={`od-${i}`} className={`ane-dot-e2b-${i}`} data-flow="order" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
         ))}
 
         {ENGINES.map((_, i) => (
-          <circle key={`fd-${i}`} className={`ret-dot-b2e-${i}`} r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+          <circle key={`fd-${i}`} className={`ret-dot-b2e-${i}`} data-flow="fill" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         ))}
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+EngineFlowSlide.steps = ["traditional row", "async engine", "timings", "engine 2 close-up"];
+EngineFlowSlide.details = NODE_DETAILS;
+EngineFlowSlide.focus = FOCUS_PRESETS;
@@ -1,9 +1,17 @@
-import { useRef, useEffect } from "react";
+import { useRef, useEffect, useCallback } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
+import { useMetrics } from "@/hooks/useMetrics";
+import { useMetricCounters } from "@/hooks/useMetricCounters";
 import { VB_W, VB_H, bezierH } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
 import { animateDot } from "./shared/animate-dot";
+import { EngineBox } from "./shared/engine-box";
+import type { NodeDetail } from "./shared/inspect";
 
 /* ================================================================
  *  HorizontalScalingSlide - "Scale Without Rewrites"
@@ -18,6 +26,7 @@ import { animateDot } from "./shared/animate-dot";
 
 interface HorizontalScalingSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -64,15 +73,58 @@ function pathRedisToEngine(redis: typeof REDIS_1, engine: typeof ENGINE_1): stri
   return bezierH(redis.cx, redis.cy + redis.h / 2, engine.cx, engine.cy - engine.h / 2);
 }
 
+/* ────────────────────────────────────────────────────────────
+ *  NODE DETAILS — drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const redisDetail = (column: number, engines: string): NodeDetail => ({
+  id: `redis-${column}`,
+  title: "Redis Streams",
+  summary: `The same streams in every column; here they fan ticks out to ${engines}.`,
+});
+
+const NODE_DETAILS: NodeDetail[] = [
+  redisDetail(1, "a single engine"),
+  {
+    id: "engine-1",
+    title: "Single Engine",
+    summary: "Runs every strategy alone. At about 1,000 ticks/sec it is saturated and becomes the bottleneck.",
+    properties: [{ label: "Load", value: "100% CPU" }],
+  },
+  { id: "throughput-single", title: "Single-engine throughput", summary: "Ticks per second one engine sustains." },
+  redisDetail(2, "three engines"),
+  ...ENGINE_2_POSITIONS.map((_, i): NodeDetail => ({
+    id: `engine-2-${i}`,
+    title: `Engine ${i + 1}`,
+    summary: "One of three engines reading the same streams, each running a share of the strategies.",
+    properties: [{ label: "Load", value: "~33%" }],
+  })),
+  { id: "throughput-three", title: "Three-engine throughput", summary: "Ticks per second across three engines: about three times one engine." },
+  redisDetail(3, "as many engines as needed"),
+  ...ENGINE_3_POSITIONS.map((_, i): NodeDetail => ({
+    id: `engine-3-${i}`,
+    title: `Engine E${i + 1}`,
+    summary: "Engines keep being added with the same code and the same Redis; load per engine keeps falling.",
+    properties: [{ label: "Load", value: "~20%" }],
+  })),
+  { id: "throughput-many", title: "N-engine throughput", summary: "Ticks per second with N engines: 10,000 and beyond, with no architectural changes." },
+];
+
 /* ================================================================
  *  COMPONENT
  * ================================================================ */
-export function HorizontalScalingSlide({ active }: HorizontalScalingSlideProps) {
+export function HorizontalScalingSlide({ active, step }: HorizontalScalingSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const loopTlRef = useRef<gsap.core.Timeline | null>(null);
-  const counterRefs = useRef<{ [key: string]: number }>({ col1: 0, col2: 0, col3: 0 });
+
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
+  const { t, formatNumber } = useI18n();
+
+  const { throughput } = useMetrics();
+  /* Throughput figures come from the metrics provider */
+  const formatThroughput = useCallback((_key: string, value: number) => formatNumber(Math.round(value)), [formatNumber]);
+  useMetricCounters({ svgRef, values: throughput, format: formatThroughput, duration: 1.5 });
 
   useEffect(() => {
     if (!active) {
@@ -88,8 +140,9 @@ export function HorizontalScalingSlide({ active }: HorizontalScalingSlideProps)
     loopTlRef.current?.kill();
 
     /* ──────── REVEAL TIMELINE ──────── */
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("columns");
 
     const allPaths = svg.querySelectorAll<SVGPathElement>(".flow-path");
     allPaths.forEach((p) => {
@@ -105,18 +158,21 @@ export function HorizontalScalingSlide({ active }: HorizontalScalingSlideProps)
 
     /* Redis nodes */
     const redisNodes = svg.querySelectorAll(".redis-node");
-    reveal.fromTo(redisNodes, { opacity: 0, scale: 0.9 }, { opacity: 1, scale: 1, duration: 0.4, stagger: 0.1, ease: "back.out" }, "-=0.1");
+    reveal.addLabel("redis");
+    reveal.fromTo(redisNodes, { opacity: 0, scale: 0.9 }, { opacity: 1, scale: 1, duration: 0.4, stagger: 0.1, ease: "back.out" });
 
     /* Engine nodes */
     const engineNodes = svg.querySelectorAll(".engine-node");
-    reveal.fromTo(engineNodes, { opacity: 0, y: 15 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.05, ease: "power2.out" }, "-=0.2");
+    reveal.addLabel("engines");
+    reveal.fromTo(engineNodes, { opacity: 0, y: 15 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.05, ease: "power2.out" });
 
     /* Paths */
     reveal.to(allPaths, { opacity: 0.5, strokeDashoffset: 0, duration: 0.6, stagger: 0.03, ease: "power1.inOut" });
 
     /* Throughput badges */
     const throughputBadges = svg.querySelectorAll(".throughput-badge");
-    reveal.fromTo(throughputBadges, { opacity: 0, scale: 0.9 }, { opacity: 1, scale: 1, duration: 0.4, stagger: 0.15, ease: "back.out" }, "-=0.2");
+    reveal.addLabel("throughput");
+    reveal.fromTo(throughputBadges, { opacity: 0, scale: 0.9 }, { opacity: 1, scale: 1, duration: 0.4, stagger: 0.15, ease: "back.out" });
 
     /* Key message */
     const keyMessage = svg.querySelector(".key-message");
@@ -147,48 +203,34 @@ export function HorizontalScalingSlide({ active }: HorizontalScalingSlideProps)
       if (p && d) animateDot(d, p, loop, 0.3, 0.05 + i * 0.05);
     }
 
-    /* Animate throughput counters */
-    const counter1 = svg.querySelector(".counter-1");
-    const counter2 = svg.querySelector(".counter-2");
-    const counter3 = svg.querySelector(".counter-3");
-
-    if (counter1 && counter2 && counter3) {
-      loop.to(counterRefs.current, {
-        col1: 1000,
-        col2: 3000,
-        col3: 10000,
-        duration: 1.5,
-        ease: "power1.inOut",
-        onUpdate() {
-          counter1.textContent = Math.round(counterRefs.current.col1).toLocaleString();
-          counter2.textContent = Math.round(counterRefs.current.col2).toLocaleString();
-          counter3.textContent = Math.round(counterRefs.current.col3).toLocaleString();
-        },
-      }, 0);
-
-      loop.to(counterRefs.current, {
-        col1: 1000,
-        col2: 3000,
-        col3: 10000,
-        duration: 0.5,
-      });
-    }
+    /* Each engine runs its stages as the tick lands */
+    const runStages = (engine: string, at: number) => {
+      const pips = svg.querySelectorAll(`[data-node="${engine}"] .engine-pip`);
+      loop.fromTo(pips, { opacity: 0.4 }, { opacity: 1, duration: 0.1, stagger: 0.05, yoyo: true, repeat: 1, ease: "power1.out" }, at);
+    };
+    runStages("engine-1", 1.2);
+    ENGINE_2_POSITIONS.forEach((_, i) => runStages(`engine-2-${i}`, 0.5 + i * 0.08));
+    ENGINE_3_POSITIONS.forEach((_, i) => runStages(`engine-3-${i}`, 0.35 + i * 0.05));
+
+    /* Hold each cycle at 2s so the columns stay in step */
+    loop.to({}, { duration: Math.max(0, 2 - loop.duration()) });
 
     return () => {
       reveal.kill();
       loop.kill();
-      counterRefs.current = { col1: 0, col2: 0, col3: 0 };
     };
   }, [active]);
 
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps: HorizontalScalingSlide.steps, active, step });
+
   return (
     <SlideLayout className="justify-start pt-6">
       <div ref={titleRef} className="mb-3 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          Scale Without Rewrites
+          {t("Scale Without Rewrites")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          Add engines, not code changes — linear throughput scaling
+          {t("Add engines, not code changes — linear throughput scaling")}
         </p>
       </div>
 
@@ -205,17 +247,17 @@ export function HorizontalScalingSlide({ active }: HorizontalScalingSlideProps)
         {/* ═══════════ COLUMN HEADERS ═══════════ */}
         <g className="col-header" style={{ opacity: 0 }}>
           <rect x={COL_1_X - 80} y={70} width={160} height={36} rx={8} fill="color-mix(in srgb, var(--accent-red) 15%, transparent)" stroke="var(--accent-red)" strokeWidth={1} />
-          <text x={COL_1_X} y={95} textAnchor="middle" className="text-[14px] font-bold uppercase tracking-wide" fill="var(--accent-red)">Single Engine</text>
+          <text x={COL_1_X} y={95} textAnchor="middle" className="text-[14px] font-bold uppercase tracking-wide" fill="var(--accent-red)">{t("Single Engine")}</text>
         </g>
 
         <g className="col-header" style={{ opacity: 0 }}>
           <rect x={COL_2_X - 90} y={70} width={180} height={36} rx={8} fill="color-mix(in srgb, var(--accent-amber) 15%, transparent)" stroke="var(--accent-amber)" strokeWidth={1} />
-          <text x={COL_2_X} y={95} textAnchor="middle" className="text-[14px] font-bold uppercase tracking-wide" fill="var(--accent-amber)">3 Engines</text>
+          <text x={COL_2_X} y={95} textAnchor="middle" className="text-[14px] font-bold uppercase tracking-wide" fill="var(--accent-amber)">{t("3 Engines")}</text>
         </g>
 
         <g className="col-header" style={{ opacity: 0 }}>
           <rect x={COL_3_X - 90} y={70} width={180} height={36} rx={8} fill="color-mix(in srgb, var(--accent-emerald) 15%, transparent)" stroke="var(--accent-emerald)" strokeWidth={1} />
-          <text x={COL_3_X} y={95} textAnchor="middle" className="text-[14px] font-bold uppercase tracking-wide" fill="var(--accent-emerald)">N Engines</text>
+          <text x={COL_3_X} y={95} textAnchor="middle" className="text-[14px] font-bold uppercase tracking-wide" fill="var(--accent-emerald)">{t("N Engines")}</text>
         </g>
 
         {/* ═══════════ DIVIDERS ═══════════ */}
@@ -225,121 +267,143 @@ export function HorizontalScalingSlide({ active }: HorizontalScalingSlideProps)
         {/* ═══════════ COLUMN 1: SINGLE ENGINE ═══════════ */}
         
         {/* Redis */}
-        <g className="redis-node" style={{ opacity: 0 }}>
+        <g className="redis-node" data-node="redis-1" style={{ opacity: 0 }}>
           <rect x={REDIS_1.cx - REDIS_1.w / 2} y={REDIS_1.cy - REDIS_1.h / 2} width={REDIS_1.w} height={REDIS_1.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.4} />
-          <text x={REDIS_1.cx} y={REDIS_1.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">Redis</text>
-          <text x={REDIS_1.cx} y={REDIS_1.cy + 14} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">Streams</text>
+          <text x={REDIS_1.cx} y={REDIS_1.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">{t("Redis")}</text>
+          <text x={REDIS_1.cx} y={REDIS_1.cy + 14} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">{t("Streams")}</text>
         </g>
 
         {/* Single Engine */}
-        <g className="engine-node" style={{ opacity: 0 }}>
-          <rect x={ENGINE_1.cx - ENGINE_1.w / 2} y={ENGINE_1.cy - ENGINE_1.h / 2} width={ENGINE_1.w} height={ENGINE_1.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.6} />
-          <text x={ENGINE_1.cx} y={ENGINE_1.cy - 10} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-red)">Engine</text>
-          <text x={ENGINE_1.cx} y={ENGINE_1.cy + 12} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">Saturated</text>
-          <text x={ENGINE_1.cx} y={ENGINE_1.cy + 30} textAnchor="middle" className="text-[9px]" fill="var(--accent-red)">100% CPU</text>
-        </g>
+        <EngineBox
+          {...ENGINE_1}
+          compact
+          label="Engine"
+          sublabel="Saturated"
+          badge="100% CPU"
+          strokeColor="var(--accent-red)"
+          badgeColor="var(--accent-red)"
+          engineIdx={0}
+          nodeId="engine-1"
+          className="engine-node"
+        />
 
         {/* Path */}
-        <path d={pathRedisToEngine(REDIS_1, ENGINE_1)} className="flow-path path-col1" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
+        <path d={pathRedisToEngine(REDIS_1, ENGINE_1)} className="flow-path path-col1" data-from="redis-1" data-to="engine-1" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
 
         {/* Bottleneck indicator */}
         <g className="engine-node" style={{ opacity: 0 }}>
           <rect x={ENGINE_1.cx - 55} y={ENGINE_1.cy - ENGINE_1.h / 2 - 90} width={110} height={28} rx={6} fill="color-mix(in srgb, var(--accent-red) 20%, var(--bg-card))" stroke="var(--accent-red)" strokeWidth={0.8} />
-          <text x={ENGINE_1.cx} y={ENGINE_1.cy - ENGINE_1.h / 2 - 70} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-red)">⚠ Bottleneck</text>
+          <text x={ENGINE_1.cx} y={ENGINE_1.cy - ENGINE_1.h / 2 - 70} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-red)">{t("⚠ Bottleneck")}</text>
         </g>
 
         {/* ═══════════ COLUMN 2: THREE ENGINES ═══════════ */}
         
         {/* Redis */}
-        <g className="redis-node" style={{ opacity: 0 }}>
+        <g className="redis-node" data-node="redis-2" style={{ opacity: 0 }}>
           <rect x={REDIS_2.cx - REDIS_2.w / 2} y={REDIS_2.cy - REDIS_2.h / 2} width={REDIS_2.w} height={REDIS_2.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={1.4} />
-          <text x={REDIS_2.cx} y={REDIS_2.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">Redis</text>
-          <text x={REDIS_2.cx} y={REDIS_2.cy + 14} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">Streams</text>
+          <text x={REDIS_2.cx} y={REDIS_2.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">{t("Redis")}</text>
+          <text x={REDIS_2.cx} y={REDIS_2.cy + 14} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">{t("Streams")}</text>
         </g>
 
         {/* Three Engines */}
         {ENGINE_2_POSITIONS.map((eng, i) => (
-          <g key={`eng2-${i}`} className="engine-node" style={{ opacity: 0 }}>
-            <rect x={eng.cx - eng.w / 2} y={eng.cy - eng.h / 2} width={eng.w} height={eng.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={1.6} />
-            <text x={eng.cx} y={eng.cy - 10} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-amber)">Engine {i + 1}</text>
-            <text x={eng.cx} y={eng.cy + 12} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">~33% load</text>
-          </g>
+          <EngineBox
+            key={`eng2-${i}`}
+            {...eng}
+            compact
+            label={`Engine ${i + 1}`}
+            sublabel="~33% load"
+            engineIdx={1 + i}
+            nodeId={`engine-2-${i}`}
+            className="engine-node"
+          />
         ))}
 
         {/* Paths */}
         {ENGINE_2_POSITIONS.map((eng, i) => (
-          <path key={`p2-${i}`} d={pathRedisToEngine(REDIS_2, eng)} className={`flow-path path-col2-${i}`} fill="none" stroke="var(--accent-amber)" strokeWidth={2} />
+          <path key={`p2-${i}`} d={pathRedisToEngine(REDIS_2, eng)} className={`flow-path path-col2-${i}`} data-from="redis-2" data-to={`engine-2-${i}`} fill="none" stroke="var(--accent-amber)" strokeWidth={2} />
         ))}
 
         {/* ═══════════ COLUMN 3: N ENGINES ═══════════ */}
         
         {/* Redis */}
-        <g className="redis-node" style={{ opacity: 0 }}>
+        <g className="redis-node" data-node="redis-3" style={{ opacity: 0 }}>
           <rect x={REDIS_3.cx - REDIS_3.w / 2} y={REDIS_3.cy - REDIS_3.h / 2} width={REDIS_3.w} height={REDIS_3.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-emerald)" strokeWidth={1.4} />
-          <text x={REDIS_3.cx} y={REDIS_3.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">Redis</text>
-          <text x={REDIS_3.cx} y={REDIS_3.cy + 14} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">Streams</text>
+          <text x={REDIS_3.cx} y={REDIS_3.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">{t("Redis")}</text>
+          <text x={REDIS_3.cx} y={REDIS_3.cy + 14} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">{t("Streams")}</text>
         </g>
 
         {/* N Engines */}
         {ENGINE_3_POSITIONS.map((eng, i) => (
-          <g key={`eng3-${i}`} className="engine-node" style={{ opacity: 0 }}>
-            <rect x={eng.cx - eng.w / 2} y={eng.cy - eng.h / 2} width={eng.w} height={eng.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-emerald)" strokeWidth={1.4} />
-            <text x={eng.cx} y={eng.cy - 5} textAnchor="middle" className="text-[11px] font-bold" fill="var(--accent-emerald)">E{i + 1}</text>
-            <text x={eng.cx} y={eng.cy + 12} textAnchor="middle" className="text-[9px]" fill="var(--text-muted)">~20%</text>
-          </g>
+          <EngineBox
+            key={`eng3-${i}`}
+            {...eng}
+            compact
+            label={`E${i + 1}`}
+            sublabel="~20%"
+            strokeColor="var(--accent-emerald)"
+            engineIdx={1 + ENGINE_2_POSITIONS.length + i}
+            nodeId={`engine-3-${i}`}
+            className="engine-node"
+          />
         ))}
 
         {/* Plus more indicator */}
         <g className="engine-node" style={{ opacity: 0 }}>
-          <text x={COL_3_X} y={ENGINE_Y + 200} textAnchor="middle" className="text-[16px] font-bold" fill="var(--accent-emerald)">+ more...</text>
+          <text x={COL_3_X} y={ENGINE_Y + 200} textAnchor="middle" className="text-[16px] font-bold" fill="var(--accent-emerald)">{t("+ more...")}</text>
         </g>
 
         {/* Paths */}
         {ENGINE_3_POSITIONS.map((eng, i) => (
-          <path key={`p3-${i}`} d={pathRedisToEngine(REDIS_3, eng)} className={`flow-path path-col3-${i}`} fill="none" stroke="var(--accent-emerald)" strokeWidth={1.8} />
+          <path key={`p3-${i}`} d={pathRedisToEngine(REDIS_3, eng)} className={`flow-path path-col3-${i}`} data-from="redis-3" data-to={`engine-3-${i}`} fill="none" stroke="var(--accent-emerald)" strokeWidth={1.8} />
         ))}
 
         {/* ═══════════ THROUGHPUT BADGES ═══════════ */}
         
         {/* Column 1 throughput */}
-        <g className="throughput-badge" style={{ opacity: 0 }}>
+        <g className="throughput-badge" data-node="throughput-single" style={{ opacity: 0 }}>
           <rect x={COL_1_X - 90} y={THROUGHPUT_Y} width={180} height={70} rx={12} fill="color-mix(in srgb, var(--accent-red) 12%, var(--bg-card))" stroke="var(--accent-red)" strokeWidth={1.2} />
-          <text className="counter-1 text-[22px] font-bold" x={COL_1_X} y={THROUGHPUT_Y + 30} textAnchor="middle" fill="var(--accent-red)">1,000</text>
-          <text x={COL_1_X} y={THROUGHPUT_Y + 52} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">ticks/sec</text>
+          <text className="metric-single text-[22px] font-bold" x={COL_1_X} y={THROUGHPUT_Y + 30} textAnchor="middle" fill="var(--accent-red)" />
+          <text x={COL_1_X} y={THROUGHPUT_Y + 52} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("ticks/sec")}</text>
         </g>
 
         {/* Column 2 throughput */}
-        <g className="throughput-badge" style={{ opacity: 0 }}>
+        <g className="throughput-badge" data-node="throughput-three" style={{ opacity: 0 }}>
           <rect x={COL_2_X - 90} y={THROUGHPUT_Y} width={180} height={70} rx={12} fill="color-mix(in srgb, var(--accent-amber) 12%, var(--bg-card))" stroke="var(--accent-amber)" strokeWidth={1.2} />
-          <text className="counter-2 text-[22px] font-bold" x={COL_2_X} y={THROUGHPUT_Y + 30} textAnchor="middle" fill="var(--accent-amber)">3,000</text>
-          <text x={COL_2_X} y={THROUGHPUT_Y + 52} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">ticks/sec (3x)</text>
+          <text className="metric-three text-[22px] font-bold" x={COL_2_X} y={THROUGHPUT_Y + 30} textAnchor="middle" fill="var(--accent-amber)" />
+          <text x={COL_2_X} y={THROUGHPUT_Y + 52} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">ticks/sec ({Math.round(throughput.three / throughput.single)}x)</text>
         </g>
 
         {/* Column 3 throughput */}
-        <g className="throughput-badge" style={{ opacity: 0 }}>
+        <g className="throughput-badge" data-node="throughput-many" style={{ opacity: 0 }}>
           <rect x={COL_3_X - 90} y={THROUGHPUT_Y} width={180} height={70} rx={12} fill="color-mix(in srgb, var(--accent-emerald) 12%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1.2} />
-          <text className="counter-3 text-[22px] font-bold" x={COL_3_X} y={THROUGHPUT_Y + 30} textAnchor="middle" fill="var(--accent-emerald)">10,000</text>
-          <text x={COL_3_X} y={THROUGHPUT_Y + 52} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">ticks/sec (10x)</text>
+          <text className="metric-many text-[22px] font-bold" x={COL_3_X} y={THROUGHPUT_Y + 30} textAnchor="middle" fill="var(--accent-emerald)" />
+          <text x={COL_3_X} y={THROUGHPUT_Y + 52} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">ticks/sec ({Math.round(throughput.many / throughput.single)}x)</text>
         </g>
 
         {/* ═══════════ KEY MESSAGE ═══════════ */}
         <g className="key-message" style={{ opacity: 0 }}>
           <rect x={VB_W / 2 - 220} y={840} width={440} height={50} rx={10} fill="color-mix(in srgb, var(--accent-amber) 15%, var(--bg-card))" stroke="var(--accent-amber)" strokeWidth={1.2} />
-          <text x={VB_W / 2} y={865} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-amber)">Same Code • Same Redis • Linear Scaling</text>
-          <text x={VB_W / 2} y={882} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">No architectural changes required</text>
+          <text x={VB_W / 2} y={865} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-amber)">{t("Same Code • Same Redis • Linear Scaling")}</text>
+          <text x={VB_W / 2} y={882} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{t("No architectural changes required")}</text>
         </g>
 
         {/* ═══════════ FLOW DOTS ═══════════ */}
-        <circle className="dot-col1" r={6} fill="var(--accent-red)" opacity={0} filter="url(#glowRed)" />
+        <circle className="dot-col1" data-flow="tick" r={6} fill="var(--accent-red)" opacity={0} filter="url(#glowRed)" />
         
         {ENGINE_2_POSITIONS.map((_, i) => (
-          <circle key={`d2-${i}`} className={`dot-col2-${i}`} r={5} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+          <circle key={`d2-${i}`} className={`dot-col2-${i}`} data-flow="tick" r={5} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
         ))}
         
         {ENGINE_3_POSITIONS.map((_, i) => (
-          <circle key={`d3-${i}`} className={`dot-col3-${i}`} r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+          <circle key={`d3-${i}`} className={`dot-col3-${i}`} data-flow="tick" r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         ))}
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+HorizontalScalingSlide.steps = ["columns", "redis", "engines", "throughput"];
+HorizontalScalingSlide.details = NODE_DETAILS;
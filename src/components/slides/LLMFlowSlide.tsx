@@ -1,10 +1,21 @@
 import { useRef, useEffect } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useLiveFlows } from "@/hooks/useLiveFlows";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
 import { VB_W, VB_H, ENGINE_ITEMS, bezierH } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
 import { EngineBox, ENGINE_ITEM_COUNT } from "./shared/engine-box";
 import { animateDot, animateDotReverse } from "./shared/animate-dot";
+import { BoxLabel } from "./shared/box-label";
+import { ActorNode, CloudNode, DatabaseNode, QueueNode, ServiceNode } from "./shared/node-shapes";
+import { shapePort } from "./shared/shape-geometry";
+import type { LiveEvent, LiveFlow } from "./shared/live-events";
+import type { NodeDetail } from "./shared/inspect";
+import { frameBoxes, type FocusPreset } from "./shared/focus";
 
 /* ================================================================
  *  LLMFlowSlide - AI Agent Integration
@@ -18,6 +29,7 @@ import { animateDot, animateDotReverse } from "./shared/animate-dot";
 
 interface LLMFlowSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -47,80 +59,206 @@ const LLM = { cx: 1050, cy: 650, w: 160, h: 90 };
 /* Agent sub-items */
 const AGENT_ITEMS = ["Fetch Metrics", "Generate Charts", "Build Prompt"];
 
+/* ────────────────────────────────────────────────────────────
+ *  FOCUS PRESETS — the two loops, and the engine and agent
+ *  internals, which are small at full view
+ * ──────────────────────────────────────────────────────────── */
+const FOCUS_PRESETS: FocusPreset[] = [
+  { id: "tick-path", label: "Tick path", box: frameBoxes([EXCHANGE, REDIS, ENGINE, BROKER]) },
+  { id: "engine", label: "Zoom into the Engine", box: frameBoxes([ENGINE]) },
+  { id: "ai-loop", label: "AI agent loop", box: frameBoxes([METRICS_DB, METRICS_API, AGENT, LLM]) },
+  { id: "agent", label: "Zoom into the AI Agent", box: frameBoxes([AGENT]) },
+];
+
 /* ────────────────────────────────────────────────────────────
  *  Path builders - Clean non-crossing paths
  * ──────────────────────────────────────────────────────────── */
 
 /* Fast loop paths */
-const pathExToRedis = () =>
-  bezierH(EXCHANGE.cx + EXCHANGE.w / 2, EXCHANGE.cy, REDIS.cx - REDIS.w / 2, REDIS.cy);
+const pathExToRedis = () => {
+  const a = shapePort("service", EXCHANGE, "right");
+  const b = shapePort("queue", REDIS, "left");
+  return bezierH(a.x, a.y, b.x, b.y);
+};
 
-const pathRedisToEngine = () =>
-  bezierH(REDIS.cx + REDIS.w / 2, REDIS.cy, ENGINE.cx - ENGINE.w / 2, ENGINE.cy);
+const pathRedisToEngine = () => {
+  const a = shapePort("queue", REDIS, "right");
+  const b = shapePort("service", ENGINE, "left");
+  return bezierH(a.x, a.y, b.x, b.y);
+};
 
-const pathEngineToBroker = () =>
-  bezierH(ENGINE.cx + ENGINE.w / 2, ENGINE.cy, BROKER.cx - BROKER.w / 2, BROKER.cy);
+const pathEngineToBroker = () => {
+  const a = shapePort("service", ENGINE, "right");
+  const b = shapePort("service", BROKER, "left");
+  return bezierH(a.x, a.y, b.x, b.y);
+};
 
 const pathBrokerToEngine = (): string => {
-  const x1 = BROKER.cx - BROKER.w / 2;
-  const y1 = BROKER.cy + 25;
-  const x2 = ENGINE.cx + ENGINE.w / 2;
-  const y2 = ENGINE.cy + 25;
+  const { x: x1, y: y1 } = shapePort("service", BROKER, "left", 25);
+  const { x: x2, y: y2 } = shapePort("service", ENGINE, "right", 25);
   const cpx = (x1 + x2) / 2;
   return `M ${x1} ${y1} C ${cpx} ${y1 + 40}, ${cpx} ${y2 + 40}, ${x2} ${y2}`;
 };
 
 /* Engine to Metrics DB - vertical drop */
 const pathEngineToMetricsDB = (): string => {
-  const x1 = ENGINE.cx - 60;
-  const y1 = ENGINE.cy + ENGINE.h / 2;
-  const x2 = METRICS_DB.cx + METRICS_DB.w / 2;
-  const y2 = METRICS_DB.cy;
+  const { x: x1, y: y1 } = shapePort("service", ENGINE, "bottom", -60);
+  const { x: x2, y: y2 } = shapePort("database", METRICS_DB, "right");
   return `M ${x1} ${y1} C ${x1} ${y1 + 80}, ${x2 + 40} ${y2 - 40}, ${x2} ${y2}`;
 };
 
 /* Metrics DB to API - vertical */
 const pathDBToAPI = (): string => {
-  return `M ${METRICS_DB.cx} ${METRICS_DB.cy + METRICS_DB.h / 2} L ${METRICS_API.cx} ${METRICS_API.cy - METRICS_API.h / 2}`;
+  const a = shapePort("database", METRICS_DB, "bottom");
+  const b = shapePort("service", METRICS_API, "top");
+  return `M ${a.x} ${a.y} L ${b.x} ${b.y}`;
 };
 
 /* Metrics API to Agent - horizontal curve */
-const pathAPIToAgent = () =>
-  bezierH(METRICS_API.cx + METRICS_API.w / 2, METRICS_API.cy, AGENT.cx - AGENT.w / 2, AGENT.cy);
+const pathAPIToAgent = () => {
+  const a = shapePort("service", METRICS_API, "right");
+  const b = shapePort("actor", AGENT, "left");
+  return bezierH(a.x, a.y, b.x, b.y);
+};
 
 /* Agent to LLM */
-const pathAgentToLLM = () =>
-  bezierH(AGENT.cx + AGENT.w / 2, AGENT.cy - 20, LLM.cx - LLM.w / 2, LLM.cy);
+const pathAgentToLLM = () => {
+  const a = shapePort("actor", AGENT, "right", -20);
+  const b = shapePort("cloud", LLM, "left");
+  return bezierH(a.x, a.y, b.x, b.y);
+};
 
 /* LLM response back to Agent */
 const pathLLMToAgent = (): string => {
-  const x1 = LLM.cx - LLM.w / 2;
-  const y1 = LLM.cy + 25;
-  const x2 = AGENT.cx + AGENT.w / 2;
-  const y2 = AGENT.cy + 25;
+  const { x: x1, y: y1 } = shapePort("cloud", LLM, "left", 25);
+  const { x: x2, y: y2 } = shapePort("actor", AGENT, "right", 25);
   const cpx = (x1 + x2) / 2;
   return `M ${x1} ${y1} C ${cpx} ${y1 + 35}, ${cpx} ${y2 + 35}, ${x2} ${y2}`;
 };
 
 /* Agent commands back to Engine - goes UP and LEFT, no crossing */
 const pathAgentToEngine = (): string => {
-  const x1 = AGENT.cx;
-  const y1 = AGENT.cy - AGENT.h / 2;
-  const x2 = ENGINE.cx + 60;
-  const y2 = ENGINE.cy + ENGINE.h / 2;
+  const { x: x1, y: y1 } = shapePort("actor", AGENT, "top");
+  const { x: x2, y: y2 } = shapePort("service", ENGINE, "bottom", 60);
   return `M ${x1} ${y1} C ${x1} ${y1 - 60}, ${x2} ${y2 + 60}, ${x2} ${y2}`;
 };
 
+/* ────────────────────────────────────────────────────────────
+ *  Live routes - ticks, orders and fills drive the fast loop,
+ *  agent cycles and commands drive the slow loop
+ * ──────────────────────────────────────────────────────────── */
+const LIVE_ROUTES: Partial<Record<LiveEvent["type"], LiveFlow[]>> = {
+  tick: [
+    { path: ".path-ex-redis", dot: ".dot-ex-redis", duration: 0.4 },
+    { path: ".path-redis-engine", dot: ".dot-redis-engine", duration: 0.35, delay: 0.3 },
+    ...ENGINE_ITEMS.map((_, i) => ({ path: `.int-path-0-${i}`, dot: `.int-dot-0-${i}`, duration: 0.25, delay: 0.55 + i * 0.03 })),
+    { path: ".path-engine-db", dot: ".dot-engine-db", duration: 0.3, delay: 0.8 },
+  ],
+  order: [{ path: ".path-engine-broker", dot: ".dot-engine-broker", duration: 0.3 }],
+  fill: [{ path: ".path-broker-engine", dot: ".dot-broker-engine", duration: 0.3, reverse: true }],
+  agent_cycle: [
+    { path: ".path-db-api", dot: ".dot-db-api", duration: 0.4 },
+    { path: ".path-api-agent", dot: ".dot-api-agent", duration: 0.5, delay: 0.3 },
+    { path: ".path-agent-llm", dot: ".dot-agent-llm", duration: 0.4, delay: 1.6 },
+    { path: ".path-llm-agent", dot: ".dot-llm-agent", duration: 0.4, delay: 2.7 },
+  ],
+  command: [{ path: ".path-agent-engine", dot: ".dot-agent-engine", duration: 0.5 }],
+};
+
+const liveRoutes = (event: LiveEvent) => LIVE_ROUTES[event.type] ?? [];
+
+/* ────────────────────────────────────────────────────────────
+ *  Node details - drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const NODE_DETAILS: NodeDetail[] = [
+  { id: "exchange", title: "Exchange", summary: "Pushes ticks onto Redis Streams as they happen; the fast loop runs on every one." },
+  {
+    id: "redis",
+    title: "Redis Streams",
+    summary: "Carries both directions: ticks into the engine and the agent's commands back to it. The engine consumes commands between ticks, so the fast loop never waits on the agent.",
+    properties: [{ label: "Streams", value: "Ticks, commands, responses" }],
+    links: [{ label: "Redis Streams", href: "https://redis.io/docs/latest/develop/data-types/streams/" }],
+  },
+  {
+    id: "engine",
+    title: "Engine",
+    summary: "Runs the strategy on every tick and records metrics as it goes. Agent commands arrive as parameter changes and target positions, which the engine converges to on its next ticks.",
+    properties: [
+      { label: "Loop", value: "Every tick" },
+      { label: "Accepts", value: "Parameter changes, target positions" },
+    ],
+  },
+  { id: "broker", title: "Broker", summary: "Receives orders from the engine and sends fills straight back; the agent is never in this path." },
+  {
+    id: "metrics-db",
+    title: "Metrics DB",
+    summary: "SQLite store the engine writes candles, indicators, positions and P&L into. It is the agent's only view of the engine.",
+    properties: [{ label: "Storage", value: "SQLite" }],
+  },
+  {
+    id: "metrics-api",
+    title: "Metrics API",
+    summary: "FastAPI sidecar that serves the agent aggregated metrics and rendered charts from the Metrics DB, read-only.",
+    properties: [{ label: "Runs as", value: "Sidecar container" }],
+    links: [{ label: "FastAPI", href: "https://fastapi.tiangolo.com/" }],
+  },
+  {
+    id: "agent",
+    title: "AI Agent",
+    summary: "Wakes on a slow cycle, gathers metrics and charts, builds a prompt, and turns the LLM's structured answer into engine commands.",
+    properties: [
+      { label: "Cycle", value: "~30-60 s" },
+      { label: "Steps", value: AGENT_ITEMS.join(" → ") },
+      { label: "Output", value: "Commands via Redis" },
+    ],
+    diagram: {
+      width: 300,
+      height: 150,
+      nodes: [
+        ...AGENT_ITEMS.map((label, i) => ({ id: label, label, x: 60, y: 25 + i * 50, color: "var(--accent-coral)" })),
+        { id: "llm", label: "LLM", x: 180, y: 75, color: "var(--accent-coral)" },
+        { id: "cmd", label: "Commands", x: 250, y: 125, color: "var(--accent-emerald)" },
+      ],
+      edges: [
+        { from: AGENT_ITEMS[0], to: AGENT_ITEMS[1] },
+        { from: AGENT_ITEMS[1], to: AGENT_ITEMS[2] },
+        { from: AGENT_ITEMS[2], to: "llm" },
+        { from: "llm", to: "cmd" },
+      ],
+    },
+  },
+  {
+    id: "llm",
+    title: "LLM",
+    summary: "Gemini or Claude behind one provider interface. Responses are parsed into structured models, such as a target position and market direction, rather than free text.",
+    properties: [
+      { label: "Providers", value: "Gemini, Claude" },
+      { label: "Response", value: "Structured output" },
+    ],
+  },
+];
+
 /* ================================================================
  *  Main component
  * ================================================================ */
-export function LLMFlowSlide({ active }: LLMFlowSlideProps) {
+export function LLMFlowSlide({ active, step }: LLMFlowSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const fastLoopRef = useRef<gsap.core.Timeline | null>(null);
   const slowLoopRef = useRef<gsap.core.Timeline | null>(null);
 
+  const live = useLiveFlows({
+    svgRef,
+    revealTlRef,
+    routes: liveRoutes,
+    /* Only one engine is drawn, so events from the others are dropped */
+    engines: 1,
+    active,
+  });
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
+  const { t } = useI18n();
+
   useEffect(() => {
     if (!active) {
       revealTlRef.current?.pause(0);
@@ -136,8 +274,9 @@ export function LLMFlowSlide({ active }: LLMFlowSlideProps) {
     fastLoopRef.current?.kill();
     slowLoopRef.current?.kill();
 
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("components");
 
     const allPaths = svg.querySelectorAll<SVGPathElement>(".ane-path, .int-path, .ret-path, .slow-path");
     allPaths.forEach((p) => {
@@ -150,10 +289,12 @@ export function LLMFlowSlide({ active }: LLMFlowSlideProps) {
     const nodes = svg.querySelectorAll(".ane-node");
     reveal.fromTo(nodes, { opacity: 0, y: 12 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.04, ease: "power2.out" }, "-=0.2");
 
+    reveal.addLabel("connections");
     reveal.to(allPaths, { opacity: 0.35, strokeDashoffset: 0, duration: 0.6, stagger: 0.02, ease: "power1.inOut" });
 
     const items = svg.querySelectorAll(".engine-item, .agent-item");
-    reveal.fromTo(items, { opacity: 0, x: -8 }, { opacity: 1, x: 0, duration: 0.3, stagger: 0.03, ease: "power2.out" }, "-=0.3");
+    reveal.addLabel("details");
+    reveal.fromTo(items, { opacity: 0, x: -8 }, { opacity: 1, x: 0, duration: 0.3, stagger: 0.03, ease: "power2.out" });
 
     const labels = svg.querySelectorAll(".label-node");
     reveal.fromTo(labels, { opacity: 0 }, { opacity: 1, duration: 0.35, stagger: 0.04 }, "-=0.2");
@@ -199,6 +340,7 @@ export function LLMFlowSlide({ active }: LLMFlowSlideProps) {
     slowLoopRef.current = slow;
 
     reveal.eventCallback("onComplete", () => {
+      if (live) return;
       fast.play();
       slow.delay(0.5).play();
     });
@@ -240,16 +382,18 @@ export function LLMFlowSlide({ active }: LLMFlowSlideProps) {
       fast.kill();
       slow.kill();
     };
-  }, [active]);
+  }, [active, live]);
+
+  useBuildSteps({ revealTlRef, loopTlRefs: [fastLoopRef, slowLoopRef], steps: LLMFlowSlide.steps, active, step });
 
   return (
     <SlideLayout className="justify-start pt-6">
       <div ref={titleRef} className="mb-3 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          AI Agent Integration
+          {t("AI Agent Integration")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          LLM-powered decision making in real-time
+          {t("LLM-powered decision making in real-time")}
         </p>
       </div>
 
@@ -266,78 +410,76 @@ export function LLMFlowSlide({ active }: LLMFlowSlideProps) {
         {/* ═══════════ FAST LOOP LABEL ═══════════ */}
         <g className="label-node" style={{ opacity: 0 }}>
           <rect x={50} y={180} width={180} height={30} rx={6} fill="color-mix(in srgb, var(--accent-amber) 15%, transparent)" stroke="var(--accent-amber)" strokeWidth={1} />
-          <text x={140} y={201} textAnchor="middle" className="text-[13px] font-bold uppercase tracking-wide" fill="var(--accent-amber)">Fast Loop (ticks)</text>
+          <text x={140} y={201} textAnchor="middle" className="text-[13px] font-bold uppercase tracking-wide" fill="var(--accent-amber)">{t("Fast Loop (ticks)")}</text>
         </g>
 
         {/* ═══════════ SLOW LOOP LABEL ═══════════ */}
         <g className="label-node" style={{ opacity: 0 }}>
           <rect x={50} y={490} width={200} height={30} rx={6} fill="color-mix(in srgb, var(--accent-coral) 15%, transparent)" stroke="var(--accent-coral)" strokeWidth={1} />
-          <text x={150} y={511} textAnchor="middle" className="text-[13px] font-bold uppercase tracking-wide" fill="var(--accent-coral)">Slow Loop (~30-60s)</text>
+          <text x={150} y={511} textAnchor="middle" className="text-[13px] font-bold uppercase tracking-wide" fill="var(--accent-coral)">{t("Slow Loop (~30-60s)")}</text>
         </g>
 
         {/* ═══════════ FAST-LOOP PATHS ═══════════ */}
-        <path d={pathExToRedis()} className="ane-path path-ex-redis" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} />
-        <path d={pathRedisToEngine()} className="ane-path path-redis-engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} />
-        <path d={pathEngineToBroker()} className="ane-path path-engine-broker" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
-        <path d={pathBrokerToEngine()} className="ret-path path-broker-engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="7 5" />
+        <path d={pathExToRedis()} className="ane-path path-ex-redis" data-from="exchange" data-to="redis" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} />
+        <path d={pathRedisToEngine()} className="ane-path path-redis-engine" data-from="redis" data-to="engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2.4} />
+        <path d={pathEngineToBroker()} className="ane-path path-engine-broker" data-from="engine" data-to="broker" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
+        <path d={pathBrokerToEngine()} className="ret-path path-broker-engine" data-from="broker" data-to="engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="7 5" />
 
         {/* ═══════════ SLOW-LOOP PATHS ═══════════ */}
-        <path d={pathEngineToMetricsDB()} className="slow-path path-engine-db" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} strokeDasharray="5 4" />
-        <path d={pathDBToAPI()} className="slow-path path-db-api" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} />
-        <path d={pathAPIToAgent()} className="slow-path path-api-agent" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} />
-        <path d={pathAgentToLLM()} className="slow-path path-agent-llm" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} />
-        <path d={pathLLMToAgent()} className="slow-path path-llm-agent" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} strokeDasharray="7 5" />
-        <path d={pathAgentToEngine()} className="slow-path path-agent-engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.8} />
+        <path d={pathEngineToMetricsDB()} className="slow-path path-engine-db" data-from="engine" data-to="metrics-db" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} strokeDasharray="5 4" />
+        <path d={pathDBToAPI()} className="slow-path path-db-api" data-from="metrics-db" data-to="metrics-api" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} />
+        <path d={pathAPIToAgent()} className="slow-path path-api-agent" data-from="metrics-api" data-to="agent" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} />
+        <path d={pathAgentToLLM()} className="slow-path path-agent-llm" data-from="agent" data-to="llm" fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} />
+        <path d={pathLLMToAgent()} className="slow-path path-llm-agent" data-from="llm" data-to="agent" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} strokeDasharray="7 5" />
+        <path d={pathAgentToEngine()} className="slow-path path-agent-engine" data-from="agent" data-to="engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.8} />
 
         {/* ═══════════ FAST LOOP NODES ═══════════ */}
 
         {/* Exchange */}
-        <g className="ane-node" style={{ opacity: 0 }}>
-          <rect x={EXCHANGE.cx - EXCHANGE.w / 2} y={EXCHANGE.cy - EXCHANGE.h / 2} width={EXCHANGE.w} height={EXCHANGE.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={EXCHANGE.cx} y={EXCHANGE.cy + 5} textAnchor="middle" className="text-[15px] font-bold" fill="var(--text-primary)">Exchange</text>
-        </g>
+        <ServiceNode box={EXCHANGE} label="Exchange" nodeId="exchange" className="ane-node" strokeWidth={1.4} size={[11, 15]} />
 
         {/* Redis */}
-        <g className="ane-node" style={{ opacity: 0 }}>
-          <rect x={REDIS.cx - REDIS.w / 2} y={REDIS.cy - REDIS.h / 2} width={REDIS.w} height={REDIS.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={1.4} />
-          <text x={REDIS.cx} y={REDIS.cy - 12} textAnchor="middle" className="text-[15px] font-bold" fill="var(--text-primary)">Redis</text>
-          <text x={REDIS.cx} y={REDIS.cy + 8} textAnchor="middle" className="text-[15px] font-bold" fill="var(--text-primary)">Streams</text>
-          <text x={REDIS.cx} y={REDIS.cy + 28} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">ticks + commands</text>
-        </g>
+        <QueueNode box={REDIS} label="Redis Streams" sublabel="ticks + commands" nodeId="redis" className="ane-node" strokeWidth={1.4} size={[11, 15]} sublabelSize={[8, 10]} />
 
         {/* Engine */}
-        <EngineBox cx={ENGINE.cx} cy={ENGINE.cy} w={ENGINE.w} h={ENGINE.h} label="Engine" engineIdx={0} />
+        <EngineBox cx={ENGINE.cx} cy={ENGINE.cy} w={ENGINE.w} h={ENGINE.h} label="Engine" engineIdx={0} nodeId="engine" />
 
         {/* Broker */}
-        <g className="ane-node" style={{ opacity: 0 }}>
-          <rect x={BROKER.cx - BROKER.w / 2} y={BROKER.cy - BROKER.h / 2} width={BROKER.w} height={BROKER.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.4} />
-          <text x={BROKER.cx} y={BROKER.cy + 5} textAnchor="middle" className="text-[15px] font-bold" fill="var(--text-primary)">Broker</text>
-        </g>
+        <ServiceNode box={BROKER} label="Broker" nodeId="broker" className="ane-node" strokeWidth={1.4} size={[11, 15]} />
 
         {/* Path labels for fast loop */}
-        <text x={(ENGINE.cx + ENGINE.w / 2 + BROKER.cx - BROKER.w / 2) / 2} y={BROKER.cy - 45} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-coral)" style={{ opacity: 0 }}>Orders</text>
-        <text x={(ENGINE.cx + ENGINE.w / 2 + BROKER.cx - BROKER.w / 2) / 2} y={BROKER.cy + 55} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0 }}>Fills</text>
+        <text x={(ENGINE.cx + ENGINE.w / 2 + BROKER.cx - BROKER.w / 2) / 2} y={BROKER.cy - 45} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-coral)" style={{ opacity: 0 }}>{t("Orders")}</text>
+        <text x={(ENGINE.cx + ENGINE.w / 2 + BROKER.cx - BROKER.w / 2) / 2} y={BROKER.cy + 55} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0 }}>{t("Fills")}</text>
 
         {/* ═══════════ SLOW LOOP NODES ═══════════ */}
 
         {/* Metrics DB */}
-        <g className="ane-node" style={{ opacity: 0 }}>
-          <rect x={METRICS_DB.cx - METRICS_DB.w / 2} y={METRICS_DB.cy - METRICS_DB.h / 2} width={METRICS_DB.w} height={METRICS_DB.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={1.2} />
-          <text x={METRICS_DB.cx} y={METRICS_DB.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">Metrics DB</text>
-          <text x={METRICS_DB.cx} y={METRICS_DB.cy + 14} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">SQLite</text>
-        </g>
+        <DatabaseNode box={METRICS_DB} label="Metrics DB" sublabel="SQLite" nodeId="metrics-db" className="ane-node" strokeWidth={1.2} size={[10, 13]} sublabelSize={[8, 10]} />
 
         {/* Metrics API */}
-        <g className="ane-node" style={{ opacity: 0 }}>
-          <rect x={METRICS_API.cx - METRICS_API.w / 2} y={METRICS_API.cy - METRICS_API.h / 2} width={METRICS_API.w} height={METRICS_API.h} rx={10} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={1.2} />
-          <text x={METRICS_API.cx} y={METRICS_API.cy - 5} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">Metrics API</text>
-          <text x={METRICS_API.cx} y={METRICS_API.cy + 14} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">FastAPI sidecar</text>
-        </g>
+        <ServiceNode
+          box={METRICS_API}
+          label="Metrics API"
+          sublabel="FastAPI sidecar"
+          color="var(--accent-amber)"
+          nodeId="metrics-api"
+          className="ane-node"
+          strokeWidth={1.2}
+          size={[10, 13]}
+          sublabelSize={[8, 10]}
+        />
 
         {/* AI Agent */}
-        <g className="ane-node" style={{ opacity: 0 }}>
-          <rect x={AGENT.cx - AGENT.w / 2} y={AGENT.cy - AGENT.h / 2} width={AGENT.w} height={AGENT.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.8} />
-          <text x={AGENT.cx} y={AGENT.cy - AGENT.h / 2 + 24} textAnchor="middle" className="text-[15px] font-bold" fill="var(--accent-coral)">AI Agent</text>
+        <ActorNode
+          box={AGENT}
+          label="AI Agent"
+          labelColor="var(--accent-coral)"
+          labelBox={{ cx: AGENT.cx, cy: AGENT.cy - AGENT.h / 2 + 20, w: AGENT.w, h: 36 }}
+          nodeId="agent"
+          className="ane-node"
+          strokeWidth={1.8}
+          size={[11, 15]}
+        >
 
           {AGENT_ITEMS.map((label, i) => {
             const iy = AGENT.cy - 30 + i * 38;
@@ -348,42 +490,54 @@ export function LLMFlowSlide({ active }: LLMFlowSlideProps) {
                   className="agent-item-highlight"
                   fill="var(--bg-secondary)" stroke="var(--accent-coral)" strokeWidth={1} opacity={0.35}
                 />
-                <text x={AGENT.cx} y={iy + 5} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-coral)">{label}</text>
+                <BoxLabel box={{ cx: AGENT.cx, cy: iy + 1.5, w: 180, h: 27 }} label={t(label)} color="var(--accent-coral)" size={[9, 11]} padding={8} />
               </g>
             );
           })}
-        </g>
+        </ActorNode>
 
         {/* LLM */}
-        <g className="ane-node" style={{ opacity: 0 }}>
-          <rect className="llm-box" x={LLM.cx - LLM.w / 2} y={LLM.cy - LLM.h / 2} width={LLM.w} height={LLM.h} rx={20} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.4} />
-          <text x={LLM.cx} y={LLM.cy - 15} textAnchor="middle" className="text-[16px] font-bold" fill="var(--accent-coral)">LLM</text>
-          <text x={LLM.cx} y={LLM.cy + 8} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Gemini / Claude</text>
-          <text x={LLM.cx} y={LLM.cy + 26} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">structured response</text>
-        </g>
+        <CloudNode
+          box={LLM}
+          label="LLM"
+          sublabel={["Gemini / Claude", "structured response"]}
+          labelColor="var(--accent-coral)"
+          nodeId="llm"
+          className="ane-node"
+          outlineClassName="llm-box"
+          strokeWidth={1.4}
+          size={[12, 16]}
+          sublabelSize={[8, 11]}
+        />
 
         {/* Commands label */}
-        <text x={AGENT.cx + 30} y={AGENT.cy - AGENT.h / 2 - 15} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0 }}>commands</text>
+        <text x={AGENT.cx + 30} y={AGENT.cy - AGENT.h / 2 - 15} textAnchor="middle" className="label-node text-[11px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0 }}>{t("commands")}</text>
 
         {/* ═══════════ DOTS ═══════════ */}
 
         {/* Fast loop dots */}
-        <circle className="dot-ex-redis" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
-        <circle className="dot-redis-engine" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-ex-redis" data-flow="tick" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-redis-engine" data-flow="tick" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
         {ENGINE_ITEMS.map((_, i) => (
-          <circle key={`id-${i}`} className={`int-dot-0-${i}`} r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+          <circle key={`id-${i}`} className={`int-dot-0-${i}`} data-flow="tick" r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         ))}
-        <circle className="dot-engine-broker" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-broker-engine" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-engine-broker" data-flow="order" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-broker-engine" data-flow="fill" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
 
         {/* Slow loop dots */}
-        <circle className="dot-engine-db" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-db-api" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-api-agent" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-agent-llm" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-llm-agent" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-agent-engine" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-engine-db" data-flow="data" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-db-api" data-flow="data" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-api-agent" data-flow="data" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-agent-llm" data-flow="data" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-llm-agent" data-flow="data" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-agent-engine" data-flow="command" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+LLMFlowSlide.steps = ["components", "connections", "details"];
+LLMFlowSlide.details = NODE_DETAILS;
+LLMFlowSlide.focus = FOCUS_PRESETS;
@@ -1,9 +1,16 @@
 import { useRef, useEffect } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
 import { VB_W, VB_H, bezierH } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
 import { animateDot } from "./shared/animate-dot";
+import { EngineBox, type EngineItem } from "./shared/engine-box";
+import { BoxLabel } from "./shared/box-label";
+import type { NodeDetail } from "./shared/inspect";
 
 /* ================================================================
  *  OrderReplicationSlide - "One Trade, Many Accounts"
@@ -18,6 +25,7 @@ import { animateDot } from "./shared/animate-dot";
 
 interface OrderReplicationSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -30,7 +38,14 @@ const CENTER_Y = VB_H / 2 - 20;
 const MASTER = { cx: 220, cy: CENTER_Y, w: 200, h: 160 };
 
 /* Engine with Replication Manager (center) */
-const ENGINE = { cx: CENTER_X, cy: CENTER_Y, w: 280, h: 200 };
+const ENGINE = { cx: CENTER_X, cy: CENTER_Y, w: 280, h: 240 };
+
+/* What the master order passes through on its way to the followers */
+const ENGINE_STAGES: EngineItem[] = [
+  { label: "Replication Manager", sublabel: "Scale • Route • Monitor", icon: "⇉", color: "var(--accent-coral)" },
+  { label: "Risk Checks", sublabel: "Per-account risk controls", icon: "⚖" },
+  { label: "OMS", sublabel: "One order per account", icon: "⇄", color: "var(--accent-amber)" },
+];
 
 /* Follower Accounts (right) */
 const FOLLOWER_X = VB_W - 250;
@@ -68,15 +83,64 @@ function pathBrokerToFollower(follower: typeof FOLLOWERS[0]): string {
   return `M ${x1} ${y1} C ${x1 + 60} ${y1 - 40 - idx * 20}, ${x2 - 60} ${y2 + 40}, ${x2} ${y2}`;
 }
 
+/* ────────────────────────────────────────────────────────────
+ *  NODE DETAILS — drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const NODE_DETAILS: NodeDetail[] = [
+  {
+    id: "master",
+    title: "Master Account",
+    summary: "The only account the strategy runs against. Each order it places is the template the Replication Manager scales for every follower.",
+    properties: [{ label: "Example", value: "BUY 10 lots NIFTY 22000 CE" }],
+  },
+  {
+    id: "engine",
+    title: "Replication Manager",
+    summary: "Scales each master order by the follower's multiplier, applies that account's risk limits, and routes every child order in one atomic step so followers never drift apart.",
+    properties: [
+      { label: "Per follower", value: "Scale, route, monitor" },
+      { label: "Risk", value: "Per-account limits" },
+      { label: "Guarantee", value: "Atomic replication" },
+    ],
+    diagram: {
+      width: 300,
+      height: 140,
+      nodes: [
+        { id: "order", label: "10 lots", x: 55, y: 70 },
+        ...FOLLOWERS.map((f, i) => ({ id: f.label, label: `${f.label} · ${f.scale}`, x: 235, y: 20 + i * 33, color: "var(--accent-coral)" })),
+      ],
+      edges: FOLLOWERS.map((f) => ({ from: "order", to: f.label })),
+    },
+  },
+  ...FOLLOWERS.map((f, i): NodeDetail => ({
+    id: `follower-${i}`,
+    title: f.label,
+    summary: `${f.sublabel} profile. Receives every master order scaled by ${f.scale}, with fills reported back to this account only.`,
+    properties: [
+      { label: "Multiplier", value: f.scale },
+      { label: "Risk profile", value: f.sublabel },
+    ],
+  })),
+  {
+    id: "broker",
+    title: "Broker",
+    summary: "Receives each follower's order separately under its own account, and returns fills per account.",
+    properties: [{ label: "Example total", value: "37 lots" }],
+  },
+];
+
 /* ================================================================
  *  COMPONENT
  * ================================================================ */
-export function OrderReplicationSlide({ active }: OrderReplicationSlideProps) {
+export function OrderReplicationSlide({ active, step }: OrderReplicationSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const loopTlRef = useRef<gsap.core.Timeline | null>(null);
 
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
+  const { t } = useI18n();
+
   useEffect(() => {
     if (!active) {
       revealTlRef.current?.pause(0);
@@ -91,8 +155,9 @@ export function OrderReplicationSlide({ active }: OrderReplicationSlideProps) {
     loopTlRef.current?.kill();
 
     /* ──────── REVEAL TIMELINE ──────── */
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("master");
 
     const allPaths = svg.querySelectorAll<SVGPathElement>(".flow-path, .ret-path");
     allPaths.forEach((p) => {
@@ -108,11 +173,15 @@ export function OrderReplicationSlide({ active }: OrderReplicationSlideProps) {
 
     /* Engine */
     const engineNode = svg.querySelector(".engine-node");
-    reveal.fromTo(engineNode, { opacity: 0, scale: 0.95, transformOrigin: "center center" }, { opacity: 1, scale: 1, duration: 0.5, ease: "back.out" }, "-=0.3");
+    reveal.addLabel("replication");
+    reveal.fromTo(engineNode, { opacity: 0, scale: 0.95, transformOrigin: "center center" }, { opacity: 1, scale: 1, duration: 0.5, ease: "back.out" });
+    const engineStages = svg.querySelectorAll(".engine-node .engine-item");
+    reveal.fromTo(engineStages, { opacity: 0, x: 10 }, { opacity: 1, x: 0, duration: 0.3, stagger: 0.08, ease: "power2.out" }, "-=0.2");
 
     /* Followers */
     const followerNodes = svg.querySelectorAll(".follower-node");
-    reveal.fromTo(followerNodes, { opacity: 0, x: 20 }, { opacity: 1, x: 0, duration: 0.4, stagger: 0.08, ease: "power2.out" }, "-=0.2");
+    reveal.addLabel("followers");
+    reveal.fromTo(followerNodes, { opacity: 0, x: 20 }, { opacity: 1, x: 0, duration: 0.4, stagger: 0.08, ease: "power2.out" });
 
     /* Scale badges */
     const scaleBadges = svg.querySelectorAll(".scale-badge");
@@ -120,7 +189,8 @@ export function OrderReplicationSlide({ active }: OrderReplicationSlideProps) {
 
     /* Broker */
     const brokerNode = svg.querySelector(".broker-node");
-    reveal.fromTo(brokerNode, { opacity: 0, y: 15 }, { opacity: 1, y: 0, duration: 0.4, ease: "power2.out" }, "-=0.2");
+    reveal.addLabel("broker");
+    reveal.fromTo(brokerNode, { opacity: 0, y: 15 }, { opacity: 1, y: 0, duration: 0.4, ease: "power2.out" });
 
     /* Paths */
     reveal.to(allPaths, { opacity: 0.45, strokeDashoffset: 0, duration: 0.6, stagger: 0.02, ease: "power1.inOut" });
@@ -140,6 +210,11 @@ export function OrderReplicationSlide({ active }: OrderReplicationSlideProps) {
     const dMasterEngine = svg.querySelector<SVGCircleElement>(".dot-master-engine");
     if (pMasterEngine && dMasterEngine) animateDot(dMasterEngine, pMasterEngine, loop, 0.4, 0);
 
+    /* The order clears each engine stage before it is replicated */
+    const stageChecks = ENGINE_STAGES.map((_, i) => svg.querySelector(`.engine-check-0-${i}`));
+    loop.fromTo(stageChecks, { opacity: 0, scale: 0.8 }, { opacity: 1, scale: 1, duration: 0.12, stagger: 0.08, ease: "back.out" }, 0.38);
+    loop.to(stageChecks, { opacity: 0, duration: 0.3 }, 1.6);
+
     /* Engine → Followers (replicated, parallel) */
     FOLLOWERS.forEach((_, i) => {
       const p = svg.querySelector<SVGPathElement>(`.path-engine-follower-${i}`);
@@ -175,14 +250,16 @@ export function OrderReplicationSlide({ active }: OrderReplicationSlideProps) {
     };
   }, [active]);
 
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps: OrderReplicationSlide.steps, active, step });
+
   return (
     <SlideLayout className="justify-start pt-6">
       <div ref={titleRef} className="mb-3 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          One Trade, Many Accounts
+          {t("One Trade, Many Accounts")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          Master-follower replication with per-account scaling and risk controls
+          {t("Master-follower replication with per-account scaling and risk controls")}
         </p>
       </div>
 
@@ -199,73 +276,77 @@ export function OrderReplicationSlide({ active }: OrderReplicationSlideProps) {
         {/* ═══════════ PATHS ═══════════ */}
         
         {/* Master → Engine */}
-        <path d={pathMasterToEngine()} className="flow-path path-master-engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2.5} />
+        <path d={pathMasterToEngine()} className="flow-path path-master-engine" data-from="master" data-to="engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2.5} />
 
         {/* Engine → Followers */}
         {FOLLOWERS.map((f, i) => (
-          <path key={`ef-${i}`} d={pathEngineToFollower(f)} className={`flow-path path-engine-follower-${i}`} fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
+          <path key={`ef-${i}`} d={pathEngineToFollower(f)} className={`flow-path path-engine-follower-${i}`} data-from="engine" data-to={`follower-${i}`} fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
         ))}
 
         {/* Followers → Broker */}
         {FOLLOWERS.map((f, i) => (
-          <path key={`fb-${i}`} d={pathFollowerToBroker(f)} className={`flow-path path-follower-broker-${i}`} fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} opacity={0.7} />
+          <path key={`fb-${i}`} d={pathFollowerToBroker(f)} className={`flow-path path-follower-broker-${i}`} data-from={`follower-${i}`} data-to="broker" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} opacity={0.7} />
         ))}
 
         {/* Broker → Followers (fills) */}
         {FOLLOWERS.map((f, i) => (
-          <path key={`bf-${i}`} d={pathBrokerToFollower(f)} className={`ret-path path-broker-follower-${i}`} fill="none" stroke="var(--accent-emerald)" strokeWidth={1.4} strokeDasharray="6 4" />
+          <path key={`bf-${i}`} d={pathBrokerToFollower(f)} className={`ret-path path-broker-follower-${i}`} data-from="broker" data-to={`follower-${i}`} fill="none" stroke="var(--accent-emerald)" strokeWidth={1.4} strokeDasharray="6 4" />
         ))}
 
         {/* ═══════════ MASTER ACCOUNT ═══════════ */}
-        <g className="master-node" style={{ opacity: 0 }}>
+        <g className="master-node" data-node="master" style={{ opacity: 0 }}>
           <rect x={MASTER.cx - MASTER.w / 2} y={MASTER.cy - MASTER.h / 2} width={MASTER.w} height={MASTER.h} rx={16} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={2} />
-          <text x={MASTER.cx} y={MASTER.cy - 45} textAnchor="middle" className="text-[16px] font-bold" fill="var(--accent-amber)">Master Account</text>
-          <text x={MASTER.cx} y={MASTER.cy - 20} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">Strategy runs here</text>
+          <BoxLabel
+            box={{ cx: MASTER.cx, cy: MASTER.cy - 38, w: MASTER.w, h: 76 }}
+            label={t("Master Account")}
+            sublabel={t("Strategy runs here")}
+            color="var(--accent-amber)"
+            size={[12, 16]}
+            sublabelSize={[9, 12]}
+          />
           
           {/* Order preview */}
           <rect x={MASTER.cx - 80} y={MASTER.cy} width={160} height={50} rx={8} fill="var(--bg-secondary)" stroke="var(--accent-emerald)" strokeWidth={1} opacity={0.8} />
-          <text x={MASTER.cx} y={MASTER.cy + 20} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-emerald)">BUY 10 lots</text>
-          <text x={MASTER.cx} y={MASTER.cy + 38} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">NIFTY 22000 CE</text>
+          <BoxLabel
+            box={{ cx: MASTER.cx, cy: MASTER.cy + 25, w: 160, h: 50 }}
+            label={t("BUY 10 lots")}
+            sublabel={t("NIFTY 22000 CE")}
+            color="var(--accent-emerald)"
+            size={[9, 11]}
+            sublabelSize={[8, 10]}
+            padding={8}
+          />
         </g>
 
         {/* ═══════════ ENGINE ═══════════ */}
-        <g className="engine-node" style={{ opacity: 0 }}>
-          <rect
-            x={ENGINE.cx - ENGINE.w / 2 - 4}
-            y={ENGINE.cy - ENGINE.h / 2 - 4}
-            width={ENGINE.w + 8}
-            height={ENGINE.h + 8}
-            rx={20}
-            fill="none"
-            stroke="var(--accent-amber)"
-            strokeWidth={2}
-            opacity={0.3}
-          />
-          <rect x={ENGINE.cx - ENGINE.w / 2} y={ENGINE.cy - ENGINE.h / 2} width={ENGINE.w} height={ENGINE.h} rx={18} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={2} />
-          
-          <text x={ENGINE.cx} y={ENGINE.cy - 60} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-amber)">Anekant Engine</text>
-          
-          {/* Replication Manager box */}
-          <rect x={ENGINE.cx - 110} y={ENGINE.cy - 35} width={220} height={70} rx={10} fill="var(--bg-secondary)" stroke="var(--accent-coral)" strokeWidth={1.2} />
-          <text x={ENGINE.cx} y={ENGINE.cy - 10} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-coral)">Replication Manager</text>
-          <text x={ENGINE.cx} y={ENGINE.cy + 10} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">Scale • Route • Monitor</text>
-          <text x={ENGINE.cx} y={ENGINE.cy + 28} textAnchor="middle" className="text-[10px]" fill="var(--accent-emerald)">Per-account risk controls</text>
-          
-          <text x={ENGINE.cx} y={ENGINE.cy + 65} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Atomic replication</text>
-        </g>
+        <EngineBox
+          {...ENGINE}
+          label="Anekant Engine"
+          badge="Atomic replication"
+          items={ENGINE_STAGES}
+          engineIdx={0}
+          nodeId="engine"
+          className="engine-node"
+        />
 
         {/* ═══════════ FOLLOWER ACCOUNTS ═══════════ */}
         {FOLLOWERS.map((f, i) => (
-          <g key={`follower-${i}`} className="follower-node" style={{ opacity: 0 }}>
+          <g key={`follower-${i}`} className="follower-node" data-node={`follower-${i}`} style={{ opacity: 0 }}>
             <rect x={f.cx - f.w / 2} y={f.cy - f.h / 2} width={f.w} height={f.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.5} />
-            <text x={f.cx} y={f.cy - 25} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">{f.label}</text>
-            <text x={f.cx} y={f.cy - 8} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">{f.sublabel}</text>
+            {/* Top half; the quantity badge sits below */}
+            <BoxLabel
+              box={{ cx: f.cx, cy: f.cy - 22, w: f.w, h: 54 }}
+              label={t(f.label)}
+              sublabel={t(f.sublabel)}
+              size={[10, 13]}
+              sublabelSize={[8, 10]}
+            />
             
             {/* Quantity badge */}
             <g className="qty-badge">
               <rect x={f.cx - 55} y={f.cy + 5} width={110} height={28} rx={6} fill="color-mix(in srgb, var(--accent-emerald) 20%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1} />
               <text x={f.cx} y={f.cy + 24} textAnchor="middle" className="text-[11px] font-bold" fill="var(--accent-emerald)">
-                {f.scale === "2x" ? "20 lots" : f.scale === "1x" ? "10 lots" : f.scale === "0.5x" ? "5 lots" : "2 lots"}
+                {t("{lots} lots", { lots: f.scale === "2x" ? 20 : f.scale === "1x" ? 10 : f.scale === "0.5x" ? 5 : 2 })}
               </text>
             </g>
             
@@ -278,39 +359,49 @@ export function OrderReplicationSlide({ active }: OrderReplicationSlideProps) {
         ))}
 
         {/* ═══════════ BROKER ═══════════ */}
-        <g className="broker-node" style={{ opacity: 0 }}>
+        <g className="broker-node" data-node="broker" style={{ opacity: 0 }}>
           <rect x={BROKER.cx - BROKER.w / 2} y={BROKER.cy - BROKER.h / 2} width={BROKER.w} height={BROKER.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.5} />
-          <text x={BROKER.cx} y={BROKER.cy - 5} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-primary)">Broker</text>
-          <text x={BROKER.cx} y={BROKER.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">37 total lots</text>
+          <BoxLabel box={BROKER} label={t("Broker")} sublabel={t("37 total lots")} size={[11, 14]} sublabelSize={[9, 11]} />
         </g>
 
         {/* ═══════════ LABELS ═══════════ */}
-        <text x={(MASTER.cx + ENGINE.cx) / 2} y={MASTER.cy - 80} textAnchor="middle" className="text-[11px] font-medium" fill="var(--accent-amber)" style={{ opacity: 0.8 }}>Original Order</text>
-        <text x={(ENGINE.cx + FOLLOWER_X) / 2 - 30} y={CENTER_Y - 160} textAnchor="middle" className="text-[11px] font-medium" fill="var(--accent-coral)" style={{ opacity: 0.8 }}>Scaled Orders</text>
-        <text x={BROKER.cx + 130} y={BROKER.cy - 50} textAnchor="middle" className="text-[10px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0.8 }}>Fills</text>
+        <text x={(MASTER.cx + ENGINE.cx) / 2} y={MASTER.cy - 80} textAnchor="middle" className="text-[11px] font-medium" fill="var(--accent-amber)" style={{ opacity: 0.8 }}>{t("Original Order")}</text>
+        <text x={(ENGINE.cx + FOLLOWER_X) / 2 - 30} y={CENTER_Y - 160} textAnchor="middle" className="text-[11px] font-medium" fill="var(--accent-coral)" style={{ opacity: 0.8 }}>{t("Scaled Orders")}</text>
+        <text x={BROKER.cx + 130} y={BROKER.cy - 50} textAnchor="middle" className="text-[10px] font-medium" fill="var(--accent-emerald)" style={{ opacity: 0.8 }}>{t("Fills")}</text>
 
         {/* ═══════════ KEY MESSAGE ═══════════ */}
         <g className="key-message" style={{ opacity: 0 }}>
           <rect x={CENTER_X - 240} y={VB_H - 70} width={480} height={55} rx={10} fill="color-mix(in srgb, var(--accent-amber) 15%, var(--bg-card))" stroke="var(--accent-amber)" strokeWidth={1.2} />
-          <text x={CENTER_X} y={VB_H - 42} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-amber)">Manage 100+ Accounts with One Strategy</text>
-          <text x={CENTER_X} y={VB_H - 22} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Per-account scaling • Independent risk controls • Real-time monitoring</text>
+          <BoxLabel
+            box={{ cx: CENTER_X, cy: VB_H - 42.5, w: 480, h: 55 }}
+            label={t("Manage 100+ Accounts with One Strategy")}
+            sublabel={t("Per-account scaling • Independent risk controls • Real-time monitoring")}
+            color="var(--accent-amber)"
+            size={[11, 14]}
+            sublabelSize={[9, 11]}
+          />
         </g>
 
         {/* ═══════════ FLOW DOTS ═══════════ */}
-        <circle className="dot-master-engine" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-master-engine" data-flow="order" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
         
         {FOLLOWERS.map((_, i) => (
-          <circle key={`def-${i}`} className={`dot-engine-follower-${i}`} r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+          <circle key={`def-${i}`} className={`dot-engine-follower-${i}`} data-flow="order" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
         ))}
         
         {FOLLOWERS.map((_, i) => (
-          <circle key={`dfb-${i}`} className={`dot-follower-broker-${i}`} r={4} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+          <circle key={`dfb-${i}`} className={`dot-follower-broker-${i}`} data-flow="order" r={4} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
         ))}
         
         {FOLLOWERS.map((_, i) => (
-          <circle key={`dbf-${i}`} className={`dot-broker-follower-${i}`} r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+          <circle key={`dbf-${i}`} className={`dot-broker-follower-${i}`} data-flow="fill" r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         ))}
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+OrderReplicationSlide.steps = ["master", "replication", "followers", "broker"];
+OrderReplicationSlide.details = NODE_DETAILS;
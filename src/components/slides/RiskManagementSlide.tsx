@@ -1,16 +1,28 @@
-import { useRef, useEffect } from "react";
+import { useRef, useEffect, useCallback } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useMetrics } from "@/hooks/useMetrics";
+import { useMetricCounters } from "@/hooks/useMetricCounters";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
 import { VB_W, VB_H, bezierH } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
 import { animateDot } from "./shared/animate-dot";
+import { EngineBox, type EngineItem } from "./shared/engine-box";
+import type { DeckMetrics } from "./shared/metrics";
+import type { NodeDetail } from "./shared/inspect";
+import type { I18n } from "./shared/i18n";
+import { BoxLabel } from "./shared/box-label";
 
 /* ================================================================
  *  RiskManagementSlide - "Institutional-Grade Risk Controls"
  *
  *  Shows centralized risk management with:
  *    - Top: Multiple strategies generating orders
- *    - Center: Position Manager with live Greeks
+ *    - Center: Position Manager (Greeks, risk checks, OMS) flanked
+ *      by the live Greeks
  *    - Bottom: Risk controls (Stop Loss, Margin Limits, Position Limits)
  *
  *  Demonstrates portfolio-level risk management.
@@ -18,6 +30,7 @@ import { animateDot } from "./shared/animate-dot";
 
 interface RiskManagementSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -33,7 +46,19 @@ const STRATEGIES = [
 ];
 
 /* Position Manager (center) */
-const POSITION_MGR = { cx: CENTER_X, cy: 450, w: 500, h: 220 };
+const POSITION_MGR = { cx: CENTER_X, cy: 450, w: 420, h: 240 };
+
+/* What every order passes through inside the Position Manager */
+const MGR_ITEMS: EngineItem[] = [
+  { label: "Greeks & P&L", sublabel: "Every tick", icon: "Δ", color: "var(--accent-amber)" },
+  { label: "Risk Checks", sublabel: "Pre-trade limits", icon: "⚖", color: "var(--accent-coral)" },
+  { label: "OMS", sublabel: "Routes to broker", icon: "⇄" },
+];
+
+/* Greeks sit in two columns either side of the Position Manager */
+const GREEK_W = 100;
+const GREEK_H = 70;
+const GREEK_GAP = 20;
 
 /* Risk Controls at bottom */
 const RISK_CONTROLS = [
@@ -42,14 +67,32 @@ const RISK_CONTROLS = [
   { cx: VB_W - 300, cy: 750, w: 200, h: 90, label: "Position Limits", value: "500 lots", icon: "⚖️" },
 ];
 
-/* Greeks display positions */
-const GREEKS = [
-  { label: "Delta", value: "-0.23", color: "var(--accent-amber)" },
-  { label: "Theta", value: "+₹2,450", color: "var(--accent-emerald)" },
-  { label: "Vega", value: "-₹890", color: "var(--accent-coral)" },
-  { label: "P&L", value: "+₹45,200", color: "var(--accent-emerald)" },
+/* Greeks display positions; values come from the metrics provider and
+   the colour follows the sign */
+type GreekKey = keyof DeckMetrics["greeks"];
+
+const GREEKS: { key: GreekKey; label: string; positive: string; negative: string }[] = [
+  { key: "delta", label: "Delta", positive: "var(--accent-emerald)", negative: "var(--accent-amber)" },
+  { key: "theta", label: "Theta", positive: "var(--accent-emerald)", negative: "var(--accent-coral)" },
+  { key: "vega", label: "Vega", positive: "var(--accent-emerald)", negative: "var(--accent-coral)" },
+  { key: "pnl", label: "P&L", positive: "var(--accent-emerald)", negative: "var(--accent-coral)" },
 ];
 
+function greekCenter(i: number): { x: number; y: number } {
+  const side = i < GREEKS.length / 2 ? -1 : 1;
+  const row = i % 2;
+  return {
+    x: POSITION_MGR.cx + side * (POSITION_MGR.w / 2 + 30 + GREEK_W / 2),
+    y: POSITION_MGR.cy + (row - 0.5) * (GREEK_H + GREEK_GAP),
+  };
+}
+
+function formatGreek({ formatNumber, formatCurrency }: I18n, key: GreekKey, value: number): string {
+  const sign = value < 0 ? "-" : "+";
+  if (key === "delta") return `${sign}${formatNumber(Math.abs(value), { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return `${sign}${formatCurrency(Math.abs(value))}`;
+}
+
 /* ────────────────────────────────────────────────────────────
  *  PATH BUILDERS
  * ──────────────────────────────────────────────────────────── */
@@ -61,20 +104,73 @@ function pathMgrToControl(control: typeof RISK_CONTROLS[0]): string {
   return bezierH(POSITION_MGR.cx - 150 + RISK_CONTROLS.indexOf(control) * 150, POSITION_MGR.cy + POSITION_MGR.h / 2, control.cx, control.cy - control.h / 2);
 }
 
+/* ────────────────────────────────────────────────────────────
+ *  NODE DETAILS — drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const RISK_SUMMARIES = [
+  "Closes positions when mark-to-market loss crosses the limit, for a single strategy or the whole portfolio.",
+  "Rejects new orders that would push margin utilisation past the cap.",
+  "Caps open lots per instrument and across strategies, so no single strategy can over-concentrate the book.",
+];
+
+const NODE_DETAILS: NodeDetail[] = [
+  ...STRATEGIES.map((st, i): NodeDetail => ({
+    id: `strategy-${i}`,
+    title: st.label,
+    summary: "Places orders through the Position Manager like every other strategy; it never talks to the broker directly, so its orders are always risk-checked.",
+    properties: [{ label: "Orders via", value: "Position Manager" }],
+  })),
+  {
+    id: "position-manager",
+    title: "Position Manager",
+    summary: "Aggregates positions from every strategy into one portfolio view, keeps Greeks and P&L current on each tick, and validates every order against the risk limits before it leaves the engine.",
+    properties: [
+      { label: "Greeks", value: GREEKS.map((g) => g.label).join(", ") },
+      { label: "Updates", value: "Every tick" },
+      { label: "Checks", value: RISK_CONTROLS.map((r) => r.label).join(", ") },
+    ],
+    diagram: {
+      width: 300,
+      height: 130,
+      nodes: [
+        { id: "order", label: "Order", x: 55, y: 65, color: "var(--accent-coral)" },
+        { id: "mgr", label: "Risk check", x: 150, y: 65 },
+        { id: "broker", label: "Broker", x: 245, y: 30, color: "var(--accent-emerald)" },
+        { id: "reject", label: "Rejected", x: 245, y: 100, color: "var(--accent-red)" },
+      ],
+      edges: [
+        { from: "order", to: "mgr" },
+        { from: "mgr", to: "broker" },
+        { from: "mgr", to: "reject" },
+      ],
+    },
+  },
+  ...RISK_CONTROLS.map((r, i): NodeDetail => ({
+    id: `risk-${i}`,
+    title: r.label,
+    summary: RISK_SUMMARIES[i],
+    properties: [
+      { label: "Limit", value: r.value },
+      { label: "Enforced", value: "Automatically, pre-trade" },
+    ],
+  })),
+];
+
 /* ================================================================
  *  COMPONENT
  * ================================================================ */
-export function RiskManagementSlide({ active }: RiskManagementSlideProps) {
+export function RiskManagementSlide({ active, step }: RiskManagementSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const loopTlRef = useRef<gsap.core.Timeline | null>(null);
-  const greekRefs = useRef<{ [key: string]: number }>({
-    delta: -0.23,
-    theta: 2450,
-    vega: -890,
-    pnl: 45200,
-  });
+
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { greeks } = useMetrics();
+  const format = useCallback((key: GreekKey, value: number) => formatGreek(i18n, key, value), [i18n]);
+  useMetricCounters({ svgRef, values: greeks, format });
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
 
   useEffect(() => {
     if (!active) {
@@ -90,8 +186,9 @@ export function RiskManagementSlide({ active }: RiskManagementSlideProps) {
     loopTlRef.current?.kill();
 
     /* ──────── REVEAL TIMELINE ──────── */
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("strategies");
 
     const allPaths = svg.querySelectorAll<SVGPathElement>(".flow-path");
     allPaths.forEach((p) => {
@@ -107,7 +204,10 @@ export function RiskManagementSlide({ active }: RiskManagementSlideProps) {
 
     /* Position Manager */
     const mgrNode = svg.querySelector(".mgr-node");
-    reveal.fromTo(mgrNode, { opacity: 0, scale: 0.95, transformOrigin: "center center" }, { opacity: 1, scale: 1, duration: 0.5, ease: "back.out" }, "-=0.1");
+    reveal.addLabel("position manager");
+    reveal.fromTo(mgrNode, { opacity: 0, scale: 0.95, transformOrigin: "center center" }, { opacity: 1, scale: 1, duration: 0.5, ease: "back.out" });
+    const mgrItems = svg.querySelectorAll(".mgr-node .engine-item");
+    reveal.fromTo(mgrItems, { opacity: 0, x: 10 }, { opacity: 1, x: 0, duration: 0.3, stagger: 0.08, ease: "power2.out" }, "-=0.2");
 
     /* Greeks */
     const greekBoxes = svg.querySelectorAll(".greek-box");
@@ -115,7 +215,8 @@ export function RiskManagementSlide({ active }: RiskManagementSlideProps) {
 
     /* Risk Controls */
     const riskNodes = svg.querySelectorAll(".risk-node");
-    reveal.fromTo(riskNodes, { opacity: 0, y: 15 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.1, ease: "power2.out" }, "-=0.1");
+    reveal.addLabel("risk controls");
+    reveal.fromTo(riskNodes, { opacity: 0, y: 15 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.1, ease: "power2.out" });
 
     /* Paths */
     reveal.to(allPaths, { opacity: 0.5, strokeDashoffset: 0, duration: 0.6, stagger: 0.03, ease: "power1.inOut" });
@@ -137,7 +238,12 @@ export function RiskManagementSlide({ active }: RiskManagementSlideProps) {
       if (p && d) animateDot(d, p, loop, 0.4, i * 0.15);
     });
 
-    /* Greeks update animation */
+    /* Each order runs through the Position Manager's stages in turn */
+    const mgrChecks = MGR_ITEMS.map((_, i) => svg.querySelector(`.engine-check-0-${i}`));
+    loop.fromTo(mgrChecks, { opacity: 0, scale: 0.8 }, { opacity: 1, scale: 1, duration: 0.15, stagger: 0.12, ease: "back.out" }, 0.55);
+    loop.to(mgrChecks, { opacity: 0, duration: 0.3 }, 2.5);
+
+    /* Greeks pulse; the values themselves count to each new metrics snapshot */
     const greekValues = svg.querySelectorAll(".greek-value");
     loop.to(greekValues, {
       scale: 1.05,
@@ -151,44 +257,6 @@ export function RiskManagementSlide({ active }: RiskManagementSlideProps) {
       ease: "power2.in",
     }, 0.7);
 
-    /* Animate greek values */
-    const deltaEl = svg.querySelector(".delta-value");
-    const thetaEl = svg.querySelector(".theta-value");
-    const vegaEl = svg.querySelector(".vega-value");
-    const pnlEl = svg.querySelector(".pnl-value");
-
-    if (deltaEl && thetaEl && vegaEl && pnlEl) {
-      loop.to(greekRefs.current, {
-        delta: -0.35,
-        theta: 2650,
-        vega: -920,
-        pnl: 48500,
-        duration: 1.0,
-        ease: "power1.inOut",
-        onUpdate() {
-          deltaEl.textContent = greekRefs.current.delta.toFixed(2);
-          thetaEl.textContent = `+₹${Math.round(greekRefs.current.theta).toLocaleString()}`;
-          vegaEl.textContent = `-₹${Math.abs(Math.round(greekRefs.current.vega)).toLocaleString()}`;
-          pnlEl.textContent = `+₹${Math.round(greekRefs.current.pnl).toLocaleString()}`;
-        },
-      }, 0.5);
-
-      loop.to(greekRefs.current, {
-        delta: -0.23,
-        theta: 2450,
-        vega: -890,
-        pnl: 45200,
-        duration: 1.0,
-        ease: "power1.inOut",
-        onUpdate() {
-          deltaEl.textContent = greekRefs.current.delta.toFixed(2);
-          thetaEl.textContent = `+₹${Math.round(greekRefs.current.theta).toLocaleString()}`;
-          vegaEl.textContent = `-₹${Math.abs(Math.round(greekRefs.current.vega)).toLocaleString()}`;
-          pnlEl.textContent = `+₹${Math.round(greekRefs.current.pnl).toLocaleString()}`;
-        },
-      }, 1.8);
-    }
-
     /* Risk checks flow */
     RISK_CONTROLS.forEach((_, i) => {
       const p = svg.querySelector<SVGPathElement>(`.path-risk-${i}`);
@@ -204,18 +272,19 @@ export function RiskManagementSlide({ active }: RiskManagementSlideProps) {
     return () => {
       reveal.kill();
       loop.kill();
-      greekRefs.current = { delta: -0.23, theta: 2450, vega: -890, pnl: 45200 };
     };
   }, [active]);
 
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps: RiskManagementSlide.steps, active, step });
+
   return (
     <SlideLayout className="justify-start pt-6">
       <div ref={titleRef} className="mb-3 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          Institutional-Grade Risk Controls
+          {t("Institutional-Grade Risk Controls")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          Portfolio-level Greeks, real-time P&L, and automated risk limits
+          {t("Portfolio-level Greeks, real-time P&L, and automated risk limits")}
         </p>
       </div>
 
@@ -233,77 +302,78 @@ export function RiskManagementSlide({ active }: RiskManagementSlideProps) {
         
         {/* Strategies → Position Manager */}
         {STRATEGIES.map((s, i) => (
-          <path key={`ps-${i}`} d={pathStrategyToMgr(s)} className={`flow-path path-strategy-${i}`} fill="none" stroke={s.color} strokeWidth={2} />
+          <path key={`ps-${i}`} d={pathStrategyToMgr(s)} className={`flow-path path-strategy-${i}`} data-from={`strategy-${i}`} data-to="position-manager" fill="none" stroke={s.color} strokeWidth={2} />
         ))}
 
         {/* Position Manager → Risk Controls */}
         {RISK_CONTROLS.map((c, i) => (
-          <path key={`pr-${i}`} d={pathMgrToControl(c)} className={`flow-path path-risk-${i}`} fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} />
+          <path key={`pr-${i}`} d={pathMgrToControl(c)} className={`flow-path path-risk-${i}`} data-from="position-manager" data-to={`risk-${i}`} fill="none" stroke="var(--accent-coral)" strokeWidth={1.8} />
         ))}
 
         {/* ═══════════ STRATEGIES ═══════════ */}
         {STRATEGIES.map((s, i) => (
-          <g key={`strat-${i}`} className="strategy-node" style={{ opacity: 0 }}>
+          <g key={`strat-${i}`} className="strategy-node" data-node={`strategy-${i}`} style={{ opacity: 0 }}>
             <rect x={s.cx - s.w / 2} y={s.cy - s.h / 2} width={s.w} height={s.h} rx={12} fill="var(--bg-card)" stroke={s.color} strokeWidth={1.6} />
-            <text x={s.cx} y={s.cy - 10} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">{s.label}</text>
-            <text x={s.cx} y={s.cy + 10} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">Generating orders</text>
-            <text x={s.cx} y={s.cy + 28} textAnchor="middle" className="text-[10px] font-medium" fill={s.color}>Active</text>
+            <BoxLabel
+              box={s}
+              label={t(s.label)}
+              sublabel={t("Generating orders")}
+              badge={t("Active")}
+              badgeColor={s.color}
+              size={[10, 13]}
+              sublabelSize={[8, 10]}
+            />
           </g>
         ))}
 
         {/* "Orders" label */}
-        <text x={CENTER_X} y={310} textAnchor="middle" className="text-[11px] font-medium" fill="var(--accent-coral)" style={{ opacity: 0.8 }}>Orders Flow Down</text>
+        <text x={CENTER_X} y={310} textAnchor="middle" className="text-[11px] font-medium" fill="var(--accent-coral)" style={{ opacity: 0.8 }}>{t("Orders Flow Down")}</text>
 
         {/* ═══════════ POSITION MANAGER ═══════════ */}
-        <g className="mgr-node" style={{ opacity: 0 }}>
-          {/* Outer glow */}
-          <rect
-            x={POSITION_MGR.cx - POSITION_MGR.w / 2 - 4}
-            y={POSITION_MGR.cy - POSITION_MGR.h / 2 - 4}
-            width={POSITION_MGR.w + 8}
-            height={POSITION_MGR.h + 8}
-            rx={20}
-            fill="none"
-            stroke="var(--accent-amber)"
-            strokeWidth={2}
-            opacity={0.3}
-          />
-          <rect x={POSITION_MGR.cx - POSITION_MGR.w / 2} y={POSITION_MGR.cy - POSITION_MGR.h / 2} width={POSITION_MGR.w} height={POSITION_MGR.h} rx={18} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={2} />
-          
-          <text x={POSITION_MGR.cx} y={POSITION_MGR.cy - 80} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-amber)">Position Manager</text>
-          <text x={POSITION_MGR.cx} y={POSITION_MGR.cy - 58} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Aggregated Portfolio View</text>
-
-          {/* Greeks boxes */}
-          {GREEKS.map((g, i) => {
-            const gx = POSITION_MGR.cx - 180 + i * 120;
-            const gy = POSITION_MGR.cy - 15;
-            return (
-              <g key={`greek-${i}`} className="greek-box" style={{ opacity: 0 }}>
-                <rect x={gx - 50} y={gy - 30} width={100} height={70} rx={10} fill="var(--bg-secondary)" stroke={g.color} strokeWidth={1.2} />
-                <text x={gx} y={gy - 8} textAnchor="middle" className="text-[10px] font-medium" fill="var(--text-muted)">{g.label}</text>
-                <text 
-                  x={gx} 
-                  y={gy + 18} 
-                  textAnchor="middle" 
-                  className={`text-[16px] font-bold greek-value ${g.label.toLowerCase()}-value`}
-                  fill={g.color}
-                >
-                  {g.value}
-                </text>
-              </g>
-            );
-          })}
-
-          <text x={POSITION_MGR.cx} y={POSITION_MGR.cy + 80} textAnchor="middle" className="text-[11px]" fill="var(--accent-emerald)">Real-time aggregation across all strategies</text>
-        </g>
+        <EngineBox
+          {...POSITION_MGR}
+          label="Position Manager"
+          badge="Aggregated Portfolio View"
+          items={MGR_ITEMS}
+          engineIdx={0}
+          nodeId="position-manager"
+          className="mgr-node"
+        />
+
+        {/* Greeks boxes */}
+        {GREEKS.map((g, i) => {
+          const { x: gx, y: gy } = greekCenter(i);
+          const color = greeks[g.key] < 0 ? g.negative : g.positive;
+          return (
+            <g key={`greek-${i}`} className="greek-box" style={{ opacity: 0 }}>
+              <rect x={gx - GREEK_W / 2} y={gy - GREEK_H / 2} width={GREEK_W} height={GREEK_H} rx={10} fill="var(--bg-secondary)" stroke={color} strokeWidth={1.2} style={{ transition: "stroke 0.4s ease" }} />
+              <text x={gx} y={gy - 13} textAnchor="middle" className="text-[10px] font-medium" fill="var(--text-muted)">{t(g.label)}</text>
+              <text 
+                x={gx} 
+                y={gy + 13} 
+                textAnchor="middle" 
+                className={`text-[16px] font-bold greek-value metric-${g.key}`}
+                fill={color}
+                style={{ transition: "fill 0.4s ease" }}
+              />
+            </g>
+          );
+        })}
 
         {/* ═══════════ RISK CONTROLS ═══════════ */}
         {RISK_CONTROLS.map((r, i) => (
-          <g key={`risk-${i}`} className="risk-node" style={{ opacity: 0 }}>
+          <g key={`risk-${i}`} className="risk-node" data-node={`risk-${i}`} style={{ opacity: 0 }}>
             <rect x={r.cx - r.w / 2} y={r.cy - r.h / 2} width={r.w} height={r.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.5} />
-            <text x={r.cx} y={r.cy - 20} textAnchor="middle" className="text-[13px] font-bold" fill="var(--text-primary)">{r.label}</text>
-            <text x={r.cx} y={r.cy + 5} textAnchor="middle" className="text-[12px] font-semibold" fill="var(--accent-emerald)">{r.value}</text>
-            <text x={r.cx} y={r.cy + 25} textAnchor="middle" className="text-[10px]" fill="var(--text-muted)">Auto-enforced</text>
+            {/* Padded clear of the check mark */}
+            <BoxLabel
+              box={r}
+              label={t(r.label)}
+              sublabel={t("Auto-enforced")}
+              badge={t(r.value)}
+              size={[10, 13]}
+              sublabelSize={[8, 10]}
+              padding={34}
+            />
             
             {/* Check mark */}
             <g className="risk-check" style={{ opacity: 0 }}>
@@ -316,19 +386,30 @@ export function RiskManagementSlide({ active }: RiskManagementSlideProps) {
         {/* ═══════════ KEY MESSAGE ═══════════ */}
         <g className="key-message" style={{ opacity: 0 }}>
           <rect x={CENTER_X - 260} y={VB_H - 60} width={520} height={50} rx={10} fill="color-mix(in srgb, var(--accent-amber) 15%, var(--bg-card))" stroke="var(--accent-amber)" strokeWidth={1.2} />
-          <text x={CENTER_X} y={VB_H - 32} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-amber)">Every Order Validated Against Risk Limits</text>
-          <text x={CENTER_X} y={VB_H - 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Automatic stop loss • Margin monitoring • Position caps</text>
+          <BoxLabel
+            box={{ cx: CENTER_X, cy: VB_H - 35, w: 520, h: 50 }}
+            label={t("Every Order Validated Against Risk Limits")}
+            sublabel={t("Automatic stop loss • Margin monitoring • Position caps")}
+            color="var(--accent-amber)"
+            size={[11, 14]}
+            sublabelSize={[9, 11]}
+          />
         </g>
 
         {/* ═══════════ FLOW DOTS ═══════════ */}
         {STRATEGIES.map((s, i) => (
-          <circle key={`ds-${i}`} className={`dot-strategy-${i}`} r={5} fill={s.color} opacity={0} filter="url(#glowAmber)" />
+          <circle key={`ds-${i}`} className={`dot-strategy-${i}`} data-flow="order" r={5} fill={s.color} opacity={0} filter="url(#glowAmber)" />
         ))}
         
         {RISK_CONTROLS.map((_, i) => (
-          <circle key={`dr-${i}`} className={`dot-risk-${i}`} r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+          <circle key={`dr-${i}`} className={`dot-risk-${i}`} data-flow="order" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
         ))}
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+RiskManagementSlide.steps = ["strategies", "position manager", "risk controls"];
+RiskManagementSlide.details = NODE_DETAILS;
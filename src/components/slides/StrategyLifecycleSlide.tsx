@@ -1,9 +1,16 @@
 import { useRef, useEffect } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
 import { VB_W, VB_H } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
 import { animateDot } from "./shared/animate-dot";
+import type { NodeDetail } from "./shared/inspect";
+import { BoxLabel } from "./shared/box-label";
+import { StateNode } from "./shared/node-shapes";
 
 /* ================================================================
  *  StrategyLifecycleSlide - "Predictable Strategy Behavior"
@@ -17,6 +24,7 @@ import { animateDot } from "./shared/animate-dot";
 
 interface StrategyLifecycleSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -26,11 +34,11 @@ const CENTER_Y = VB_H / 2 - 50;
 
 /* State boxes */
 const STATES = [
-  { cx: 200, cy: CENTER_Y, w: 160, h: 100, label: "INITIALIZE", sublabel: "Load config", color: "var(--accent-amber)" },
-  { cx: 440, cy: CENTER_Y, w: 160, h: 100, label: "START", sublabel: "Connect broker", color: "var(--accent-amber)" },
-  { cx: 680, cy: CENTER_Y, w: 160, h: 100, label: "CREATE", sublabel: "Open positions", color: "var(--accent-coral)" },
-  { cx: 920, cy: CENTER_Y, w: 160, h: 100, label: "MANAGE", sublabel: "Monitor & adjust", color: "var(--accent-emerald)" },
-  { cx: 1160, cy: CENTER_Y, w: 160, h: 100, label: "END", sublabel: "Close & report", color: "var(--accent-amber)" },
+  { id: "initialize", cx: 200, cy: CENTER_Y, w: 160, h: 100, label: "INITIALIZE", sublabel: "Load config", color: "var(--accent-amber)" },
+  { id: "start", cx: 440, cy: CENTER_Y, w: 160, h: 100, label: "START", sublabel: "Connect broker", color: "var(--accent-amber)" },
+  { id: "create", cx: 680, cy: CENTER_Y, w: 160, h: 100, label: "CREATE", sublabel: "Open positions", color: "var(--accent-coral)" },
+  { id: "manage", cx: 920, cy: CENTER_Y, w: 160, h: 100, label: "MANAGE", sublabel: "Monitor & adjust", color: "var(--accent-emerald)" },
+  { id: "end", cx: 1160, cy: CENTER_Y, w: 160, h: 100, label: "END", sublabel: "Close & report", color: "var(--accent-amber)" },
 ];
 
 /* Failed state below */
@@ -63,15 +71,54 @@ function pathManageToCreate(): string {
   return `M ${manage.cx - 40} ${manage.cy - manage.h / 2} Q ${(manage.cx + create.cx) / 2} ${CENTER_Y - 80}, ${create.cx + 40} ${create.cy - create.h / 2}`;
 }
 
+/* ────────────────────────────────────────────────────────────
+ *  NODE DETAILS — drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const NODE_DETAILS: NodeDetail[] = [
+  {
+    id: "initialize",
+    title: "Initialize",
+    summary: "Loads and validates the strategy's configuration before anything touches the market.",
+  },
+  {
+    id: "start",
+    title: "Start",
+    summary: "Connects to the broker. Recovery from FAILED and restarts after END both re-enter here.",
+  },
+  {
+    id: "create",
+    title: "Create",
+    summary: "Opens the strategy's positions.",
+  },
+  {
+    id: "manage",
+    title: "Manage",
+    summary: "Monitors and adjusts open positions, and can loop back to Create to add a position.",
+  },
+  {
+    id: "end",
+    title: "End",
+    summary: "Closes positions and reports; the strategy can be restarted from here.",
+  },
+  {
+    id: "failed",
+    title: "Failed",
+    summary: "Terminal state any step can fall into. Recovery re-enters at Start, so every path is defined and logged.",
+  },
+];
+
 /* ================================================================
  *  COMPONENT
  * ================================================================ */
-export function StrategyLifecycleSlide({ active }: StrategyLifecycleSlideProps) {
+export function StrategyLifecycleSlide({ active, step }: StrategyLifecycleSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const loopTlRef = useRef<gsap.core.Timeline | null>(null);
 
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
+  const { t } = useI18n();
+
   useEffect(() => {
     if (!active) {
       revealTlRef.current?.pause(0);
@@ -86,8 +133,9 @@ export function StrategyLifecycleSlide({ active }: StrategyLifecycleSlideProps)
     loopTlRef.current?.kill();
 
     /* ──────── REVEAL TIMELINE ──────── */
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("states");
 
     const allPaths = svg.querySelectorAll<SVGPathElement>(".flow-path, .fail-path, .recovery-path");
     allPaths.forEach((p) => {
@@ -111,7 +159,8 @@ export function StrategyLifecycleSlide({ active }: StrategyLifecycleSlideProps)
 
     /* Failed state */
     const failedNode = svg.querySelector(".failed-node");
-    reveal.fromTo(failedNode, { opacity: 0, scale: 0.95 }, { opacity: 1, scale: 1, duration: 0.4, ease: "back.out" }, "-=0.2");
+    reveal.addLabel("failure");
+    reveal.fromTo(failedNode, { opacity: 0, scale: 0.95 }, { opacity: 1, scale: 1, duration: 0.4, ease: "back.out" });
 
     /* Failure paths */
     const failPaths = svg.querySelectorAll(".fail-path");
@@ -119,6 +168,7 @@ export function StrategyLifecycleSlide({ active }: StrategyLifecycleSlideProps)
 
     /* Recovery paths */
     const recoveryPaths = svg.querySelectorAll(".recovery-path");
+    reveal.addLabel("recovery");
     reveal.to(recoveryPaths, { opacity: 0.4, strokeDashoffset: 0, duration: 0.5, stagger: 0.1, ease: "power1.inOut" });
 
     /* Key message */
@@ -186,14 +236,16 @@ export function StrategyLifecycleSlide({ active }: StrategyLifecycleSlideProps)
     };
   }, [active]);
 
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps: StrategyLifecycleSlide.steps, active, step });
+
   return (
     <SlideLayout className="justify-start pt-6">
       <div ref={titleRef} className="mb-3 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          Predictable Strategy Behavior
+          {t("Predictable Strategy Behavior")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          Every state transition is validated and auditable
+          {t("Every state transition is validated and auditable")}
         </p>
       </div>
 
@@ -213,6 +265,8 @@ export function StrategyLifecycleSlide({ active }: StrategyLifecycleSlideProps)
             key={`pf-${i}`} 
             d={pathBetweenStates(state, STATES[i + 1])} 
             className={`flow-path path-state-${i}-${i + 1}`} 
+            data-from={state.id}
+            data-to={STATES[i + 1].id}
             fill="none" 
             stroke="var(--accent-emerald)" 
             strokeWidth={2.5} 
@@ -225,6 +279,8 @@ export function StrategyLifecycleSlide({ active }: StrategyLifecycleSlideProps)
             key={`pfail-${i}`} 
             d={pathStateToFailed(state)} 
             className="fail-path" 
+            data-from={state.id}
+            data-to="failed"
             fill="none" 
             stroke="var(--accent-red)" 
             strokeWidth={1.2} 
@@ -233,80 +289,73 @@ export function StrategyLifecycleSlide({ active }: StrategyLifecycleSlideProps)
         ))}
 
         {/* ═══════════ RECOVERY PATHS ═══════════ */}
-        <path d={pathFailedToStart()} className="recovery-path" fill="none" stroke="var(--accent-amber)" strokeWidth={1.8} strokeDasharray="6 4" />
-        <path d={pathEndToStart()} className="recovery-path" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} strokeDasharray="6 4" />
-        <path d={pathManageToCreate()} className="recovery-path" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} strokeDasharray="6 4" />
+        <path d={pathFailedToStart()} className="recovery-path" data-from="failed" data-to="start" fill="none" stroke="var(--accent-amber)" strokeWidth={1.8} strokeDasharray="6 4" />
+        <path d={pathEndToStart()} className="recovery-path" data-from="end" data-to="start" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} strokeDasharray="6 4" />
+        <path d={pathManageToCreate()} className="recovery-path" data-from="manage" data-to="create" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} strokeDasharray="6 4" />
 
         {/* ═══════════ STATE BOXES ═══════════ */}
         {STATES.map((state, i) => (
-          <g key={`state-${i}`} className="state-node" style={{ opacity: 0 }}>
-            <rect 
-              className={`state-box-${i}`}
-              x={state.cx - state.w / 2} 
-              y={state.cy - state.h / 2} 
-              width={state.w} 
-              height={state.h} 
-              rx={14} 
-              fill="var(--bg-card)" 
-              stroke={state.color} 
-              strokeWidth={1.8} 
-            />
-            
-            {/* State number */}
-            <g className="state-number" style={{ opacity: 0 }}>
-              <circle cx={state.cx - state.w / 2 + 20} cy={state.cy - state.h / 2 + 20} r={14} fill={state.color} />
-              <text x={state.cx - state.w / 2 + 20} y={state.cy - state.h / 2 + 25} textAnchor="middle" className="text-[12px] font-bold" fill="var(--bg-primary)">{i + 1}</text>
-            </g>
-            
-            <text x={state.cx} y={state.cy - 10} textAnchor="middle" className="text-[14px] font-bold" fill={state.color}>{state.label}</text>
-            <text x={state.cx} y={state.cy + 12} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">{state.sublabel}</text>
-            
-            {/* Checkmark */}
-            <g className={`state-check-${i}`} style={{ opacity: 0 }}>
-              <circle cx={state.cx + state.w / 2 - 20} cy={state.cy + state.h / 2 - 20} r={12} fill="color-mix(in srgb, var(--accent-emerald) 25%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1.5} />
-              <text x={state.cx + state.w / 2 - 20} y={state.cy + state.h / 2 - 15} textAnchor="middle" className="text-[12px] font-bold" fill="var(--accent-emerald)">✓</text>
-            </g>
-          </g>
+          <StateNode
+            key={`state-${i}`}
+            box={state}
+            label={state.label}
+            sublabel={state.sublabel}
+            color={state.color}
+            labelColor={state.color}
+            strokeWidth={1.8}
+            size={[10, 14]}
+            step={i + 1}
+            nodeId={state.id}
+            className="state-node"
+            outlineClassName={`state-box-${i}`}
+            checkClassName={`state-check-${i}`}
+          />
         ))}
 
         {/* ═══════════ FAILED STATE ═══════════ */}
-        <g className="failed-node" style={{ opacity: 0 }}>
-          <rect 
-            x={FAILED.cx - FAILED.w / 2} 
-            y={FAILED.cy - FAILED.h / 2} 
-            width={FAILED.w} 
-            height={FAILED.h} 
-            rx={14} 
-            fill="var(--bg-card)" 
-            stroke="var(--accent-red)" 
-            strokeWidth={1.8} 
-          />
-          <text x={FAILED.cx} y={FAILED.cy - 15} textAnchor="middle" className="text-[16px] font-bold" fill="var(--accent-red)">FAILED</text>
-          <text x={FAILED.cx} y={FAILED.cy + 8} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Terminal state</text>
-          <text x={FAILED.cx} y={FAILED.cy + 26} textAnchor="middle" className="text-[10px]" fill="var(--accent-amber)">Recovery available</text>
-        </g>
+        <StateNode
+          box={FAILED}
+          label="FAILED"
+          sublabel="Terminal state"
+          badge="Recovery available"
+          status="ready"
+          color="var(--accent-red)"
+          labelColor="var(--accent-red)"
+          strokeWidth={1.8}
+          size={[12, 16]}
+          sublabelSize={[9, 11]}
+          labelBox={FAILED}
+          nodeId="failed"
+          className="failed-node"
+        />
 
         {/* ═══════════ PATH LABELS ═══════════ */}
-        <text x={(STATES[4].cx + STATES[1].cx) / 2} y={CENTER_Y - 140} textAnchor="middle" className="text-[10px] font-medium" fill="var(--accent-coral)">Restart Strategy</text>
-        <text x={(STATES[3].cx + STATES[2].cx) / 2} y={CENTER_Y - 70} textAnchor="middle" className="text-[10px] font-medium" fill="var(--accent-coral)">Add Position</text>
-        <text x={FAILED.cx - 130} y={FAILED.cy - 30} textAnchor="middle" className="text-[10px] font-medium" fill="var(--accent-amber)">Recover</text>
-        <text x={STATES[1].cx + 50} y={CENTER_Y + 150} textAnchor="middle" className="text-[9px] font-medium" fill="var(--accent-red)" opacity={0.7}>Any state can fail</text>
+        <text x={(STATES[4].cx + STATES[1].cx) / 2} y={CENTER_Y - 140} textAnchor="middle" className="text-[10px] font-medium" fill="var(--accent-coral)">{t("Restart Strategy")}</text>
+        <text x={(STATES[3].cx + STATES[2].cx) / 2} y={CENTER_Y - 70} textAnchor="middle" className="text-[10px] font-medium" fill="var(--accent-coral)">{t("Add Position")}</text>
+        <text x={FAILED.cx - 130} y={FAILED.cy - 30} textAnchor="middle" className="text-[10px] font-medium" fill="var(--accent-amber)">{t("Recover")}</text>
+        <text x={STATES[1].cx + 50} y={CENTER_Y + 150} textAnchor="middle" className="text-[9px] font-medium" fill="var(--accent-red)" opacity={0.7}>{t("Any state can fail")}</text>
 
         {/* ═══════════ BENEFITS BOX ═══════════ */}
         <g className="state-node" style={{ opacity: 0 }}>
           <rect x={VB_W - 280} y={CENTER_Y + 120} width={230} height={130} rx={12} fill="color-mix(in srgb, var(--accent-emerald) 12%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1} />
-          <text x={VB_W - 165} y={CENTER_Y + 150} textAnchor="middle" className="text-[12px] font-bold" fill="var(--accent-emerald)">Benefits</text>
-          <text x={VB_W - 260} y={CENTER_Y + 175} className="text-[10px]" fill="var(--text-muted)">• Validated transitions</text>
-          <text x={VB_W - 260} y={CENTER_Y + 195} className="text-[10px]" fill="var(--text-muted)">• Full audit trail</text>
-          <text x={VB_W - 260} y={CENTER_Y + 215} className="text-[10px]" fill="var(--text-muted)">• Graceful recovery</text>
-          <text x={VB_W - 260} y={CENTER_Y + 235} className="text-[10px]" fill="var(--text-muted)">• Testable states</text>
+          <text x={VB_W - 165} y={CENTER_Y + 150} textAnchor="middle" className="text-[12px] font-bold" fill="var(--accent-emerald)">{t("Benefits")}</text>
+          <text x={VB_W - 260} y={CENTER_Y + 175} className="text-[10px]" fill="var(--text-muted)">{t("• Validated transitions")}</text>
+          <text x={VB_W - 260} y={CENTER_Y + 195} className="text-[10px]" fill="var(--text-muted)">{t("• Full audit trail")}</text>
+          <text x={VB_W - 260} y={CENTER_Y + 215} className="text-[10px]" fill="var(--text-muted)">{t("• Graceful recovery")}</text>
+          <text x={VB_W - 260} y={CENTER_Y + 235} className="text-[10px]" fill="var(--text-muted)">{t("• Testable states")}</text>
         </g>
 
         {/* ═══════════ KEY MESSAGE ═══════════ */}
         <g className="key-message" style={{ opacity: 0 }}>
           <rect x={VB_W / 2 - 250} y={VB_H - 60} width={500} height={50} rx={10} fill="color-mix(in srgb, var(--accent-amber) 15%, var(--bg-card))" stroke="var(--accent-amber)" strokeWidth={1.2} />
-          <text x={VB_W / 2} y={VB_H - 32} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-amber)">State Machine Enforces Valid Transitions Only</text>
-          <text x={VB_W / 2} y={VB_H - 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">No undefined behavior • Every transition logged • Recovery paths defined</text>
+          <BoxLabel
+            box={{ cx: VB_W / 2, cy: VB_H - 35, w: 500, h: 50 }}
+            label={t("State Machine Enforces Valid Transitions Only")}
+            sublabel={t("No undefined behavior • Every transition logged • Recovery paths defined")}
+            color="var(--accent-amber)"
+            size={[11, 14]}
+            sublabelSize={[9, 11]}
+          />
         </g>
 
         {/* ═══════════ FLOW DOTS ═══════════ */}
@@ -321,6 +370,11 @@ export function StrategyLifecycleSlide({ active }: StrategyLifecycleSlideProps)
           />
         ))}
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+StrategyLifecycleSlide.steps = ["states", "failure", "recovery"];
+StrategyLifecycleSlide.details = NODE_DETAILS;
@@ -1,9 +1,17 @@
 import { useRef, useEffect } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
 import { VB_W, VB_H, bezierH } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
 import { animateDot, animateDotReverse } from "./shared/animate-dot";
+import { ActorNode, QueueNode, ServiceNode } from "./shared/node-shapes";
+import { shapePort, type Point } from "./shared/shape-geometry";
+import type { NodeDetail } from "./shared/inspect";
+import { frameBoxes, type FocusPreset } from "./shared/focus";
 
 /* ================================================================
  *  TradingTerminalSlide - "Power Any Trading Interface"
@@ -19,6 +27,7 @@ import { animateDot, animateDotReverse } from "./shared/animate-dot";
 
 interface TradingTerminalSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -42,78 +51,140 @@ const REDIS = { cx: CENTER_X, cy: 160, w: 180, h: 80 };
 /* Broker at bottom center */
 const BROKER = { cx: CENTER_X, cy: VB_H - 140, w: 160, h: 80 };
 
+/* ────────────────────────────────────────────────────────────
+ *  FOCUS PRESETS
+ * ──────────────────────────────────────────────────────────── */
+const FOCUS_PRESETS: FocusPreset[] = [
+  { id: "core", label: "Engine core", box: frameBoxes([REDIS, ENGINE, BROKER]) },
+  { id: "command-center", label: "Command Center", box: frameBoxes([COMMAND_CENTER, ENGINE]) },
+  { id: "ai-harness", label: "AI Trading Harness", box: frameBoxes([ENGINE, AI_AGENT]) },
+];
+
 /* ────────────────────────────────────────────────────────────
  *  PATH BUILDERS
  * ──────────────────────────────────────────────────────────── */
 
+const curve = (a: Point, b: Point) => bezierH(a.x, a.y, b.x, b.y);
+
 /* Redis to Engine */
 function pathRedisToEngine(): string {
-  return `M ${REDIS.cx} ${REDIS.cy + REDIS.h / 2} L ${ENGINE.cx} ${ENGINE.cy - ENGINE.h / 2}`;
+  const a = shapePort("queue", REDIS, "bottom");
+  const b = shapePort("service", ENGINE, "top");
+  return `M ${a.x} ${a.y} L ${b.x} ${b.y}`;
 }
 
 /* Engine to Broker */
 function pathEngineToBroker(): string {
-  return `M ${ENGINE.cx} ${ENGINE.cy + ENGINE.h / 2} L ${BROKER.cx} ${BROKER.cy - BROKER.h / 2}`;
+  const a = shapePort("service", ENGINE, "bottom");
+  const b = shapePort("service", BROKER, "top");
+  return `M ${a.x} ${a.y} L ${b.x} ${b.y}`;
 }
 
 /* Broker back to Engine (fills) */
 function pathBrokerToEngine(): string {
-  const x1 = BROKER.cx - 40;
-  const y1 = BROKER.cy - BROKER.h / 2;
-  const x2 = ENGINE.cx - 40;
-  const y2 = ENGINE.cy + ENGINE.h / 2;
+  const { x: x1, y: y1 } = shapePort("service", BROKER, "top", -40);
+  const { x: x2, y: y2 } = shapePort("service", ENGINE, "bottom", -40);
   return `M ${x1} ${y1} C ${x1} ${y1 - 30}, ${x2} ${y2 + 30}, ${x2} ${y2}`;
 }
 
 /* Command Center to Engine (commands) */
 function pathCcToEngine(): string {
-  return bezierH(COMMAND_CENTER.cx + COMMAND_CENTER.w / 2, COMMAND_CENTER.cy + 20, ENGINE.cx - ENGINE.w / 2, ENGINE.cy - 30);
+  return curve(shapePort("service", COMMAND_CENTER, "right", 20), shapePort("service", ENGINE, "left", -30));
 }
 
 /* Engine to Command Center (updates) */
 function pathEngineToCc(): string {
-  return bezierH(ENGINE.cx - ENGINE.w / 2, ENGINE.cy + 30, COMMAND_CENTER.cx + COMMAND_CENTER.w / 2, COMMAND_CENTER.cy + 50);
+  return curve(shapePort("service", ENGINE, "left", 30), shapePort("service", COMMAND_CENTER, "right", 50));
 }
 
 /* AI Agent to Engine (decisions) */
 function pathAiToEngine(): string {
-  return bezierH(AI_AGENT.cx - AI_AGENT.w / 2, AI_AGENT.cy + 20, ENGINE.cx + ENGINE.w / 2, ENGINE.cy - 30);
+  return curve(shapePort("actor", AI_AGENT, "left", 20), shapePort("service", ENGINE, "right", -30));
 }
 
 /* Engine to AI Agent (metrics) */
 function pathEngineToAi(): string {
-  return bezierH(ENGINE.cx + ENGINE.w / 2, ENGINE.cy + 30, AI_AGENT.cx - AI_AGENT.w / 2, AI_AGENT.cy + 50);
+  return curve(shapePort("service", ENGINE, "right", 30), shapePort("actor", AI_AGENT, "left", 50));
 }
 
 /* Mobile App to Engine */
 function pathMobileToEngine(): string {
-  return bezierH(MOBILE_APP.cx + MOBILE_APP.w / 2, MOBILE_APP.cy - 20, ENGINE.cx - ENGINE.w / 2, ENGINE.cy + 50);
+  return curve(shapePort("service", MOBILE_APP, "right", -20), shapePort("service", ENGINE, "left", 50));
 }
 
 /* Engine to Mobile App */
 function pathEngineToMobile(): string {
-  return bezierH(ENGINE.cx - ENGINE.w / 2, ENGINE.cy + 70, MOBILE_APP.cx + MOBILE_APP.w / 2, MOBILE_APP.cy);
+  return curve(shapePort("service", ENGINE, "left", 70), shapePort("service", MOBILE_APP, "right"));
 }
 
 /* Custom Desk to Engine */
 function pathDeskToEngine(): string {
-  return bezierH(CUSTOM_DESK.cx - CUSTOM_DESK.w / 2, CUSTOM_DESK.cy - 20, ENGINE.cx + ENGINE.w / 2, ENGINE.cy + 50);
+  return curve(shapePort("service", CUSTOM_DESK, "left", -20), shapePort("service", ENGINE, "right", 50));
 }
 
 /* Engine to Custom Desk */
 function pathEngineToDesk(): string {
-  return bezierH(ENGINE.cx + ENGINE.w / 2, ENGINE.cy + 70, CUSTOM_DESK.cx - CUSTOM_DESK.w / 2, CUSTOM_DESK.cy);
+  return curve(shapePort("service", ENGINE, "right", 70), shapePort("service", CUSTOM_DESK, "left"));
 }
 
+/* ────────────────────────────────────────────────────────────
+ *  NODE DETAILS — drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const NODE_DETAILS: NodeDetail[] = [
+  {
+    id: "redis",
+    title: "Redis Streams",
+    summary: "The real-time event bus feeding market data into the engine.",
+  },
+  {
+    id: "engine",
+    title: "Anekant Engine",
+    summary: "The event-driven core every interface talks to. It handles execution, so interfaces and agents only express intent.",
+    properties: [{ label: "Processing", value: "Sub-millisecond" }],
+  },
+  {
+    id: "broker",
+    title: "Broker",
+    summary: "Receives the engine's orders and returns fills.",
+  },
+  {
+    id: "command-center",
+    title: "Command Center",
+    summary: "The strategy dashboard: sends commands to the engine and shows its updates with real-time controls.",
+    properties: [{ label: "Status", value: "Live now" }],
+  },
+  {
+    id: "ai-harness",
+    title: "AI Trading Harness",
+    summary: "An AI agent delegates execution to the engine and works from a unified, managed context served over the API.",
+    properties: [{ label: "Status", value: "AI-ready interface" }],
+  },
+  {
+    id: "mobile-app",
+    title: "Mobile App",
+    summary: "iOS and Android clients on the same API.",
+    properties: [{ label: "Status", value: "Coming soon" }],
+  },
+  {
+    id: "custom-desk",
+    title: "Custom Terminal",
+    summary: "Your own trading desk, built against the same API the Command Center uses.",
+    properties: [{ label: "Status", value: "API ready" }],
+  },
+];
+
 /* ================================================================
  *  COMPONENT
  * ================================================================ */
-export function TradingTerminalSlide({ active }: TradingTerminalSlideProps) {
+export function TradingTerminalSlide({ active, step }: TradingTerminalSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const loopTlRef = useRef<gsap.core.Timeline | null>(null);
 
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
+  const { t } = useI18n();
+
   useEffect(() => {
     if (!active) {
       revealTlRef.current?.pause(0);
@@ -128,8 +199,9 @@ export function TradingTerminalSlide({ active }: TradingTerminalSlideProps) {
     loopTlRef.current?.kill();
 
     /* ──────── REVEAL TIMELINE ──────── */
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("engine");
 
     const allPaths = svg.querySelectorAll<SVGPathElement>(".flow-path, .ret-path");
     allPaths.forEach((p) => {
@@ -149,7 +221,8 @@ export function TradingTerminalSlide({ active }: TradingTerminalSlideProps) {
 
     /* Interface nodes */
     const interfaceNodes = svg.querySelectorAll(".interface-node");
-    reveal.fromTo(interfaceNodes, { opacity: 0, scale: 0.95 }, { opacity: 1, scale: 1, duration: 0.4, stagger: 0.08, ease: "power2.out" }, "-=0.1");
+    reveal.addLabel("interfaces");
+    reveal.fromTo(interfaceNodes, { opacity: 0, scale: 0.95 }, { opacity: 1, scale: 1, duration: 0.4, stagger: 0.08, ease: "power2.out" });
 
     /* Future badges */
     const futureBadges = svg.querySelectorAll(".future-badge");
@@ -160,7 +233,8 @@ export function TradingTerminalSlide({ active }: TradingTerminalSlideProps) {
 
     /* Callouts */
     const callouts = svg.querySelectorAll(".callout");
-    reveal.fromTo(callouts, { opacity: 0, y: 5 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.1, ease: "power2.out" }, "-=0.3");
+    reveal.addLabel("callouts");
+    reveal.fromTo(callouts, { opacity: 0, y: 5 }, { opacity: 1, y: 0, duration: 0.4, stagger: 0.1, ease: "power2.out" });
 
     /* ──────── LOOPING TIMELINE ──────── */
     const loop = gsap.timeline({ repeat: -1, repeatDelay: 0.4, paused: true });
@@ -230,14 +304,16 @@ export function TradingTerminalSlide({ active }: TradingTerminalSlideProps) {
     };
   }, [active]);
 
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps: TradingTerminalSlide.steps, active, step });
+
   return (
     <SlideLayout className="justify-start pt-6">
       <div ref={titleRef} className="mb-3 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          The AI-Ready Execution Harness
+          {t("The AI-Ready Execution Harness")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          Agents delegate execution to the engine, focusing purely on decision-making
+          {t("Agents delegate execution to the engine, focusing purely on decision-making")}
         </p>
       </div>
 
@@ -254,28 +330,28 @@ export function TradingTerminalSlide({ active }: TradingTerminalSlideProps) {
         {/* ═══════════ PATHS ═══════════ */}
         
         {/* Core data flow paths */}
-        <path d={pathRedisToEngine()} className="flow-path path-redis-engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2.5} />
-        <path d={pathEngineToBroker()} className="flow-path path-engine-broker" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
-        <path d={pathBrokerToEngine()} className="ret-path path-broker-engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
+        <path d={pathRedisToEngine()} className="flow-path path-redis-engine" data-from="redis" data-to="engine" fill="none" stroke="var(--accent-amber)" strokeWidth={2.5} />
+        <path d={pathEngineToBroker()} className="flow-path path-engine-broker" data-from="engine" data-to="broker" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
+        <path d={pathBrokerToEngine()} className="ret-path path-broker-engine" data-from="broker" data-to="engine" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
 
         {/* Command Center paths */}
-        <path d={pathCcToEngine()} className="flow-path path-cc-engine" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
-        <path d={pathEngineToCc()} className="ret-path path-engine-cc" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
+        <path d={pathCcToEngine()} className="flow-path path-cc-engine" data-from="command-center" data-to="engine" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
+        <path d={pathEngineToCc()} className="ret-path path-engine-cc" data-from="engine" data-to="command-center" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
 
         {/* AI Agent paths */}
-        <path d={pathAiToEngine()} className="flow-path path-ai-engine" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
-        <path d={pathEngineToAi()} className="ret-path path-engine-ai" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
+        <path d={pathAiToEngine()} className="flow-path path-ai-engine" data-from="ai-harness" data-to="engine" fill="none" stroke="var(--accent-coral)" strokeWidth={2} />
+        <path d={pathEngineToAi()} className="ret-path path-engine-ai" data-from="engine" data-to="ai-harness" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.5} strokeDasharray="6 4" />
 
         {/* Mobile App paths (dimmed for future) */}
-        <path d={pathMobileToEngine()} className="flow-path path-mobile-engine" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} opacity={0.5} />
-        <path d={pathEngineToMobile()} className="ret-path path-engine-mobile" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.2} strokeDasharray="6 4" opacity={0.5} />
+        <path d={pathMobileToEngine()} className="flow-path path-mobile-engine" data-from="mobile-app" data-to="engine" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} opacity={0.5} />
+        <path d={pathEngineToMobile()} className="ret-path path-engine-mobile" data-from="engine" data-to="mobile-app" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.2} strokeDasharray="6 4" opacity={0.5} />
 
         {/* Custom Desk paths (dimmed for future) */}
-        <path d={pathDeskToEngine()} className="flow-path path-desk-engine" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} opacity={0.5} />
-        <path d={pathEngineToDesk()} className="ret-path path-engine-desk" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.2} strokeDasharray="6 4" opacity={0.5} />
+        <path d={pathDeskToEngine()} className="flow-path path-desk-engine" data-from="custom-desk" data-to="engine" fill="none" stroke="var(--accent-coral)" strokeWidth={1.5} opacity={0.5} />
+        <path d={pathEngineToDesk()} className="ret-path path-engine-desk" data-from="engine" data-to="custom-desk" fill="none" stroke="var(--accent-emerald)" strokeWidth={1.2} strokeDasharray="6 4" opacity={0.5} />
 
         {/* ═══════════ CENTRAL ENGINE ═══════════ */}
-        <g className="engine-node" style={{ opacity: 0 }}>
+        <g className="engine-node" data-node="engine" style={{ opacity: 0 }}>
           {/* Outer glow */}
           <rect
             x={ENGINE.cx - ENGINE.w / 2 - 6}
@@ -302,113 +378,128 @@ export function TradingTerminalSlide({ active }: TradingTerminalSlideProps) {
           />
 
           <text x={ENGINE.cx} y={ENGINE.cy - 20} textAnchor="middle" className="text-[22px] font-bold" fill="var(--accent-amber)">
-            Anekant Engine
+            {t("Anekant Engine")}
           </text>
           <text x={ENGINE.cx} y={ENGINE.cy + 10} textAnchor="middle" className="text-[13px]" fill="var(--text-muted)">
-            Event-Driven Core
+            {t("Event-Driven Core")}
           </text>
           <text x={ENGINE.cx} y={ENGINE.cy + 30} textAnchor="middle" className="text-[11px]" fill="var(--accent-emerald)">
-            Sub-millisecond processing
+            {t("Sub-millisecond processing")}
           </text>
         </g>
 
         {/* ═══════════ REDIS STREAMS ═══════════ */}
-        <g className="core-node" style={{ opacity: 0 }}>
-          <rect x={REDIS.cx - REDIS.w / 2} y={REDIS.cy - REDIS.h / 2} width={REDIS.w} height={REDIS.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-amber)" strokeWidth={1.5} />
-          <text x={REDIS.cx} y={REDIS.cy - 8} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-primary)">Redis Streams</text>
-          <text x={REDIS.cx} y={REDIS.cy + 12} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">real-time event bus</text>
-        </g>
+        <QueueNode box={REDIS} label="Redis Streams" sublabel="real-time event bus" nodeId="redis" className="core-node" size={[11, 14]} sublabelSize={[8, 11]} />
 
         {/* ═══════════ BROKER ═══════════ */}
-        <g className="core-node" style={{ opacity: 0 }}>
-          <rect x={BROKER.cx - BROKER.w / 2} y={BROKER.cy - BROKER.h / 2} width={BROKER.w} height={BROKER.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-orange)" strokeWidth={1.5} />
-          <text x={BROKER.cx} y={BROKER.cy - 5} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-primary)">Broker</text>
-          <text x={BROKER.cx} y={BROKER.cy + 14} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">orders & fills</text>
-        </g>
+        <ServiceNode box={BROKER} label="Broker" sublabel="orders & fills" nodeId="broker" className="core-node" size={[11, 14]} sublabelSize={[8, 11]} />
 
         {/* ═══════════ COMMAND CENTER ═══════════ */}
-        <g className="interface-node" style={{ opacity: 0 }}>
-          <rect x={COMMAND_CENTER.cx - COMMAND_CENTER.w / 2} y={COMMAND_CENTER.cy - COMMAND_CENTER.h / 2} width={COMMAND_CENTER.w} height={COMMAND_CENTER.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.8} />
-          <text x={COMMAND_CENTER.cx} y={COMMAND_CENTER.cy - 25} textAnchor="middle" className="text-[15px] font-bold" fill="var(--text-primary)">Command Center</text>
-          <text x={COMMAND_CENTER.cx} y={COMMAND_CENTER.cy - 5} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Strategy Dashboard</text>
-          <text x={COMMAND_CENTER.cx} y={COMMAND_CENTER.cy + 15} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Real-time Controls</text>
-          <text x={COMMAND_CENTER.cx} y={COMMAND_CENTER.cy + 35} textAnchor="middle" className="text-[11px]" fill="var(--accent-emerald)">Live Now</text>
-        </g>
+        <ServiceNode
+          box={COMMAND_CENTER}
+          label="Command Center"
+          sublabel={["Strategy Dashboard", "Real-time Controls"]}
+          badge="Live Now"
+          status="live"
+          color="var(--accent-coral)"
+          nodeId="command-center"
+          className="interface-node"
+          strokeWidth={1.8}
+        />
 
         {/* ═══════════ AI TRADING HARNESS ═══════════ */}
-        <g className="interface-node" style={{ opacity: 0 }}>
-          <rect x={AI_AGENT.cx - AI_AGENT.w / 2} y={AI_AGENT.cy - AI_AGENT.h / 2} width={AI_AGENT.w} height={AI_AGENT.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-coral)" strokeWidth={1.8} />
-          <text x={AI_AGENT.cx} y={AI_AGENT.cy - 25} textAnchor="middle" className="text-[15px] font-bold" fill="var(--text-primary)">AI Trading Harness</text>
-          <text x={AI_AGENT.cx} y={AI_AGENT.cy - 5} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Agent Delegates Execution</text>
-          <text x={AI_AGENT.cx} y={AI_AGENT.cy + 15} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Unified Context via API</text>
-          <text x={AI_AGENT.cx} y={AI_AGENT.cy + 35} textAnchor="middle" className="text-[11px]" fill="var(--accent-emerald)">AI-Ready Interface</text>
-        </g>
+        <ActorNode
+          box={AI_AGENT}
+          label="AI Trading Harness"
+          sublabel={["Agent Delegates Execution", "Unified Context via API"]}
+          badge="AI-Ready Interface"
+          status="live"
+          nodeId="ai-harness"
+          className="interface-node"
+          strokeWidth={1.8}
+        />
 
         {/* ═══════════ MOBILE APP (Future) ═══════════ */}
-        <g className="interface-node" style={{ opacity: 0 }}>
-          <rect x={MOBILE_APP.cx - MOBILE_APP.w / 2} y={MOBILE_APP.cy - MOBILE_APP.h / 2} width={MOBILE_APP.w} height={MOBILE_APP.h} rx={12} fill="var(--bg-card)" stroke="var(--border-subtle)" strokeWidth={1.2} opacity={0.7} />
-          <text x={MOBILE_APP.cx} y={MOBILE_APP.cy - 15} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-muted)">Mobile App</text>
-          <text x={MOBILE_APP.cx} y={MOBILE_APP.cy + 5} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">iOS & Android</text>
-          <text x={MOBILE_APP.cx} y={MOBILE_APP.cy + 25} textAnchor="middle" className="text-[10px] font-medium future-badge" fill="var(--accent-amber)" style={{ opacity: 0 }}>Coming Soon</text>
-        </g>
+        <ServiceNode
+          box={MOBILE_APP}
+          label="Mobile App"
+          sublabel="iOS & Android"
+          badge="Coming Soon"
+          status="planned"
+          nodeId="mobile-app"
+          className="interface-node"
+          badgeClassName="future-badge"
+          size={[11, 14]}
+        />
 
         {/* ═══════════ CUSTOM TRADING DESK (Future) ═══════════ */}
-        <g className="interface-node" style={{ opacity: 0 }}>
-          <rect x={CUSTOM_DESK.cx - CUSTOM_DESK.w / 2} y={CUSTOM_DESK.cy - CUSTOM_DESK.h / 2} width={CUSTOM_DESK.w} height={CUSTOM_DESK.h} rx={12} fill="var(--bg-card)" stroke="var(--border-subtle)" strokeWidth={1.2} opacity={0.7} />
-          <text x={CUSTOM_DESK.cx} y={CUSTOM_DESK.cy - 15} textAnchor="middle" className="text-[14px] font-bold" fill="var(--text-muted)">Custom Terminal</text>
-          <text x={CUSTOM_DESK.cx} y={CUSTOM_DESK.cy + 5} textAnchor="middle" className="text-[11px]" fill="var(--text-muted)">Your Trading Desk</text>
-          <text x={CUSTOM_DESK.cx} y={CUSTOM_DESK.cy + 25} textAnchor="middle" className="text-[10px] font-medium future-badge" fill="var(--accent-amber)" style={{ opacity: 0 }}>API Ready</text>
-        </g>
+        <ServiceNode
+          box={CUSTOM_DESK}
+          label="Custom Terminal"
+          sublabel="Your Trading Desk"
+          badge="API Ready"
+          status="planned"
+          nodeId="custom-desk"
+          className="interface-node"
+          badgeClassName="future-badge"
+          size={[11, 14]}
+        />
 
         {/* ═══════════ CALLOUTS ═══════════ */}
         
         {/* Commands label */}
         <g className="callout" style={{ opacity: 0 }}>
           <rect x={COMMAND_CENTER.cx + COMMAND_CENTER.w / 2 + 15} y={COMMAND_CENTER.cy + 5} width={90} height={24} rx={6} fill="color-mix(in srgb, var(--accent-coral) 20%, var(--bg-card))" stroke="var(--accent-coral)" strokeWidth={0.8} />
-          <text x={COMMAND_CENTER.cx + COMMAND_CENTER.w / 2 + 60} y={COMMAND_CENTER.cy + 22} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-coral)">Commands</text>
+          <text x={COMMAND_CENTER.cx + COMMAND_CENTER.w / 2 + 60} y={COMMAND_CENTER.cy + 22} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-coral)">{t("Commands")}</text>
         </g>
 
         {/* Updates label */}
         <g className="callout" style={{ opacity: 0 }}>
           <rect x={COMMAND_CENTER.cx + COMMAND_CENTER.w / 2 + 15} y={COMMAND_CENTER.cy + 40} width={90} height={24} rx={6} fill="color-mix(in srgb, var(--accent-emerald) 20%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={0.8} />
-          <text x={COMMAND_CENTER.cx + COMMAND_CENTER.w / 2 + 60} y={COMMAND_CENTER.cy + 57} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-emerald)">Updates</text>
+          <text x={COMMAND_CENTER.cx + COMMAND_CENTER.w / 2 + 60} y={COMMAND_CENTER.cy + 57} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-emerald)">{t("Updates")}</text>
         </g>
 
         {/* Decisions label */}
         <g className="callout" style={{ opacity: 0 }}>
           <rect x={AI_AGENT.cx - AI_AGENT.w / 2 - 115} y={AI_AGENT.cy + 5} width={100} height={24} rx={6} fill="color-mix(in srgb, var(--accent-coral) 20%, var(--bg-card))" stroke="var(--accent-coral)" strokeWidth={0.8} />
-          <text x={AI_AGENT.cx - AI_AGENT.w / 2 - 65} y={AI_AGENT.cy + 22} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-coral)">Trade Decisions</text>
+          <text x={AI_AGENT.cx - AI_AGENT.w / 2 - 65} y={AI_AGENT.cy + 22} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-coral)">{t("Trade Decisions")}</text>
         </g>
 
         {/* Context label */}
         <g className="callout" style={{ opacity: 0 }}>
           <rect x={AI_AGENT.cx - AI_AGENT.w / 2 - 125} y={AI_AGENT.cy + 40} width={110} height={24} rx={6} fill="color-mix(in srgb, var(--accent-emerald) 20%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={0.8} />
-          <text x={AI_AGENT.cx - AI_AGENT.w / 2 - 70} y={AI_AGENT.cy + 57} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-emerald)">Managed Context</text>
+          <text x={AI_AGENT.cx - AI_AGENT.w / 2 - 70} y={AI_AGENT.cy + 57} textAnchor="middle" className="text-[10px] font-semibold" fill="var(--accent-emerald)">{t("Managed Context")}</text>
         </g>
 
         {/* Key message badge */}
         <g className="callout" style={{ opacity: 0 }}>
           <rect x={CENTER_X - 240} y={VB_H - 60} width={480} height={45} rx={10} fill="color-mix(in srgb, var(--accent-amber) 15%, var(--bg-card))" stroke="var(--accent-amber)" strokeWidth={1.2} />
-          <text x={CENTER_X} y={VB_H - 32} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-amber)">Engine Handles Execution · Agent Focuses on Strategy</text>
+          <text x={CENTER_X} y={VB_H - 32} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-amber)">{t("Engine Handles Execution · Agent Focuses on Strategy")}</text>
         </g>
 
         {/* ═══════════ FLOW DOTS ═══════════ */}
-        <circle className="dot-redis-engine" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
-        <circle className="dot-engine-broker" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-broker-engine" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-redis-engine" data-flow="tick" r={6} fill="var(--accent-amber)" opacity={0} filter="url(#glowAmber)" />
+        <circle className="dot-engine-broker" data-flow="order" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-broker-engine" data-flow="fill" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         
-        <circle className="dot-cc-engine" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-engine-cc" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-cc-engine" data-flow="command" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-engine-cc" data-flow="data" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         
-        <circle className="dot-ai-engine" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-engine-ai" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-ai-engine" data-flow="command" r={5} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-engine-ai" data-flow="data" r={5} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         
-        <circle className="dot-mobile-engine" r={4} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-engine-mobile" r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-mobile-engine" data-flow="command" r={4} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-engine-mobile" data-flow="data" r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
         
-        <circle className="dot-desk-engine" r={4} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
-        <circle className="dot-engine-desk" r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
+        <circle className="dot-desk-engine" data-flow="command" r={4} fill="var(--accent-coral)" opacity={0} filter="url(#glowCoral)" />
+        <circle className="dot-engine-desk" data-flow="data" r={4} fill="var(--accent-emerald)" opacity={0} filter="url(#glowGreen)" />
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+TradingTerminalSlide.steps = ["engine", "interfaces", "callouts"];
+TradingTerminalSlide.details = NODE_DETAILS;
+TradingTerminalSlide.focus = FOCUS_PRESETS;
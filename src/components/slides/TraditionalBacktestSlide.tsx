@@ -1,8 +1,13 @@
 import { useRef, useEffect } from "react";
 import gsap from "gsap";
 import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
 import { VB_W, VB_H } from "./shared/constants";
 import { StandardDefs } from "./shared/svg-helpers";
+import type { NodeDetail } from "./shared/inspect";
 
 /* ================================================================
  *  TraditionalBacktestSlide - Problems with Traditional Backtesting
@@ -15,6 +20,7 @@ import { StandardDefs } from "./shared/svg-helpers";
 
 interface TraditionalBacktestSlideProps {
   active: boolean;
+  step: number;
 }
 
 /* ────────────────────────────────────────────────────────────
@@ -53,15 +59,59 @@ function pathJupyterToLive(): string {
   return `M ${JUPYTER.cx + JUPYTER.w / 2} ${JUPYTER.cy} L ${LIVE_SYSTEM.cx - LIVE_SYSTEM.w / 2} ${LIVE_SYSTEM.cy}`;
 }
 
+/* ────────────────────────────────────────────────────────────
+ *  NODE DETAILS — drill-down panels
+ * ──────────────────────────────────────────────────────────── */
+const NODE_DETAILS: NodeDetail[] = [
+  {
+    id: "jupyter",
+    title: "Jupyter Notebook",
+    summary: "Where most strategies are prototyped and backtested: quick to iterate on, but built on research libraries and minute bars.",
+    properties: [
+      { label: "Libraries", value: "pandas, numpy, matplotlib" },
+      { label: "Data", value: "Minute bars only" },
+    ],
+  },
+  {
+    id: "backtest-env",
+    title: "Backtest Environment",
+    summary: "Different libraries, no real tick data, simplified indicators and no slippage modeling, so results flatter the strategy.",
+  },
+  {
+    id: "live-system",
+    title: "Live Trading System",
+    summary: "Production code on the real tick stream: a completely different codebase the strategy has to be rewritten for.",
+    properties: [{ label: "Data", value: "Real tick stream" }],
+  },
+  {
+    id: "live-env",
+    title: "Production Environment",
+    summary: "Production libraries, the real tick stream, the full indicator suite and real slippage.",
+  },
+  {
+    id: "disconnect",
+    title: "Results Don't Match",
+    summary: "Porting the strategy by hand changes its behavior, so the backtest no longer predicts what happens live.",
+  },
+  {
+    id: "problems",
+    title: "Problems with Traditional Approach",
+    summary: "Minute-bar granularity only, no tick-by-tick or 1-second replay, a rewrite for production, and different indicators with different behavior.",
+  },
+];
+
 /* ================================================================
  *  COMPONENT
  * ================================================================ */
-export function TraditionalBacktestSlide({ active }: TraditionalBacktestSlideProps) {
+export function TraditionalBacktestSlide({ active, step }: TraditionalBacktestSlideProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const titleRef = useRef<HTMLDivElement>(null);
   const revealTlRef = useRef<gsap.core.Timeline | null>(null);
   const loopTlRef = useRef<gsap.core.Timeline | null>(null);
 
+  const inspection = useNodeInspection({ svgRef, details: NODE_DETAILS, active });
+  const { t } = useI18n();
+
   useEffect(() => {
     if (!active) {
       revealTlRef.current?.pause(0);
@@ -75,8 +125,9 @@ export function TraditionalBacktestSlide({ active }: TraditionalBacktestSlidePro
     revealTlRef.current?.kill();
     loopTlRef.current?.kill();
 
-    const reveal = gsap.timeline();
+    const reveal = gsap.timeline({ paused: true });
     revealTlRef.current = reveal;
+    reveal.addLabel("research vs live");
 
     const allPaths = svg.querySelectorAll<SVGPathElement>(".flow-path");
     allPaths.forEach((p) => {
@@ -98,10 +149,12 @@ export function TraditionalBacktestSlide({ active }: TraditionalBacktestSlidePro
     reveal.to(allPaths, { opacity: 0.4, strokeDashoffset: 0, duration: 0.5, stagger: 0.05, ease: "power1.inOut" });
 
     const disconnect = svg.querySelector(".disconnect-box");
-    reveal.fromTo(disconnect, { opacity: 0, scale: 0.8 }, { opacity: 1, scale: 1, duration: 0.4, ease: "back.out" }, "-=0.2");
+    reveal.addLabel("disconnect");
+    reveal.fromTo(disconnect, { opacity: 0, scale: 0.8 }, { opacity: 1, scale: 1, duration: 0.4, ease: "back.out" });
 
     const problems = svg.querySelector(".problems-box");
-    reveal.fromTo(problems, { opacity: 0, y: 20 }, { opacity: 1, y: 0, duration: 0.5, ease: "power2.out" }, "-=0.1");
+    reveal.addLabel("problems");
+    reveal.fromTo(problems, { opacity: 0, y: 20 }, { opacity: 1, y: 0, duration: 0.5, ease: "power2.out" });
 
     const loop = gsap.timeline({ repeat: -1, repeatDelay: 0.8, paused: true });
     loopTlRef.current = loop;
@@ -159,14 +212,16 @@ export function TraditionalBacktestSlide({ active }: TraditionalBacktestSlidePro
     };
   }, [active]);
 
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps: TraditionalBacktestSlide.steps, active, step });
+
   return (
     <SlideLayout className="justify-start pt-5">
       <div ref={titleRef} className="mb-2 text-center opacity-0">
         <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
-          The Backtesting Problem
+          {t("The Backtesting Problem")}
         </h2>
         <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
-          Why Jupyter notebooks don't match production
+          {t("Why Jupyter notebooks don't match production")}
         </p>
       </div>
 
@@ -183,75 +238,75 @@ export function TraditionalBacktestSlide({ active }: TraditionalBacktestSlidePro
         {/* ═══════════ COLUMN HEADERS ═══════════ */}
         <g className="col-header" style={{ opacity: 0 }}>
           <rect x={LEFT_X - 130} y={120} width={260} height={40} rx={8} fill="color-mix(in srgb, var(--accent-red) 15%, transparent)" stroke="var(--accent-red)" strokeWidth={1} />
-          <text x={LEFT_X} y={147} textAnchor="middle" className="text-[15px] font-bold uppercase tracking-wide" fill="var(--accent-red)">Backtesting</text>
+          <text x={LEFT_X} y={147} textAnchor="middle" className="text-[15px] font-bold uppercase tracking-wide" fill="var(--accent-red)">{t("Backtesting")}</text>
         </g>
 
         <g className="col-header" style={{ opacity: 0 }}>
           <rect x={RIGHT_X - 130} y={120} width={260} height={40} rx={8} fill="color-mix(in srgb, var(--accent-red) 15%, transparent)" stroke="var(--accent-red)" strokeWidth={1} />
-          <text x={RIGHT_X} y={147} textAnchor="middle" className="text-[15px] font-bold uppercase tracking-wide" fill="var(--accent-red)">Live Trading</text>
+          <text x={RIGHT_X} y={147} textAnchor="middle" className="text-[15px] font-bold uppercase tracking-wide" fill="var(--accent-red)">{t("Live Trading")}</text>
         </g>
 
         {/* ═══════════ LEFT SIDE - BACKTESTING ═══════════ */}
         
         {/* Jupyter Notebook */}
-        <g className="left-node" style={{ opacity: 0 }}>
+        <g className="left-node" data-node="jupyter" style={{ opacity: 0 }}>
           <rect x={JUPYTER.cx - JUPYTER.w / 2} y={JUPYTER.cy - JUPYTER.h / 2} width={JUPYTER.w} height={JUPYTER.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.6} />
-          <text x={JUPYTER.cx} y={JUPYTER.cy - 30} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-red)">Jupyter Notebook</text>
-          <text x={JUPYTER.cx} y={JUPYTER.cy - 6} textAnchor="middle" className="text-[13px]" fill="var(--text-muted)">pandas, numpy, matplotlib</text>
-          <text x={JUPYTER.cx} y={JUPYTER.cy + 16} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">quick & dirty backtesting</text>
-          <text x={JUPYTER.cx} y={JUPYTER.cy + 40} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-red)">minute-bar data only</text>
+          <text x={JUPYTER.cx} y={JUPYTER.cy - 30} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-red)">{t("Jupyter Notebook")}</text>
+          <text x={JUPYTER.cx} y={JUPYTER.cy - 6} textAnchor="middle" className="text-[13px]" fill="var(--text-muted)">{t("pandas, numpy, matplotlib")}</text>
+          <text x={JUPYTER.cx} y={JUPYTER.cy + 16} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">{t("quick & dirty backtesting")}</text>
+          <text x={JUPYTER.cx} y={JUPYTER.cy + 40} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-red)">{t("minute-bar data only")}</text>
         </g>
 
         {/* Backtest Details */}
-        <g className="left-node" style={{ opacity: 0 }}>
+        <g className="left-node" data-node="backtest-env" style={{ opacity: 0 }}>
           <rect x={BT_DETAILS.cx - BT_DETAILS.w / 2} y={BT_DETAILS.cy - BT_DETAILS.h / 2} width={BT_DETAILS.w} height={BT_DETAILS.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.2} strokeDasharray="6 4" />
-          <text x={BT_DETAILS.cx} y={BT_DETAILS.cy - 45} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-red)">Backtest Environment</text>
-          <text x={BT_DETAILS.cx - 95} y={BT_DETAILS.cy - 20} className="text-[11px]" fill="var(--text-muted)">• Different libraries</text>
-          <text x={BT_DETAILS.cx - 95} y={BT_DETAILS.cy} className="text-[11px]" fill="var(--text-muted)">• No real tick data</text>
-          <text x={BT_DETAILS.cx - 95} y={BT_DETAILS.cy + 20} className="text-[11px]" fill="var(--text-muted)">• Simplified indicators</text>
-          <text x={BT_DETAILS.cx - 95} y={BT_DETAILS.cy + 40} className="text-[11px]" fill="var(--text-muted)">• No slippage modeling</text>
+          <text x={BT_DETAILS.cx} y={BT_DETAILS.cy - 45} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-red)">{t("Backtest Environment")}</text>
+          <text x={BT_DETAILS.cx - 95} y={BT_DETAILS.cy - 20} className="text-[11px]" fill="var(--text-muted)">{t("• Different libraries")}</text>
+          <text x={BT_DETAILS.cx - 95} y={BT_DETAILS.cy} className="text-[11px]" fill="var(--text-muted)">{t("• No real tick data")}</text>
+          <text x={BT_DETAILS.cx - 95} y={BT_DETAILS.cy + 20} className="text-[11px]" fill="var(--text-muted)">{t("• Simplified indicators")}</text>
+          <text x={BT_DETAILS.cx - 95} y={BT_DETAILS.cy + 40} className="text-[11px]" fill="var(--text-muted)">{t("• No slippage modeling")}</text>
         </g>
 
         {/* ═══════════ RIGHT SIDE - LIVE TRADING ═══════════ */}
         
         {/* Live System */}
-        <g className="right-node" style={{ opacity: 0 }}>
+        <g className="right-node" data-node="live-system" style={{ opacity: 0 }}>
           <rect x={LIVE_SYSTEM.cx - LIVE_SYSTEM.w / 2} y={LIVE_SYSTEM.cy - LIVE_SYSTEM.h / 2} width={LIVE_SYSTEM.w} height={LIVE_SYSTEM.h} rx={14} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.6} />
-          <text x={LIVE_SYSTEM.cx} y={LIVE_SYSTEM.cy - 30} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-red)">Live Trading System</text>
-          <text x={LIVE_SYSTEM.cx} y={LIVE_SYSTEM.cy - 6} textAnchor="middle" className="text-[13px]" fill="var(--text-muted)">production code</text>
-          <text x={LIVE_SYSTEM.cx} y={LIVE_SYSTEM.cy + 16} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">completely different codebase</text>
-          <text x={LIVE_SYSTEM.cx} y={LIVE_SYSTEM.cy + 40} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-red)">real tick data</text>
+          <text x={LIVE_SYSTEM.cx} y={LIVE_SYSTEM.cy - 30} textAnchor="middle" className="text-[18px] font-bold" fill="var(--accent-red)">{t("Live Trading System")}</text>
+          <text x={LIVE_SYSTEM.cx} y={LIVE_SYSTEM.cy - 6} textAnchor="middle" className="text-[13px]" fill="var(--text-muted)">{t("production code")}</text>
+          <text x={LIVE_SYSTEM.cx} y={LIVE_SYSTEM.cy + 16} textAnchor="middle" className="text-[12px]" fill="var(--text-muted)">{t("completely different codebase")}</text>
+          <text x={LIVE_SYSTEM.cx} y={LIVE_SYSTEM.cy + 40} textAnchor="middle" className="text-[11px] font-semibold" fill="var(--accent-red)">{t("real tick data")}</text>
         </g>
 
         {/* Live Details */}
-        <g className="right-node" style={{ opacity: 0 }}>
+        <g className="right-node" data-node="live-env" style={{ opacity: 0 }}>
           <rect x={LIVE_DETAILS.cx - LIVE_DETAILS.w / 2} y={LIVE_DETAILS.cy - LIVE_DETAILS.h / 2} width={LIVE_DETAILS.w} height={LIVE_DETAILS.h} rx={12} fill="var(--bg-card)" stroke="var(--accent-red)" strokeWidth={1.2} strokeDasharray="6 4" />
-          <text x={LIVE_DETAILS.cx} y={LIVE_DETAILS.cy - 45} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-red)">Production Environment</text>
-          <text x={LIVE_DETAILS.cx - 95} y={LIVE_DETAILS.cy - 20} className="text-[11px]" fill="var(--text-muted)">• Production libraries</text>
-          <text x={LIVE_DETAILS.cx - 95} y={LIVE_DETAILS.cy} className="text-[11px]" fill="var(--text-muted)">• Real tick stream</text>
-          <text x={LIVE_DETAILS.cx - 95} y={LIVE_DETAILS.cy + 20} className="text-[11px]" fill="var(--text-muted)">• Full indicator suite</text>
-          <text x={LIVE_DETAILS.cx - 95} y={LIVE_DETAILS.cy + 40} className="text-[11px]" fill="var(--text-muted)">• Real slippage</text>
+          <text x={LIVE_DETAILS.cx} y={LIVE_DETAILS.cy - 45} textAnchor="middle" className="text-[13px] font-bold" fill="var(--accent-red)">{t("Production Environment")}</text>
+          <text x={LIVE_DETAILS.cx - 95} y={LIVE_DETAILS.cy - 20} className="text-[11px]" fill="var(--text-muted)">{t("• Production libraries")}</text>
+          <text x={LIVE_DETAILS.cx - 95} y={LIVE_DETAILS.cy} className="text-[11px]" fill="var(--text-muted)">{t("• Real tick stream")}</text>
+          <text x={LIVE_DETAILS.cx - 95} y={LIVE_DETAILS.cy + 20} className="text-[11px]" fill="var(--text-muted)">{t("• Full indicator suite")}</text>
+          <text x={LIVE_DETAILS.cx - 95} y={LIVE_DETAILS.cy + 40} className="text-[11px]" fill="var(--text-muted)">{t("• Real slippage")}</text>
         </g>
 
         {/* ═══════════ PATHS ═══════════ */}
-        <path d={pathJupyterToDetails()} className="flow-path" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
-        <path d={pathLiveToDetails()} className="flow-path" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
-        <path d={pathJupyterToLive()} className="flow-path path-port" fill="none" stroke="var(--accent-red)" strokeWidth={2.5} strokeDasharray="8 6" />
+        <path d={pathJupyterToDetails()} className="flow-path" data-from="jupyter" data-to="backtest-env" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
+        <path d={pathLiveToDetails()} className="flow-path" data-from="live-system" data-to="live-env" fill="none" stroke="var(--accent-red)" strokeWidth={2} />
+        <path d={pathJupyterToLive()} className="flow-path path-port dot-route" data-from="jupyter" data-to="live-system" fill="none" stroke="var(--accent-red)" strokeWidth={2.5} strokeDasharray="8 6" />
 
         {/* Question mark on port path */}
         <g className="question-mark" style={{ opacity: 1 }}>
           <circle cx={CENTER_X} cy={JUPYTER.cy - 40} r={20} fill="color-mix(in srgb, var(--accent-red) 20%, var(--bg-card))" stroke="var(--accent-red)" strokeWidth={1.5} />
           <text x={CENTER_X} y={JUPYTER.cy - 33} textAnchor="middle" className="text-[20px] font-bold" fill="var(--accent-red)">?</text>
         </g>
-        <text x={CENTER_X} y={JUPYTER.cy - 70} textAnchor="middle" className="left-node text-[12px] font-medium" fill="var(--accent-red)" style={{ opacity: 0 }}>Port code?</text>
+        <text x={CENTER_X} y={JUPYTER.cy - 70} textAnchor="middle" className="left-node text-[12px] font-medium" fill="var(--accent-red)" style={{ opacity: 0 }}>{t("Port code?")}</text>
 
         {/* ═══════════ CENTER DISCONNECT ═══════════ */}
-        <g className="disconnect-box" style={{ opacity: 0 }}>
+        <g className="disconnect-box" data-node="disconnect" style={{ opacity: 0 }}>
           <rect x={CENTER_X - 140} y={DISCONNECT_Y - 35} width={280} height={70} rx={12} fill="color-mix(in srgb, var(--accent-red) 15%, var(--bg-card))" stroke="var(--accent-red)" strokeWidth={2} />
           <g className="disconnect-symbol">
             <text x={CENTER_X} y={DISCONNECT_Y - 5} textAnchor="middle" className="text-[24px] font-bold" fill="var(--accent-red)">≠</text>
           </g>
-          <text x={CENTER_X} y={DISCONNECT_Y + 22} textAnchor="middle" className="text-[13px] font-semibold" fill="var(--accent-red)">Results Don't Match</text>
+          <text x={CENTER_X} y={DISCONNECT_Y + 22} textAnchor="middle" className="text-[13px] font-semibold" fill="var(--accent-red)">{t("Results Don't Match")}</text>
         </g>
 
         {/* Fail mark (appears during animation) */}
@@ -261,22 +316,27 @@ export function TraditionalBacktestSlide({ active }: TraditionalBacktestSlidePro
         </g>
 
         {/* ═══════════ PROBLEMS BOX ═══════════ */}
-        <g className="problems-box" style={{ opacity: 0 }}>
+        <g className="problems-box" data-node="problems" style={{ opacity: 0 }}>
           <rect x={PROBLEMS.cx - PROBLEMS.w / 2} y={PROBLEMS.cy - PROBLEMS.h / 2} width={PROBLEMS.w} height={PROBLEMS.h} rx={14} fill="color-mix(in srgb, var(--accent-red) 12%, var(--bg-card))" stroke="var(--accent-red)" strokeWidth={1.5} />
-          <text x={PROBLEMS.cx} y={PROBLEMS.cy - 50} textAnchor="middle" className="text-[16px] font-bold" fill="var(--accent-red)">Problems with Traditional Approach</text>
+          <text x={PROBLEMS.cx} y={PROBLEMS.cy - 50} textAnchor="middle" className="text-[16px] font-bold" fill="var(--accent-red)">{t("Problems with Traditional Approach")}</text>
           
-          <text x={PROBLEMS.cx - 320} y={PROBLEMS.cy - 15} className="text-[13px]" fill="var(--text-muted)">• Minute-bar granularity only</text>
-          <text x={PROBLEMS.cx - 320} y={PROBLEMS.cy + 10} className="text-[13px]" fill="var(--text-muted)">• No tick-by-tick or 1-second replay</text>
+          <text x={PROBLEMS.cx - 320} y={PROBLEMS.cy - 15} className="text-[13px]" fill="var(--text-muted)">{t("• Minute-bar granularity only")}</text>
+          <text x={PROBLEMS.cx - 320} y={PROBLEMS.cy + 10} className="text-[13px]" fill="var(--text-muted)">{t("• No tick-by-tick or 1-second replay")}</text>
           
-          <text x={PROBLEMS.cx + 20} y={PROBLEMS.cy - 15} className="text-[13px]" fill="var(--text-muted)">• Must rewrite code for production</text>
-          <text x={PROBLEMS.cx + 20} y={PROBLEMS.cy + 10} className="text-[13px]" fill="var(--text-muted)">• Different indicators, different behavior</text>
+          <text x={PROBLEMS.cx + 20} y={PROBLEMS.cy - 15} className="text-[13px]" fill="var(--text-muted)">{t("• Must rewrite code for production")}</text>
+          <text x={PROBLEMS.cx + 20} y={PROBLEMS.cy + 10} className="text-[13px]" fill="var(--text-muted)">{t("• Different indicators, different behavior")}</text>
           
-          <text x={PROBLEMS.cx} y={PROBLEMS.cy + 45} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-red)">Backtest results ≠ Live trading results</text>
+          <text x={PROBLEMS.cx} y={PROBLEMS.cy + 45} textAnchor="middle" className="text-[14px] font-bold" fill="var(--accent-red)">{t("Backtest results ≠ Live trading results")}</text>
         </g>
 
         {/* Port dot */}
-        <circle className="port-dot" cx={JUPYTER.cx + JUPYTER.w / 2} cy={JUPYTER.cy} r={7} fill="var(--accent-red)" opacity={0} filter="url(#glowRed)" />
+        <circle className="port-dot flow-dot" data-flow="data" cx={JUPYTER.cx + JUPYTER.w / 2} cy={JUPYTER.cy} r={7} fill="var(--accent-red)" opacity={0} filter="url(#glowRed)" />
       </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
     </SlideLayout>
   );
 }
+
+TraditionalBacktestSlide.steps = ["research vs live", "disconnect", "problems"];
+TraditionalBacktestSlide.details = NODE_DETAILS;
@@ -1,5 +1,20 @@
 import gsap from "gsap";
 
+/**
+ * What a flow dot carries, set as `data-flow` on the dot. Themes with
+ * `flowShapes` draw each kind as its own shape (see index.css). `data`
+ * covers everything that informs rather than trades: metrics, status
+ * updates, model calls.
+ */
+export type FlowKind = "tick" | "order" | "fill" | "command" | "data";
+
+/* Dots and the paths they travel are tagged so reduced motion can hide
+   the dots and draw arrowheads on the paths instead (see index.css) */
+function tagFlow(dot: SVGCircleElement, path: SVGPathElement, reverse: boolean) {
+  dot.classList.add("flow-dot");
+  path.classList.add(reverse ? "dot-route-reverse" : "dot-route");
+}
+
 /**
  * Animate a dot element along an SVG path within a GSAP timeline.
  * Refined for subtle, professional animation with smooth easing.
@@ -11,6 +26,7 @@ export function animateDot(
   duration: number,
   startTime: number | string,
 ): void {
+  tagFlow(dot, path, false);
   const len = path.getTotalLength();
   tl.fromTo(
     dot,
@@ -43,6 +59,7 @@ export function animateDotReverse(
   duration: number,
   startTime: number | string,
 ): void {
+  tagFlow(dot, path, true);
   const len = path.getTotalLength();
   tl.fromTo(
     dot,
@@ -63,3 +80,25 @@ export function animateDotReverse(
     startTime,
   );
 }
+
+/**
+ * Run a one-off copy of `template` along a path, then remove it.
+ * Live mode uses this because events can overlap on the same path.
+ */
+export function spawnDot(
+  template: SVGCircleElement,
+  path: SVGPathElement,
+  duration: number,
+  delay = 0,
+  reverse = false,
+): gsap.core.Timeline {
+  const dot = template.cloneNode() as SVGCircleElement;
+  template.ownerSVGElement?.appendChild(dot);
+
+  const tl = gsap.timeline({
+    delay,
+    onComplete: () => { gsap.delayedCall(0.15, () => dot.remove()); },
+  });
+  (reverse ? animateDotReverse : animateDot)(dot, path, tl, duration, 0);
+  return tl;
+}
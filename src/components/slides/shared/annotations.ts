@@ -0,0 +1,116 @@
+/* ────────────────────────────────────────────────────────────
+ *  Presenter annotations
+ *
+ *  Marks are stored in the slide SVG's own coordinate space
+ *  (VB_W × VB_H), so they stay on the diagram whatever the
+ *  window size. Each mark resolves to plain SVG shapes, which
+ *  the live layer renders with React and export appends to the
+ *  off-screen slide with DOM calls.
+ * ──────────────────────────────────────────────────────────── */
+
+export type AnnotationTool = "laser" | "pen" | "highlight" | "arrow";
+
+export type Point = [number, number];
+
+export type Annotation =
+  | { kind: "pen"; points: Point[] }
+  | { kind: "highlight"; from: Point; to: Point }
+  | { kind: "arrow"; from: Point; to: Point };
+
+export interface AnnotationShape {
+  tag: "path" | "rect" | "polygon";
+  /** camelCase SVG attributes, as React expects them */
+  attrs: Record<string, string | number>;
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+const PEN_COLOR = "var(--accent-red)";
+const HIGHLIGHT_COLOR = "var(--accent-amber)";
+const ARROW_HEAD = 22;
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+export function annotationShapes(annotation: Annotation): AnnotationShape[] {
+  switch (annotation.kind) {
+    case "pen": {
+      const [first, ...rest] = annotation.points;
+      if (!first) return [];
+      const d = `M${round(first[0])},${round(first[1])}` + rest.map(([x, y]) => `L${round(x)},${round(y)}`).join("");
+      return [
+        {
+          tag: "path",
+          attrs: { d, fill: "none", stroke: PEN_COLOR, strokeWidth: 4, strokeLinecap: "round", strokeLinejoin: "round" },
+        },
+      ];
+    }
+    case "highlight": {
+      const [x1, y1] = annotation.from;
+      const [x2, y2] = annotation.to;
+      return [
+        {
+          tag: "rect",
+          attrs: {
+            x: round(Math.min(x1, x2)),
+            y: round(Math.min(y1, y2)),
+            width: round(Math.abs(x2 - x1)),
+            height: round(Math.abs(y2 - y1)),
+            rx: 8,
+            fill: HIGHLIGHT_COLOR,
+            fillOpacity: 0.18,
+            stroke: HIGHLIGHT_COLOR,
+            strokeWidth: 3,
+          },
+        },
+      ];
+    }
+    case "arrow": {
+      const [x1, y1] = annotation.from;
+      const [x2, y2] = annotation.to;
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const wing = (side: number): Point => [
+        x2 - ARROW_HEAD * Math.cos(angle + side * 0.45),
+        y2 - ARROW_HEAD * Math.sin(angle + side * 0.45),
+      ];
+      /* The shaft stops short of the tip so its round cap stays under the head */
+      const shaftEnd: Point = [x2 - ARROW_HEAD * 0.6 * Math.cos(angle), y2 - ARROW_HEAD * 0.6 * Math.sin(angle)];
+      return [
+        {
+          tag: "path",
+          attrs: {
+            d: `M${round(x1)},${round(y1)}L${round(shaftEnd[0])},${round(shaftEnd[1])}`,
+            stroke: PEN_COLOR,
+            strokeWidth: 5,
+            strokeLinecap: "round",
+          },
+        },
+        {
+          tag: "polygon",
+          attrs: { points: [[x2, y2], wing(1), wing(-1)].map(([x, y]) => `${round(x)},${round(y)}`).join(" "), fill: PEN_COLOR },
+        },
+      ];
+    }
+  }
+}
+
+/** Append `annotations` to an SVG as plain elements (used by export) */
+export function drawAnnotations(svg: SVGSVGElement, annotations: Annotation[]) {
+  if (annotations.length === 0) return;
+  const group = document.createElementNS(SVG_NS, "g");
+  annotations.flatMap(annotationShapes).forEach(({ tag, attrs }) => {
+    const el = document.createElementNS(SVG_NS, tag);
+    Object.entries(attrs).forEach(([name, value]) => {
+      el.setAttribute(name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`), String(value));
+    });
+    group.appendChild(el);
+  });
+  svg.appendChild(group);
+}
+
+/** Map a pointer position into the SVG's viewBox coordinates */
+export function toSvgPoint(svg: SVGSVGElement, clientX: number, clientY: number): Point | null {
+  const ctm = svg.getScreenCTM();
+  if (!ctm) return null;
+  const { x, y } = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+  return [x, y];
+}
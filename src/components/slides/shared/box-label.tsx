@@ -0,0 +1,194 @@
+import { useLayoutEffect, useRef } from "react";
+import { fitLines, layoutWithFonts, writeLines } from "./text-fit";
+import type { Box } from "./diagram/types";
+
+/* ────────────────────────────────────────────────────────────
+ *  Self-fitting SVG labels
+ *
+ *  Both components render their text elements empty and lay the
+ *  lines out after mount: words wrap at the available width and
+ *  the font shrinks within its range until the block fits. Pass
+ *  translated strings; a change of text re-runs the layout.
+ * ──────────────────────────────────────────────────────────── */
+
+const LINE_HEIGHT = 1.2;
+const SUBLABEL_GAP = 4;
+const BADGE_GAP = 8;
+const BADGE_SIZE: [number, number] = [8, 11];
+const BADGE_PAD_X = 8;
+const BADGE_PAD_Y = 4;
+
+interface FitTextProps {
+  text: string;
+  /** Anchor x and vertical centre of the block */
+  x: number;
+  y: number;
+  width: number;
+  /** Defaults to `maxLines` lines at the largest size */
+  height?: number;
+  /** Font size range in px */
+  size?: [number, number];
+  maxLines?: number;
+  anchor?: "start" | "middle" | "end";
+  fill?: string;
+  opacity?: number;
+  /** Weight, family or GSAP target classes; the size is set here */
+  className?: string;
+}
+
+/** One wrapped, shrink-to-fit text block */
+export function FitText({
+  text,
+  x,
+  y,
+  width,
+  height,
+  size: [minSize, maxSize] = [9, 14],
+  maxLines = 2,
+  anchor = "middle",
+  fill = "var(--text-primary)",
+  opacity,
+  className,
+}: FitTextProps) {
+  const textRef = useRef<SVGTextElement>(null);
+
+  useLayoutEffect(() => {
+    const el = textRef.current;
+    if (!el) return;
+    return layoutWithFonts(() => {
+      const fitted = fitLines(el, text, {
+        width,
+        height: height ?? maxLines * maxSize * LINE_HEIGHT,
+        minSize,
+        maxSize,
+        maxLines,
+        lineHeight: LINE_HEIGHT,
+      });
+      writeLines(el, fitted, x, y - fitted.height / 2, LINE_HEIGHT);
+    });
+  }, [text, x, y, width, height, minSize, maxSize, maxLines]);
+
+  return (
+    <text
+      ref={textRef}
+      className={className}
+      textAnchor={anchor}
+      dominantBaseline="central"
+      fill={fill}
+      opacity={opacity}
+    />
+  );
+}
+
+interface BoxLabelProps {
+  /** Region the label is centred in, usually the node's box */
+  box: Box;
+  label: string;
+  sublabel?: string;
+  /** Short status shown in a pill under the text */
+  badge?: string;
+  color?: string;
+  sublabelColor?: string;
+  badgeColor?: string;
+  /** Classes on the badge group, for slides that animate it separately */
+  badgeClassName?: string;
+  /** Label font range in px */
+  size?: [number, number];
+  sublabelSize?: [number, number];
+  /** Room kept clear on each side, e.g. for corner marks */
+  padding?: number;
+  /** Extra classes on the label text */
+  className?: string;
+}
+
+/**
+ * A node's label, sublabel and badge stacked and centred in `box`.
+ * The sublabel and badge are fitted first; the label gets the
+ * height that is left and may wrap to three lines.
+ */
+export function BoxLabel({
+  box,
+  label,
+  sublabel,
+  badge,
+  color = "var(--text-primary)",
+  sublabelColor = "var(--text-muted)",
+  badgeColor = "var(--accent-emerald)",
+  badgeClassName,
+  size: [minSize, maxSize] = [11, 16],
+  sublabelSize: [subMin, subMax] = [8, 11],
+  padding = 12,
+  className,
+}: BoxLabelProps) {
+  const labelRef = useRef<SVGTextElement>(null);
+  const sublabelRef = useRef<SVGTextElement>(null);
+  const badgeRef = useRef<SVGTextElement>(null);
+  const pillRef = useRef<SVGRectElement>(null);
+  const { cx, cy, w, h } = box;
+
+  useLayoutEffect(() => {
+    const labelEl = labelRef.current;
+    if (!labelEl) return;
+    const width = w - 2 * padding;
+    const room = h - 2 * Math.min(padding, h / 6);
+
+    return layoutWithFonts(() => {
+      const badgeEl = badgeRef.current;
+      const pill = pillRef.current;
+      const badgeFit = badge && badgeEl
+        ? fitLines(badgeEl, badge, { width: width - 2 * BADGE_PAD_X, height: Infinity, minSize: BADGE_SIZE[0], maxSize: BADGE_SIZE[1], maxLines: 1, lineHeight: 1 })
+        : null;
+      const badgeH = badgeFit ? badgeFit.size + 2 * BADGE_PAD_Y : 0;
+
+      const sublabelEl = sublabelRef.current;
+      const sublabelFit = sublabel && sublabelEl
+        ? fitLines(sublabelEl, sublabel, { width, height: room * 0.4, minSize: subMin, maxSize: subMax, maxLines: 2, lineHeight: LINE_HEIGHT })
+        : null;
+
+      const gaps = (sublabelFit ? SUBLABEL_GAP : 0) + (badgeFit ? BADGE_GAP : 0);
+      const labelFit = fitLines(labelEl, label, {
+        width,
+        height: room - badgeH - (sublabelFit?.height ?? 0) - gaps,
+        minSize,
+        maxSize,
+        maxLines: 3,
+        lineHeight: LINE_HEIGHT,
+      });
+
+      let top = cy - (labelFit.height + (sublabelFit?.height ?? 0) + badgeH + gaps) / 2;
+      writeLines(labelEl, labelFit, cx, top, LINE_HEIGHT);
+      top += labelFit.height;
+
+      if (sublabelFit && sublabelEl) {
+        top += SUBLABEL_GAP;
+        writeLines(sublabelEl, sublabelFit, cx, top, LINE_HEIGHT);
+        top += sublabelFit.height;
+      }
+
+      if (badgeFit && badgeEl && pill) {
+        top += BADGE_GAP;
+        writeLines(badgeEl, badgeFit, cx, top + BADGE_PAD_Y, 1);
+        const pillW = badgeEl.getComputedTextLength() + 2 * BADGE_PAD_X;
+        pill.setAttribute("x", String(cx - pillW / 2));
+        pill.setAttribute("y", String(top));
+        pill.setAttribute("width", String(pillW));
+        pill.setAttribute("height", String(badgeH));
+      }
+    });
+  }, [label, sublabel, badge, cx, cy, w, h, padding, minSize, maxSize, subMin, subMax]);
+
+  const fitProps = { textAnchor: "middle", dominantBaseline: "central" } as const;
+
+  return (
+    <>
+      <text ref={labelRef} className={["font-bold", className].filter(Boolean).join(" ")} fill={color} {...fitProps} />
+      {sublabel && <text ref={sublabelRef} fill={sublabelColor} {...fitProps} />}
+      {badge && (
+        <g className={badgeClassName}>
+          <rect ref={pillRef} rx={6} fill={`color-mix(in srgb, ${badgeColor} 20%, var(--bg-card))`} stroke={badgeColor} strokeWidth={0.8} />
+          <text ref={badgeRef} className="font-semibold" fill={badgeColor} {...fitProps} />
+        </g>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+import { createContext, type CSSProperties } from "react";
+
+/* ────────────────────────────────────────────────────────────
+ *  Brand themes (white-label decks)
+ *
+ *  A JSON config that overrides the palette's custom properties
+ *  and adds a client logo to every slide. Configs are served from
+ *  `public/brands/<id>.json` and picked with `?brand=<id>` (or
+ *  `?brand=<url>`), or by a deck's `brand`. The theme editor at
+ *  `/theme-editor` previews and exports them.
+ * ──────────────────────────────────────────────────────────── */
+
+/** The palette custom properties in index.css a brand may override */
+export const THEME_VARIABLES = [
+  "--bg-primary",
+  "--bg-secondary",
+  "--bg-card",
+  "--bg-card-hover",
+  "--text-primary",
+  "--text-secondary",
+  "--text-muted",
+  "--accent-amber",
+  "--accent-gold",
+  "--accent-orange",
+  "--accent-coral",
+  "--accent-green",
+  "--accent-emerald",
+  "--accent-red",
+  "--accent-rose",
+  "--border-subtle",
+  "--border-accent",
+] as const;
+
+export type ThemeVariable = (typeof THEME_VARIABLES)[number];
+
+export interface BrandTheme {
+  /** File name of the config, `public/brands/<id>.json` */
+  id: string;
+  /** Client name, shown in the slide footer */
+  name: string;
+  /** Overrides on top of the selected theme; unset variables follow it */
+  colors: Partial<Record<ThemeVariable, string>>;
+  /** Image URL (or data URL), shown in the title area and the footer */
+  logo?: { src: string; alt?: string };
+}
+
+export const BRANDS_PATH = "/brands";
+
+/** Where `?brand=` / `DeckDefinition.brand` loads from: a URL, or an id under `BRANDS_PATH` */
+function brandUrl(source: string) {
+  return /^(https?:)?\/|^data:/.test(source) ? source : `${BRANDS_PATH}/${encodeURIComponent(source)}.json`;
+}
+
+const isVariable = (name: string): name is ThemeVariable => (THEME_VARIABLES as readonly string[]).includes(name);
+
+/** Validate a parsed config; unknown variables and non-string values are dropped */
+export function parseBrandTheme(data: unknown): BrandTheme {
+  if (typeof data !== "object" || data === null) throw new Error("Brand theme must be a JSON object");
+  const { id, name, colors, logo } = data as Record<string, unknown>;
+  if (typeof id !== "string" || !id) throw new Error('Brand theme needs an "id"');
+  if (typeof name !== "string" || !name) throw new Error('Brand theme needs a "name"');
+
+  const brand: BrandTheme = { id, name, colors: {} };
+  if (typeof colors === "object" && colors !== null) {
+    for (const [variable, value] of Object.entries(colors)) {
+      if (isVariable(variable) && typeof value === "string" && value.trim()) brand.colors[variable] = value.trim();
+    }
+  }
+  if (typeof logo === "object" && logo !== null) {
+    const { src, alt } = logo as Record<string, unknown>;
+    if (typeof src === "string" && src) brand.logo = { src, alt: typeof alt === "string" ? alt : undefined };
+  }
+  return brand;
+}
+
+/** Fetch and validate the config `source` names */
+export async function loadBrandTheme(source: string, signal?: AbortSignal): Promise<BrandTheme> {
+  const res = await fetch(brandUrl(source), { signal });
+  if (!res.ok) throw new Error(`Brand theme "${source}" not found (${res.status})`);
+  return parseBrandTheme(await res.json());
+}
+
+/** The brand's overrides as an inline style, scoping them to one subtree */
+export function brandStyle(brand: BrandTheme | null): CSSProperties {
+  return { ...brand?.colors } as CSSProperties;
+}
+
+/** Null when no brand is applied */
+export const BrandContext = createContext<BrandTheme | null>(null);
@@ -0,0 +1,168 @@
+import { createElement, type ComponentType } from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import { LIVE_PLAYBACK, SlidePlaybackContext, type SlidePlayback } from "./playback";
+import { ENGLISH, I18nContext, type I18n } from "./i18n";
+
+/* ────────────────────────────────────────────────────────────
+ *  Off-screen slide capture, shared by export and recording
+ * ──────────────────────────────────────────────────────────── */
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+export interface MountedSlide {
+  svg: SVGSVGElement;
+  unmount: () => void;
+}
+
+interface MountSlideOptions {
+  step?: number;
+  playback?: SlidePlayback;
+  /** The deck's language, so exports match what is on screen */
+  i18n?: I18n;
+}
+
+/**
+ * Mount a slide into a hidden 1600×900 host outside the deck.
+ * The render is flushed synchronously so the slide's timelines exist
+ * (at the current GSAP time) by the time this returns.
+ */
+export function mountSlide(
+  Component: ComponentType<{ active: boolean; step: number }>,
+  { step = 0, playback = LIVE_PLAYBACK, i18n = ENGLISH }: MountSlideOptions = {},
+): MountedSlide {
+  const host = document.createElement("div");
+  host.style.cssText = "position:fixed;left:-10000px;top:0;width:1600px;height:900px;pointer-events:none;";
+  document.body.appendChild(host);
+  const root = createRoot(host);
+
+  const unmount = () => {
+    root.unmount();
+    host.remove();
+  };
+
+  flushSync(() => {
+    root.render(
+      createElement(
+        I18nContext,
+        { value: i18n },
+        createElement(SlidePlaybackContext, { value: playback }, createElement(Component, { active: true, step })),
+      ),
+    );
+  });
+
+  const svg = host.querySelector<SVGSVGElement>("svg");
+  if (!svg) {
+    unmount();
+    throw new Error("Slide did not render an SVG");
+  }
+  return { svg, unmount };
+}
+
+/** Text styles that come from Tailwind classes (size, weight, `uppercase`, `tracking-*`) */
+const TEXT_STYLES = ["font-size", "font-weight", "font-family", "font-style", "letter-spacing", "text-transform"];
+
+/**
+ * Styles classes and index.css rules put on SVG content (flow-shape
+ * clip paths, reduced-motion markers and `.step-highlight`, hidden
+ * dots), with the value that needs no inlining
+ */
+const ELEMENT_STYLES: [string, string][] = [
+  ["opacity", "1"],
+  ["visibility", "visible"],
+  ["filter", "none"],
+  ["clip-path", "none"],
+  ["marker-start", "none"],
+  ["marker-end", "none"],
+];
+
+/** Flow-shape dots are scaled about their own centre */
+const BOX_TRANSFORM = ["transform-box", "transform-origin", "transform"];
+
+/** `url(http://host/page#id)` → `url(#id)`, so references resolve inside the file */
+function localUrls(value: string) {
+  return value.replace(/url\("?[^#")]*(#[^")]+)"?\)/g, "url($1)");
+}
+
+/** Copy the computed styles that matter from each source element onto its clone */
+function inlineComputedStyles(source: SVGSVGElement, clone: SVGSVGElement) {
+  const sourceElements = source.querySelectorAll<SVGElement>("*");
+  clone.querySelectorAll<SVGElement>("*").forEach((el, i) => {
+    const computed = getComputedStyle(sourceElements[i]);
+    if (el instanceof SVGTextElement) {
+      TEXT_STYLES.forEach((name) => el.style.setProperty(name, computed.getPropertyValue(name)));
+    }
+    ELEMENT_STYLES.forEach(([name, initial]) => {
+      const value = computed.getPropertyValue(name);
+      if (value && value !== initial) el.style.setProperty(name, localUrls(value));
+    });
+    if (computed.getPropertyValue("transform-box") === "fill-box") {
+      BOX_TRANSFORM.forEach((name) => el.style.setProperty(name, computed.getPropertyValue(name)));
+    }
+  });
+}
+
+/**
+ * Serialize a slide SVG so it renders identically outside the app:
+ * styles that came from Tailwind classes and index.css are inlined
+ * from the computed style, the page background is painted in, and
+ * every `var(--…)` is replaced with the current theme's value.
+ */
+export function standaloneSvg(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineComputedStyles(svg, clone);
+
+  const [, , width, height] = (svg.getAttribute("viewBox") ?? "").split(" ");
+  clone.removeAttribute("class");
+  clone.removeAttribute("style");
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", width);
+  clone.setAttribute("height", height);
+
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", "var(--bg-primary)");
+  clone.insertBefore(background, clone.querySelector("defs")?.nextSibling ?? clone.firstChild);
+
+  const theme = getComputedStyle(document.documentElement);
+  const markup = new XMLSerializer().serializeToString(clone);
+  return markup.replace(/var\((--[\w-]+)\)/g, (match, name: string) => theme.getPropertyValue(name).trim() || match);
+}
+
+/** Decode standalone SVG markup into an image ready for canvas drawing */
+export async function loadSvgImage(markup: string): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+  try {
+    const img = new Image();
+    img.src = url;
+    try {
+      await img.decode();
+    } catch {
+      throw new Error("The slide image could not be rendered");
+    }
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function rasterize(markup: string, scale: number): Promise<HTMLCanvasElement> {
+  const img = await loadSvgImage(markup);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth * scale;
+  canvas.height = img.naturalHeight * scale;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+export function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -20,12 +20,13 @@ export function itemY(
   engineCy: number,
   engineH: number,
   itemIdx: number,
+  itemCount = ENGINE_ITEMS.length,
+  itemH = ITEM_H,
 ): number {
   const engineTop = engineCy - engineH / 2;
-  const itemsBlockH =
-    ENGINE_ITEMS.length * ITEM_H + (ENGINE_ITEMS.length - 1) * ITEM_GAP;
+  const itemsBlockH = itemCount * itemH + (itemCount - 1) * ITEM_GAP;
   const startY = engineTop + (engineH - itemsBlockH) / 2;
-  return startY + itemIdx * (ITEM_H + ITEM_GAP) + ITEM_H / 2;
+  return startY + itemIdx * (itemH + ITEM_GAP) + itemH / 2;
 }
 
 /** Calculate the X position of an internal item within an engine */
@@ -0,0 +1,108 @@
+import gsap from "gsap";
+import { animateDot, animateDotReverse } from "../animate-dot";
+import { diagramClass, groupClass } from "./geometry";
+import type { Diagram } from "./types";
+
+const select = (id: string) => `.${diagramClass(id)}`;
+
+/* ────────────────────────────────────────────────────────────
+ *  Reveal: title, then each stage in order. Stages that start a
+ *  build step get a timeline label and drop their overlap so the
+ *  previous step is fully settled when stepping pauses there.
+ * ──────────────────────────────────────────────────────────── */
+export function buildDiagramReveal(
+  reveal: gsap.core.Timeline,
+  svg: SVGSVGElement,
+  diagram: Diagram,
+  title: HTMLElement | null,
+): void {
+  const edges = svg.querySelectorAll<SVGPathElement>(".flow-path");
+  edges.forEach((p) => {
+    const len = p.getTotalLength();
+    gsap.set(p, { opacity: 0, strokeDasharray: len, strokeDashoffset: len });
+  });
+
+  /* EngineBox hides its own wrapper and items; the node group owns visibility here */
+  gsap.set(svg.querySelectorAll(".ane-node, .engine-item"), { opacity: 1 });
+
+  const firstStep = diagram.reveal[0]?.step;
+  if (firstStep) reveal.addLabel(firstStep);
+
+  reveal.fromTo(title, { y: 14, opacity: 0 }, { y: 0, opacity: 1, duration: 0.5, ease: "expo.out" });
+
+  diagram.reveal.forEach((stage, i) => {
+    let position = stage.position;
+    if (stage.step && i > 0) {
+      reveal.addLabel(stage.step);
+      position = undefined;
+    }
+
+    if (stage.kind === "edges") {
+      reveal.to(edges, { opacity: stage.opacity, strokeDashoffset: 0, duration: stage.duration, stagger: stage.stagger, ease: stage.ease ?? "power1.inOut" }, position);
+
+      /* Hand dashed edges their pattern back once drawn */
+      diagram.edges.forEach((edge) => {
+        if (edge.dash) reveal.set(svg.querySelector(select(edge.id)), { strokeDasharray: edge.dash });
+      });
+      return;
+    }
+
+    const { x, y, scale } = stage.from;
+    const from: gsap.TweenVars = { opacity: 0, ...stage.from };
+    const to: gsap.TweenVars = { opacity: 1, duration: stage.duration, stagger: stage.stagger, ease: stage.ease ?? "power2.out" };
+    if (x !== undefined) to.x = 0;
+    if (y !== undefined) to.y = 0;
+    if (scale !== undefined) {
+      from.transformOrigin = "center center";
+      to.scale = 1;
+    }
+
+    reveal.fromTo(svg.querySelectorAll(`.${groupClass(stage.group)}`), from, to, position);
+  });
+}
+
+/* ────────────────────────────────────────────────────────────
+ *  Loop: dots along edges, outline pulses and counters, then
+ *  optional padding before the next iteration. Counters are
+ *  written with `formatNumber`, the deck locale's grouping.
+ * ──────────────────────────────────────────────────────────── */
+export function buildDiagramLoop(
+  loop: gsap.core.Timeline,
+  svg: SVGSVGElement,
+  diagram: Diagram,
+  formatNumber: (value: number) => string,
+): void {
+  const { flows, pulses = [], counters = [], pad } = diagram.loop;
+
+  flows.forEach((flow, i) => {
+    const path = svg.querySelector<SVGPathElement>(select(flow.edge));
+    const dot = svg.querySelector<SVGCircleElement>(`.dg-flow-${i}`);
+    if (!path || !dot) return;
+    const animate = flow.reverse ? animateDotReverse : animateDot;
+    animate(dot, path, loop, flow.duration, flow.at);
+  });
+
+  pulses.forEach((pulse) => {
+    const el = svg.querySelector(select(pulse.target));
+    if (!el) return;
+    loop.to(el, { attr: { "stroke-width": pulse.peak }, duration: 0.15, ease: "power2.out" }, pulse.at);
+    loop.to(el, { attr: { "stroke-width": pulse.rest }, duration: pulse.release ?? 0.15, ease: "power2.in" }, pulse.at + 0.15);
+  });
+
+  counters.forEach((c) => {
+    const el = svg.querySelector(select(c.target));
+    if (!el) return;
+    const counter = { value: 0 };
+    loop.to(counter, {
+      value: c.to,
+      duration: c.duration,
+      ease: "power1.inOut",
+      onUpdate() {
+        el.textContent = formatNumber(Math.round(counter.value));
+      },
+    }, c.at);
+    loop.to(counter, { value: c.to, duration: c.hold }, c.at + c.duration);
+  });
+
+  if (pad) loop.to({}, { duration: pad });
+}
@@ -0,0 +1,278 @@
+import { useRef, useEffect, useMemo, useCallback } from "react";
+import gsap from "gsap";
+import { SlideLayout } from "@/components/layout/SlideLayout";
+import { useBuildSteps } from "@/hooks/useBuildSteps";
+import { useLiveFlows } from "@/hooks/useLiveFlows";
+import { useNodeInspection } from "@/hooks/useNodeInspection";
+import { useI18n } from "@/hooks/useI18n";
+import { NodeDetailPanel } from "@/components/layout/NodeDetailPanel";
+import { VB_W, VB_H } from "../constants";
+import { StandardDefs } from "../svg-helpers";
+import { EngineBox } from "../engine-box";
+import { BoxLabel } from "../box-label";
+import { NodeShape } from "../node-shapes";
+import { buildDiagramLoop, buildDiagramReveal } from "./animate-diagram";
+import { diagramClass, diagramSteps, edgePath, groupClass, isShapeNode } from "./geometry";
+import type { LiveEvent, LiveFlow } from "../live-events";
+import type { NodeDetail } from "../inspect";
+import type { Diagram, DiagramNode, DiagramShape, FontWeight } from "./types";
+
+/* ────────────────────────────────────────────────────────────
+ *  Generic renderer + animator for a declarative `Diagram`
+ *
+ *  Draw order matches the hand-coded slides: edges, nodes,
+ *  free labels, then flow dots on top.
+ * ──────────────────────────────────────────────────────────── */
+
+const WEIGHT_CLASS: Record<FontWeight, string> = {
+  normal: "",
+  medium: "font-medium",
+  semibold: "font-semibold",
+  bold: "font-bold",
+};
+
+const NO_DETAILS: NodeDetail[] = [];
+
+function ShapeView({ shape }: { shape: DiagramShape }) {
+  const { t } = useI18n();
+  const idClass = shape.id ? diagramClass(shape.id) : "";
+
+  if (shape.kind === "rect") {
+    return (
+      <rect
+        className={idClass || undefined}
+        x={shape.x}
+        y={shape.y}
+        width={shape.w}
+        height={shape.h}
+        rx={shape.rx}
+        fill={shape.fill ?? "none"}
+        stroke={shape.stroke}
+        strokeWidth={shape.strokeWidth}
+        opacity={shape.opacity}
+      />
+    );
+  }
+
+  const className = [idClass, WEIGHT_CLASS[shape.weight ?? "normal"], shape.mono ? "font-mono" : ""]
+    .filter(Boolean)
+    .join(" ");
+
+  return (
+    <text
+      className={className || undefined}
+      x={shape.x}
+      y={shape.y}
+      textAnchor={shape.anchor ?? "middle"}
+      fill={shape.fill ?? "var(--text-primary)"}
+      opacity={shape.opacity}
+      style={{ fontSize: shape.size }}
+    >
+      {t(shape.text)}
+    </text>
+  );
+}
+
+function NodeView({ node, engineIdx }: { node: DiagramNode; engineIdx: number }) {
+  const { t } = useI18n();
+  const { cx, cy, w, h } = node.box;
+
+  if (node.kind === "engine") {
+    return (
+      <g className={groupClass(node.group)} data-node={node.id} style={{ opacity: 0 }}>
+        <EngineBox
+          cx={cx}
+          cy={cy}
+          w={w}
+          h={h}
+          label={node.label}
+          engineIdx={engineIdx}
+          badge={node.badge}
+          sublabel={node.sublabel}
+          items={node.items}
+          compact={node.compact}
+          strokeColor={node.color}
+        />
+      </g>
+    );
+  }
+
+  if (isShapeNode(node)) {
+    return (
+      <NodeShape
+        {...node}
+        className={groupClass(node.group)}
+        nodeId={node.id}
+        outlineClassName={diagramClass(node.id)}
+      />
+    );
+  }
+
+  const rx = node.rx ?? 12;
+
+  return (
+    <g className={groupClass(node.group)} data-node={node.id} style={{ opacity: 0 }}>
+      {node.halo && (
+        <rect x={cx - w / 2 - 4} y={cy - h / 2 - 4} width={w + 8} height={h + 8} rx={rx + 2} fill="none" stroke={node.color} strokeWidth={2} opacity={0.3} />
+      )}
+      <rect
+        className={diagramClass(node.id)}
+        x={cx - w / 2}
+        y={cy - h / 2}
+        width={w}
+        height={h}
+        rx={rx}
+        fill={node.fill ?? "var(--bg-card)"}
+        stroke={node.color}
+        strokeWidth={node.strokeWidth ?? 1.5}
+      />
+      {node.label && (
+        <BoxLabel
+          box={node.label.box ?? node.box}
+          label={t(node.label.text)}
+          sublabel={node.label.sublabel && t(node.label.sublabel)}
+          badge={node.label.badge && t(node.label.badge)}
+          color={node.label.color}
+          badgeColor={node.label.badgeColor}
+          size={node.label.size}
+          sublabelSize={node.label.sublabelSize}
+        />
+      )}
+      {node.shapes?.map((shape, i) => <ShapeView key={i} shape={shape} />)}
+    </g>
+  );
+}
+
+interface DiagramSlideProps {
+  diagram: Diagram;
+  active: boolean;
+  step: number;
+}
+
+export function DiagramSlide({ diagram, active, step }: DiagramSlideProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const titleRef = useRef<HTMLDivElement>(null);
+  const revealTlRef = useRef<gsap.core.Timeline | null>(null);
+  const loopTlRef = useRef<gsap.core.Timeline | null>(null);
+
+  const steps = useMemo(() => diagramSteps(diagram), [diagram]);
+
+  const liveRoutes = useCallback(
+    (event: LiveEvent): LiveFlow[] =>
+      diagram.loop.flows.flatMap((flow, i) =>
+        flow.on === event.type
+          ? [{ path: `.${diagramClass(flow.edge)}`, dot: `.dg-flow-${i}`, duration: flow.duration, delay: flow.at, reverse: flow.reverse }]
+          : [],
+      ),
+    [diagram],
+  );
+  const live = useLiveFlows({ svgRef, revealTlRef, routes: liveRoutes, active });
+  const inspection = useNodeInspection({ svgRef, details: diagram.details ?? NO_DETAILS, active });
+  const { t, formatNumber } = useI18n();
+
+  /* Counters read the formatter through a ref: a language switch must
+     not rebuild the timelines, which would leave the reveal at 0 */
+  const formatRef = useRef(formatNumber);
+  useEffect(() => {
+    formatRef.current = formatNumber;
+  }, [formatNumber]);
+
+  useEffect(() => {
+    if (!active) {
+      revealTlRef.current?.pause(0);
+      loopTlRef.current?.pause(0);
+      return;
+    }
+
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    revealTlRef.current?.kill();
+    loopTlRef.current?.kill();
+
+    /* ──────── REVEAL TIMELINE ──────── */
+    const reveal = gsap.timeline({ paused: true });
+    revealTlRef.current = reveal;
+    buildDiagramReveal(reveal, svg, diagram, titleRef.current);
+
+    /* ──────── LOOPING TIMELINE ──────── */
+    const loop = gsap.timeline({ repeat: -1, repeatDelay: diagram.loop.repeatDelay, paused: true });
+    loopTlRef.current = loop;
+
+    reveal.eventCallback("onComplete", () => { if (!live) loop.play(); });
+    buildDiagramLoop(loop, svg, diagram, (value) => formatRef.current(value));
+
+    return () => {
+      reveal.kill();
+      loop.kill();
+    };
+  }, [active, diagram, live]);
+
+  useBuildSteps({ revealTlRef, loopTlRefs: [loopTlRef], steps, active, step });
+
+  return (
+    <SlideLayout className="justify-start pt-6">
+      <div ref={titleRef} className="mb-3 text-center opacity-0">
+        <h2 className="text-5xl font-extrabold tracking-tight" style={{ color: "var(--text-primary)" }}>
+          {t(diagram.title)}
+        </h2>
+        <p className="mt-2 text-base font-medium" style={{ color: "var(--text-muted)" }}>
+          {t(diagram.subtitle)}
+        </p>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VB_W} ${VB_H}`}
+        className="w-full"
+        style={{ maxWidth: "1560px", maxHeight: "calc(100vh - 140px)" }}
+        preserveAspectRatio="xMidYMid meet"
+      >
+        <defs><StandardDefs /></defs>
+        <rect width={VB_W} height={VB_H} fill="url(#dotgrid)" />
+
+        {/* ═══════════ EDGES ═══════════ */}
+        {diagram.edges.map((edge) => (
+          <path
+            key={edge.id}
+            d={edgePath(diagram, edge)}
+            className={`flow-path ${diagramClass(edge.id)}`}
+            data-from={edge.from.node}
+            data-to={edge.to.node}
+            fill="none"
+            stroke={edge.color}
+            strokeWidth={edge.width}
+            strokeDasharray={edge.dash}
+          />
+        ))}
+
+        {/* ═══════════ NODES ═══════════ */}
+        {diagram.nodes.map((node, i) => (
+          <NodeView
+            key={node.id}
+            node={node}
+            engineIdx={diagram.nodes.slice(0, i).filter((n) => n.kind === "engine").length}
+          />
+        ))}
+
+        {/* ═══════════ LABELS ═══════════ */}
+        {diagram.labels?.map((label, i) => <ShapeView key={i} shape={label} />)}
+
+        {/* ═══════════ FLOW DOTS ═══════════ */}
+        {diagram.loop.flows.map((flow, i) => (
+          <circle
+            key={i}
+            className={`dg-flow-${i}`}
+            data-flow={flow.kind}
+            r={flow.radius ?? 5}
+            fill={flow.color}
+            opacity={0}
+            filter={flow.glow && `url(#${flow.glow})`}
+          />
+        ))}
+      </svg>
+
+      <NodeDetailPanel detail={inspection.selected} onClose={inspection.close} />
+    </SlideLayout>
+  );
+}
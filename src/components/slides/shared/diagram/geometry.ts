@@ -0,0 +1,40 @@
+import { bezierH } from "../constants";
+import { shapePort, type Point } from "../shape-geometry";
+import type { Anchor, Diagram, DiagramEdge, DiagramNode, ShapeNode } from "./types";
+
+/** Class name that makes a node, shape or edge targetable by the animator */
+export function diagramClass(id: string): string {
+  return `dg-${id}`;
+}
+
+/** Class name shared by every node in a reveal group */
+export function groupClass(group: string): string {
+  return `dg-group-${group}`;
+}
+
+/** Ordered build step labels declared by the diagram's reveal stages */
+export function diagramSteps(diagram: Diagram): string[] {
+  return diagram.reveal.flatMap((stage) => (stage.step ? [stage.step] : []));
+}
+
+export function isShapeNode(node: DiagramNode): node is ShapeNode {
+  return node.kind !== undefined && node.kind !== "box" && node.kind !== "engine";
+}
+
+/** Resolve an anchor to a point on the node's outline; boxes and engines are plain rects */
+export function anchorPoint(node: DiagramNode, anchor: Anchor): Point {
+  return shapePort(isShapeNode(node) ? node.kind : "service", node.box, anchor.side, anchor.offset);
+}
+
+/** Build the SVG path for an edge between two node anchors */
+export function edgePath(diagram: Diagram, edge: DiagramEdge): string {
+  const findNode = (id: string) => {
+    const node = diagram.nodes.find((n) => n.id === id);
+    if (!node) throw new Error(`Diagram edge "${edge.id}" references unknown node "${id}"`);
+    return node;
+  };
+
+  const a = anchorPoint(findNode(edge.from.node), edge.from);
+  const b = anchorPoint(findNode(edge.to.node), edge.to);
+  return edge.curve === "line" ? `M ${a.x} ${a.y} L ${b.x} ${b.y}` : bezierH(a.x, a.y, b.x, b.y);
+}
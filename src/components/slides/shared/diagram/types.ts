@@ -0,0 +1,241 @@
+import type { LiveEventType } from "../live-events";
+import type { NodeDetail } from "../inspect";
+import type { FlowKind } from "../animate-dot";
+import type { EngineItem } from "../engine-box";
+import type { NodeStatus, PortSide, ShapeKind } from "../shape-geometry";
+
+/* ────────────────────────────────────────────────────────────
+ *  Declarative diagram schema
+ *
+ *  A diagram slide is described as data: nodes (boxes with their
+ *  decorations), edges between node anchors, free-standing labels,
+ *  reveal stages over node groups, and a loop of dot flows, pulses
+ *  and counters. `DiagramSlide` renders and animates it.
+ *
+ *  Coordinates are absolute viewBox units (VB_W × VB_H), the same
+ *  space the hand-coded slides use.
+ * ──────────────────────────────────────────────────────────── */
+
+/** Axis-aligned box, positioned by its centre */
+export interface Box {
+  cx: number;
+  cy: number;
+  w: number;
+  h: number;
+}
+
+/** Glow filter ids provided by `StandardDefs` */
+export type GlowId = "glowRed" | "glowAmber" | "glowGold" | "glowOrange" | "glowCoral" | "glowGreen";
+
+export type FontWeight = "normal" | "medium" | "semibold" | "bold";
+
+export interface RectShape {
+  kind: "rect";
+  /** Makes the rect targetable by loop pulses */
+  id?: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  rx?: number;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+}
+
+export interface TextShape {
+  kind: "text";
+  /** Makes the text targetable by loop counters */
+  id?: string;
+  x: number;
+  y: number;
+  text: string;
+  /** Font size in px */
+  size: number;
+  weight?: FontWeight;
+  mono?: boolean;
+  anchor?: "start" | "middle" | "end";
+  fill?: string;
+  opacity?: number;
+}
+
+export type DiagramShape = RectShape | TextShape;
+
+/** Text fitted into a node by `BoxLabel`: wrapped and shrunk to its box */
+export interface NodeLabel {
+  text: string;
+  sublabel?: string;
+  /** Short status drawn as a pill under the text */
+  badge?: string;
+  color?: string;
+  badgeColor?: string;
+  /** Part of the node to centre in; defaults to the whole box */
+  box?: Box;
+  /** Font size ranges in px */
+  size?: [number, number];
+  sublabelSize?: [number, number];
+}
+
+interface NodeBase {
+  id: string;
+  /** Reveal group the node belongs to (see `RevealStage`) */
+  group: string;
+  box: Box;
+}
+
+/** Rounded box with optional halo and decorations drawn on top */
+export interface BoxNode extends NodeBase {
+  kind?: "box";
+  /** Outline colour */
+  color: string;
+  fill?: string;
+  rx?: number;
+  strokeWidth?: number;
+  /** Faint outer ring, used to emphasise the engine */
+  halo?: boolean;
+  label?: NodeLabel;
+  shapes?: DiagramShape[];
+}
+
+/** Engine rendered with the shared `EngineBox` (internal items + fan-out) */
+export interface EngineNode extends NodeBase {
+  kind: "engine";
+  label: string;
+  badge?: string;
+  /** Compact engines only */
+  sublabel?: string;
+  color?: string;
+  /** Internal components (defaults to the `ENGINE_ITEMS` stages) */
+  items?: EngineItem[];
+  compact?: boolean;
+}
+
+/** Node drawn from the shape library (`node-shapes.tsx`) */
+export interface ShapeNode extends NodeBase {
+  kind: ShapeKind;
+  label: string;
+  /** One string per line */
+  sublabel?: string | string[];
+  badge?: string;
+  status?: NodeStatus;
+  /** Outline colour; defaults per kind */
+  color?: string;
+  labelColor?: string;
+  /** Font size ranges in px */
+  size?: [number, number];
+  sublabelSize?: [number, number];
+}
+
+export type DiagramNode = BoxNode | EngineNode | ShapeNode;
+
+/** Point on a node's outline; `offset` slides along that side from its centre */
+export interface Anchor {
+  node: string;
+  side: PortSide;
+  offset?: number;
+}
+
+export interface DiagramEdge {
+  id: string;
+  from: Anchor;
+  to: Anchor;
+  /** `bezier` eases horizontally via `bezierH`; defaults to bezier */
+  curve?: "bezier" | "line";
+  color: string;
+  width: number;
+  /** SVG dash pattern for return/feedback edges, e.g. "6 4" */
+  dash?: string;
+}
+
+/** Starting offsets a revealed element animates in from (opacity is always 0) */
+export interface RevealFrom {
+  x?: number;
+  y?: number;
+  scale?: number;
+}
+
+interface RevealStageBase {
+  duration: number;
+  stagger?: number;
+  ease?: string;
+  /** GSAP position parameter, e.g. "-=0.2"; ignored when the stage starts a step */
+  position?: string;
+  /** Build step that starts with this stage */
+  step?: string;
+}
+
+export interface GroupRevealStage extends RevealStageBase {
+  kind: "group";
+  group: string;
+  from: RevealFrom;
+}
+
+/** Draws every edge in, ending at `opacity` */
+export interface EdgeRevealStage extends RevealStageBase {
+  kind: "edges";
+  opacity: number;
+}
+
+export type RevealStage = GroupRevealStage | EdgeRevealStage;
+
+/** A dot travelling along an edge once per loop iteration */
+export interface DiagramFlow {
+  edge: string;
+  /** Loop time the dot sets off (s) */
+  at: number;
+  /** Travel time along the edge (s) — the flow's speed */
+  duration: number;
+  /** Travel from the edge's end back to its start */
+  reverse?: boolean;
+  color: string;
+  /** What the dot carries; gives it a shape under colour-blind themes */
+  kind?: FlowKind;
+  radius?: number;
+  glow?: GlowId;
+  /** In live mode, run on this engine event (offset by `at`) instead of looping */
+  on?: LiveEventType;
+}
+
+/** Briefly thickens the outline of a node or rect shape */
+export interface DiagramPulse {
+  /** Node id or rect shape id */
+  target: string;
+  at: number;
+  peak: number;
+  rest: number;
+  /** Time taken to settle back to `rest` (s) */
+  release?: number;
+}
+
+/** Counts a text shape up from 0 and holds the final value */
+export interface DiagramCounter {
+  /** Text shape id */
+  target: string;
+  to: number;
+  at: number;
+  duration: number;
+  hold: number;
+}
+
+export interface DiagramLoop {
+  repeatDelay: number;
+  flows: DiagramFlow[];
+  pulses?: DiagramPulse[];
+  counters?: DiagramCounter[];
+  /** Idle time appended to the end of each iteration (s) */
+  pad?: number;
+}
+
+export interface Diagram {
+  title: string;
+  subtitle: string;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  /** Always-visible annotations (edge captions etc.) */
+  labels?: TextShape[];
+  reveal: RevealStage[];
+  loop: DiagramLoop;
+  /** Drill-down panels, keyed by node id */
+  details?: NodeDetail[];
+}
@@ -1,24 +1,70 @@
 import {
   ENGINE_ITEMS,
+  ITEM_GAP,
   ITEM_H,
   ITEM_W,
   itemX,
   itemY,
   bezierH,
 } from "./constants";
+import { useI18n } from "@/hooks/useI18n";
+import { BoxLabel, FitText } from "./box-label";
 
 /* ────────────────────────────────────────────────────────────
  *  Reusable engine box SVG component
  *  Warm Industrial aesthetic - scaled 20% larger
  *
  *  Renders an engine rectangle with:
- *    - Label in top-left corner
+ *    - Label in top-left corner, shrunk to fit
  *    - Tick entry indicator on left edge
- *    - 4 internal items (Candles, Indicators, Metrics, Strategy)
+ *    - Internal items, by default the pipeline stages in
+ *      `ENGINE_ITEMS` (Candles, Indicators, Metrics, Strategy)
  *    - Internal fan-out paths from entry point to each item
  *    - Animated checkmarks per item (driven by GSAP externally)
+ *
+ *  `compact` draws a small engine instead: a centred label and
+ *  one pip per item along the bottom.
+ *
+ *  Per-item GSAP hooks, with `e` the engine index and `i` the item:
+ *    - `.engine-item-{e}-{i}` on each item (or pip)
+ *    - `.engine-check-{e}-{i}` on each checkmark
+ *    - `.int-path-{e}-{i}` on each fan-out path
  * ──────────────────────────────────────────────────────────── */
 
+/** One internal component of an engine */
+export interface EngineItem {
+  /** Display text in English; translated here */
+  label: string;
+  sublabel?: string;
+  /** Outline and text colour (defaults to --accent-emerald) */
+  color?: string;
+  /** Short glyph at the item's left edge, e.g. "⚖" */
+  icon?: string;
+  /** Extra classes on the item group, for slide-specific animation */
+  className?: string;
+}
+
+const DEFAULT_ITEMS: EngineItem[] = ENGINE_ITEMS.map((label) => ({ label }));
+
+/** Item height when an item carries a sublabel */
+const ITEM_H_TALL = 42;
+/** Room kept above and below the stack of items */
+const ITEM_MARGIN = 12;
+const ICON_W = 18;
+/** Compact variant: height of the pip row and pip spacing */
+const PIP_ROW = 18;
+const PIP_GAP = 12;
+
+/** Tallest item height at which `count` items stack inside the engine */
+function itemHeight(engineH: number, count: number, tall: boolean): number {
+  const room = engineH - 2 * ITEM_MARGIN - (count - 1) * ITEM_GAP;
+  return Math.min(tall ? ITEM_H_TALL : ITEM_H, room / count);
+}
+
+function itemClass(base: string, engineIdx: number, iIdx: number, extra?: string): string {
+  return [base, `${base}-${engineIdx}-${iIdx}`, extra].filter(Boolean).join(" ");
+}
+
 export interface EngineBoxProps {
   /** Centre X of the engine rectangle */
   cx: number;
@@ -28,14 +74,25 @@ export interface EngineBoxProps {
   w: number;
   /** Height of the engine rectangle */
   h: number;
-  /** Display label, e.g. "Engine 1" */
+  /** Display label in English, e.g. "Engine 1"; translated here */
   label: string;
   /** Numeric index used to build unique CSS class names for GSAP targeting */
   engineIdx: number;
   /** Optional extra badge text shown below the label (e.g. "Same engine code") */
   badge?: string;
+  /** Text under the label; compact engines only (e.g. "~20% load") */
+  sublabel?: string;
+  /** Internal components (defaults to the `ENGINE_ITEMS` stages) */
+  items?: EngineItem[];
+  /** Small engine: centred label and a row of item pips, no fan-out */
+  compact?: boolean;
   /** Stroke color for the outer box (defaults to --accent-amber) */
   strokeColor?: string;
+  badgeColor?: string;
+  /** Registry id for node inspection (`data-node`) */
+  nodeId?: string;
+  /** Extra classes on the engine group, for reveal targeting */
+  className?: string;
 }
 
 export function EngineBox({
@@ -46,10 +103,65 @@ export function EngineBox({
   label,
   engineIdx,
   badge,
+  sublabel,
+  items = DEFAULT_ITEMS,
+  compact = false,
   strokeColor = "var(--accent-amber)",
+  badgeColor = "var(--accent-emerald)",
+  nodeId,
+  className,
 }: EngineBoxProps) {
+  const { t } = useI18n();
+  const groupClass = ["ane-node", className].filter(Boolean).join(" ");
+
+  if (compact) {
+    const pipsW = (items.length - 1) * PIP_GAP;
+    return (
+      <g className={groupClass} data-node={nodeId} style={{ opacity: 0 }}>
+        <rect
+          x={cx - w / 2}
+          y={cy - h / 2}
+          width={w}
+          height={h}
+          rx={12}
+          fill="var(--bg-card)"
+          stroke={strokeColor}
+          strokeWidth={1.5}
+        />
+        <BoxLabel
+          box={{ cx, cy: cy - PIP_ROW / 2, w, h: h - PIP_ROW }}
+          label={t(label)}
+          sublabel={sublabel && t(sublabel)}
+          badge={badge && t(badge)}
+          color={strokeColor}
+          badgeColor={badgeColor}
+          size={[9, 14]}
+          sublabelSize={[8, 10]}
+          padding={8}
+        />
+
+        {/* One pip per item (animated by GSAP loop externally) */}
+        {items.map((item, iIdx) => (
+          <circle
+            key={`ep-${engineIdx}-${iIdx}`}
+            className={["engine-pip", `engine-item-${engineIdx}-${iIdx}`, item.className].filter(Boolean).join(" ")}
+            cx={cx - pipsW / 2 + iIdx * PIP_GAP}
+            cy={cy + h / 2 - PIP_ROW / 2 - 2}
+            r={3.5}
+            fill={item.color ?? "var(--accent-emerald)"}
+            opacity={0.4}
+          />
+        ))}
+      </g>
+    );
+  }
+
+  const tall = items.some((item) => item.sublabel);
+  const itemH = itemHeight(h, items.length, tall);
+  const ix = itemX(cx);
+
   return (
-    <g className="ane-node" style={{ opacity: 0 }}>
+    <g className={groupClass} data-node={nodeId} style={{ opacity: 0 }}>
       {/* Outer engine box */}
       <rect
         x={cx - w / 2}
@@ -63,26 +175,32 @@ export function EngineBox({
       />
 
       {/* Engine label (top-left) - scaled */}
-      <text
+      <FitText
         x={cx - w / 2 + 22}
-        y={cy - h / 2 + 26}
-        className="text-[16px] font-bold"
+        y={cy - h / 2 + 21}
+        width={w - 44}
+        text={t(label)}
+        size={[12, 16]}
+        maxLines={1}
+        anchor="start"
+        className="font-bold"
         fill={strokeColor}
-      >
-        {label}
-      </text>
+      />
 
       {/* Optional badge (below label) */}
       {badge && (
-        <text
+        <FitText
           x={cx - w / 2 + 22}
-          y={cy - h / 2 + 48}
-          className="text-[10px] font-medium"
-          fill="var(--accent-emerald)"
+          y={cy - h / 2 + 44}
+          width={w - 44}
+          text={t(badge)}
+          size={[8, 10]}
+          maxLines={1}
+          anchor="start"
+          className="font-medium"
+          fill={badgeColor}
           opacity={0.85}
-        >
-          {badge}
-        </text>
+        />
       )}
 
       {/* Tick entry indicator on left edge */}
@@ -95,38 +213,51 @@ export function EngineBox({
       />
 
       {/* Internal items */}
-      {ENGINE_ITEMS.map((itemLabel, iIdx) => {
-        const ix = itemX(cx);
-        const iy = itemY(cy, h, iIdx);
+      {items.map((item, iIdx) => {
+        const iy = itemY(cy, h, iIdx, items.length, itemH);
+        const color = item.color ?? "var(--accent-emerald)";
+        const iconW = item.icon ? ICON_W : 0;
         return (
           <g
             key={`ei-${engineIdx}-${iIdx}`}
-            className="engine-item"
+            className={itemClass("engine-item", engineIdx, iIdx, item.className)}
             style={{ opacity: 0 }}
           >
             <rect
               x={ix - ITEM_W / 2}
-              y={iy - ITEM_H / 2}
+              y={iy - itemH / 2}
               width={ITEM_W}
-              height={ITEM_H}
+              height={itemH}
               rx={7}
               fill="var(--bg-secondary)"
-              stroke="var(--accent-emerald)"
+              stroke={color}
               strokeWidth={1}
               opacity={0.7}
             />
-            <text
-              x={ix}
-              y={iy + 5}
-              textAnchor="middle"
-              className="text-[13px] font-semibold"
-              fill="var(--accent-emerald)"
-            >
-              {itemLabel}
-            </text>
+            {item.icon && (
+              <text
+                x={ix - ITEM_W / 2 + 6 + ICON_W / 2}
+                y={iy}
+                textAnchor="middle"
+                dominantBaseline="central"
+                className="text-[12px]"
+                fill={color}
+              >
+                {item.icon}
+              </text>
+            )}
+            <BoxLabel
+              box={{ cx: ix + iconW / 2, cy: iy, w: ITEM_W - iconW, h: itemH }}
+              label={t(item.label)}
+              sublabel={item.sublabel && t(item.sublabel)}
+              color={color}
+              size={[10, 13]}
+              sublabelSize={[7, 9]}
+              padding={8}
+            />
 
             {/* Checkmark (animated by GSAP loop externally) */}
-            <g className="engine-check" style={{ opacity: 0 }}>
+            <g className={itemClass("engine-check", engineIdx, iIdx)} style={{ opacity: 0 }}>
               <circle
                 cx={ix + ITEM_W / 2 + 17}
                 cy={iy}
@@ -150,11 +281,11 @@ export function EngineBox({
       })}
 
       {/* Internal fan-out paths (entry → each item) */}
-      {ENGINE_ITEMS.map((_, iIdx) => {
+      {items.map((_, iIdx) => {
         const x1 = cx - w / 2 + 24;
         const y1 = cy;
-        const x2 = itemX(cx) - ITEM_W / 2;
-        const y2 = itemY(cy, h, iIdx);
+        const x2 = ix - ITEM_W / 2;
+        const y2 = itemY(cy, h, iIdx, items.length, itemH);
         return (
           <path
             key={`ip-${engineIdx}-${iIdx}`}
@@ -0,0 +1,73 @@
+import type { Box } from "./diagram/types";
+
+/* ────────────────────────────────────────────────────────────
+ *  Viewbox zoom
+ *
+ *  A slide may declare focus presets: regions of its viewBox
+ *  worth zooming into on a projector. A preset with a `step`
+ *  is applied when the deck steps onto that build step, so
+ *  "zoom into Engine 2" can be part of the slide's sequence.
+ *  Arriving at the step any other way (stepping back from the
+ *  next slide, a jump, kiosk cycling) shows the whole slide.
+ * ──────────────────────────────────────────────────────────── */
+
+/** x, y, width, height in viewBox units */
+export type ViewBox = [number, number, number, number];
+
+export interface FocusPreset {
+  id: string;
+  label: string;
+  box: ViewBox;
+  /** Build step that zooms here */
+  step?: number;
+}
+
+/** Smallest view, as a fraction of the full viewBox width */
+const MIN_ZOOM = 1 / 6;
+
+/** Grow `box` around its centre to the full view's aspect ratio, then keep it inside the full view */
+export function fitViewBox([x, y, w, h]: ViewBox, [fx, fy, fw, fh]: ViewBox): ViewBox {
+  const aspect = fw / fh;
+  let width = Math.min(fw, Math.max(fw * MIN_ZOOM, Math.max(w, h * aspect)));
+  let height = width / aspect;
+  if (height > fh) {
+    height = fh;
+    width = fh * aspect;
+  }
+  const cx = Math.min(Math.max(x + w / 2, fx + width / 2), fx + fw - width / 2);
+  const cy = Math.min(Math.max(y + h / 2, fy + height / 2), fy + fh - height / 2);
+  return [cx - width / 2, cy - height / 2, width, height];
+}
+
+/** Bounding box of an element in its root SVG's viewBox units */
+export function elementViewBox(svg: SVGSVGElement, el: SVGGraphicsElement): ViewBox | null {
+  const rootCtm = svg.getScreenCTM();
+  const ctm = el.getScreenCTM();
+  if (!rootCtm || !ctm) return null;
+
+  const toRoot = rootCtm.inverse().multiply(ctm);
+  const { x, y, width, height } = el.getBBox();
+  const corners = [
+    [x, y],
+    [x + width, y],
+    [x, y + height],
+    [x + width, y + height],
+  ].map(([px, py]) => new DOMPoint(px, py).matrixTransform(toRoot));
+  const xs = corners.map((p) => p.x);
+  const ys = corners.map((p) => p.y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)];
+}
+
+/** Smallest box around the given centred node boxes, plus `margin` on every side */
+export function frameBoxes(boxes: readonly Box[], margin = 40): ViewBox {
+  const left = Math.min(...boxes.map((b) => b.cx - b.w / 2)) - margin;
+  const top = Math.min(...boxes.map((b) => b.cy - b.h / 2)) - margin;
+  const right = Math.max(...boxes.map((b) => b.cx + b.w / 2)) + margin;
+  const bottom = Math.max(...boxes.map((b) => b.cy + b.h / 2)) + margin;
+  return [left, top, right - left, bottom - top];
+}
+
+/** Pad a box by a fraction of its size on every side */
+export function padViewBox([x, y, w, h]: ViewBox, by: number): ViewBox {
+  return [x - w * by, y - h * by, w * (1 + 2 * by), h * (1 + 2 * by)];
+}
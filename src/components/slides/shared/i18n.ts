@@ -0,0 +1,68 @@
+import { createContext } from "react";
+import { HI_MESSAGES } from "@/locales/hi";
+
+/* ────────────────────────────────────────────────────────────
+ *  Slide text in other languages
+ *
+ *  Slides are written in English and English strings are the
+ *  message ids: `t("Redis Streams")`. A locale's catalogue
+ *  (`src/locales/<id>.ts`) maps them to translations; anything it
+ *  lacks falls back to English. `{name}` placeholders are filled
+ *  from `values`, numbers formatted for the locale.
+ * ──────────────────────────────────────────────────────────── */
+
+/** English source text → translation */
+export type MessageCatalogue = Record<string, string>;
+
+export type LocaleId = "en" | "hi";
+
+export interface LocaleDefinition {
+  id: LocaleId;
+  /** Name in its own script, for the switcher */
+  label: string;
+  /** BCP 47 tag for `Intl` and `<html lang>` */
+  tag: string;
+  messages: MessageCatalogue;
+}
+
+/** Indian English first: numbers use lakh/crore grouping in every locale */
+export const LOCALES: LocaleDefinition[] = [
+  { id: "en", label: "English", tag: "en-IN", messages: {} },
+  { id: "hi", label: "हिन्दी", tag: "hi-IN", messages: HI_MESSAGES },
+];
+
+export interface I18n {
+  locale: LocaleDefinition;
+  t: (source: string, values?: Record<string, string | number>) => string;
+  /** Lakh/crore grouping: 1,00,000 */
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  /** Whole rupees: ₹45,200 */
+  formatCurrency: (value: number) => string;
+}
+
+export function createI18n(locale: LocaleDefinition): I18n {
+  const numbers = new Intl.NumberFormat(locale.tag);
+  const rupees = new Intl.NumberFormat(locale.tag, { style: "currency", currency: "INR", maximumFractionDigits: 0 });
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    options ? new Intl.NumberFormat(locale.tag, options).format(value) : numbers.format(value);
+
+  return {
+    locale,
+    t: (source, values) => {
+      const message = locale.messages[source] ?? source;
+      if (!values) return message;
+      return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const value = values[name];
+        if (value === undefined) return match;
+        return typeof value === "number" ? formatNumber(value) : value;
+      });
+    },
+    formatNumber,
+    formatCurrency: (value) => rupees.format(value),
+  };
+}
+
+export const ENGLISH = createI18n(LOCALES[0]);
+
+/** English outside a deck (thumbnails, exports) */
+export const I18nContext = createContext<I18n>(ENGLISH);
@@ -0,0 +1,56 @@
+/* ────────────────────────────────────────────────────────────
+ *  Node inspection registry
+ *
+ *  Each diagram slide lists the nodes a presenter can drill into.
+ *  Nodes are matched by their `data-node` attribute; edges carry
+ *  `data-from` / `data-to` node ids so hovering a node can light
+ *  up its connections (see useNodeInspection).
+ * ──────────────────────────────────────────────────────────── */
+
+export interface NodeProperty {
+  label: string;
+  value: string;
+}
+
+export interface NodeLink {
+  label: string;
+  href: string;
+}
+
+/** Small static diagram drawn inside the detail panel */
+export interface MiniDiagram {
+  width: number;
+  height: number;
+  nodes: { id: string; label: string; x: number; y: number; color?: string }[];
+  edges: { from: string; to: string }[];
+}
+
+export interface NodeDetail {
+  /** Matches the node's `data-node` attribute */
+  id: string;
+  title: string;
+  summary: string;
+  properties?: NodeProperty[];
+  links?: NodeLink[];
+  diagram?: MiniDiagram;
+}
+
+/**
+ * Light up node `id` with its edges and neighbours and dim the rest
+ * of the diagram; `null` clears it. Shared by hover inspection and
+ * keyboard focus.
+ */
+export function highlightNode(svg: SVGSVGElement, id: string | null) {
+  svg.classList.toggle("node-inspecting", id !== null);
+
+  const linked = new Set(id ? [id] : []);
+  svg.querySelectorAll<SVGElement>("[data-from]").forEach((edge) => {
+    const { from, to } = edge.dataset;
+    const touches = id !== null && (from === id || to === id);
+    edge.classList.toggle("node-linked", touches);
+    if (touches && from && to) linked.add(from).add(to);
+  });
+  svg.querySelectorAll<SVGElement>("[data-node]").forEach((node) => {
+    node.classList.toggle("node-linked", linked.has(node.dataset.node ?? ""));
+  });
+}
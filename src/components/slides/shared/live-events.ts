@@ -0,0 +1,38 @@
+import { createContext } from "react";
+
+/* ────────────────────────────────────────────────────────────
+ *  Live data mode
+ *
+ *  When the deck is opened with `?live` (or `?live=<ws/sse url>`),
+ *  slides stop their fixed loops and spawn one dot per engine event
+ *  instead. Events arrive as JSON messages: `{"type":"tick","engine":0}`.
+ * ──────────────────────────────────────────────────────────── */
+export const LIVE_EVENT_TYPES = ["tick", "order", "fill", "agent_cycle", "command"] as const;
+
+export type LiveEventType = (typeof LIVE_EVENT_TYPES)[number];
+
+export interface LiveEvent {
+  type: LiveEventType;
+  /** Engine index the event belongs to; omitted means every engine */
+  engine?: number;
+}
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+export interface LiveEventFeed {
+  subscribe: (listener: LiveEventListener) => () => void;
+}
+
+/** A dot to run along a path when a live event arrives */
+export interface LiveFlow {
+  /** Selectors for the path and its template dot within the slide SVG */
+  path: string;
+  dot: string;
+  duration: number;
+  /** Offset from the event (s), mirroring the position in the loop */
+  delay?: number;
+  reverse?: boolean;
+}
+
+/** Null outside live mode */
+export const LiveEventsContext = createContext<LiveEventFeed | null>(null);
@@ -0,0 +1,125 @@
+import { createContext } from "react";
+import gsap from "gsap";
+
+/* ────────────────────────────────────────────────────────────
+ *  Metrics shown on slides, and the providers that feed them
+ *
+ *    - fixture: deterministic frames stepped on the GSAP clock,
+ *               so exports and recordings always match (default)
+ *    - REST:    polls a Metrics API summary endpoint; the deck
+ *               uses it with `?metrics` (bundled mock, see
+ *               mock/metrics.ts) or `?metrics=<url>`
+ * ──────────────────────────────────────────────────────────── */
+export interface DeckMetrics {
+  greeks: { delta: number; theta: number; vega: number; pnl: number };
+  /** Ticks/sec for the single, three and N engine columns */
+  throughput: { single: number; three: number; many: number };
+}
+
+export interface MetricsProvider {
+  subscribe: (onChange: () => void) => () => void;
+  getSnapshot: () => DeckMetrics;
+}
+
+/* ────────────────────────────────────────────────────────────
+ *  Fixture provider
+ * ──────────────────────────────────────────────────────────── */
+export const FIXTURE_METRICS: DeckMetrics[] = [
+  {
+    greeks: { delta: -0.23, theta: 2450, vega: -890, pnl: 45200 },
+    throughput: { single: 1000, three: 3000, many: 10000 },
+  },
+  {
+    greeks: { delta: -0.35, theta: 2650, vega: -920, pnl: 48500 },
+    throughput: { single: 980, three: 3050, many: 10200 },
+  },
+];
+
+export function createFixtureMetricsProvider(frames: DeckMetrics[], intervalSec = 1.5): MetricsProvider {
+  const listeners = new Set<() => void>();
+  let index = 0;
+  let timer: gsap.core.Tween | null = null;
+
+  const advance = () => {
+    index = (index + 1) % frames.length;
+    listeners.forEach((listener) => listener());
+    timer = gsap.delayedCall(intervalSec, advance);
+  };
+
+  return {
+    subscribe(onChange) {
+      listeners.add(onChange);
+      if (listeners.size === 1) timer = gsap.delayedCall(intervalSec, advance);
+      return () => {
+        listeners.delete(onChange);
+        if (listeners.size === 0) timer?.kill();
+      };
+    },
+    getSnapshot: () => frames[index],
+  };
+}
+
+/* ────────────────────────────────────────────────────────────
+ *  REST provider
+ * ──────────────────────────────────────────────────────────── */
+
+/** Served by the bundled mock (see mock/metrics.ts) under `vite` and `vite preview` */
+export const MOCK_METRICS_URL = "/mock/metrics/summary";
+
+/** Response of the Metrics API `GET /metrics/summary` endpoint */
+interface MetricsSummaryResponse {
+  portfolio: { delta: number; theta: number; vega: number; pnl: number };
+  throughput: { single_engine: number; three_engines: number; n_engines: number };
+}
+
+function fromSummary({ portfolio, throughput }: MetricsSummaryResponse): DeckMetrics {
+  return {
+    greeks: { delta: portfolio.delta, theta: portfolio.theta, vega: portfolio.vega, pnl: portfolio.pnl },
+    throughput: { single: throughput.single_engine, three: throughput.three_engines, many: throughput.n_engines },
+  };
+}
+
+/**
+ * Poll a Metrics API summary endpoint. Until the first response (or
+ * while the API is unreachable) the last good snapshot is kept,
+ * starting from `initial`.
+ */
+export function createRestMetricsProvider(
+  url: string,
+  intervalMs = 2000,
+  initial: DeckMetrics = FIXTURE_METRICS[0],
+): MetricsProvider {
+  const listeners = new Set<() => void>();
+  let snapshot = initial;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const poll = async () => {
+    try {
+      const res = await fetch(url, { headers: { Accept: "application/json" } });
+      if (!res.ok) return;
+      snapshot = fromSummary((await res.json()) as MetricsSummaryResponse);
+      listeners.forEach((listener) => listener());
+    } catch {
+      /* keep the last snapshot; the next poll retries */
+    }
+  };
+
+  return {
+    subscribe(onChange) {
+      listeners.add(onChange);
+      if (listeners.size === 1) {
+        void poll();
+        timer = setInterval(poll, intervalMs);
+      }
+      return () => {
+        listeners.delete(onChange);
+        if (listeners.size === 0) clearInterval(timer);
+      };
+    },
+    getSnapshot: () => snapshot,
+  };
+}
+
+export const FIXTURE_METRICS_PROVIDER = createFixtureMetricsProvider(FIXTURE_METRICS);
+
+export const MetricsContext = createContext<MetricsProvider>(FIXTURE_METRICS_PROVIDER);
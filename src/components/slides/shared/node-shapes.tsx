@@ -0,0 +1,250 @@
+import type { CSSProperties, ReactNode } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import { BoxLabel } from "./box-label";
+import {
+  SHAPE_COLORS,
+  STATUS_COLORS,
+  cloudPath,
+  cylinderPath,
+  labelRegion,
+  queueSlots,
+  rimHeight,
+  type NodeStatus,
+  type ShapeKind,
+} from "./shape-geometry";
+import type { Box } from "./diagram/types";
+
+/* ────────────────────────────────────────────────────────────
+ *  Reusable node shapes
+ *
+ *  One component per kind of box the slides draw, all sharing
+ *  the same props: a box, a label block laid out by `BoxLabel`,
+ *  a status badge and an outline colour that defaults per kind.
+ *  Edges attach through `shapePort` (shape-geometry.ts), so they
+ *  meet the outline the shape actually draws.
+ *
+ *  Like `EngineBox`, nodes start hidden for the slide's reveal.
+ * ──────────────────────────────────────────────────────────── */
+
+const DIMMED = "var(--border-subtle)";
+
+export interface NodeShapeProps {
+  box: Box;
+  /** Display text in English; translated here */
+  label: string;
+  /** One string per line */
+  sublabel?: string | string[];
+  badge?: string;
+  /** Colours the badge; `planned` also dims the node */
+  status?: NodeStatus;
+  /** Outline colour; defaults per kind */
+  color?: string;
+  labelColor?: string;
+  fill?: string;
+  strokeWidth?: number;
+  /** Label font range in px */
+  size?: [number, number];
+  sublabelSize?: [number, number];
+  /** Region the label is centred in, when children take part of the box */
+  labelBox?: Box;
+  /** Registry id for node inspection (`data-node`) */
+  nodeId?: string;
+  /** Classes on the node group, for reveal targeting */
+  className?: string;
+  /** Classes on the outline, for pulses */
+  outlineClassName?: string;
+  /** Classes on the badge, for slides that reveal it separately */
+  badgeClassName?: string;
+  style?: CSSProperties;
+  /** Drawn over the outline, e.g. internal items */
+  children?: ReactNode;
+}
+
+interface ShapeFrameProps extends NodeShapeProps {
+  kind: ShapeKind;
+  /** Outline drawn in the node's stroke and fill */
+  outline: (props: { className?: string; fill: string; stroke: string; strokeWidth: number }) => ReactNode;
+  /** Marks drawn between the outline and the label */
+  decoration?: (stroke: string) => ReactNode;
+}
+
+function ShapeFrame({
+  kind,
+  outline,
+  decoration,
+  box,
+  label,
+  sublabel,
+  badge,
+  status,
+  color = SHAPE_COLORS[kind],
+  labelColor = "var(--text-primary)",
+  fill = "var(--bg-card)",
+  strokeWidth = 1.5,
+  size = [11, 15],
+  sublabelSize = [8, 11],
+  labelBox,
+  nodeId,
+  className,
+  outlineClassName,
+  badgeClassName,
+  style,
+  children,
+}: ShapeFrameProps) {
+  const { t } = useI18n();
+  const planned = status === "planned";
+  const stroke = planned ? DIMMED : color;
+  const sublabelLines = typeof sublabel === "string" ? [sublabel] : sublabel;
+
+  return (
+    <g className={className} data-node={nodeId} style={{ opacity: 0, ...style }}>
+      <g opacity={planned ? 0.7 : undefined}>
+        {outline({ className: outlineClassName, fill, stroke, strokeWidth: planned ? 1.2 : strokeWidth })}
+        {decoration?.(stroke)}
+      </g>
+      <BoxLabel
+        box={labelBox ?? labelRegion(kind, box)}
+        label={t(label)}
+        sublabel={sublabelLines?.map((line) => t(line)).join("\n")}
+        badge={badge && t(badge)}
+        color={planned ? "var(--text-muted)" : labelColor}
+        badgeColor={status ? STATUS_COLORS[status] : undefined}
+        badgeClassName={badgeClassName}
+        size={size}
+        sublabelSize={sublabelSize}
+        padding={kind === "actor" ? 30 : undefined}
+      />
+      {children}
+    </g>
+  );
+}
+
+function roundedRect({ cx, cy, w, h }: Box, rx: number) {
+  return ({ className, ...paint }: { className?: string; fill: string; stroke: string; strokeWidth: number }) => (
+    <rect className={className} x={cx - w / 2} y={cy - h / 2} width={w} height={h} rx={rx} {...paint} />
+  );
+}
+
+/** Plain rounded box: exchanges, brokers, APIs, apps */
+export function ServiceNode(props: NodeShapeProps) {
+  return <ShapeFrame kind="service" outline={roundedRect(props.box, 12)} {...props} />;
+}
+
+/** Stream or message queue, with a strip of message slots under the label */
+export function QueueNode(props: NodeShapeProps & { slots?: number }) {
+  const { box, slots = 5 } = props;
+  return (
+    <ShapeFrame
+      kind="queue"
+      outline={roundedRect(box, 12)}
+      decoration={(stroke) =>
+        queueSlots(box, slots).map((slot, i) => (
+          <rect
+            key={i}
+            className="queue-slot"
+            x={slot.cx - slot.w / 2}
+            y={slot.cy - slot.h / 2}
+            width={slot.w}
+            height={slot.h}
+            rx={3}
+            fill={`color-mix(in srgb, ${stroke} 18%, transparent)`}
+            stroke={stroke}
+            strokeWidth={0.8}
+            opacity={0.4 + (0.6 * (i + 1)) / slots}
+          />
+        ))
+      }
+      {...props}
+    />
+  );
+}
+
+/** Cylinder for stores: SQLite, S3 */
+export function DatabaseNode(props: NodeShapeProps) {
+  const { box } = props;
+  const ry = rimHeight(box);
+  return (
+    <ShapeFrame
+      kind="database"
+      outline={(paint) => (
+        <>
+          <path d={cylinderPath(box)} {...paint} />
+          <ellipse className={paint.className} cx={box.cx} cy={box.cy - box.h / 2 + ry} rx={box.w / 2} ry={ry} fill={paint.fill} stroke={paint.stroke} strokeWidth={paint.strokeWidth} />
+        </>
+      )}
+      {...props}
+    />
+  );
+}
+
+/** Hosted service outside the deployment, e.g. the LLM */
+export function CloudNode(props: NodeShapeProps) {
+  return <ShapeFrame kind="cloud" outline={(paint) => <path d={cloudPath(props.box)} {...paint} />} {...props} />;
+}
+
+/** A person or agent acting on the system, marked with a figure in the corner */
+export function ActorNode(props: NodeShapeProps) {
+  const { cx, cy, w, h } = props.box;
+  const x = cx - w / 2 + 18;
+  const y = cy - h / 2 + 16;
+  return (
+    <ShapeFrame
+      kind="actor"
+      outline={roundedRect(props.box, 14)}
+      decoration={(stroke) => (
+        <g fill="none" stroke={stroke} strokeWidth={1.4} opacity={0.8}>
+          <circle cx={x} cy={y} r={4.5} />
+          <path d={`M ${x - 8} ${y + 14} a 8 8 0 0 1 16 0`} />
+        </g>
+      )}
+      {...props}
+    />
+  );
+}
+
+/**
+ * A state in a state machine: an optional numbered marker top-left
+ * and, when `checkClassName` is given, a hidden check mark
+ * bottom-right for the slide to animate.
+ */
+export function StateNode(props: NodeShapeProps & { step?: number; checkClassName?: string }) {
+  const { box, step, checkClassName, color = SHAPE_COLORS.state } = props;
+  const left = box.cx - box.w / 2;
+  const top = box.cy - box.h / 2;
+  return (
+    <ShapeFrame
+      kind="state"
+      outline={roundedRect(box, 14)}
+      {...props}
+    >
+      {step !== undefined && (
+        <g className="state-number">
+          <circle cx={left + 20} cy={top + 20} r={14} fill={color} />
+          <text x={left + 20} y={top + 25} textAnchor="middle" className="text-[12px] font-bold" fill="var(--bg-primary)">{step}</text>
+        </g>
+      )}
+      {checkClassName && (
+        <g className={checkClassName} style={{ opacity: 0 }}>
+          <circle cx={left + box.w - 20} cy={top + box.h - 20} r={12} fill="color-mix(in srgb, var(--accent-emerald) 25%, var(--bg-card))" stroke="var(--accent-emerald)" strokeWidth={1.5} />
+          <text x={left + box.w - 20} y={top + box.h - 15} textAnchor="middle" className="text-[12px] font-bold" fill="var(--accent-emerald)">✓</text>
+        </g>
+      )}
+      {props.children}
+    </ShapeFrame>
+  );
+}
+
+const SHAPES: Record<ShapeKind, (props: NodeShapeProps) => ReactNode> = {
+  queue: QueueNode,
+  database: DatabaseNode,
+  cloud: CloudNode,
+  service: ServiceNode,
+  actor: ActorNode,
+  state: StateNode,
+};
+
+/** Any shape by kind, for data-driven renderers like `DiagramSlide` */
+export function NodeShape({ kind, ...props }: NodeShapeProps & { kind: ShapeKind }) {
+  const Shape = SHAPES[kind];
+  return <Shape {...props} />;
+}
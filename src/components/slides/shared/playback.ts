@@ -0,0 +1,21 @@
+import { createContext } from "react";
+
+/* ────────────────────────────────────────────────────────────
+ *  How a mounted slide drives its timelines
+ *
+ *    - live:  reveal plays up to the current build step, then loops
+ *    - reduced: reveal jumps to the current build step without
+ *             tweening and the loops never start (reduced motion)
+ *    - still: reveal jumps to its end and every loop is frozen at
+ *             `loopProgress` of one iteration (used for export)
+ * ──────────────────────────────────────────────────────────── */
+export type SlidePlayback =
+  | { mode: "live" }
+  | { mode: "reduced" }
+  | { mode: "still"; loopProgress: number };
+
+export const LIVE_PLAYBACK: SlidePlayback = { mode: "live" };
+
+export const REDUCED_PLAYBACK: SlidePlayback = { mode: "reduced" };
+
+export const SlidePlaybackContext = createContext<SlidePlayback>(LIVE_PLAYBACK);
@@ -0,0 +1,78 @@
+/* ────────────────────────────────────────────────────────────
+ *  Phone-as-remote protocol
+ *
+ *  The deck (opened with `?remote=<token>`) and the phone at
+ *  `/remote?token=<token>` talk through the local relay
+ *  (server/remoteRelay.ts), which prints the token when it
+ *  starts and refuses requests without it. The deck publishes
+ *  where it is; the phone sends commands back.
+ * ──────────────────────────────────────────────────────────── */
+
+const REMOTE_RELAY_URL = "/remote/relay";
+
+/** Relay endpoint for a pairing token */
+export function remoteRelayUrl(token: string) {
+  return `${REMOTE_RELAY_URL}?token=${encodeURIComponent(token)}`;
+}
+
+export type RemoteCommand =
+  | { kind: "command"; command: "next" | "prev" | "blackout" }
+  /** Jump to a build step on the current slide */
+  | { kind: "command"; command: "step"; step: number };
+
+export interface RemoteState {
+  kind: "state";
+  /** Route prefix of the deck on screen; identifies it in the registry */
+  basePath: string;
+  slideId: string;
+  step: number;
+  totalSteps: number;
+  blackout: boolean;
+}
+
+export type RemoteMessage = RemoteCommand | RemoteState;
+
+const isStep = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Check a decoded message field by field and copy out only the fields
+ * the protocol defines. Shared by the relay and both ends, so nothing
+ * malformed is forwarded or acted on.
+ */
+export function toRemoteMessage(value: unknown): RemoteMessage | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return null;
+  const message = value as Record<string, unknown>;
+
+  if (message.kind === "command") {
+    const { command, step } = message;
+    if (command === "step") return isStep(step) ? { kind: "command", command, step } : null;
+    return command === "next" || command === "prev" || command === "blackout" ? { kind: "command", command } : null;
+  }
+
+  if (message.kind === "state") {
+    const { basePath, slideId, step, totalSteps, blackout } = message;
+    if (typeof basePath !== "string" || typeof slideId !== "string" || typeof blackout !== "boolean") return null;
+    if (!isStep(step) || !isStep(totalSteps) || step >= totalSteps) return null;
+    return { kind: "state", basePath, slideId, step, totalSteps, blackout };
+  }
+
+  return null;
+}
+
+export function parseRemoteMessage(data: unknown): RemoteMessage | null {
+  if (typeof data !== "string") return null;
+  try {
+    return toRemoteMessage(JSON.parse(data));
+  } catch {
+    return null;
+  }
+}
+
+/** Fire-and-forget; a missing relay just means no remote is listening */
+export function sendRemoteMessage(token: string, message: RemoteMessage) {
+  fetch(remoteRelayUrl(token), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(message),
+  }).catch(() => {});
+}
@@ -0,0 +1,133 @@
+import type { Box } from "./diagram/types";
+
+/* ────────────────────────────────────────────────────────────
+ *  Node shape geometry
+ *
+ *  Outlines, label regions and ports for the shapes in
+ *  `node-shapes.tsx`. Ports are the points edges attach to: the
+ *  middle of each side, slid along it by an offset, and always on
+ *  the drawn outline (a cloud's sides sit inside its box).
+ * ──────────────────────────────────────────────────────────── */
+
+export type ShapeKind = "queue" | "database" | "cloud" | "service" | "actor" | "state";
+
+export type PortSide = "top" | "bottom" | "left" | "right";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Deployment status shown as the badge colour; `planned` also dims the node */
+export type NodeStatus = "live" | "ready" | "planned" | "down";
+
+/** Outline colour per kind when a node doesn't set one */
+export const SHAPE_COLORS: Record<ShapeKind, string> = {
+  queue: "var(--accent-amber)",
+  database: "var(--accent-amber)",
+  cloud: "var(--accent-coral)",
+  service: "var(--accent-orange)",
+  actor: "var(--accent-coral)",
+  state: "var(--accent-amber)",
+};
+
+export const STATUS_COLORS: Record<NodeStatus, string> = {
+  live: "var(--accent-emerald)",
+  ready: "var(--accent-amber)",
+  planned: "var(--accent-amber)",
+  down: "var(--accent-red)",
+};
+
+/** Height of a queue's message strip and a cylinder's rim (fraction of the box) */
+const QUEUE_STRIP = 0.22;
+const RIM = 0.12;
+
+/** Cylinder rim half-height, capped so tall databases keep a flat lid */
+export function rimHeight({ h }: Box): number {
+  return Math.min(h * RIM, 12);
+}
+
+/** Lobe tips of a cloud, as fractions of its box, clockwise from the bottom left */
+const CLOUD_POINTS: [number, number][] = [
+  [0.2, 1],
+  [0.1, 0.45],
+  [0.5, 0.24],
+  [0.88, 0.45],
+  [0.8, 1],
+];
+
+/** Flat-bottomed cloud: a semicircular lobe between each pair of points */
+export function cloudPath({ cx, cy, w, h }: Box): string {
+  const points = CLOUD_POINTS.map(([fx, fy]) => ({ x: cx - w / 2 + fx * w, y: cy - h / 2 + fy * h }));
+  const lobes = points.slice(1).map((p, i) => {
+    const r = Math.hypot(p.x - points[i].x, p.y - points[i].y) / 2;
+    return `A ${r} ${r} 0 0 1 ${p.x} ${p.y}`;
+  });
+  return `M ${points[0].x} ${points[0].y} ${lobes.join(" ")} Z`;
+}
+
+/** Cylinder body: sides and the front of the base, under a separate lid ellipse */
+export function cylinderPath(box: Box): string {
+  const { cx, cy, w, h } = box;
+  const ry = rimHeight(box);
+  const x0 = cx - w / 2;
+  const x1 = cx + w / 2;
+  const top = cy - h / 2 + ry;
+  const bottom = cy + h / 2 - ry;
+  return `M ${x0} ${top} V ${bottom} A ${w / 2} ${ry} 0 0 0 ${x1} ${bottom} V ${top}`;
+}
+
+/** Queue message slots along the bottom of the box */
+export function queueSlots({ cx, cy, w, h }: Box, count: number): Box[] {
+  const stripH = h * QUEUE_STRIP;
+  const pad = 12;
+  const gap = 4;
+  const slotW = (w - 2 * pad - (count - 1) * gap) / count;
+  const slotCy = cy + h / 2 - pad / 2 - stripH / 2;
+  return Array.from({ length: count }, (_, i) => ({
+    cx: cx - w / 2 + pad + slotW / 2 + i * (slotW + gap),
+    cy: slotCy,
+    w: slotW,
+    h: stripH - 4,
+  }));
+}
+
+/** Part of the box the label is centred in, clear of the shape's decorations */
+export function labelRegion(kind: ShapeKind, box: Box): Box {
+  const { cx, cy, w, h } = box;
+  switch (kind) {
+    case "queue": {
+      const stripH = h * QUEUE_STRIP + 6;
+      return { cx, cy: cy - stripH / 2, w, h: h - stripH };
+    }
+    case "database": {
+      const lid = 2 * rimHeight(box);
+      return { cx, cy: cy + lid / 2, w, h: h - lid };
+    }
+    case "cloud":
+      return { cx, cy: cy + 0.1 * h, w: 0.72 * w, h: 0.72 * h };
+    case "state":
+      /* Middle band, between the step number and check mark */
+      return { cx, cy, w, h: Math.min(h, 60) };
+    default:
+      return box;
+  }
+}
+
+/** Point on the shape's outline where an edge on `side` attaches */
+export function shapePort(kind: ShapeKind, box: Box, side: PortSide, offset = 0): Point {
+  const { cx, cy, w, h } = box;
+  /* The cloud's lobes leave the middle of its sides short of the box */
+  const insetX = kind === "cloud" ? 0.05 * w : 0;
+  const insetY = kind === "cloud" ? 0.02 * h : 0;
+  switch (side) {
+    case "top":
+      return { x: cx + offset, y: cy - h / 2 + insetY };
+    case "bottom":
+      return { x: cx + offset, y: cy + h / 2 };
+    case "left":
+      return { x: cx - w / 2 + insetX, y: cy + offset };
+    case "right":
+      return { x: cx + w / 2 - insetX, y: cy + offset };
+  }
+}
@@ -44,11 +44,26 @@ export function GlowFilter({
   );
 }
 
+/** Arrowheads drawn on dot routes when motion is reduced (see index.css) */
+export function FlowArrowMarkers() {
+  return (
+    <>
+      <marker id="flowArrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="11" markerHeight="11" markerUnits="userSpaceOnUse" orient="auto">
+        <path d="M0,1 L9,5 L0,9 Z" fill="var(--text-secondary)" />
+      </marker>
+      <marker id="flowArrowReverse" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="11" markerHeight="11" markerUnits="userSpaceOnUse" orient="auto-start-reverse">
+        <path d="M0,1 L9,5 L0,9 Z" fill="var(--text-secondary)" />
+      </marker>
+    </>
+  );
+}
+
 /** Standard set of warm glow filter defs - NO blue/purple */
 export function StandardDefs({ dotGridId = "dotgrid" }: { dotGridId?: string }) {
   return (
     <>
       <DotGrid id={dotGridId} />
+      <FlowArrowMarkers />
       <GlowFilter id="glowRed" stdDev={3} />
       <GlowFilter id="glowAmber" stdDev={3.5} />
       <GlowFilter id="glowGold" stdDev={3.5} />
@@ -0,0 +1,174 @@
+/* ────────────────────────────────────────────────────────────
+ *  Fitting SVG text to boxes
+ *
+ *  `fitLines` / `writeLines` wrap and shrink one text element to
+ *  a width and height; `FitText` and `BoxLabel` (box-label.tsx)
+ *  lay out labels with them. Texts drawn at a fixed size are
+ *  handled by `fitTextToBoxes` instead.
+ * ──────────────────────────────────────────────────────────── */
+
+/** Horizontal breathing room kept inside the box (viewBox units) */
+const PADDING = 8;
+const MIN_SCALE = 0.6;
+/** Marks texts whose font size was set here, holding their own inline size for the next pass to restore */
+const FITTED = "data-fitted";
+/** Marks texts laid out by `writeLines`, which `fitTextToBoxes` leaves alone */
+export const FIT_TEXT = "data-fit";
+/** Font size decrement while searching for a fit (px) */
+const SIZE_STEP = 0.5;
+
+export interface FitOptions {
+  width: number;
+  height: number;
+  /** Font size range in px */
+  minSize: number;
+  maxSize: number;
+  maxLines: number;
+  /** Line pitch as a multiple of the font size */
+  lineHeight: number;
+}
+
+export interface FittedLines {
+  lines: string[];
+  size: number;
+  /** Height of the block of lines */
+  height: number;
+}
+
+function measure(text: SVGTextElement, content: string) {
+  text.textContent = content;
+  return text.getComputedTextLength();
+}
+
+/** Greedy word wrap at the text's current font size; `\n` always breaks */
+function wrap(text: SVGTextElement, paragraphs: string[][], width: number) {
+  const lines: string[] = [];
+  for (const words of paragraphs) {
+    let line = "";
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measure(text, candidate) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Largest font size in range at which `content` wraps into the box.
+ * If nothing fits, the minimum size is used and lines beyond
+ * `maxLines` are cut with an ellipsis. Leaves the text's font size
+ * set to the result; its content is scratch until `writeLines`.
+ */
+export function fitLines(text: SVGTextElement, content: string, options: FitOptions): FittedLines {
+  const { width, height, minSize, maxSize, maxLines, lineHeight } = options;
+  const paragraphs = content.split("\n").map((paragraph) => paragraph.split(/\s+/).filter(Boolean));
+
+  for (let size = maxSize; size >= minSize; size -= SIZE_STEP) {
+    text.style.setProperty("font-size", `${size}px`);
+    const lines = wrap(text, paragraphs, width);
+    const blockHeight = lines.length * size * lineHeight;
+    const fits = lines.length <= maxLines && blockHeight <= height && lines.every((line) => measure(text, line) <= width);
+    if (fits) return { lines, size, height: blockHeight };
+  }
+
+  text.style.setProperty("font-size", `${minSize}px`);
+  const lines = wrap(text, paragraphs, width);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1]}…`;
+  }
+  return { lines, size: minSize, height: lines.length * minSize * lineHeight };
+}
+
+/** Replace the text's content with one `tspan` per line, stacked down from `top` */
+export function writeLines(text: SVGTextElement, { lines, size }: FittedLines, x: number, top: number, lineHeight: number) {
+  text.textContent = "";
+  text.setAttribute(FIT_TEXT, "");
+  lines.forEach((line, i) => {
+    const tspan = document.createElementNS("http://www.w3.org/2000/svg", "tspan");
+    tspan.setAttribute("x", String(x));
+    tspan.setAttribute("y", String(top + (i + 0.5) * size * lineHeight));
+    tspan.textContent = line;
+    text.appendChild(tspan);
+  });
+}
+
+/**
+ * Run `layout` now and again once web fonts have loaded, since
+ * fallback metrics differ. Returns a cleanup for effects.
+ */
+export function layoutWithFonts(layout: () => void): () => void {
+  let live = true;
+  layout();
+  document.fonts?.ready.then(() => {
+    if (live) layout();
+  });
+  return () => {
+    live = false;
+  };
+}
+
+/* ────────────────────────────────────────────────────────────
+ *  Shrink-to-fit for fixed-size labels
+ *
+ *  Translated labels run longer than the English the boxes were
+ *  sized for. A text sitting inside a rect of its own group is
+ *  scaled down until it fits the rect's width, to at most
+ *  `MIN_SCALE` of its styled size.
+ * ──────────────────────────────────────────────────────────── */
+
+/** Smallest rect among `text`'s siblings that contains its anchor point */
+function boxFor(text: SVGTextElement) {
+  const x = text.x.baseVal[0]?.value;
+  const y = text.y.baseVal[0]?.value;
+  if (x === undefined || y === undefined || !text.parentElement) return null;
+
+  let best: SVGRectElement | null = null;
+  for (const rect of text.parentElement.querySelectorAll<SVGRectElement>(":scope > rect")) {
+    const { x: rx, y: ry, width, height } = rect.getBBox();
+    const inside = x >= rx && x <= rx + width && y >= ry && y <= ry + height;
+    if (inside && (!best || width * height < best.getBBox().width * best.getBBox().height)) best = rect;
+  }
+  return best;
+}
+
+/** Width available to `text` in `box` given where it is anchored */
+function room(text: SVGTextElement, box: SVGRectElement) {
+  const x = text.x.baseVal[0].value;
+  const { x: left, width } = box.getBBox();
+  const right = left + width;
+  switch (getComputedStyle(text).textAnchor) {
+    case "middle":
+      return 2 * Math.min(x - left, right - x) - 2 * PADDING;
+    case "end":
+      return x - left - PADDING;
+    default:
+      return right - x - PADDING;
+  }
+}
+
+/** Fit every boxed label under `root`; safe to run again after the text changes */
+export function fitTextToBoxes(root: Element) {
+  root.querySelectorAll<SVGTextElement>(`text[${FITTED}]`).forEach((text) => {
+    text.style.setProperty("font-size", text.getAttribute(FITTED));
+    text.removeAttribute(FITTED);
+  });
+
+  root.querySelectorAll<SVGTextElement>(`svg text:not([${FIT_TEXT}])`).forEach((text) => {
+    const box = boxFor(text);
+    if (!box) return;
+    const length = text.getComputedTextLength();
+    const available = room(text, box);
+    if (length <= available || available <= 0) return;
+
+    const size = parseFloat(getComputedStyle(text).fontSize);
+    text.setAttribute(FITTED, text.style.fontSize);
+    text.style.setProperty("font-size", `${size * Math.max(available / length, MIN_SCALE)}px`);
+  });
+}
@@ -0,0 +1,180 @@
+import { createContext } from "react";
+
+/* ────────────────────────────────────────────────────────────
+ *  Shared transport for the active slide's timelines
+ *
+ *  The mounted slide registers its reveal and loop timelines
+ *  (via useBuildSteps) together with the tween that plays the
+ *  reveal to the current build step. The transport bar then
+ *  pauses, re-times and scrubs them without reaching into the
+ *  slide. The scrub range is the reveal followed by one loop
+ *  iteration, once the loops have started.
+ * ──────────────────────────────────────────────────────────── */
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export interface TransportState {
+  playing: boolean;
+  speed: number;
+  /** Whether a slide has registered its timelines */
+  attached: boolean;
+}
+
+export interface SlideTimelines {
+  reveal: () => gsap.core.Timeline | null;
+  loops: () => (gsap.core.Timeline | null)[];
+  /** Tween playing the reveal up to `target` (the current build step);
+      null when reduced motion jumped straight there */
+  tween: gsap.core.Tween | null;
+  target: number;
+}
+
+export type TimelineController = ReturnType<typeof createTimelineController>;
+
+export function createTimelineController() {
+  const listeners = new Set<() => void>();
+  let state: TransportState = { playing: true, speed: 1, attached: false };
+  let source: SlideTimelines | null = null;
+  let tween: gsap.core.Tween | null = null;
+  let started = new WeakSet<gsap.core.Timeline>();
+
+  const update = (patch: Partial<TransportState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const loops = () => source?.loops().filter((loop) => loop !== null) ?? [];
+
+  /* Loops that have been started, so scrubbing back into the reveal keeps
+     their range; live mode never starts them */
+  const startedLoops = () =>
+    loops().filter((loop) => {
+      if (!loop.paused() || loop.totalTime() > 0) started.add(loop);
+      return started.has(loop);
+    });
+
+  const loopDuration = () => Math.max(0, ...startedLoops().map((loop) => loop.duration()));
+
+  const applySpeed = () => {
+    tween?.timeScale(state.speed);
+    loops().forEach((loop) => loop.timeScale(state.speed));
+  };
+
+  const pause = () => {
+    tween?.pause();
+    startedLoops().forEach((loop) => loop.pause());
+    update({ playing: false });
+  };
+
+  /** Continue toward the current build step, or run the loops once it is reached */
+  const play = () => {
+    const reveal = source?.reveal();
+    if (!source || !reveal) return;
+
+    if (reveal.progress() < 1) {
+      if (tween && tween.progress() < 1) {
+        tween.resume();
+      } else if (reveal.time() < source.target) {
+        tween = reveal.tweenTo(source.target);
+        applySpeed();
+      }
+    } else {
+      startedLoops().forEach((loop) => loop.play());
+    }
+    update({ playing: true });
+  };
+
+  return {
+    subscribe(onChange: () => void) {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+    getSnapshot: () => state,
+
+    /** Register the active slide; a new registration resumes playback */
+    attach(timelines: SlideTimelines) {
+      source = timelines;
+      tween = timelines.tween;
+      applySpeed();
+      update({ attached: true, playing: true });
+
+      return () => {
+        if (source !== timelines) return;
+        source = null;
+        tween = null;
+        update({ attached: false });
+      };
+    },
+
+    play,
+    pause,
+    toggle: () => (state.playing ? pause() : play()),
+
+    setSpeed(speed: number) {
+      update({ speed });
+      applySpeed();
+    },
+
+    /** Position within the reveal plus one loop iteration, 0 → 1 */
+    progress() {
+      const reveal = source?.reveal();
+      if (!reveal) return 0;
+      const total = reveal.duration() + loopDuration();
+      if (total === 0) return 0;
+      if (reveal.progress() < 1) return reveal.time() / total;
+      return (reveal.duration() + (startedLoops()[0]?.time() ?? 0)) / total;
+    },
+
+    /** Where the slide is in its run: whether the reveal has finished and how many loop iterations have completed */
+    cycle() {
+      const reveal = source?.reveal() ?? null;
+      const loop = startedLoops().reduce<gsap.core.Timeline | null>(
+        (longest, l) => (!longest || l.duration() > longest.duration() ? l : longest),
+        null,
+      );
+      return {
+        reveal,
+        revealed: reveal !== null && reveal.progress() === 1,
+        looping: loop !== null && loop.duration() > 0,
+        iterations: loop && loop.duration() > 0 ? Math.floor(loop.totalTime() / loop.duration()) : 0,
+      };
+    },
+
+    /** Jump to a position (see `progress`) and hold there */
+    seek(progress: number) {
+      const reveal = source?.reveal();
+      if (!reveal) return;
+      pause();
+      tween?.kill();
+      tween = null;
+
+      const running = startedLoops();
+      const time = progress * (reveal.duration() + loopDuration());
+      if (time < reveal.duration()) {
+        reveal.time(time, true);
+        running.forEach((loop) => loop.pause(0));
+      } else {
+        reveal.progress(1, true);
+        running.forEach((loop) => loop.pause(time - reveal.duration()));
+      }
+    },
+
+    /** Replay the slide from the start up to the current build step */
+    restart() {
+      const reveal = source?.reveal();
+      if (!source || !reveal) return;
+      tween?.kill();
+      started = new WeakSet();
+      loops().forEach((loop) => loop.pause(0));
+      reveal.pause(0);
+      tween = reveal.tweenTo(source.target);
+      applySpeed();
+      update({ playing: true });
+    },
+  };
+}
+
+/** Null outside the deck (e.g. off-screen export), where slides play on their own */
+export const TimelineControllerContext = createContext<TimelineController | null>(null);
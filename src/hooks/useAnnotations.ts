@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Annotation } from "@/components/slides/shared/annotations";
+
+const STORAGE_KEY = "engine-demo-annotations";
+const PERSIST_KEY = "engine-demo-annotations-persist";
+
+interface AnnotationState {
+  /** Marks per slide id */
+  marks: Record<string, Annotation[]>;
+  /** Earlier versions of each slide's marks, newest last */
+  history: Record<string, Annotation[][]>;
+}
+
+function loadMarks(): Record<string, Annotation[]> {
+  if (localStorage.getItem(PERSIST_KEY) !== "on") return {};
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Per-slide presenter annotations with undo. When `persist` is on the
+ * marks are kept in localStorage and come back on the next visit.
+ */
+export function useAnnotations() {
+  const [persist, setPersist] = useState(() => localStorage.getItem(PERSIST_KEY) === "on");
+  const [state, setState] = useState<AnnotationState>(() => ({ marks: loadMarks(), history: {} }));
+
+  useEffect(() => {
+    localStorage.setItem(PERSIST_KEY, persist ? "on" : "off");
+    if (persist) localStorage.setItem(STORAGE_KEY, JSON.stringify(state.marks));
+    else localStorage.removeItem(STORAGE_KEY);
+  }, [persist, state.marks]);
+
+  const change = useCallback((slideId: string, next: (marks: Annotation[]) => Annotation[]) => {
+    setState(({ marks, history }) => {
+      const current = marks[slideId] ?? [];
+      return {
+        marks: { ...marks, [slideId]: next(current) },
+        history: { ...history, [slideId]: [...(history[slideId] ?? []), current] },
+      };
+    });
+  }, []);
+
+  const add = useCallback((slideId: string, annotation: Annotation) => change(slideId, (m) => [...m, annotation]), [change]);
+  const clear = useCallback((slideId: string) => change(slideId, () => []), [change]);
+
+  const undo = useCallback((slideId: string) => {
+    setState(({ marks, history }) => {
+      const past = history[slideId] ?? [];
+      if (past.length === 0) return { marks, history };
+      return {
+        marks: { ...marks, [slideId]: past[past.length - 1] },
+        history: { ...history, [slideId]: past.slice(0, -1) },
+      };
+    });
+  }, []);
+
+  const marksFor = useCallback((slideId: string) => state.marks[slideId] ?? [], [state.marks]);
+
+  return {
+    marksFor,
+    canUndo: (slideId: string) => (state.history[slideId]?.length ?? 0) > 0,
+    add,
+    undo,
+    clear,
+    persist,
+    togglePersist: useCallback(() => setPersist((p) => !p), []),
+  };
+}
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Blank the audience screen. `B` and `.` toggle it, matching the
+ * blackout button on most presentation clickers.
+ */
+export function useBlackout({ keyboard = true }: { keyboard?: boolean } = {}) {
+  const [blackout, setBlackout] = useState(false);
+  const toggleBlackout = useCallback(() => setBlackout((b) => !b), []);
+
+  useEffect(() => {
+    if (!keyboard) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.key === "b" || e.key === "B" || e.key === ".") toggleBlackout();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [keyboard, toggleBlackout]);
+
+  return { blackout, toggleBlackout };
+}
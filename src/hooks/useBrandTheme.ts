@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { loadBrandTheme, type BrandTheme } from "@/components/slides/shared/brand";
+
+type Loaded = { source: string; brand: BrandTheme | null; error: string | null };
+
+/**
+ * Load the brand theme named by `source` (an id under `/brands` or a
+ * URL) and apply its colour overrides to the document. Returns a null
+ * brand while loading, when `source` is null, or when loading fails.
+ */
+export function useBrandTheme(source: string | null) {
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+
+  useEffect(() => {
+    if (!source) return;
+    const controller = new AbortController();
+
+    loadBrandTheme(source, controller.signal)
+      .then((brand) => setLoaded({ source, brand, error: null }))
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setLoaded({ source, brand: null, error: err instanceof Error ? err.message : String(err) });
+      });
+
+    return () => controller.abort();
+  }, [source]);
+
+  const current = loaded && loaded.source === source ? loaded : null;
+  const brand = current?.brand ?? null;
+
+  useEffect(() => {
+    if (!brand) return;
+    const root = document.documentElement;
+    const entries = Object.entries(brand.colors);
+    entries.forEach(([variable, value]) => root.style.setProperty(variable, value));
+    return () => entries.forEach(([variable]) => root.style.removeProperty(variable));
+  }, [brand]);
+
+  return { brand, error: current?.error ?? null };
+}
@@ -0,0 +1,114 @@
+import { useContext, useEffect, useEffectEvent, type RefObject } from "react";
+import { SlidePlaybackContext } from "@/components/slides/shared/playback";
+import { TimelineControllerContext } from "@/components/slides/shared/timeline-controller";
+
+type TimelineRef = RefObject<gsap.core.Timeline | null>;
+
+/** Elements animated by tweens that start between `from` and `to` on `reveal` */
+function tweenedBetween(reveal: gsap.core.Timeline, from: number, to: number) {
+  const elements = new Set<Element>();
+  for (const tween of reveal.getChildren(true, true, false) as gsap.core.Tween[]) {
+    let start = tween.startTime();
+    for (let parent = tween.parent; parent && parent !== reveal; parent = parent.parent) start += parent.startTime();
+    if (start < from || start >= to) continue;
+    tween.targets().forEach((target) => {
+      if (target instanceof Element) elements.add(target);
+    });
+  }
+  return [...elements];
+}
+
+interface UseBuildStepsOptions {
+  /** Reveal timeline carrying one label per build step */
+  revealTlRef: TimelineRef;
+  /** Looping timelines started once the reveal completes */
+  loopTlRefs: TimelineRef[];
+  /** Ordered step labels declared on the slide component */
+  steps: readonly string[] | undefined;
+  active: boolean;
+  step: number;
+}
+
+/**
+ * Play a slide's reveal timeline up to the current build step.
+ * Step `n` shows everything before the label of step `n + 1`; the last
+ * step (or a slide with no steps) plays to the end, where the slide's
+ * own onComplete handler starts the loops. Rewinding a step stops them.
+ *
+ * Under a "still" `SlidePlaybackContext` the reveal jumps straight to
+ * its end and the loops freeze on a single frame instead. Under
+ * "reduced" it jumps to the current step, never starts the loops, and
+ * marks what the step added with `.step-highlight`.
+ *
+ * Inside the deck the timelines are also registered with the shared
+ * `TimelineControllerContext`, which drives the transport bar.
+ *
+ * Must be called after the effect that builds the reveal timeline.
+ */
+export function useBuildSteps({ revealTlRef, loopTlRefs, steps, active, step }: UseBuildStepsOptions) {
+  const playback = useContext(SlidePlaybackContext);
+  const controller = useContext(TimelineControllerContext);
+
+  const resetLoops = useEffectEvent(() => {
+    loopTlRefs.forEach((ref) => ref.current?.pause(0));
+  });
+
+  const currentLoops = useEffectEvent(() => loopTlRefs.map((ref) => ref.current));
+
+  const freezeLoops = useEffectEvent((progress: number) => {
+    loopTlRefs.forEach((ref) => {
+      const loop = ref.current;
+      loop?.pause(loop.duration() * progress);
+    });
+  });
+
+  useEffect(() => {
+    const reveal = revealTlRef.current;
+    if (!active || !reveal) return;
+
+    if (playback.mode === "still") {
+      reveal.progress(1);
+      freezeLoops(playback.loopProgress);
+      return;
+    }
+
+    const nextLabel = steps?.[step + 1];
+    const target = nextLabel !== undefined ? reveal.labels[nextLabel] ?? reveal.duration() : reveal.duration();
+
+    if (playback.mode === "reduced") {
+      /* Callbacks are suppressed, so the slide's onComplete never starts the loops */
+      resetLoops();
+      reveal.pause(target, true);
+      const from = step > 0 ? reveal.labels[steps?.[step] ?? ""] : undefined;
+      const added = from === undefined ? [] : tweenedBetween(reveal, from, target);
+      added.forEach((el) => el.classList.add("step-highlight"));
+      const detach = controller?.attach({
+        reveal: () => revealTlRef.current,
+        loops: () => currentLoops(),
+        tween: null,
+        target,
+      });
+
+      return () => {
+        added.forEach((el) => el.classList.remove("step-highlight"));
+        detach?.();
+        /* Back to the start of the step, so switching to full motion plays it */
+        reveal.pause(from ?? 0, true);
+      };
+    }
+
+    if (target < reveal.time()) resetLoops();
+    const tween = reveal.tweenTo(target);
+    const detach = controller?.attach({
+      reveal: () => revealTlRef.current,
+      loops: () => currentLoops(),
+      tween,
+      target,
+    });
+
+    return () => {
+      tween.kill();
+      detach?.();
+    };
+  }, [revealTlRef, steps, active, step, playback, controller]);
+}
@@ -0,0 +1,113 @@
+import { useState, useCallback } from "react";
+import { download, mountSlide, rasterize, standaloneSvg } from "@/components/slides/shared/capture";
+import type { SlidePlayback } from "@/components/slides/shared/playback";
+import type { I18n } from "@/components/slides/shared/i18n";
+import { drawAnnotations, type Annotation } from "@/components/slides/shared/annotations";
+import type { SlideDefinition } from "@/pages/slideDecks";
+
+export type SlideExportFormat = "svg" | "png";
+
+/** Representative frame: dots part-way along their paths */
+const STILL_PLAYBACK: SlidePlayback = { mode: "still", loopProgress: 0.4 };
+
+/** Time for dot fade-outs spawned by the seek to settle (ms) */
+const SETTLE_MS = 250;
+
+/** Raster scale relative to the SVG viewBox */
+const PNG_SCALE = 2;
+
+/* ────────────────────────────────────────────────────────────
+ *  Rendering a slide off-screen in its fully revealed state
+ * ──────────────────────────────────────────────────────────── */
+async function renderStill(slide: SlideDefinition, annotations: Annotation[], i18n?: I18n): Promise<string> {
+  const { svg, unmount } = mountSlide(slide.Component, { playback: STILL_PLAYBACK, i18n });
+  try {
+    await new Promise((resolve) => setTimeout(resolve, SETTLE_MS));
+    drawAnnotations(svg, annotations);
+    return standaloneSvg(svg);
+  } finally {
+    unmount();
+  }
+}
+
+/* ────────────────────────────────────────────────────────────
+ *  Hook
+ * ──────────────────────────────────────────────────────────── */
+interface UseDeckExportOptions {
+  slides: SlideDefinition[];
+  /** Base name for the PDF, e.g. "main" or "backup" */
+  deckName: string;
+  /** Presenter annotations drawn over each exported slide */
+  annotationsFor?: (slideId: string) => Annotation[];
+  /** Language to render in; English when omitted */
+  i18n?: I18n;
+}
+
+const NO_ANNOTATIONS = () => [];
+
+/**
+ * Export slides as standalone SVG/PNG files or the deck as a PDF.
+ * A failed export is reported through `error` rather than thrown.
+ */
+export function useDeckExport({ slides, deckName, annotationsFor = NO_ANNOTATIONS, i18n }: UseDeckExportOptions) {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setExporting(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExporting(false);
+    }
+  }, []);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const exportSlide = useCallback(
+    (index: number, format: SlideExportFormat) =>
+      run(async () => {
+        const slide = slides[index];
+        const markup = await renderStill(slide, annotationsFor(slide.id), i18n);
+
+        if (format === "svg") {
+          download(new Blob([markup], { type: "image/svg+xml" }), `${slide.id}.svg`);
+          return;
+        }
+
+        const canvas = await rasterize(markup, PNG_SCALE);
+        const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+        if (!png) throw new Error("The browser could not encode the PNG");
+        download(png, `${slide.id}.png`);
+      }),
+    [slides, annotationsFor, i18n, run],
+  );
+
+  const exportDeck = useCallback(
+    () =>
+      run(async () => {
+        const { jsPDF } = await import("jspdf");
+        let pdf: InstanceType<typeof jsPDF> | null = null;
+
+        for (const slide of slides) {
+          const canvas = await rasterize(await renderStill(slide, annotationsFor(slide.id), i18n), PNG_SCALE);
+          const size: [number, number] = [canvas.width / PNG_SCALE, canvas.height / PNG_SCALE];
+
+          if (pdf) {
+            pdf.addPage(size, "landscape");
+          } else {
+            pdf = new jsPDF({ orientation: "landscape", unit: "px", format: size, hotfixes: ["px_scaling"] });
+          }
+          pdf.addImage(canvas, "PNG", 0, 0, size[0], size[1]);
+        }
+
+        pdf?.save(`anekant-${deckName}-deck.pdf`);
+      }),
+    [slides, deckName, annotationsFor, i18n, run],
+  );
+
+  return { exporting, error, clearError, exportSlide, exportDeck };
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+
+type OverviewMode = "overview" | "palette" | null;
+
+/** Whether a key press is text entry that deck shortcuts should leave alone */
+export function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && target.type !== "range"))
+  );
+}
+
+/**
+ * Toggle the slide overview grid (O, closed with Esc) and the
+ * quick-jump palette (Ctrl+K / Cmd+K). At most one is open.
+ */
+export function useDeckOverview() {
+  const [mode, setMode] = useState<OverviewMode>(null);
+
+  const close = useCallback(() => setMode(null), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setMode((m) => (m === "palette" ? null : "palette"));
+        return;
+      }
+      if (e.key === "Escape") {
+        setMode(null);
+        return;
+      }
+      if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+      if (e.key.toLowerCase() === "o") {
+        setMode((m) => (m === "overview" ? null : "overview"));
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  return {
+    overviewOpen: mode === "overview",
+    paletteOpen: mode === "palette",
+    /** Whether deck shortcuts (navigation, transport) should stand down */
+    open: mode !== null,
+    close,
+  };
+}
@@ -0,0 +1,66 @@
+import { useEffect, useRef } from "react";
+
+interface UseDeckSyncOptions {
+  /** Identifies the deck; windows showing the same deck share a channel */
+  deckKey: string;
+  /** Id of the slide this window is currently showing */
+  slideId: string;
+  /** Build step shown on that slide */
+  step: number;
+  /** Called when another window moves to a different slide or step */
+  onRemoteSlide: (slideId: string, step: number) => void;
+}
+
+type DeckSyncMessage =
+  | { type: "slide"; slideId: string; step: number }
+  /** Sent by a window as it opens; the others answer with where they are */
+  | { type: "join" };
+
+/**
+ * Keep every window showing the same deck (audience + presenter) on the
+ * same slide and build step via a BroadcastChannel. Each window announces its own
+ * changes and follows the others'; receivers ignore no-op moves, so the
+ * echo from a followed change stops after one round trip. A window that
+ * opens (or reloads) does not announce the slide it starts on, which
+ * would rewind the others mid-build; it asks for their position instead.
+ */
+export function useDeckSync({ deckKey, slideId, step, onRemoteSlide }: UseDeckSyncOptions) {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  /* Where this window is; starts as its own first slide, which is not announced */
+  const shownRef = useRef({ slideId, step });
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === "undefined") return;
+    const channel = new BroadcastChannel(`deck-sync:${deckKey}`);
+    channelRef.current = channel;
+    channel.postMessage({ type: "join" } satisfies DeckSyncMessage);
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [deckKey]);
+
+  useEffect(() => {
+    const shown = shownRef.current;
+    if (shown.slideId === slideId && shown.step === step) return;
+    shownRef.current = { slideId, step };
+    const message: DeckSyncMessage = { type: "slide", slideId, step };
+    channelRef.current?.postMessage(message);
+  }, [deckKey, slideId, step]);
+
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (!channel) return;
+
+    const handleMessage = (e: MessageEvent<DeckSyncMessage>) => {
+      if (e.data?.type === "slide") onRemoteSlide(e.data.slideId, e.data.step);
+      if (e.data?.type === "join") {
+        const reply: DeckSyncMessage = { type: "slide", ...shownRef.current };
+        channel.postMessage(reply);
+      }
+    };
+
+    channel.addEventListener("message", handleMessage);
+    return () => channel.removeEventListener("message", handleMessage);
+  }, [deckKey, onRemoteSlide]);
+}
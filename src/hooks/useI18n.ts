@@ -0,0 +1,7 @@
+import { useContext } from "react";
+import { I18nContext, type I18n } from "@/components/slides/shared/i18n";
+
+/** The deck's language: `t` for slide text, formatters for numbers and rupees */
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
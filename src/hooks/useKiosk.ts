@@ -0,0 +1,87 @@
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import gsap from "gsap";
+import type { TimelineController } from "@/components/slides/shared/timeline-controller";
+
+/** Loop iterations held on a slide that does not set `dwellLoops` */
+export const DEFAULT_DWELL_LOOPS = 2;
+/** Seconds held after the reveal on a slide whose loops never run (e.g. live mode) */
+const HOLD_WITHOUT_LOOPS_SEC = 8;
+const DEFAULT_IDLE_SEC = 30;
+
+interface UseKioskOptions {
+  enabled: boolean;
+  controller: TimelineController;
+  /** Identifies the slide on screen; the dwell restarts when it changes */
+  slideKey: string;
+  dwellLoops?: number;
+  /** Seconds without input before an interrupted cycle resumes */
+  idleSec?: number;
+  onAdvance: () => void;
+}
+
+/**
+ * Unattended cycling for booth displays. Each slide plays its reveal
+ * and `dwellLoops` iterations of its loop, then `onAdvance` moves on.
+ * Any input (keys, clicks, touches, mouse movement) interrupts the
+ * cycle; it resumes after `idleSec` without input.
+ */
+export function useKiosk({
+  enabled,
+  controller,
+  slideKey,
+  dwellLoops = DEFAULT_DWELL_LOOPS,
+  idleSec = DEFAULT_IDLE_SEC,
+  onAdvance,
+}: UseKioskOptions) {
+  const [interrupted, setInterrupted] = useState(false);
+  const cycling = enabled && !interrupted;
+  const advance = useEffectEvent(onAdvance);
+  /* Reveal of the slide just left, still registered while it animates out */
+  const leavingRef = useRef<gsap.core.Timeline | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let idle: ReturnType<typeof setTimeout>;
+
+    const handleInput = (e: Event) => {
+      if (e instanceof PointerEvent && e.type === "pointermove" && !e.movementX && !e.movementY) return;
+      setInterrupted(true);
+      clearTimeout(idle);
+      idle = setTimeout(() => setInterrupted(false), idleSec * 1000);
+    };
+
+    const events = ["keydown", "pointerdown", "pointermove", "wheel"] as const;
+    events.forEach((type) => window.addEventListener(type, handleInput, { passive: true }));
+    return () => {
+      clearTimeout(idle);
+      events.forEach((type) => window.removeEventListener(type, handleInput));
+    };
+  }, [enabled, idleSec]);
+
+  useEffect(() => {
+    if (!cycling) return;
+    if (!controller.getSnapshot().playing) controller.play();
+
+    let base: { iterations: number; since: number } | null = null;
+    const check = () => {
+      const cycle = controller.cycle();
+      if (!cycle.revealed || cycle.reveal === leavingRef.current) return;
+
+      const now = gsap.ticker.time;
+      base ??= { iterations: cycle.iterations, since: now };
+      const done = cycle.looping
+        ? cycle.iterations - base.iterations >= dwellLoops
+        : now - base.since >= HOLD_WITHOUT_LOOPS_SEC;
+      if (done) {
+        leavingRef.current = cycle.reveal;
+        base = null;
+        advance();
+      }
+    };
+
+    gsap.ticker.add(check);
+    return () => gsap.ticker.remove(check);
+  }, [cycling, controller, slideKey, dwellLoops]);
+
+  return { cycling };
+}
@@ -0,0 +1,101 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  LIVE_EVENT_TYPES,
+  type LiveEvent,
+  type LiveEventFeed,
+  type LiveEventListener,
+  type LiveEventType,
+} from "@/components/slides/shared/live-events";
+
+/** Served by the bundled mock (see mock/liveEvents.ts) under `vite` and `vite preview` */
+export const MOCK_LIVE_EVENTS_URL = "/mock/live/events";
+
+const RECONNECT_MS = 2000;
+
+function isLiveEventType(type: unknown): type is LiveEventType {
+  return LIVE_EVENT_TYPES.includes(type as LiveEventType);
+}
+
+/** Keep only well-formed events: a known type and, if given, a non-negative integer engine */
+function parseEvent(data: unknown): LiveEvent | null {
+  if (typeof data !== "string") return null;
+  let event: unknown;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (typeof event !== "object" || event === null || Array.isArray(event)) return null;
+
+  const { type, engine } = event as Record<string, unknown>;
+  if (!isLiveEventType(type)) return null;
+  if (engine === undefined) return { type };
+  return Number.isInteger(engine) && (engine as number) >= 0 ? { type, engine: engine as number } : null;
+}
+
+/**
+ * Connect to a live engine event stream. `ws://` / `wss://` URLs use a
+ * WebSocket (reconnecting after a drop); anything else is read as
+ * Server-Sent Events, which reconnect on their own.
+ *
+ * Returns a null feed when `url` is null, i.e. live mode is off.
+ */
+export function useLiveEventFeed(url: string | null) {
+  const [connected, setConnected] = useState(false);
+
+  const feed = useMemo(() => {
+    if (url === null) return null;
+    const listeners = new Set<LiveEventListener>();
+    return {
+      listeners,
+      subscribe(listener: LiveEventListener) {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+      },
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!url || !feed) return;
+
+    const dispatch = (data: unknown) => {
+      const event = parseEvent(data);
+      if (event) feed.listeners.forEach((listener) => listener(event));
+    };
+
+    if (!/^wss?:/.test(url)) {
+      const source = new EventSource(url);
+      source.onopen = () => setConnected(true);
+      source.onerror = () => setConnected(false);
+      source.onmessage = (e) => dispatch(e.data);
+      return () => {
+        source.close();
+        setConnected(false);
+      };
+    }
+
+    let socket: WebSocket;
+    let retry: ReturnType<typeof setTimeout>;
+    let closed = false;
+
+    const connect = () => {
+      socket = new WebSocket(url);
+      socket.onopen = () => setConnected(true);
+      socket.onmessage = (e) => dispatch(e.data);
+      socket.onclose = () => {
+        setConnected(false);
+        if (!closed) retry = setTimeout(connect, RECONNECT_MS);
+      };
+    };
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retry);
+      socket.close();
+      setConnected(false);
+    };
+  }, [url, feed]);
+
+  return { feed: feed as LiveEventFeed | null, connected };
+}
@@ -0,0 +1,59 @@
+import { useContext, useEffect, useEffectEvent, type RefObject } from "react";
+import { spawnDot } from "@/components/slides/shared/animate-dot";
+import { LiveEventsContext, type LiveEvent, type LiveFlow } from "@/components/slides/shared/live-events";
+import { SlidePlaybackContext } from "@/components/slides/shared/playback";
+
+/** Upper bound on concurrently running live dots per slide */
+const MAX_LIVE_DOTS = 60;
+
+interface UseLiveFlowsOptions {
+  svgRef: RefObject<SVGSVGElement | null>;
+  revealTlRef: RefObject<gsap.core.Timeline | null>;
+  /** Dots to spawn for an incoming event */
+  routes: (event: LiveEvent) => LiveFlow[];
+  /** Engines drawn on the slide; events naming any other engine are dropped */
+  engines?: number;
+  active: boolean;
+}
+
+/**
+ * Drive a slide's dots from the live event feed. Returns whether live
+ * mode is on; slides use it to skip starting their fixed loops.
+ * Events are ignored until the reveal has fully played, so partially
+ * built steps stay quiet, and under reduced motion altogether.
+ */
+export function useLiveFlows({ svgRef, revealTlRef, routes, engines, active }: UseLiveFlowsOptions) {
+  const feed = useContext(LiveEventsContext);
+  const playback = useContext(SlidePlaybackContext);
+
+  const onEvent = useEffectEvent((event: LiveEvent, running: Set<gsap.core.Timeline>) => {
+    const svg = svgRef.current;
+    if (!svg || (revealTlRef.current?.progress() ?? 0) < 1) return;
+    if (engines !== undefined && event.engine !== undefined && event.engine >= engines) return;
+
+    for (const flow of routes(event)) {
+      if (running.size >= MAX_LIVE_DOTS) return;
+      const path = svg.querySelector<SVGPathElement>(flow.path);
+      const dot = svg.querySelector<SVGCircleElement>(flow.dot);
+      if (!path || !dot) continue;
+
+      const tl = spawnDot(dot, path, flow.duration, flow.delay, flow.reverse);
+      running.add(tl);
+      tl.then(() => running.delete(tl));
+    }
+  });
+
+  useEffect(() => {
+    if (!feed || !active || playback.mode === "reduced") return;
+
+    const running = new Set<gsap.core.Timeline>();
+    const unsubscribe = feed.subscribe((event) => onEvent(event, running));
+
+    return () => {
+      unsubscribe();
+      running.forEach((tl) => tl.progress(1));
+    };
+  }, [feed, active, playback]);
+
+  return feed !== null;
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { LOCALES, createI18n, type LocaleId } from "@/components/slides/shared/i18n";
+
+const STORAGE_KEY = "engine-demo-locale";
+
+function findLocale(id: string | null) {
+  return LOCALES.find((l) => l.id === id) ?? LOCALES[0];
+}
+
+/**
+ * The deck's language, stored in localStorage and followed by every
+ * open window through the `storage` event, like the theme. Mirrored
+ * to `<html lang>`.
+ */
+export function useLocale() {
+  const [localeId, setLocaleId] = useState<LocaleId>(() => findLocale(localStorage.getItem(STORAGE_KEY)).id);
+
+  /* Fires only in the other windows of this origin */
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) setLocaleId(findLocale(e.newValue).id);
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const locale = findLocale(localeId);
+
+  useEffect(() => {
+    document.documentElement.setAttribute("lang", locale.tag);
+  }, [locale]);
+
+  const setLocale = useCallback((id: LocaleId) => {
+    localStorage.setItem(STORAGE_KEY, id);
+    setLocaleId(id);
+  }, []);
+
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+
+  return { locale, locales: LOCALES, setLocale, i18n };
+}
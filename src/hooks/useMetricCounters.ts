@@ -0,0 +1,46 @@
+import { useEffect, useRef, type RefObject } from "react";
+import gsap from "gsap";
+
+interface UseMetricCountersOptions<K extends string> {
+  svgRef: RefObject<SVGSVGElement | null>;
+  /** Target values; each is written into the `.metric-<key>` text element */
+  values: Record<K, number>;
+  /** Must be stable (module-level or memoised), like `values` it is an effect dependency */
+  format: (key: K, value: number) => string;
+  duration?: number;
+}
+
+/**
+ * Count metric text elements up or down to new values. The elements
+ * render empty and are owned by this hook, so React re-renders never
+ * overwrite a count in progress. The first values are written as-is.
+ */
+export function useMetricCounters<K extends string>({ svgRef, values, format, duration = 1 }: UseMetricCountersOptions<K>) {
+  const shownRef = useRef<Record<K, number> | null>(null);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const keys = Object.keys(values) as K[];
+    const write = (shown: Record<K, number>) => {
+      keys.forEach((key) => {
+        const el = svg.querySelector(`.metric-${key}`);
+        if (el) el.textContent = format(key, shown[key]);
+      });
+    };
+
+    if (!shownRef.current) {
+      shownRef.current = { ...values };
+      write(shownRef.current);
+      return;
+    }
+
+    const shown = shownRef.current;
+    const tween = gsap.to(shown, { ...values, duration, ease: "power1.inOut", onUpdate: () => write(shown) });
+
+    return () => {
+      tween.kill();
+    };
+  }, [svgRef, values, format, duration]);
+}
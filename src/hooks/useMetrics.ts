@@ -0,0 +1,8 @@
+import { useContext, useSyncExternalStore } from "react";
+import { MetricsContext, type DeckMetrics } from "@/components/slides/shared/metrics";
+
+/** Latest metrics snapshot from the deck's metrics provider */
+export function useMetrics(): DeckMetrics {
+  const provider = useContext(MetricsContext);
+  return useSyncExternalStore(provider.subscribe, provider.getSnapshot);
+}
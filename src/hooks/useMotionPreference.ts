@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from "react";
+
+const STORAGE_KEY = "engine-demo-motion";
+const REDUCED_QUERY = "(prefers-reduced-motion: reduce)";
+
+type MotionOverride = "full" | "reduced";
+
+/**
+ * Follows the system's prefers-reduced-motion setting until the
+ * toggle picks a side; the choice is remembered in localStorage and
+ * mirrored to `data-motion` on the document for CSS.
+ */
+export function useMotionPreference() {
+  const [systemReduced, setSystemReduced] = useState(() => window.matchMedia(REDUCED_QUERY).matches);
+  const [override, setOverride] = useState<MotionOverride | null>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored === "full" || stored === "reduced" ? stored : null;
+  });
+
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_QUERY);
+    const handleChange = () => setSystemReduced(query.matches);
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, []);
+
+  const reduced = override ? override === "reduced" : systemReduced;
+
+  useEffect(() => {
+    document.documentElement.setAttribute("data-motion", reduced ? "reduced" : "full");
+  }, [reduced]);
+
+  const toggleMotion = useCallback(() => {
+    const next: MotionOverride = reduced ? "full" : "reduced";
+    localStorage.setItem(STORAGE_KEY, next);
+    setOverride(next);
+  }, [reduced]);
+
+  return { reduced, toggleMotion };
+}
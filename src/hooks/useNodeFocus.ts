@@ -0,0 +1,133 @@
+import { useEffect } from "react";
+import { highlightNode, type NodeDetail } from "@/components/slides/shared/inspect";
+import { elementViewBox } from "@/components/slides/shared/focus";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+/** Space between a focused node and its ring (viewBox units) */
+const RING_GAP = 8;
+
+interface UseNodeFocusOptions {
+  /** The mounted slide's SVG */
+  svg: SVGSVGElement | null;
+  /** The slide's node registry; its order is the traversal order */
+  details?: readonly NodeDetail[];
+}
+
+/** Whether `el` is on screen: nodes fade in with the build steps */
+function isShown(svg: SVGSVGElement, el: Element) {
+  for (let node: Element | null = el; node && node !== svg; node = node.parentElement) {
+    const style = getComputedStyle(node);
+    if (style.display === "none" || style.visibility === "hidden" || Number(style.opacity) === 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Keyboard access to a slide's `[data-node]` elements. The diagram is
+ * one tab stop; inside it Tab and the arrow keys move through the
+ * nodes on screen in registry order (Tab off either end leaves). The
+ * focused node gets a ring drawn in the SVG and its edges lit, and
+ * Enter or Space activates it like a click, which opens the slide's
+ * detail panel.
+ */
+export function useNodeFocus({ svg, details }: UseNodeFocusOptions) {
+  useEffect(() => {
+    if (!svg) return;
+    const rank = new Map(details?.map((d, i) => [d.id, i]));
+    const titles = new Map(details?.map((d) => [d.id, d.title]));
+    const nodes = [...svg.querySelectorAll<SVGGraphicsElement>("[data-node]")]
+      .map((node, i) => ({ node, order: rank.get(node.dataset.node ?? "") ?? rank.size + i }))
+      .sort((a, b) => a.order - b.order)
+      .map(({ node }) => node);
+    if (nodes.length === 0) return;
+
+    nodes.forEach((node, i) => {
+      const id = node.dataset.node ?? "";
+      node.setAttribute("tabindex", i === 0 ? "0" : "-1");
+      node.setAttribute("role", "button");
+      node.setAttribute("aria-label", titles.get(id) ?? node.querySelector("text")?.textContent ?? id);
+    });
+
+    const ring = document.createElementNS(SVG_NS, "rect");
+    ring.setAttribute("class", "node-focus-ring");
+    ring.setAttribute("rx", "12");
+    ring.setAttribute("pointer-events", "none");
+
+    const nodeAt = (target: EventTarget | null) => {
+      const node = target instanceof Element ? target.closest<SVGGraphicsElement>("[data-node]") : null;
+      return node && nodes.includes(node) ? node : null;
+    };
+
+    /* Focus the next shown node in `direction`; false past either end */
+    const move = (from: SVGGraphicsElement, direction: 1 | -1) => {
+      const shown = nodes.filter((node) => isShown(svg, node));
+      const index = shown.indexOf(from);
+      const next = index === -1 ? shown[0] : shown[index + direction];
+      next?.focus();
+      return next !== undefined;
+    };
+
+    const handleFocusIn = (e: FocusEvent) => {
+      const node = nodeAt(e.target);
+      if (!node) return;
+      /* The tab stop may still be hidden at this build step */
+      if (!isShown(svg, node)) {
+        move(node, 1);
+        return;
+      }
+      nodes.forEach((n) => n.setAttribute("tabindex", n === node ? "0" : "-1"));
+      highlightNode(svg, node.dataset.node ?? null);
+
+      /* Mouse clicks focus too; only keyboard focus draws the ring */
+      const box = node.matches(":focus-visible") ? elementViewBox(svg, node) : null;
+      if (!box) return;
+      const [x, y, w, h] = box;
+      ring.setAttribute("x", String(x - RING_GAP));
+      ring.setAttribute("y", String(y - RING_GAP));
+      ring.setAttribute("width", String(w + RING_GAP * 2));
+      ring.setAttribute("height", String(h + RING_GAP * 2));
+      svg.appendChild(ring);
+    };
+
+    const handleFocusOut = (e: FocusEvent) => {
+      if (!nodeAt(e.target)) return;
+      ring.remove();
+      highlightNode(svg, null);
+    };
+
+    /* Handled keys stop here, so the deck doesn't also change slide */
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const node = nodeAt(e.target);
+      if (!node) return;
+
+      const forward = e.key === "ArrowRight" || e.key === "ArrowDown" || (e.key === "Tab" && !e.shiftKey);
+      const back = e.key === "ArrowLeft" || e.key === "ArrowUp" || (e.key === "Tab" && e.shiftKey);
+      if (forward || back) {
+        if (move(node, forward ? 1 : -1) || e.key !== "Tab") e.preventDefault();
+        e.stopPropagation();
+      } else if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        e.stopPropagation();
+        node.dispatchEvent(new MouseEvent("click", { bubbles: true }));
+      } else if (e.key === "Escape") {
+        node.blur();
+      }
+    };
+
+    svg.addEventListener("focusin", handleFocusIn);
+    svg.addEventListener("focusout", handleFocusOut);
+    svg.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      svg.removeEventListener("focusin", handleFocusIn);
+      svg.removeEventListener("focusout", handleFocusOut);
+      svg.removeEventListener("keydown", handleKeyDown);
+      ring.remove();
+      nodes.forEach((node) => {
+        node.removeAttribute("tabindex");
+        node.removeAttribute("role");
+        node.removeAttribute("aria-label");
+      });
+    };
+  }, [svg, details]);
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState, type RefObject } from "react";
+import { highlightNode, type NodeDetail } from "@/components/slides/shared/inspect";
+
+interface UseNodeInspectionOptions {
+  svgRef: RefObject<SVGSVGElement | null>;
+  /** The slide's node registry */
+  details: NodeDetail[];
+  active: boolean;
+}
+
+/**
+ * Hover and click inspection for a slide's diagram. Hovering a
+ * registered `[data-node]` highlights it, its edges and neighbours and
+ * dims everything else; clicking selects it for the detail panel.
+ * Clicking elsewhere on the diagram or pressing Escape deselects.
+ */
+export function useNodeInspection({ svgRef, details, active }: UseNodeInspectionOptions) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !active) return;
+
+    const ids = new Set(details.map((d) => d.id));
+    const nodes = svg.querySelectorAll<SVGElement>("[data-node]");
+    nodes.forEach((node) => node.classList.toggle("node-inspectable", ids.has(node.dataset.node ?? "")));
+
+    const nodeAt = (target: EventTarget | null) => {
+      const id = (target as Element | null)?.closest<SVGElement>("[data-node]")?.dataset.node;
+      return id && ids.has(id) ? id : null;
+    };
+
+    let hovered: string | null = null;
+    const highlight = (id: string | null) => {
+      if (id === hovered) return;
+      hovered = id;
+      highlightNode(svg, id);
+    };
+
+    const onPointerOver = (e: PointerEvent) => highlight(nodeAt(e.target));
+    const onPointerLeave = () => highlight(null);
+    const onClick = (e: MouseEvent) => setSelectedId(nodeAt(e.target));
+
+    svg.addEventListener("pointerover", onPointerOver);
+    svg.addEventListener("pointerleave", onPointerLeave);
+    svg.addEventListener("click", onClick);
+
+    return () => {
+      svg.removeEventListener("pointerover", onPointerOver);
+      svg.removeEventListener("pointerleave", onPointerLeave);
+      svg.removeEventListener("click", onClick);
+      highlight(null);
+      nodes.forEach((node) => node.classList.remove("node-inspectable"));
+    };
+  }, [svgRef, details, active]);
+
+  useEffect(() => {
+    if (selectedId === null) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setSelectedId(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selectedId]);
+
+  return {
+    selected: details.find((d) => d.id === selectedId) ?? null,
+    close: () => setSelectedId(null),
+  };
+}
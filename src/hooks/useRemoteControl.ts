@@ -0,0 +1,47 @@
+import { useEffect, useEffectEvent, useState } from "react";
+import {
+  parseRemoteMessage,
+  remoteRelayUrl,
+  sendRemoteMessage,
+  type RemoteCommand,
+  type RemoteState,
+} from "@/components/slides/shared/remote";
+
+interface UseRemoteControlOptions {
+  /** Pairing token from `?remote=<token>`; off without one */
+  token: string | null;
+  /** Where the deck is, published to the phone on every change */
+  state: Omit<RemoteState, "kind">;
+  onCommand: (command: RemoteCommand) => void;
+}
+
+/**
+ * Let a phone drive the deck through the local relay: publish the
+ * deck's position and follow the commands the phone sends back.
+ */
+export function useRemoteControl({ token, state, onCommand }: UseRemoteControlOptions) {
+  const [connected, setConnected] = useState(false);
+  const handleCommand = useEffectEvent(onCommand);
+
+  useEffect(() => {
+    if (!token) return;
+    const source = new EventSource(remoteRelayUrl(token));
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+    source.onmessage = (e) => {
+      const message = parseRemoteMessage(e.data);
+      if (message?.kind === "command") handleCommand(message);
+    };
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [token]);
+
+  const { basePath, slideId, step, totalSteps, blackout } = state;
+  useEffect(() => {
+    if (token) sendRemoteMessage(token, { kind: "state", basePath, slideId, step, totalSteps, blackout });
+  }, [token, connected, basePath, slideId, step, totalSteps, blackout]);
+
+  return { connected };
+}
@@ -1,38 +1,85 @@
 import { useState, useEffect, useCallback } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 
 interface UseSlideNavigationOptions {
-  totalSlides: number;
+  /** Ordered slide ids — each one is routable as `${basePath}/${id}` */
+  slideIds: string[];
+  /** Route prefix the deck is mounted under, e.g. "" or "/backup" */
+  basePath: string;
+  /** Number of build steps per slide (defaults to 1) */
+  stepCounts?: number[];
+  /** Listen for navigation keys; off while an overlay owns the keyboard */
+  keyboard?: boolean;
 }
 
-export function useSlideNavigation({ totalSlides }: UseSlideNavigationOptions) {
-  const [currentSlide, setCurrentSlide] = useState(0);
+export function useSlideNavigation({ slideIds, basePath, stepCounts, keyboard = true }: UseSlideNavigationOptions) {
+  const { slideId } = useParams();
+  const { hash, search } = useLocation();
+  const navigate = useNavigate();
+
+  const totalSlides = slideIds.length;
+  const matchedSlide = slideId ? slideIds.indexOf(slideId) : 0;
+  const currentSlide = Math.max(0, matchedSlide);
+
+  /* Direction is derived from the previous slide index so that browser
+     back/forward transitions animate the same way as button presses. */
   const [direction, setDirection] = useState(0);
+  const [lastSlide, setLastSlide] = useState(currentSlide);
+  if (lastSlide !== currentSlide) {
+    setLastSlide(currentSlide);
+    setDirection(currentSlide > lastSlide ? 1 : -1);
+  }
+
+  /* Build step within the current slide. Landing on a slide through any
+     path other than stepping resets it to the first step. */
+  const [stepState, setStepState] = useState({ slide: currentSlide, step: 0 });
+  const step = stepState.slide === currentSlide ? stepState.step : 0;
+  const stepCount = useCallback((index: number) => stepCounts?.[index] ?? 1, [stepCounts]);
+  const totalSteps = stepCount(currentSlide);
+
+  /* Unknown ids fall back to the first slide; legacy `#slide-id` links
+     are rewritten to their path form. The query string carries deck
+     options such as `?live` and is kept on every navigation. */
+  useEffect(() => {
+    const hashId = hash.replace(/^#/, "");
+    if (!slideId && slideIds.includes(hashId)) {
+      navigate({ pathname: `${basePath}/${hashId}`, search }, { replace: true });
+    } else if (matchedSlide === -1) {
+      navigate({ pathname: basePath || "/", search }, { replace: true });
+    }
+  }, [hash, search, slideId, slideIds, matchedSlide, basePath, navigate]);
 
   const goToSlide = useCallback(
-    (index: number) => {
-      if (index >= 0 && index < totalSlides) {
-        setDirection(index > currentSlide ? 1 : -1);
-        setCurrentSlide(index);
+    (index: number, atStep = 0) => {
+      if (index < 0 || index >= totalSlides) return;
+      setStepState({ slide: index, step: Math.min(Math.max(0, atStep), stepCount(index) - 1) });
+      if (index !== currentSlide) {
+        navigate({ pathname: `${basePath}/${slideIds[index]}`, search });
       }
     },
-    [totalSlides, currentSlide],
+    [totalSlides, currentSlide, basePath, search, slideIds, stepCount, navigate],
   );
 
+  /* Next/Prev walk through build steps before leaving the slide; going
+     back lands on the previous slide fully built. */
   const nextSlide = useCallback(() => {
-    if (currentSlide < totalSlides - 1) {
-      setDirection(1);
-      setCurrentSlide((prev) => prev + 1);
+    if (step < totalSteps - 1) {
+      goToSlide(currentSlide, step + 1);
+    } else {
+      goToSlide(currentSlide + 1);
     }
-  }, [currentSlide, totalSlides]);
+  }, [currentSlide, step, totalSteps, goToSlide]);
 
   const prevSlide = useCallback(() => {
-    if (currentSlide > 0) {
-      setDirection(-1);
-      setCurrentSlide((prev) => prev - 1);
+    if (step > 0) {
+      goToSlide(currentSlide, step - 1);
+    } else {
+      goToSlide(currentSlide - 1, stepCount(currentSlide - 1) - 1);
     }
-  }, [currentSlide]);
+  }, [currentSlide, step, stepCount, goToSlide]);
 
   useEffect(() => {
+    if (!keyboard) return;
     const handleKeyDown = (e: KeyboardEvent) => {
       switch (e.key) {
         case "ArrowRight":
@@ -61,16 +108,18 @@ export function useSlideNavigation({ totalSlides }: UseSlideNavigationOptions) {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [nextSlide, prevSlide, goToSlide, totalSlides]);
+  }, [keyboard, nextSlide, prevSlide, goToSlide, totalSlides]);
 
   return {
     currentSlide,
     direction,
     totalSlides,
+    step,
+    totalSteps,
     nextSlide,
     prevSlide,
     goToSlide,
-    isFirst: currentSlide === 0,
-    isLast: currentSlide === totalSlides - 1,
+    isFirst: currentSlide === 0 && step === 0,
+    isLast: currentSlide === totalSlides - 1 && step === totalSteps - 1,
   };
 }
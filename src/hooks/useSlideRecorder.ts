@@ -0,0 +1,241 @@
+import { useState, useCallback } from "react";
+import gsap from "gsap";
+import { easeInOut, spring } from "framer-motion";
+import { VB_W, VB_H } from "@/components/slides/shared/constants";
+import { download, loadSvgImage, mountSlide, standaloneSvg, type MountedSlide } from "@/components/slides/shared/capture";
+import { SLIDE_FADE_SEC, SLIDE_SPRING } from "@/pages/slideTransition";
+import type { I18n } from "@/components/slides/shared/i18n";
+import type { SlideDefinition } from "@/pages/slideDecks";
+
+const FPS = 30;
+
+/** How long each slide plays: its full reveal, then the loops (s) */
+const SLIDE_CLIP_SEC = 10;
+
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+
+const MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+/* ────────────────────────────────────────────────────────────
+ *  Deterministic GSAP clock
+ *
+ *  Detaches the global timeline from the ticker so every frame
+ *  advances it by exactly 1/FPS, however long the frame took to
+ *  render. On release the root is re-anchored to the ticker so
+ *  on-screen animations continue from where recording left them.
+ * ──────────────────────────────────────────────────────────── */
+function takeOverGsapClock() {
+  let time = gsap.ticker.time;
+  gsap.ticker.remove(gsap.updateRoot);
+
+  return {
+    advance(seconds: number) {
+      time += seconds;
+      gsap.updateRoot(time);
+    },
+    release() {
+      const root = gsap.globalTimeline;
+      root.startTime(root.startTime() + gsap.ticker.time - time);
+      gsap.ticker.add(gsap.updateRoot, false, true);
+    },
+  };
+}
+
+/* ────────────────────────────────────────────────────────────
+ *  Frame writer
+ *
+ *  The recorder is paused while a frame renders and resumed only
+ *  for one frame interval after it is pushed, so render time never
+ *  shows up in the video's timestamps.
+ * ──────────────────────────────────────────────────────────── */
+interface Layer {
+  svg: SVGSVGElement;
+  /** Horizontal offset as a fraction of the frame width */
+  x: number;
+  opacity: number;
+}
+
+/** First WebM type this browser can record, if any */
+function recordingMimeType(): string | undefined {
+  if (typeof MediaRecorder === "undefined") return undefined;
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+function createFrameWriter() {
+  const mimeType = recordingMimeType();
+  if (!mimeType) throw new Error("This browser cannot record WebM video");
+
+  const canvas = document.createElement("canvas");
+  canvas.width = VB_W;
+  canvas.height = VB_H;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  recorder.start();
+  recorder.pause();
+
+  return {
+    async write(layers: Layer[]) {
+      const images = await Promise.all(layers.map((layer) => loadSvgImage(standaloneSvg(layer.svg))));
+
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = getComputedStyle(document.documentElement).getPropertyValue("--bg-primary");
+      ctx.fillRect(0, 0, VB_W, VB_H);
+      layers.forEach((layer, i) => {
+        ctx.globalAlpha = layer.opacity;
+        ctx.drawImage(images[i], layer.x * VB_W, 0, VB_W, VB_H);
+      });
+
+      recorder.resume();
+      track.requestFrame();
+      await new Promise((resolve) => setTimeout(resolve, 1000 / FPS));
+      recorder.pause();
+    },
+    async finish(): Promise<Blob> {
+      const stopped = new Promise((resolve) => recorder.addEventListener("stop", resolve, { once: true }));
+      recorder.stop();
+      await stopped;
+      track.stop();
+      return new Blob(chunks, { type: "video/webm" });
+    },
+    /** Stop after a failure, dropping what was recorded */
+    discard() {
+      if (recorder.state !== "inactive") recorder.stop();
+      track.stop();
+    },
+  };
+}
+
+type FrameWriter = ReturnType<typeof createFrameWriter>;
+type GsapClock = ReturnType<typeof takeOverGsapClock>;
+
+/* ────────────────────────────────────────────────────────────
+ *  Clips
+ * ──────────────────────────────────────────────────────────── */
+
+/** Mount a slide with every build step queued so the reveal plays straight through */
+function mountForRecording(slide: SlideDefinition, i18n?: I18n): MountedSlide {
+  const steps = slide.Component.steps?.length ?? 1;
+  return mountSlide(slide.Component, { step: steps - 1, i18n });
+}
+
+async function recordClip(
+  writer: FrameWriter,
+  clock: GsapClock,
+  svg: SVGSVGElement,
+  onFrame: (fraction: number) => void,
+) {
+  const frames = SLIDE_CLIP_SEC * FPS;
+  for (let frame = 0; frame < frames; frame++) {
+    await writer.write([{ svg, x: 0, opacity: 1 }]);
+    clock.advance(1 / FPS);
+    onFrame((frame + 1) / frames);
+  }
+}
+
+/**
+ * Replay the deck's AnimatePresence "wait" transition: the outgoing
+ * slide springs out and fades, then the incoming one springs in.
+ * `keyframes` are the slide's x offset in percent of the frame width,
+ * sampled until both the spring and the fade have settled.
+ */
+async function recordTransition(
+  writer: FrameWriter,
+  clock: GsapClock,
+  svg: SVGSVGElement,
+  keyframes: [number, number],
+  fade: (progress: number) => number,
+) {
+  const slideX = spring({ keyframes, ...SLIDE_SPRING });
+
+  for (let t = 0; ; t += 1 / FPS) {
+    const { value, done } = slideX.next(t * 1000);
+    const opacity = fade(easeInOut(Math.min(t / SLIDE_FADE_SEC, 1)));
+    await writer.write([{ svg, x: value / 100, opacity }]);
+    clock.advance(1 / FPS);
+    if (done && t >= SLIDE_FADE_SEC) return;
+  }
+}
+
+/* ────────────────────────────────────────────────────────────
+ *  Hook
+ * ──────────────────────────────────────────────────────────── */
+interface UseSlideRecorderOptions {
+  slides: SlideDefinition[];
+  /** Base name for the deck video, e.g. "main" or "backup" */
+  deckName: string;
+  /** Language to render in; English when omitted */
+  i18n?: I18n;
+}
+
+/**
+ * Record slide animations to WebM. GSAP is stepped frame-by-frame
+ * rather than in real time, so dots move evenly however slow the
+ * SVG → canvas rendering is. `progress` runs 0 → 1 while recording.
+ * `supported` is false where the browser has no WebM recorder; a
+ * failed recording is reported through `error` rather than thrown.
+ */
+export function useSlideRecorder({ slides, deckName, i18n }: UseSlideRecorderOptions) {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const supported = recordingMimeType() !== undefined;
+
+  const run = useCallback(async (filename: string, task: (writer: FrameWriter, clock: GsapClock) => Promise<void>) => {
+    setProgress(0);
+    setError(null);
+    let writer: FrameWriter | null = null;
+    const clock = takeOverGsapClock();
+    try {
+      writer = createFrameWriter();
+      await task(writer, clock);
+      download(await writer.finish(), filename);
+    } catch (err) {
+      writer?.discard();
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      clock.release();
+      setProgress(null);
+    }
+  }, []);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const recordSlide = useCallback(
+    (index: number) => {
+      const slide = slides[index];
+      return run(`${slide.id}.webm`, async (writer, clock) => {
+        const { svg, unmount } = mountForRecording(slide, i18n);
+        try {
+          await recordClip(writer, clock, svg, setProgress);
+        } finally {
+          unmount();
+        }
+      });
+    },
+    [slides, i18n, run],
+  );
+
+  const recordDeck = useCallback(
+    () =>
+      run(`anekant-${deckName}-deck.webm`, async (writer, clock) => {
+        for (const [i, slide] of slides.entries()) {
+          const { svg, unmount } = mountForRecording(slide, i18n);
+          try {
+            if (i > 0) await recordTransition(writer, clock, svg, [100, 0], (p) => p);
+            await recordClip(writer, clock, svg, (fraction) => setProgress((i + fraction) / slides.length));
+            if (i < slides.length - 1) await recordTransition(writer, clock, svg, [0, -100], (p) => 1 - p);
+          } finally {
+            unmount();
+          }
+        }
+      }),
+    [slides, deckName, i18n, run],
+  );
+
+  return { recording: progress !== null, progress, supported, error, clearError, recordSlide, recordDeck };
+}
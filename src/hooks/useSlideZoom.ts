@@ -0,0 +1,195 @@
+import { useEffect, useRef } from "react";
+import gsap from "gsap";
+import { elementViewBox, fitViewBox, padViewBox, type FocusPreset, type ViewBox } from "@/components/slides/shared/focus";
+import { toSvgPoint } from "@/components/slides/shared/annotations";
+
+const ZOOM_DURATION = 0.6;
+/** Wheel sensitivity; trackpad pinches arrive as ctrl+wheel with small deltas */
+const WHEEL_RATE = 0.0015;
+const PINCH_WHEEL_RATE = 0.01;
+/** Pointer travel (px) after which a press counts as a pan, not a click */
+const DRAG_PX = 4;
+const NODE_PADDING = 0.35;
+
+interface UseSlideZoomOptions {
+  /** The mounted slide's SVG */
+  svg: SVGSVGElement | null;
+  presets?: readonly FocusPreset[];
+  step: number;
+  /** Apply step presets; off while a kiosk cycles the deck */
+  followSteps?: boolean;
+  /** 1–9 jump to the slide's presets, 0 shows the whole slide */
+  keyboard?: boolean;
+}
+
+interface ZoomControls {
+  zoomTo: (box: ViewBox) => void;
+  reset: () => void;
+}
+
+/**
+ * Zoom and pan a slide by animating its viewBox: wheel or pinch to
+ * zoom around the pointer, drag to pan, double-click a node to frame
+ * it (again, or on the background, to zoom out). Presets with a
+ * `step` follow the build steps. Timelines are untouched, so the
+ * slide's loops keep running while zoomed.
+ */
+export function useSlideZoom({ svg, presets, step, followSteps = true, keyboard = true }: UseSlideZoomOptions) {
+  const controlsRef = useRef<ZoomControls | null>(null);
+
+  useEffect(() => {
+    if (!svg) return;
+    const { x, y, width, height } = svg.viewBox.baseVal;
+    const full: ViewBox = [x, y, width, height];
+    const view = { x, y, w: width, h: height };
+    let tween: gsap.core.Tween | null = null;
+    let framed: Element | null = null;
+
+    const apply = () => svg.setAttribute("viewBox", `${view.x} ${view.y} ${view.w} ${view.h}`);
+    const set = (box: ViewBox) => {
+      tween?.kill();
+      [view.x, view.y, view.w, view.h] = fitViewBox(box, full);
+      apply();
+    };
+    const zoomTo = (box: ViewBox) => {
+      tween?.kill();
+      const [tx, ty, tw, th] = fitViewBox(box, full);
+      tween = gsap.to(view, { x: tx, y: ty, w: tw, h: th, duration: ZOOM_DURATION, ease: "power2.inOut", onUpdate: apply });
+    };
+    const reset = () => {
+      framed = null;
+      zoomTo(full);
+    };
+    controlsRef.current = { zoomTo, reset };
+
+    /* Scale the view by `factor` keeping the viewBox point `[px, py]` fixed */
+    const zoomAround = (px: number, py: number, factor: number) =>
+      set([px - (px - view.x) * factor, py - (py - view.y) * factor, view.w * factor, view.h * factor]);
+
+    const handleWheel = (e: WheelEvent) => {
+      const p = toSvgPoint(svg, e.clientX, e.clientY);
+      if (!p) return;
+      e.preventDefault();
+      zoomAround(p[0], p[1], Math.exp(e.deltaY * (e.ctrlKey ? PINCH_WHEEL_RATE : WHEEL_RATE)));
+    };
+
+    const handleDoubleClick = (e: MouseEvent) => {
+      const node = (e.target as Element).closest<SVGGraphicsElement>("[data-node]");
+      const box = node && node !== framed ? elementViewBox(svg, node) : null;
+      if (!box) return reset();
+      framed = node;
+      zoomTo(padViewBox(box, NODE_PADDING));
+    };
+
+    /* Mouse drags pan; two touches pinch. A lone touch is left to swipe navigation. */
+    const pointers = new Map<number, { x: number; y: number }>();
+    let pan: { id: number; x: number; y: number; moved: boolean } | null = null;
+    let suppressClick = false;
+
+    const handleDown = (e: PointerEvent) => {
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (e.pointerType === "mouse" && e.button === 0 && view.w < full[2]) {
+        pan = { id: e.pointerId, x: e.clientX, y: e.clientY, moved: false };
+      }
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      const last = pointers.get(e.pointerId);
+      if (!last) return;
+
+      if (pointers.size === 2) {
+        const [a, b] = [...pointers.values()];
+        const other = a === last ? b : a;
+        const before = { mx: (last.x + other.x) / 2, my: (last.y + other.y) / 2, d: Math.hypot(last.x - other.x, last.y - other.y) };
+        const after = { mx: (e.clientX + other.x) / 2, my: (e.clientY + other.y) / 2, d: Math.hypot(e.clientX - other.x, e.clientY - other.y) };
+        const anchor = toSvgPoint(svg, before.mx, before.my);
+        if (anchor && after.d > 0) {
+          zoomAround(anchor[0], anchor[1], before.d / after.d);
+          const moved = toSvgPoint(svg, after.mx, after.my);
+          if (moved) set([view.x + anchor[0] - moved[0], view.y + anchor[1] - moved[1], view.w, view.h]);
+        }
+      } else if (pan?.id === e.pointerId) {
+        if (!pan.moved && Math.hypot(e.clientX - pan.x, e.clientY - pan.y) < DRAG_PX) return;
+        pan.moved = true;
+        const from = toSvgPoint(svg, last.x, last.y);
+        const to = toSvgPoint(svg, e.clientX, e.clientY);
+        if (from && to) set([view.x + from[0] - to[0], view.y + from[1] - to[1], view.w, view.h]);
+      }
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+      if (pan?.id === e.pointerId) {
+        suppressClick = pan.moved;
+        pan = null;
+      }
+    };
+
+    /* A pan ends with a click on whatever is under the pointer; swallow it */
+    const handleClick = (e: MouseEvent) => {
+      if (!suppressClick) return;
+      suppressClick = false;
+      e.stopPropagation();
+    };
+
+    svg.style.setProperty("touch-action", "none");
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    svg.addEventListener("dblclick", handleDoubleClick);
+    svg.addEventListener("pointerdown", handleDown);
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    window.addEventListener("pointercancel", handleUp);
+    svg.addEventListener("click", handleClick, true);
+
+    return () => {
+      tween?.kill();
+      controlsRef.current = null;
+      svg.setAttribute("viewBox", full.join(" "));
+      svg.style.removeProperty("touch-action");
+      svg.removeEventListener("wheel", handleWheel);
+      svg.removeEventListener("dblclick", handleDoubleClick);
+      svg.removeEventListener("pointerdown", handleDown);
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      window.removeEventListener("pointercancel", handleUp);
+      svg.removeEventListener("click", handleClick, true);
+    };
+  }, [svg]);
+
+  /* Step presets: frame the preset when the deck steps onto it on this
+     slide, and zoom back out when stepping off. A slide entered at a
+     preset's step (back from the next slide, a jump) shows whole. */
+  const shownStepRef = useRef<{ svg: SVGSVGElement | null; step: number } | null>(null);
+  const stepFocusedRef = useRef(false);
+  useEffect(() => {
+    const shown = shownStepRef.current;
+    shownStepRef.current = { svg, step };
+    const controls = controlsRef.current;
+    if (!controls) return;
+
+    const stepped = shown?.svg === svg && shown.step !== step;
+    const preset = followSteps && stepped ? presets?.find((p) => p.step === step) : undefined;
+    if (preset) {
+      controls.zoomTo(preset.box);
+      stepFocusedRef.current = true;
+    } else if (stepFocusedRef.current) {
+      controls.reset();
+      stepFocusedRef.current = false;
+    }
+  }, [svg, presets, step, followSteps]);
+
+  useEffect(() => {
+    if (!keyboard) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || !/^[0-9]$/.test(e.key)) return;
+      const controls = controlsRef.current;
+      const preset = presets?.[Number(e.key) - 1];
+      if (e.key === "0") controls?.reset();
+      else if (preset) controls?.zoomTo(preset.box);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [keyboard, presets]);
+}
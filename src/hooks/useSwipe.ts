@@ -0,0 +1,48 @@
+import { useEffect, useEffectEvent } from "react";
+
+/** Minimum horizontal travel (px) for a swipe */
+const SWIPE_MIN_PX = 60;
+
+interface UseSwipeOptions {
+  enabled?: boolean;
+  /** -1 for a swipe to the left (forward), 1 for a swipe to the right (back) */
+  onSwipe: (direction: -1 | 1) => void;
+}
+
+/**
+ * Horizontal touch/pen swipes anywhere in the window. Mouse drags are
+ * ignored, and mostly vertical gestures are left to scrolling.
+ */
+export function useSwipe({ enabled = true, onSwipe }: UseSwipeOptions) {
+  const handleSwipe = useEffectEvent(onSwipe);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let start: { id: number; x: number; y: number } | null = null;
+
+    const handleDown = (e: PointerEvent) => {
+      if (e.pointerType === "mouse") return;
+      /* A second finger makes it a pinch, not a swipe */
+      start = e.isPrimary ? { id: e.pointerId, x: e.clientX, y: e.clientY } : null;
+    };
+    const handleUp = (e: PointerEvent) => {
+      if (!start || e.pointerId !== start.id) return;
+      const dx = e.clientX - start.x;
+      const dy = e.clientY - start.y;
+      start = null;
+      if (Math.abs(dx) >= SWIPE_MIN_PX && Math.abs(dx) > Math.abs(dy) * 1.5) handleSwipe(dx < 0 ? -1 : 1);
+    };
+    const handleCancel = () => {
+      start = null;
+    };
+
+    window.addEventListener("pointerdown", handleDown);
+    window.addEventListener("pointerup", handleUp);
+    window.addEventListener("pointercancel", handleCancel);
+    return () => {
+      window.removeEventListener("pointerdown", handleDown);
+      window.removeEventListener("pointerup", handleUp);
+      window.removeEventListener("pointercancel", handleCancel);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from "react";
+
+interface UseTalkTimerOptions {
+  /** Planned talk length in seconds */
+  durationSec: number;
+}
+
+export function useTalkTimer({ durationSec }: UseTalkTimerOptions) {
+  const [elapsed, setElapsed] = useState(0);
+  const [running, setRunning] = useState(true);
+
+  useEffect(() => {
+    if (!running) return;
+    const id = window.setInterval(() => setElapsed((s) => s + 1), 1000);
+    return () => window.clearInterval(id);
+  }, [running]);
+
+  const toggle = useCallback(() => {
+    setRunning((prev) => !prev);
+  }, []);
+
+  const reset = useCallback(() => {
+    setElapsed(0);
+  }, []);
+
+  return {
+    elapsed,
+    remaining: durationSec - elapsed,
+    running,
+    toggle,
+    reset,
+  };
+}
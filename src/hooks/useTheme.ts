@@ -1,21 +1,100 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 
-type Theme = "dark" | "light";
+const STORAGE_KEY = "engine-demo-theme";
 
+/** A named palette; its colours live under `[data-theme="<id>"]` in index.css */
+export interface ThemeDefinition {
+  id: string;
+  label: string;
+  /** The base the palette is built on, for icons and `color-scheme` */
+  scheme: "dark" | "light";
+  /** Flow dots take a shape per kind (tick, order, fill, command) so flows read without colour */
+  flowShapes?: boolean;
+}
+
+export const THEMES: ThemeDefinition[] = [
+  { id: "dark", label: "Dark", scheme: "dark" },
+  { id: "light", label: "Light", scheme: "light" },
+  { id: "high-contrast", label: "High contrast", scheme: "dark", flowShapes: true },
+  { id: "deuteranopia", label: "Deuteranopia-safe", scheme: "dark", flowShapes: true },
+  { id: "protanopia", label: "Protanopia-safe", scheme: "dark", flowShapes: true },
+];
+
+/** Follows the system's `prefers-color-scheme` between dark and light */
+export const AUTO_THEME = "auto";
+
+const LIGHT_QUERY = "(prefers-color-scheme: light)";
+/** How long a switch crossfades the palette; matches `--transition-theme` */
+const CROSSFADE_MS = 300;
+
+function findTheme(id: string) {
+  return THEMES.find((t) => t.id === id) ?? THEMES[0];
+}
+
+/** A theme id or `AUTO_THEME` */
+function isPreference(value: string | null): value is string {
+  return value === AUTO_THEME || THEMES.some((t) => t.id === value);
+}
+
+const storedPreference = (value: string | null) => (isPreference(value) ? value : AUTO_THEME);
+
+/**
+ * The deck's theme. The choice is stored in localStorage and followed
+ * by every open window (presenter and audience) through the `storage`
+ * event; `?theme=<id|auto>` pins one window, e.g. for a recording,
+ * without storing anything. Switches crossfade the palette.
+ */
 export function useTheme() {
-  const [theme, setTheme] = useState<Theme>(() => {
-    const stored = localStorage.getItem("engine-demo-theme");
-    return stored === "light" ? "light" : "dark";
+  const [stored, setStored] = useState(() => storedPreference(localStorage.getItem(STORAGE_KEY)));
+  const [pinned, setPinned] = useState(() => {
+    const param = new URLSearchParams(window.location.search).get("theme");
+    return isPreference(param) ? param : null;
   });
+  const [systemLight, setSystemLight] = useState(() => window.matchMedia(LIGHT_QUERY).matches);
 
   useEffect(() => {
-    document.documentElement.setAttribute("data-theme", theme);
-    localStorage.setItem("engine-demo-theme", theme);
+    const query = window.matchMedia(LIGHT_QUERY);
+    const handleChange = () => setSystemLight(query.matches);
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, []);
+
+  /* Fires only in the other windows of this origin */
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) setStored(storedPreference(e.newValue));
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const preference = pinned ?? stored;
+  const theme = findTheme(preference === AUTO_THEME ? (systemLight ? "light" : "dark") : preference);
+
+  const appliedRef = useRef<string | null>(null);
+  useEffect(() => {
+    const root = document.documentElement;
+    /* Only fade while switching, so slides' own fill tweens never lag */
+    const switching = appliedRef.current !== null && appliedRef.current !== theme.id;
+    appliedRef.current = theme.id;
+    root.toggleAttribute("data-theme-switching", switching);
+    root.setAttribute("data-theme", theme.id);
+    root.toggleAttribute("data-flow-shapes", theme.flowShapes === true);
+    if (!switching) return;
+
+    const timer = setTimeout(() => root.removeAttribute("data-theme-switching"), CROSSFADE_MS);
+    return () => {
+      clearTimeout(timer);
+      root.removeAttribute("data-theme-switching");
+    };
   }, [theme]);
 
-  const toggleTheme = useCallback(() => {
-    setTheme((prev) => (prev === "dark" ? "light" : "dark"));
+  const setTheme = useCallback((id: string) => {
+    if (!isPreference(id)) return;
+    localStorage.setItem(STORAGE_KEY, id);
+    setStored(id);
+    setPinned(null);
   }, []);
 
-  return { theme, toggleTheme };
+  return { theme, preference, themes: THEMES, setTheme };
 }
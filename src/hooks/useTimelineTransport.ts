@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { PLAYBACK_SPEEDS, createTimelineController } from "@/components/slides/shared/timeline-controller";
+
+/**
+ * Own the deck's timeline controller and its keyboard shortcuts:
+ * K plays/pauses, J and L step the speed down and up. The shortcuts
+ * are off while `keyboard` is false.
+ */
+export function useTimelineTransport({ keyboard = true }: { keyboard?: boolean } = {}) {
+  const controller = useMemo(() => createTimelineController(), []);
+  const state = useSyncExternalStore(controller.subscribe, controller.getSnapshot);
+
+  useEffect(() => {
+    if (!keyboard) return;
+    const stepSpeed = (by: number) => {
+      const { speed } = controller.getSnapshot();
+      const index = PLAYBACK_SPEEDS.indexOf(speed) + by;
+      if (index >= 0 && index < PLAYBACK_SPEEDS.length) controller.setSpeed(PLAYBACK_SPEEDS[index]);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      switch (e.key.toLowerCase()) {
+        case "k":
+          controller.toggle();
+          break;
+        case "j":
+          stepSpeed(-1);
+          break;
+        case "l":
+          stepSpeed(1);
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [keyboard, controller]);
+
+  return { controller, ...state };
+}
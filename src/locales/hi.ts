@@ -0,0 +1,584 @@
+import type { MessageCatalogue } from "@/components/slides/shared/i18n";
+
+/* ────────────────────────────────────────────────────────────
+ *  Hindi (hi-IN)
+ *
+ *  Product, broker and library names (Redis Streams, Kite, OMS,
+ *  SQLite, FastAPI) stay in Latin script, as Indian traders see
+ *  them on their terminals. Missing entries show in English.
+ * ──────────────────────────────────────────────────────────── */
+export const HI_MESSAGES: MessageCatalogue = {
+  /* ──── BrandMarks ──── */
+  "Prepared for {name}": "{name} के लिए तैयार",
+
+  /* ──── NodeDetailPanel ──── */
+  "Close (Esc)": "बंद करें (Esc)",
+
+  /* ──── SlideOutline ──── */
+  "Slide {number} of {total}: {title}": "स्लाइड {number} / {total}: {title}",
+  "Diagram outline": "डायग्राम की रूपरेखा",
+  "Components": "घटक",
+  "Flows": "प्रवाह",
+
+  /* ──── BacktestingFlowSlide ──── */
+  "Benchmark AI Before You Deploy": "डिप्लॉय से पहले AI को परखें",
+  "Test AI agents with production accuracy, then deploy with confidence": "AI एजेंट को प्रोडक्शन जैसी सटीकता से टेस्ट करें, फिर भरोसे के साथ डिप्लॉय करें",
+  "Historical Data": "ऐतिहासिक डेटा",
+  ".db.zst archives": ".db.zst आर्काइव",
+  "Backtesting": "बैकटेस्टिंग",
+  "Dispatcher": "डिस्पैचर",
+  "chronological replay": "क्रमवार रीप्ले",
+  "Time:": "समय:",
+  "Same strategy code": "वही स्ट्रैटेजी कोड",
+  "Replay OMS": "रीप्ले OMS",
+  "slippage simulation": "स्लिपेज सिमुलेशन",
+  "simulated fills": "सिम्युलेटेड फ़िल",
+  "AI Agent": "AI एजेंट",
+  "Same agent code": "वही एजेंट कोड",
+  "as live trading": "जैसा लाइव ट्रेडिंग में",
+  "AI Agent runs identically in backtest": "AI एजेंट बैकटेस्ट में बिल्कुल वैसे ही चलता है",
+  "Simulated time": "सिम्युलेटेड समय",
+  "Slippage injection": "स्लिपेज इंजेक्शन",
+  "Orders": "ऑर्डर",
+  "Simulated Fills": "सिम्युलेटेड फ़िल",
+  "▶▶ Fast replay": "▶▶ तेज़ रीप्ले",
+  "Why This Matters for AI": "AI के लिए यह क्यों ज़रूरी है",
+  "• AI agent runs identical code in backtest": "• AI एजेंट बैकटेस्ट में वही कोड चलाता है",
+  "• Benchmark performance before deployment": "• डिप्लॉय से पहले प्रदर्शन परखें",
+  "• Build confidence with production-accurate results": "• प्रोडक्शन जैसे सटीक नतीजों से भरोसा बनाएँ",
+  "Impossible with traditional setups — different code": "पारंपरिक सेटअप में असंभव — अलग कोड का",
+  "means you can't trust AI backtests": "मतलब AI बैकटेस्ट पर भरोसा नहीं किया जा सकता",
+  "S3 Historical Data": "S3 ऐतिहासिक डेटा",
+  "Recorded tick data for every trading day, archived per day as compressed SQLite databases.": "हर ट्रेडिंग दिन का रिकॉर्ड किया गया टिक डेटा, हर दिन के लिए कंप्रेस्ड SQLite डेटाबेस के रूप में संग्रहीत।",
+  "Format": "फ़ॉर्मेट",
+  ".db.zst per day": "हर दिन एक .db.zst",
+  "The requested date range is downloaded and decompressed locally, then read as a tick provider in place of the live feed.": "माँगी गई तारीख़ें डाउनलोड होकर लोकल रूप से डीकंप्रेस होती हैं, फिर लाइव फ़ीड की जगह टिक प्रोवाइडर के रूप में पढ़ी जाती हैं।",
+  "Source": "स्रोत",
+  "Decompressed .db.zst": "डीकंप्रेस्ड .db.zst",
+  "Backtesting Dispatcher": "बैकटेस्टिंग डिस्पैचर",
+  "Replaces the realtime dispatcher. It feeds ticks strictly in chronological order and advances simulated time with them, so a day replays in minutes.": "रियलटाइम डिस्पैचर की जगह लेता है। यह टिक सख़्ती से समय-क्रम में भेजता है और उनके साथ सिम्युलेटेड समय आगे बढ़ाता है, इसलिए पूरा दिन मिनटों में रीप्ले हो जाता है।",
+  "Ordering": "क्रम",
+  "Chronological": "समय-क्रम में",
+  "Clock": "घड़ी",
+  "Simulated, 09:15 → 15:30": "सिम्युलेटेड, 09:15 → 15:30",
+  "Realtime": "रियलटाइम",
+  "Same engine": "वही इंजन",
+  "Engine": "इंजन",
+  "The exact engine and strategy code that trades live. Only the dispatcher feeding it and the OMS behind it are swapped.": "वही इंजन और स्ट्रैटेजी कोड जो लाइव ट्रेड करता है। सिर्फ़ उसे डेटा देने वाला डिस्पैचर और उसके पीछे का OMS बदला जाता है।",
+  "Code": "कोड",
+  "Identical to live": "लाइव के समान",
+  "Stages": "चरण",
+  "Stands in for the broker. Orders fill against the replayed market with simulated slippage, and fills return to the engine as the same events a broker would send.": "ब्रोकर की जगह काम करता है। ऑर्डर रीप्ले किए गए बाज़ार पर सिम्युलेटेड स्लिपेज के साथ भरते हैं, और फ़िल इंजन को उन्हीं इवेंट के रूप में लौटते हैं जो ब्रोकर भेजता।",
+  "Fills": "फ़िल",
+  "Simulated, with slippage": "सिम्युलेटेड, स्लिपेज के साथ",
+  "Interface": "इंटरफ़ेस",
+  "Same OMS as live brokers": "लाइव ब्रोकर जैसा ही OMS",
+  "Runs the same code as in live trading, on simulated time, so its decisions can be benchmarked before deployment.": "सिम्युलेटेड समय पर लाइव ट्रेडिंग वाला ही कोड चलाता है, ताकि डिप्लॉय से पहले उसके फ़ैसले परखे जा सकें।",
+  "Called exactly as in live trading, through the same provider interface.": "लाइव ट्रेडिंग की तरह ही, उसी प्रोवाइडर इंटरफ़ेस से बुलाया जाता है।",
+  "Providers": "प्रोवाइडर",
+  "Same engine code": "वही इंजन कोड",
+
+  /* ──── BrokerAgnosticSlide ──── */
+  "Retail": "रिटेल",
+  "Institutional": "संस्थागत",
+  "Your Broker": "आपका ब्रोकर",
+  "Custom": "कस्टम",
+  "Your Strategy": "आपकी स्ट्रैटेजी",
+  "Same code for all brokers": "सभी ब्रोकर के लिए एक ही कोड",
+  "Anekant Engine": "अनेकांत इंजन",
+  "Unified interface, multiple implementations": "एक इंटरफ़ेस, कई इम्प्लीमेंटेशन",
+  "OMS Abstraction Layer": "OMS एब्स्ट्रैक्शन लेयर",
+  "Mix & Match": "मिलाएँ और चुनें",
+  "Data from Kite, Orders to XTS": "डेटा Kite से, ऑर्डर XTS को",
+  "Switch Brokers Without Touching Strategy Code": "स्ट्रैटेजी कोड छुए बिना ब्रोकर बदलें",
+  "Same interface • Different implementations • Zero rewrites": "एक इंटरफ़ेस • अलग इम्प्लीमेंटेशन • शून्य री-राइट",
+  "Strategies express order intent through the engine's OMS interface and never import a broker SDK, so the same file runs against any broker, or against the Replay OMS in a backtest.": "स्ट्रैटेजी अपने ऑर्डर इंजन के OMS इंटरफ़ेस से देती हैं और कभी ब्रोकर SDK इम्पोर्ट नहीं करतीं, इसलिए वही फ़ाइल किसी भी ब्रोकर पर, या बैकटेस्ट में रीप्ले OMS पर चलती है।",
+  "Calls": "कॉल",
+  "Hosts the strategy and owns its OMS. Which broker implementation the OMS gets is configuration, chosen when the engine starts.": "स्ट्रैटेजी को चलाता है और उसका OMS रखता है। OMS को कौन-सा ब्रोकर इम्प्लीमेंटेशन मिले, यह कॉन्फ़िगरेशन है, जो इंजन शुरू होते समय चुना जाता है।",
+  "Broker choice": "ब्रोकर का चुनाव",
+  "Per engine, at launch": "हर इंजन के लिए, शुरू होते समय",
+  "One order-management interface with an adapter per broker. Each adapter translates orders to its broker's API and normalises fills back into engine events.": "एक ऑर्डर-मैनेजमेंट इंटरफ़ेस, हर ब्रोकर के लिए एक एडैप्टर। हर एडैप्टर ऑर्डर को अपने ब्रोकर के API में बदलता है और फ़िल को वापस इंजन इवेंट में बदलता है।",
+  "Adapters": "एडैप्टर",
+  "Normalised engine events": "एक समान इंजन इवेंट",
+  "OMS interface": "OMS इंटरफ़ेस",
+  "Adapter": "एडैप्टर",
+  "Status": "स्थिति",
+  "One Strategy, Any Broker": "एक स्ट्रैटेजी, कोई भी ब्रोकर",
+  "Broker-agnostic architecture — switch without code changes": "ब्रोकर-स्वतंत्र आर्किटेक्चर — कोड बदले बिना स्विच करें",
+  "Order Intent": "ऑर्डर इंटेंट",
+  "Live": "लाइव",
+  "Plugin Ready": "प्लगइन तैयार",
+  "✓ No vendor lock-in": "✓ किसी वेंडर पर निर्भरता नहीं",
+  "✓ Add brokers via plugins": "✓ प्लगइन से ब्रोकर जोड़ें",
+  "✓ Mix data + execution": "✓ डेटा + एक्ज़ीक्यूशन मिलाएँ",
+  "Retail broker, reached through KiteAdapter. Switching a strategy to it changes engine configuration, not strategy code.": "रिटेल ब्रोकर, KiteAdapter के ज़रिए। किसी स्ट्रैटेजी को इस पर ले जाने से इंजन कॉन्फ़िगरेशन बदलता है, स्ट्रैटेजी कोड नहीं।",
+  "Institutional broker, reached through XTSAdapter. Switching a strategy to it changes engine configuration, not strategy code.": "संस्थागत ब्रोकर, XTSAdapter के ज़रिए। किसी स्ट्रैटेजी को इस पर ले जाने से इंजन कॉन्फ़िगरेशन बदलता है, स्ट्रैटेजी कोड नहीं।",
+  "Custom broker, reached through CustomAdapter. Switching a strategy to it changes engine configuration, not strategy code.": "कस्टम ब्रोकर, CustomAdapter के ज़रिए। किसी स्ट्रैटेजी को इस पर ले जाने से इंजन कॉन्फ़िगरेशन बदलता है, स्ट्रैटेजी कोड नहीं।",
+
+  /* ──── CodeReuseSlide ──── */
+  "One Engine, Live & Backtest": "एक इंजन, लाइव और बैकटेस्ट",
+  "Same engine, same strategy, same indicators": "वही इंजन, वही स्ट्रैटेजी, वही इंडिकेटर",
+  "Live Trading": "लाइव ट्रेडिंग",
+  "Same Engine Code": "वही इंजन कोड",
+  "Same Strategy Code": "वही स्ट्रैटेजी कोड",
+  "Exchange": "एक्सचेंज",
+  "live ticks": "लाइव टिक",
+  "Streams": "स्ट्रीम्स",
+  "real-time": "रियल-टाइम",
+  "Broker": "ब्रोकर",
+  "real orders": "असली ऑर्डर",
+  "fills": "फ़िल",
+  "historical data": "ऐतिहासिक डेटा",
+  "simulated time": "सिम्युलेटेड समय",
+  "Granularity Options": "ग्रैन्युलैरिटी विकल्प",
+  "• Fast: 1-min bars (~100x speed)": "• तेज़: 1-मिनट बार (~100x गति)",
+  "• Accurate: tick-by-tick replay": "• सटीक: टिक-दर-टिक रीप्ले",
+  "Backtest results = Production behavior": "बैकटेस्ट नतीजे = प्रोडक्शन व्यवहार",
+  "Same indicators • Same async I/O • No code divergence": "वही इंडिकेटर • वही async I/O • कोड में कोई अंतर नहीं",
+  "Live mode's data source: ticks arrive as they happen on the market.": "लाइव मोड का डेटा स्रोत: बाज़ार में जैसे-जैसे टिक बनते हैं, वैसे ही आते हैं।",
+  "Carries live ticks to the engine in real time.": "लाइव टिक रियल टाइम में इंजन तक पहुँचाता है।",
+  "The same engine and strategy code in both modes. Only what feeds it and what receives its orders changes.": "दोनों मोड में वही इंजन और स्ट्रैटेजी कोड। सिर्फ़ डेटा देने वाला और ऑर्डर लेने वाला बदलता है।",
+  "Shared": "साझा",
+  "Indicators, async I/O, strategy code": "इंडिकेटर, async I/O, स्ट्रैटेजी कोड",
+  "Live mode's order sink: real orders go out and real fills come back.": "लाइव मोड का ऑर्डर गंतव्य: असली ऑर्डर जाते हैं और असली फ़िल लौटते हैं।",
+  "Backtest mode's data source: recorded historical market data.": "बैकटेस्ट मोड का डेटा स्रोत: रिकॉर्ड किया गया ऐतिहासिक बाज़ार डेटा।",
+  "Replays historical data into the engine on a simulated clock, in place of Redis Streams.": "Redis Streams की जगह, सिम्युलेटेड घड़ी पर ऐतिहासिक डेटा इंजन में रीप्ले करता है।",
+  "Backtest mode's order sink: fills orders against the recorded market and returns simulated fills.": "बैकटेस्ट मोड का ऑर्डर गंतव्य: रिकॉर्ड किए गए बाज़ार पर ऑर्डर भरता है और सिम्युलेटेड फ़िल लौटाता है।",
+  "Replay 1-minute bars for speed or every tick for accuracy.": "गति के लिए 1-मिनट बार या सटीकता के लिए हर टिक रीप्ले करें।",
+  "Fast": "तेज़",
+  "1-min bars, ~100x speed": "1-मिनट बार, ~100x गति",
+  "Accurate": "सटीक",
+  "Tick-by-tick replay": "टिक-दर-टिक रीप्ले",
+
+  /* ──── EngineFlowSlide ──── */
+  "Speed Matters: Async vs Blocking": "गति मायने रखती है: Async बनाम Blocking",
+  "3-5 seconds vs sub-millisecond tick processing": "3-5 सेकंड बनाम सब-मिलीसेकंड टिक प्रोसेसिंग",
+  "Traditional (Blocking I/O)": "पारंपरिक (Blocking I/O)",
+  "Anekant (Async Event-Driven)": "अनेकांत (Async इवेंट-ड्रिवन)",
+  "Poll API": "पोल API",
+  "Candles": "कैंडल",
+  "blocking": "ब्लॉकिंग",
+  "Indicators": "इंडिकेटर",
+  "Strategy": "स्ट्रैटेजी",
+  "evaluate": "मूल्यांकन",
+  "Place Order": "ऑर्डर दें",
+  "wait...": "रुकें...",
+  "3-5 sec": "3-5 सेकंड",
+  "per tick cycle": "प्रति टिक चक्र",
+  "Synchronous": "सिंक्रोनस",
+  "real-time bus": "रियल-टाइम बस",
+  "1-2 ms": "1-2 मि.से.",
+  "per tick": "प्रति टिक",
+  "Event-driven": "इवेंट-ड्रिवन",
+  "Non-blocking": "नॉन-ब्लॉकिंग",
+  "Engine 1": "इंजन 1",
+  "Engine 2": "इंजन 2",
+  "Engine 3": "इंजन 3",
+  "Traditional row": "पारंपरिक पंक्ति",
+  "Async row": "Async पंक्ति",
+  "Publishes ticks continuously, whether or not the pipeline is ready to read them.": "टिक लगातार प्रकाशित करता है, चाहे पाइपलाइन उन्हें पढ़ने को तैयार हो या नहीं।",
+  "Transport": "ट्रांसपोर्ट",
+  "HTTP request / response": "HTTP रिक्वेस्ट / रिस्पॉन्स",
+  "Receives orders one cycle at a time; fills are discovered on the next poll.": "हर चक्र में एक बार ऑर्डर लेता है; फ़िल का पता अगले पोल पर चलता है।",
+  "Cycle": "चक्र",
+  "3-5 s per tick": "प्रति टिक 3-5 सेकंड",
+  "Market data arrives as a push feed. Every tick is published to Redis Streams the moment it lands, without waiting on any consumer.": "बाज़ार डेटा पुश फ़ीड के रूप में आता है। हर टिक आते ही Redis Streams पर प्रकाशित होता है, किसी उपभोक्ता का इंतज़ार किए बिना।",
+  "Delivery": "डिलीवरी",
+  "Push, per tick": "पुश, प्रति टिक",
+  "The real-time bus between market data and engines. Each engine reads the stream independently, so a slow engine never holds up the others, and commands from the AI agent travel on the same bus.": "बाज़ार डेटा और इंजनों के बीच रियल-टाइम बस। हर इंजन स्ट्रीम को अलग से पढ़ता है, इसलिए धीमा इंजन दूसरों को नहीं रोकता, और AI एजेंट के कमांड भी इसी बस पर चलते हैं।",
+  "Role": "भूमिका",
+  "Tick and command bus": "टिक और कमांड बस",
+  "Consumers": "उपभोक्ता",
+  "Every running engine": "हर चालू इंजन",
+  "Per stream, append-only": "प्रति स्ट्रीम, केवल जोड़ना",
+  "Tick feed": "टिक फ़ीड",
+  "Stream": "स्ट्रीम",
+  "An async event loop dispatches each tick to candles, indicators, metrics and strategy concurrently. Orders go out as soon as the strategy decides; fills come back as events.": "एक async इवेंट लूप हर टिक को कैंडल, इंडिकेटर, मेट्रिक्स और स्ट्रैटेजी को एक साथ भेजता है। स्ट्रैटेजी के फ़ैसला करते ही ऑर्डर जाते हैं; फ़िल इवेंट के रूप में लौटते हैं।",
+  "Dispatch": "डिस्पैच",
+  "Async, event-driven": "Async, इवेंट-ड्रिवन",
+  "Per tick": "प्रति टिक",
+  "Receives orders from every engine in parallel through the OMS abstraction and streams fills straight back to the engine that placed them.": "OMS एब्स्ट्रैक्शन के ज़रिए हर इंजन से समानांतर ऑर्डर लेता है और फ़िल सीधे उसी इंजन को लौटाता है जिसने ऑर्डर दिया।",
+  "Engine → Broker": "इंजन → ब्रोकर",
+  "Broker → Engine, as events": "ब्रोकर → इंजन, इवेंट के रूप में",
+  "Async Dispatcher": "Async डिस्पैचर",
+  "Fetches the latest quote over HTTP on a timer. Runs only after the previous step returns, so one slow call stalls every tick queued behind it.": "टाइमर पर HTTP से ताज़ा भाव लाता है। पिछला चरण पूरा होने के बाद ही चलता है, इसलिए एक धीमी कॉल पीछे कतार में लगे हर टिक को रोक देती है।",
+  "Rebuilds candles from the polled snapshot. Runs only after the previous step returns, so one slow call stalls every tick queued behind it.": "पोल किए गए स्नैपशॉट से कैंडल दोबारा बनाता है। पिछला चरण पूरा होने के बाद ही चलता है, इसलिए एक धीमी कॉल पीछे कतार में लगे हर टिक को रोक देती है।",
+  "Recomputes every indicator from scratch. Runs only after the previous step returns, so one slow call stalls every tick queued behind it.": "हर इंडिकेटर शुरू से दोबारा गिनता है। पिछला चरण पूरा होने के बाद ही चलता है, इसलिए एक धीमी कॉल पीछे कतार में लगे हर टिक को रोक देती है।",
+  "Evaluates the strategy on data that is already seconds old. Runs only after the previous step returns, so one slow call stalls every tick queued behind it.": "कुछ सेकंड पुराने डेटा पर स्ट्रैटेजी का मूल्यांकन करता है। पिछला चरण पूरा होने के बाद ही चलता है, इसलिए एक धीमी कॉल पीछे कतार में लगे हर टिक को रोक देती है।",
+  "Sends the order over HTTP and waits for the acknowledgement. Runs only after the previous step returns, so one slow call stalls every tick queued behind it.": "HTTP से ऑर्डर भेजता है और पुष्टि का इंतज़ार करता है। पिछला चरण पूरा होने के बाद ही चलता है, इसलिए एक धीमी कॉल पीछे कतार में लगे हर टिक को रोक देती है।",
+
+  /* ──── HorizontalScalingSlide ──── */
+  "Scale Without Rewrites": "बिना री-राइट के स्केल करें",
+  "Add engines, not code changes — linear throughput scaling": "कोड नहीं, इंजन जोड़ें — रैखिक थ्रूपुट स्केलिंग",
+  "Single Engine": "एक इंजन",
+  "3 Engines": "3 इंजन",
+  "N Engines": "N इंजन",
+  "Saturated": "पूरी क्षमता पर",
+  "⚠ Bottleneck": "⚠ अड़चन",
+  "~33% load": "~33% लोड",
+  "+ more...": "+ और...",
+  "ticks/sec": "टिक/सेकंड",
+  "Same Code • Same Redis • Linear Scaling": "वही कोड • वही Redis • रैखिक स्केलिंग",
+  "No architectural changes required": "आर्किटेक्चर में कोई बदलाव ज़रूरी नहीं",
+  "Runs every strategy alone. At about 1,000 ticks/sec it is saturated and becomes the bottleneck.": "सारी स्ट्रैटेजी अकेले चलाता है। लगभग 1,000 टिक/सेकंड पर यह पूरी क्षमता पर पहुँचकर अड़चन बन जाता है।",
+  "Load": "लोड",
+  "Single-engine throughput": "एक इंजन का थ्रूपुट",
+  "Ticks per second one engine sustains.": "एक इंजन प्रति सेकंड कितने टिक सँभालता है।",
+  "One of three engines reading the same streams, each running a share of the strategies.": "एक ही स्ट्रीम पढ़ने वाले तीन इंजनों में से एक, हर इंजन स्ट्रैटेजी का एक हिस्सा चलाता है।",
+  "Three-engine throughput": "तीन इंजनों का थ्रूपुट",
+  "Ticks per second across three engines: about three times one engine.": "तीन इंजनों का प्रति सेकंड टिक: एक इंजन का लगभग तीन गुना।",
+  "Engines keep being added with the same code and the same Redis; load per engine keeps falling.": "वही कोड और वही Redis के साथ इंजन जुड़ते जाते हैं; हर इंजन पर लोड घटता जाता है।",
+  "N-engine throughput": "N इंजनों का थ्रूपुट",
+  "Ticks per second with N engines: 10,000 and beyond, with no architectural changes.": "N इंजनों के साथ प्रति सेकंड टिक: 10,000 और उससे आगे, आर्किटेक्चर बदले बिना।",
+  "The same streams in every column; here they fan ticks out to a single engine.": "हर कॉलम में वही स्ट्रीम; यहाँ वे टिक एक इंजन तक पहुँचाती हैं।",
+  "The same streams in every column; here they fan ticks out to three engines.": "हर कॉलम में वही स्ट्रीम; यहाँ वे टिक तीन इंजनों में बाँटती हैं।",
+  "The same streams in every column; here they fan ticks out to as many engines as needed.": "हर कॉलम में वही स्ट्रीम; यहाँ वे टिक ज़रूरत भर के इंजनों में बाँटती हैं।",
+  "Engine E1": "इंजन E1",
+  "Engine E2": "इंजन E2",
+  "Engine E3": "इंजन E3",
+  "Engine E4": "इंजन E4",
+  "Engine E5": "इंजन E5",
+  "~33%": "~33%",
+
+  /* ──── LLMFlowSlide ──── */
+  "AI Agent Integration": "AI एजेंट इंटीग्रेशन",
+  "LLM-powered decision making in real-time": "रियल-टाइम में LLM आधारित निर्णय",
+  "Fast Loop (ticks)": "तेज़ लूप (टिक)",
+  "Slow Loop (~30-60s)": "धीमा लूप (~30-60 सेकंड)",
+  "ticks + commands": "टिक + कमांड",
+  "Metrics DB": "मेट्रिक्स DB",
+  "Metrics API": "मेट्रिक्स API",
+  "FastAPI sidecar": "FastAPI साइडकार",
+  "structured response": "संरचित जवाब",
+  "commands": "कमांड",
+  "Pushes ticks onto Redis Streams as they happen; the fast loop runs on every one.": "टिक जैसे ही बनते हैं Redis Streams पर भेजता है; तेज़ लूप हर टिक पर चलता है।",
+  "Carries both directions: ticks into the engine and the agent's commands back to it. The engine consumes commands between ticks, so the fast loop never waits on the agent.": "दोनों दिशाओं में काम करता है: इंजन तक टिक और एजेंट के कमांड वापस इंजन तक। इंजन टिकों के बीच कमांड लेता है, इसलिए तेज़ लूप कभी एजेंट का इंतज़ार नहीं करता।",
+  "Ticks, commands, responses": "टिक, कमांड, जवाब",
+  "Runs the strategy on every tick and records metrics as it goes. Agent commands arrive as parameter changes and target positions, which the engine converges to on its next ticks.": "हर टिक पर स्ट्रैटेजी चलाता है और साथ-साथ मेट्रिक्स दर्ज करता है। एजेंट के कमांड पैरामीटर बदलाव और लक्ष्य पोज़िशन के रूप में आते हैं, जिन तक इंजन अगले टिकों में पहुँचता है।",
+  "Loop": "लूप",
+  "Every tick": "हर टिक",
+  "Accepts": "स्वीकार करता है",
+  "Parameter changes, target positions": "पैरामीटर बदलाव, लक्ष्य पोज़िशन",
+  "Receives orders from the engine and sends fills straight back; the agent is never in this path.": "इंजन से ऑर्डर लेता है और फ़िल सीधे लौटाता है; एजेंट इस रास्ते में कभी नहीं होता।",
+  "SQLite store the engine writes candles, indicators, positions and P&L into. It is the agent's only view of the engine.": "SQLite स्टोर जिसमें इंजन कैंडल, इंडिकेटर, पोज़िशन और P&L लिखता है। एजेंट इंजन को सिर्फ़ इसी से देखता है।",
+  "Storage": "स्टोरेज",
+  "FastAPI sidecar that serves the agent aggregated metrics and rendered charts from the Metrics DB, read-only.": "FastAPI साइडकार जो मेट्रिक्स DB से एजेंट को समेकित मेट्रिक्स और चार्ट देता है, केवल पढ़ने के लिए।",
+  "Runs as": "किस रूप में चलता है",
+  "Sidecar container": "साइडकार कंटेनर",
+  "Wakes on a slow cycle, gathers metrics and charts, builds a prompt, and turns the LLM's structured answer into engine commands.": "धीमे चक्र पर जागता है, मेट्रिक्स और चार्ट इकट्ठा करता है, प्रॉम्प्ट बनाता है, और LLM के संरचित जवाब को इंजन कमांड में बदलता है।",
+  "~30-60 s": "~30-60 सेकंड",
+  "Steps": "चरण",
+  "Output": "आउटपुट",
+  "Commands via Redis": "Redis के ज़रिए कमांड",
+  "Commands": "कमांड",
+  "Gemini or Claude behind one provider interface. Responses are parsed into structured models, such as a target position and market direction, rather than free text.": "एक प्रोवाइडर इंटरफ़ेस के पीछे Gemini या Claude। जवाब खुले टेक्स्ट के बजाय संरचित मॉडल में पार्स होते हैं, जैसे लक्ष्य पोज़िशन और बाज़ार की दिशा।",
+  "Response": "जवाब",
+  "Structured output": "संरचित आउटपुट",
+  "Fetch Metrics": "मेट्रिक्स लाएँ",
+  "Generate Charts": "चार्ट बनाएँ",
+  "Build Prompt": "प्रॉम्प्ट बनाएँ",
+
+  /* ──── ObservabilitySlide ──── */
+  "Command Center": "कमांड सेंटर",
+  "Live Dashboard": "लाइव डैशबोर्ड",
+  "Decision Making": "निर्णय",
+  "Alerting": "अलर्ट",
+  "Threshold Monitoring": "सीमा निगरानी",
+  "Analytics": "एनालिटिक्स",
+  "Post-Session Reports": "सत्र के बाद की रिपोर्ट",
+  "Candles, Indicators": "कैंडल, इंडिकेटर",
+  "Positions, P&L": "पोज़िशन, P&L",
+  "Strategy State": "स्ट्रैटेजी स्थिति",
+  "Persistent Storage": "स्थायी स्टोरेज",
+  "WAL Mode": "WAL मोड",
+  "FastAPI Sidecar": "FastAPI साइडकार",
+  "REST + Charts": "REST + चार्ट",
+  "Real-time": "रियल-टाइम",
+  "metrics/second": "मेट्रिक्स/सेकंड",
+  "Storage Modes": "स्टोरेज मोड",
+  "• MEMORY (fast)": "• MEMORY (तेज़)",
+  "• DATABASE (persist)": "• DATABASE (स्थायी)",
+  "• DUAL (both)": "• DUAL (दोनों)",
+  "Zero Performance Impact on Trading": "ट्रेडिंग प्रदर्शन पर शून्य असर",
+  "Async writes • Concurrent reads • Full session replay": "Async राइट • समानांतर रीड • पूरे सत्र का रीप्ले",
+  "Emits metrics as a side effect of processing ticks. Writes are async and batched, so observability never sits on the trading path.": "टिक प्रोसेस करते हुए साथ में मेट्रिक्स देता है। राइट async और बैच में होते हैं, इसलिए निगरानी कभी ट्रेडिंग के रास्ते में नहीं आती।",
+  "Emits": "देता है",
+  "Rate": "दर",
+  "~15,000 metrics/s": "~15,000 मेट्रिक्स/सेकंड",
+  "Per-engine metrics store. WAL mode lets the engine keep writing while the Metrics API reads concurrently.": "हर इंजन का मेट्रिक्स स्टोर। WAL मोड में इंजन लिखता रहता है जबकि मेट्रिक्स API साथ-साथ पढ़ता है।",
+  "Journal": "जर्नल",
+  "Access": "एक्सेस",
+  "Engine writes, API reads only": "इंजन लिखता है, API केवल पढ़ता है",
+  "SQLite write-ahead logging": "SQLite राइट-अहेड लॉगिंग",
+  "A FastAPI sidecar next to each engine. It serves aggregated metrics and rendered charts over REST through read-only, parameterised queries.": "हर इंजन के साथ एक FastAPI साइडकार। यह केवल-पढ़ने वाली पैरामीटराइज़्ड क्वेरी से REST पर समेकित मेट्रिक्स और चार्ट देता है।",
+  "Serves": "देता है",
+  "REST + charts": "REST + चार्ट",
+  "SQLite (read-only)": "SQLite (केवल पढ़ने के लिए)",
+  "Charts": "चार्ट",
+  "MEMORY keeps metrics in-process for the fastest runs, DATABASE persists them, and DUAL does both for production sessions that also need live reads.": "MEMORY सबसे तेज़ रन के लिए मेट्रिक्स प्रोसेस में रखता है, DATABASE उन्हें सहेजता है, और DUAL उन प्रोडक्शन सत्रों के लिए दोनों करता है जिन्हें लाइव रीड भी चाहिए।",
+  "Reads via": "किससे पढ़ता है",
+  "See Everything, In Real-Time": "सब कुछ देखें, रियल-टाइम में",
+  "Production visibility without performance impact": "प्रदर्शन पर असर के बिना प्रोडक्शन की पूरी जानकारी",
+  "Persist": "सहेजें",
+  "Serve": "परोसें",
+  "Operators watch positions, P&L and engine health for every running engine from one dashboard.": "ऑपरेटर एक ही डैशबोर्ड से हर चालू इंजन की पोज़िशन, P&L और सेहत देखते हैं।",
+  "Each decision cycle the agent pulls aggregated metrics and charts, then asks the LLM what to change.": "हर निर्णय चक्र में एजेंट समेकित मेट्रिक्स और चार्ट लेता है, फिर LLM से पूछता है कि क्या बदलना है।",
+  "Thresholds on P&L, exposure and engine health raise alerts without polling the engine itself.": "P&L, एक्सपोज़र और इंजन की सेहत पर तय सीमाएँ इंजन को पोल किए बिना अलर्ट देती हैं।",
+  "After the session, the persisted metrics replay the full day for reports and strategy reviews.": "सत्र के बाद, सहेजे गए मेट्रिक्स रिपोर्ट और स्ट्रैटेजी समीक्षा के लिए पूरा दिन दोबारा दिखाते हैं।",
+
+  /* ──── OrderReplicationSlide ──── */
+  "One Trade, Many Accounts": "एक ट्रेड, कई खाते",
+  "Master-follower replication with per-account scaling and risk controls": "हर खाते की स्केलिंग और रिस्क कंट्रोल के साथ मास्टर-फ़ॉलोअर रेप्लिकेशन",
+  "Master Account": "मास्टर खाता",
+  "Strategy runs here": "स्ट्रैटेजी यहाँ चलती है",
+  "BUY 10 lots": "10 लॉट खरीदें",
+  "Replication Manager": "रेप्लिकेशन मैनेजर",
+  "Scale • Route • Monitor": "स्केल • रूट • निगरानी",
+  "Per-account risk controls": "हर खाते के रिस्क कंट्रोल",
+  "Atomic replication": "एटॉमिक रेप्लिकेशन",
+  "Risk Checks": "रिस्क जाँच",
+  "One order per account": "हर खाते का अलग ऑर्डर",
+  "{lots} lots": "{lots} लॉट",
+  "37 total lots": "कुल 37 लॉट",
+  "Original Order": "मूल ऑर्डर",
+  "Scaled Orders": "स्केल किए गए ऑर्डर",
+  "Manage 100+ Accounts with One Strategy": "एक स्ट्रैटेजी से 100+ खाते सँभालें",
+  "Per-account scaling • Independent risk controls • Real-time monitoring": "हर खाते की स्केलिंग • स्वतंत्र रिस्क कंट्रोल • रियल-टाइम निगरानी",
+  "Client A": "क्लाइंट A",
+  "High Risk": "उच्च जोखिम",
+  "Client B": "क्लाइंट B",
+  "Matched": "बराबर",
+  "Client C": "क्लाइंट C",
+  "Conservative": "सतर्क",
+  "Client D": "क्लाइंट D",
+  "Minimal": "न्यूनतम",
+  "The only account the strategy runs against. Each order it places is the template the Replication Manager scales for every follower.": "एकमात्र खाता जिस पर स्ट्रैटेजी चलती है। इसका हर ऑर्डर वह साँचा है जिसे रेप्लिकेशन मैनेजर हर फ़ॉलोअर के लिए स्केल करता है।",
+  "Example": "उदाहरण",
+  "BUY 10 lots NIFTY 22000 CE": "NIFTY 22000 CE के 10 लॉट खरीदें",
+  "Scales each master order by the follower's multiplier, applies that account's risk limits, and routes every child order in one atomic step so followers never drift apart.": "हर मास्टर ऑर्डर को फ़ॉलोअर के गुणक से स्केल करता है, उस खाते की रिस्क सीमाएँ लागू करता है, और हर चाइल्ड ऑर्डर एक ही एटॉमिक चरण में भेजता है ताकि फ़ॉलोअर कभी अलग न पड़ें।",
+  "Per follower": "हर फ़ॉलोअर के लिए",
+  "Scale, route, monitor": "स्केल, रूट, निगरानी",
+  "Risk": "जोखिम",
+  "Per-account limits": "हर खाते की सीमाएँ",
+  "Guarantee": "गारंटी",
+  "10 lots": "10 लॉट",
+  "Multiplier": "गुणक",
+  "Risk profile": "जोखिम प्रोफ़ाइल",
+  "Receives each follower's order separately under its own account, and returns fills per account.": "हर फ़ॉलोअर का ऑर्डर उसके अपने खाते में अलग से लेता है, और हर खाते के फ़िल लौटाता है।",
+  "Example total": "उदाहरण में कुल",
+  "37 lots": "37 लॉट",
+  "High Risk profile. Receives every master order scaled by 2x, with fills reported back to this account only.": "उच्च जोखिम प्रोफ़ाइल। हर मास्टर ऑर्डर 2x स्केल होकर मिलता है, और फ़िल सिर्फ़ इसी खाते को लौटते हैं।",
+  "Matched profile. Receives every master order scaled by 1x, with fills reported back to this account only.": "बराबर प्रोफ़ाइल। हर मास्टर ऑर्डर 1x स्केल होकर मिलता है, और फ़िल सिर्फ़ इसी खाते को लौटते हैं।",
+  "Conservative profile. Receives every master order scaled by 0.5x, with fills reported back to this account only.": "सतर्क प्रोफ़ाइल। हर मास्टर ऑर्डर 0.5x स्केल होकर मिलता है, और फ़िल सिर्फ़ इसी खाते को लौटते हैं।",
+  "Minimal profile. Receives every master order scaled by 0.25x, with fills reported back to this account only.": "न्यूनतम प्रोफ़ाइल। हर मास्टर ऑर्डर 0.25x स्केल होकर मिलता है, और फ़िल सिर्फ़ इसी खाते को लौटते हैं।",
+
+  /* ──── RiskManagementSlide ──── */
+  "Institutional-Grade Risk Controls": "संस्थागत स्तर के रिस्क कंट्रोल",
+  "Portfolio-level Greeks, real-time P&L, and automated risk limits": "पोर्टफ़ोलियो स्तर के Greeks, रियल-टाइम P&L और स्वचालित रिस्क सीमाएँ",
+  "Generating orders": "ऑर्डर बना रही है",
+  "Active": "सक्रिय",
+  "Orders Flow Down": "ऑर्डर नीचे जाते हैं",
+  "Position Manager": "पोज़िशन मैनेजर",
+  "Aggregated Portfolio View": "समेकित पोर्टफ़ोलियो दृश्य",
+  "Greeks & P&L": "Greeks और P&L",
+  "Pre-trade limits": "प्री-ट्रेड सीमाएँ",
+  "Routes to broker": "ब्रोकर तक भेजता है",
+  "Auto-enforced": "स्वतः लागू",
+  "Every Order Validated Against Risk Limits": "हर ऑर्डर रिस्क सीमाओं पर जाँचा जाता है",
+  "Automatic stop loss • Margin monitoring • Position caps": "स्वचालित स्टॉप लॉस • मार्जिन निगरानी • पोज़िशन सीमा",
+  "Strangle Strategy": "स्ट्रैंगल स्ट्रैटेजी",
+  "Momentum Strategy": "मोमेंटम स्ट्रैटेजी",
+  "AI Strategy": "AI स्ट्रैटेजी",
+  "Stop Loss": "स्टॉप लॉस",
+  "Margin Limits": "मार्जिन सीमा",
+  "80% max": "अधिकतम 80%",
+  "Position Limits": "पोज़िशन सीमा",
+  "500 lots": "500 लॉट",
+  "Delta": "डेल्टा",
+  "Theta": "थीटा",
+  "Vega": "वेगा",
+  "Places orders through the Position Manager like every other strategy; it never talks to the broker directly, so its orders are always risk-checked.": "बाक़ी सभी स्ट्रैटेजी की तरह पोज़िशन मैनेजर के ज़रिए ऑर्डर देती है; यह कभी सीधे ब्रोकर से बात नहीं करती, इसलिए इसके ऑर्डर हमेशा जोखिम-जाँच से गुज़रते हैं।",
+  "Orders via": "ऑर्डर किसके ज़रिए",
+  "Aggregates positions from every strategy into one portfolio view, keeps Greeks and P&L current on each tick, and validates every order against the risk limits before it leaves the engine.": "हर स्ट्रैटेजी की पोज़िशन को एक पोर्टफ़ोलियो दृश्य में जोड़ता है, हर टिक पर Greeks और P&L ताज़ा रखता है, और हर ऑर्डर को इंजन से निकलने से पहले रिस्क सीमाओं पर जाँचता है।",
+  "Updates": "अपडेट",
+  "Checks": "जाँच",
+  "Order": "ऑर्डर",
+  "Risk check": "जोखिम जाँच",
+  "Rejected": "अस्वीकृत",
+  "Limit": "सीमा",
+  "Enforced": "लागू",
+  "Automatically, pre-trade": "स्वचालित, ट्रेड से पहले",
+  "Closes positions when mark-to-market loss crosses the limit, for a single strategy or the whole portfolio.": "मार्क-टू-मार्केट घाटा सीमा पार करते ही पोज़िशन बंद करता है, एक स्ट्रैटेजी के लिए या पूरे पोर्टफ़ोलियो के लिए।",
+  "Rejects new orders that would push margin utilisation past the cap.": "ऐसे नए ऑर्डर अस्वीकार करता है जो मार्जिन उपयोग को सीमा से ऊपर ले जाएँ।",
+  "Caps open lots per instrument and across strategies, so no single strategy can over-concentrate the book.": "हर इंस्ट्रूमेंट और सभी स्ट्रैटेजी में खुले लॉट की सीमा तय करता है, ताकि कोई एक स्ट्रैटेजी बुक को ज़रूरत से ज़्यादा केंद्रित न कर सके।",
+
+  /* ──── StrategyLifecycleSlide ──── */
+  "Predictable Strategy Behavior": "अनुमानित स्ट्रैटेजी व्यवहार",
+  "Every state transition is validated and auditable": "हर स्थिति परिवर्तन जाँचा और ऑडिट किया जा सकता है",
+  "FAILED": "विफल",
+  "Terminal state": "अंतिम स्थिति",
+  "Recovery available": "रिकवरी उपलब्ध",
+  "Restart Strategy": "स्ट्रैटेजी फिर शुरू करें",
+  "Add Position": "पोज़िशन जोड़ें",
+  "Recover": "रिकवर करें",
+  "Any state can fail": "कोई भी स्थिति विफल हो सकती है",
+  "Benefits": "फ़ायदे",
+  "• Validated transitions": "• जाँचे गए परिवर्तन",
+  "• Full audit trail": "• पूरा ऑडिट ट्रेल",
+  "• Graceful recovery": "• सहज रिकवरी",
+  "• Testable states": "• टेस्ट करने योग्य स्थितियाँ",
+  "State Machine Enforces Valid Transitions Only": "स्टेट मशीन केवल मान्य परिवर्तन होने देती है",
+  "No undefined behavior • Every transition logged • Recovery paths defined": "कोई अपरिभाषित व्यवहार नहीं • हर परिवर्तन लॉग • रिकवरी के रास्ते तय",
+  "INITIALIZE": "आरंभ",
+  "Load config": "कॉन्फ़िग लोड करें",
+  "START": "शुरू",
+  "Connect broker": "ब्रोकर से जुड़ें",
+  "CREATE": "बनाएँ",
+  "Open positions": "पोज़िशन खोलें",
+  "MANAGE": "प्रबंधन",
+  "Monitor & adjust": "निगरानी और समायोजन",
+  "END": "समाप्त",
+  "Close & report": "बंद करें और रिपोर्ट दें",
+  "Initialize": "आरंभ",
+  "Loads and validates the strategy's configuration before anything touches the market.": "बाज़ार को छूने से पहले स्ट्रैटेजी का कॉन्फ़िगरेशन लोड और जाँचता है।",
+  "Start": "शुरू",
+  "Connects to the broker. Recovery from FAILED and restarts after END both re-enter here.": "ब्रोकर से जुड़ता है। विफल से रिकवरी और समाप्ति के बाद फिर शुरुआत, दोनों यहीं से होते हैं।",
+  "Create": "बनाएँ",
+  "Opens the strategy's positions.": "स्ट्रैटेजी की पोज़िशन खोलता है।",
+  "Manage": "प्रबंधन",
+  "Monitors and adjusts open positions, and can loop back to Create to add a position.": "खुली पोज़िशन की निगरानी और समायोजन करता है, और पोज़िशन जोड़ने के लिए वापस 'बनाएँ' पर जा सकता है।",
+  "End": "समाप्त",
+  "Closes positions and reports; the strategy can be restarted from here.": "पोज़िशन बंद करके रिपोर्ट देता है; स्ट्रैटेजी यहाँ से फिर शुरू की जा सकती है।",
+  "Failed": "विफल",
+  "Terminal state any step can fall into. Recovery re-enters at Start, so every path is defined and logged.": "अंतिम स्थिति जिसमें कोई भी चरण जा सकता है। रिकवरी 'शुरू' से होती है, इसलिए हर रास्ता तय और लॉग होता है।",
+
+  /* ──── TradingTerminalSlide ──── */
+  "The AI-Ready Execution Harness": "AI-तैयार एक्ज़ीक्यूशन हार्नेस",
+  "Agents delegate execution to the engine, focusing purely on decision-making": "एजेंट एक्ज़ीक्यूशन इंजन को सौंपते हैं और सिर्फ़ निर्णय पर ध्यान देते हैं",
+  "Event-Driven Core": "इवेंट-ड्रिवन कोर",
+  "Sub-millisecond processing": "सब-मिलीसेकंड प्रोसेसिंग",
+  "real-time event bus": "रियल-टाइम इवेंट बस",
+  "orders & fills": "ऑर्डर और फ़िल",
+  "Strategy Dashboard": "स्ट्रैटेजी डैशबोर्ड",
+  "Real-time Controls": "रियल-टाइम कंट्रोल",
+  "Live Now": "अभी लाइव",
+  "AI Trading Harness": "AI ट्रेडिंग हार्नेस",
+  "Agent Delegates Execution": "एजेंट एक्ज़ीक्यूशन सौंपता है",
+  "Unified Context via API": "API से एकीकृत संदर्भ",
+  "AI-Ready Interface": "AI-तैयार इंटरफ़ेस",
+  "Mobile App": "मोबाइल ऐप",
+  "iOS & Android": "iOS और Android",
+  "Coming Soon": "जल्द आ रहा है",
+  "Custom Terminal": "कस्टम टर्मिनल",
+  "Your Trading Desk": "आपका ट्रेडिंग डेस्क",
+  "API Ready": "API तैयार",
+  "Trade Decisions": "ट्रेड निर्णय",
+  "Managed Context": "प्रबंधित संदर्भ",
+  "Engine Handles Execution · Agent Focuses on Strategy": "इंजन एक्ज़ीक्यूशन सँभालता है · एजेंट स्ट्रैटेजी पर ध्यान देता है",
+  "The real-time event bus feeding market data into the engine.": "इंजन तक बाज़ार डेटा पहुँचाने वाली रियल-टाइम इवेंट बस।",
+  "The event-driven core every interface talks to. It handles execution, so interfaces and agents only express intent.": "इवेंट-ड्रिवन कोर जिससे हर इंटरफ़ेस बात करता है। एक्ज़ीक्यूशन यही सँभालता है, इसलिए इंटरफ़ेस और एजेंट सिर्फ़ इरादा बताते हैं।",
+  "Processing": "प्रोसेसिंग",
+  "Sub-millisecond": "सब-मिलीसेकंड",
+  "Receives the engine's orders and returns fills.": "इंजन के ऑर्डर लेता है और फ़िल लौटाता है।",
+  "The strategy dashboard: sends commands to the engine and shows its updates with real-time controls.": "स्ट्रैटेजी डैशबोर्ड: इंजन को कमांड भेजता है और रियल-टाइम कंट्रोल के साथ उसके अपडेट दिखाता है।",
+  "Live now": "अभी लाइव",
+  "An AI agent delegates execution to the engine and works from a unified, managed context served over the API.": "AI एजेंट एक्ज़ीक्यूशन इंजन को सौंपता है और API से मिलने वाले एकीकृत, प्रबंधित संदर्भ पर काम करता है।",
+  "AI-ready interface": "AI-तैयार इंटरफ़ेस",
+  "iOS and Android clients on the same API.": "उसी API पर iOS और Android क्लाइंट।",
+  "Coming soon": "जल्द आ रहा है",
+  "Your own trading desk, built against the same API the Command Center uses.": "आपका अपना ट्रेडिंग डेस्क, उसी API पर बना जिसका कमांड सेंटर उपयोग करता है।",
+  "API ready": "API तैयार",
+
+  /* ──── TraditionalBacktestSlide ──── */
+  "The Backtesting Problem": "बैकटेस्टिंग की समस्या",
+  "Why Jupyter notebooks don't match production": "Jupyter नोटबुक प्रोडक्शन से मेल क्यों नहीं खाते",
+  "Jupyter Notebook": "Jupyter नोटबुक",
+  "quick & dirty backtesting": "जल्दबाज़ी की बैकटेस्टिंग",
+  "minute-bar data only": "केवल मिनट-बार डेटा",
+  "Backtest Environment": "बैकटेस्ट वातावरण",
+  "• Different libraries": "• अलग लाइब्रेरी",
+  "• No real tick data": "• असली टिक डेटा नहीं",
+  "• Simplified indicators": "• सरलीकृत इंडिकेटर",
+  "• No slippage modeling": "• स्लिपेज मॉडलिंग नहीं",
+  "Live Trading System": "लाइव ट्रेडिंग सिस्टम",
+  "production code": "प्रोडक्शन कोड",
+  "completely different codebase": "पूरी तरह अलग कोडबेस",
+  "real tick data": "असली टिक डेटा",
+  "Production Environment": "प्रोडक्शन वातावरण",
+  "• Production libraries": "• प्रोडक्शन लाइब्रेरी",
+  "• Real tick stream": "• असली टिक स्ट्रीम",
+  "• Full indicator suite": "• पूरा इंडिकेटर सेट",
+  "• Real slippage": "• असली स्लिपेज",
+  "Port code?": "कोड पोर्ट करें?",
+  "Results Don't Match": "नतीजे मेल नहीं खाते",
+  "Problems with Traditional Approach": "पारंपरिक तरीक़े की समस्याएँ",
+  "• Minute-bar granularity only": "• केवल मिनट-बार ग्रैन्युलैरिटी",
+  "• No tick-by-tick or 1-second replay": "• टिक-दर-टिक या 1-सेकंड रीप्ले नहीं",
+  "• Must rewrite code for production": "• प्रोडक्शन के लिए कोड दोबारा लिखना पड़ता है",
+  "• Different indicators, different behavior": "• अलग इंडिकेटर, अलग व्यवहार",
+  "Backtest results ≠ Live trading results": "बैकटेस्ट नतीजे ≠ लाइव ट्रेडिंग नतीजे",
+  "Where most strategies are prototyped and backtested: quick to iterate on, but built on research libraries and minute bars.": "जहाँ ज़्यादातर स्ट्रैटेजी का प्रोटोटाइप और बैकटेस्ट होता है: बदलाव जल्दी होते हैं, पर यह रिसर्च लाइब्रेरी और मिनट-बार पर बना है।",
+  "Libraries": "लाइब्रेरी",
+  "Data": "डेटा",
+  "Minute bars only": "केवल मिनट बार",
+  "Different libraries, no real tick data, simplified indicators and no slippage modeling, so results flatter the strategy.": "अलग लाइब्रेरी, असली टिक डेटा नहीं, सरलीकृत इंडिकेटर और स्लिपेज मॉडलिंग नहीं, इसलिए नतीजे स्ट्रैटेजी को असल से बेहतर दिखाते हैं।",
+  "Production code on the real tick stream: a completely different codebase the strategy has to be rewritten for.": "असली टिक स्ट्रीम पर प्रोडक्शन कोड: पूरी तरह अलग कोडबेस, जिसके लिए स्ट्रैटेजी दोबारा लिखनी पड़ती है।",
+  "Real tick stream": "असली टिक स्ट्रीम",
+  "Production libraries, the real tick stream, the full indicator suite and real slippage.": "प्रोडक्शन लाइब्रेरी, असली टिक स्ट्रीम, पूरा इंडिकेटर सेट और असली स्लिपेज।",
+  "Porting the strategy by hand changes its behavior, so the backtest no longer predicts what happens live.": "स्ट्रैटेजी को हाथ से पोर्ट करने पर उसका व्यवहार बदल जाता है, इसलिए बैकटेस्ट अब लाइव नतीजों का अनुमान नहीं देता।",
+  "Minute-bar granularity only, no tick-by-tick or 1-second replay, a rewrite for production, and different indicators with different behavior.": "केवल मिनट-बार ग्रैन्युलैरिटी, टिक-दर-टिक या 1-सेकंड रीप्ले नहीं, प्रोडक्शन के लिए दोबारा लिखना, और अलग इंडिकेटर व अलग व्यवहार।",
+
+  /* ──── constants ──── */
+  "Metrics": "मेट्रिक्स",
+
+  /* ──── slideDecks ──── */
+  "A traditional polling pipeline that takes 3-5 seconds per cycle, compared with the async engine, which handles a tick in under a millisecond.": "हर चक्र में 3-5 सेकंड लेने वाली पारंपरिक पोलिंग पाइपलाइन, और उसके मुक़ाबले async इंजन, जो एक टिक को एक मिलीसेकंड से कम में संभालता है।",
+  "Traditional: Exchange, Poll API, Candles, Indicators, Strategy, Place Order and Broker run one blocking step after another.": "पारंपरिक: एक्सचेंज, पोल API, कैंडल, इंडिकेटर, स्ट्रैटेजी, ऑर्डर देना और ब्रोकर एक के बाद एक ब्लॉक करने वाले चरणों में चलते हैं।",
+  "Async: the Exchange sends ticks to Redis Streams, which fan out to Engine 1–3.": "Async: एक्सचेंज टिक Redis Streams को भेजता है, जो उन्हें इंजन 1–3 में बाँटता है।",
+  "Each engine runs candles, indicators, strategy and risk checks concurrently and sends orders to the Broker.": "हर इंजन कैंडल, इंडिकेटर, स्ट्रैटेजी और रिस्क जाँच साथ-साथ चलाता है और ऑर्डर ब्रोकर को भेजता है।",
+  "Fills return from the Broker to the engines.": "फ़िल ब्रोकर से इंजनों को लौटते हैं।",
+  "The engine trades on a fast loop while an AI agent tunes it on a slow loop through the metrics API.": "इंजन तेज़ लूप पर ट्रेड करता है, जबकि AI एजेंट मेट्रिक्स API के ज़रिए धीमे लूप पर उसे ट्यून करता है।",
+  "Fast loop: the Exchange sends ticks to Redis Streams, which feed the Engine; the Engine sends orders to the Broker and receives fills.": "तेज़ लूप: एक्सचेंज टिक Redis Streams को भेजता है, जो इंजन तक पहुँचाता है; इंजन ऑर्डर ब्रोकर को भेजता है और फ़िल पाता है।",
+  "The Engine writes metrics to the Metrics DB, which the Metrics API serves.": "इंजन मेट्रिक्स को मेट्रिक्स DB में लिखता है, जिन्हें मेट्रिक्स API परोसता है।",
+  "Slow loop, every 30–60 s: the AI Agent reads the Metrics API and asks the LLM for a decision.": "धीमा लूप, हर 30–60 सेकंड: AI एजेंट मेट्रिक्स API पढ़ता है और LLM से फ़ैसला माँगता है।",
+  "The agent sends parameter changes back to the Engine, applied on its next tick.": "एजेंट पैरामीटर बदलाव इंजन को वापस भेजता है, जो अगले टिक पर लागू होते हैं।",
+  "Strategies are backtested in a notebook and rewritten for live trading, so backtest results do not match live results.": "स्ट्रैटेजी का बैकटेस्ट नोटबुक में होता है और लाइव ट्रेडिंग के लिए उन्हें दोबारा लिखा जाता है, इसलिए बैकटेस्ट नतीजे लाइव नतीजों से मेल नहीं खाते।",
+  "The strategy is ported by hand from the notebook to the live system, a completely different codebase.": "स्ट्रैटेजी को नोटबुक से लाइव सिस्टम में हाथ से पोर्ट किया जाता है, जो पूरी तरह अलग कोडबेस है।",
+  "Different libraries and indicators mean different behaviour: the results do not match.": "अलग लाइब्रेरी और इंडिकेटर का मतलब अलग व्यवहार: नतीजे मेल नहीं खाते।",
+  "One engine and one strategy codebase run both live trading and backtests; only the data source and the order sink change.": "एक ही इंजन और एक ही स्ट्रैटेजी कोडबेस लाइव ट्रेडिंग और बैकटेस्ट दोनों चलाते हैं; सिर्फ़ डेटा स्रोत और ऑर्डर का गंतव्य बदलता है।",
+  "Live: the Exchange sends ticks through Redis Streams to the Engine, which sends real orders to the Broker and receives fills.": "लाइव: एक्सचेंज Redis Streams के ज़रिए टिक इंजन को भेजता है, जो असली ऑर्डर ब्रोकर को भेजता है और फ़िल पाता है।",
+  "Backtest: the Backtesting Dispatcher replays historical data from S3 into the same Engine, which sends orders to the Replay OMS and receives simulated fills.": "बैकटेस्ट: बैकटेस्टिंग डिस्पैचर S3 का ऐतिहासिक डेटा उसी इंजन में रीप्ले करता है, जो ऑर्डर रीप्ले OMS को भेजता है और सिम्युलेटेड फ़िल पाता है।",
+  "Replay granularity is either tick-by-tick for accuracy or 1-minute bars at about 100x speed.": "रीप्ले या तो सटीकता के लिए टिक-दर-टिक होता है या लगभग 100x रफ़्तार पर 1-मिनट बार में।",
+  "A backtest replays recorded market data through the production engine, with the AI agent in the loop.": "बैकटेस्ट रिकॉर्ड किया गया बाज़ार डेटा प्रोडक्शन इंजन से रीप्ले करता है, और AI एजेंट लूप में रहता है।",
+  "Historical data moves from S3 into the SQLite DB.": "ऐतिहासिक डेटा S3 से SQLite DB में आता है।",
+  "The Backtesting Dispatcher reads SQLite and feeds ticks to the Engine on a simulated clock.": "बैकटेस्टिंग डिस्पैचर SQLite पढ़ता है और सिम्युलेटेड घड़ी पर टिक इंजन को देता है।",
+  "The Engine sends orders to the Replay OMS, which fills them against the recorded market.": "इंजन ऑर्डर रीप्ले OMS को भेजता है, जो उन्हें रिकॉर्ड किए गए बाज़ार पर भरता है।",
+  "The AI Agent reads the Engine's metrics, consults the LLM, and sends decisions back to the Engine.": "AI एजेंट इंजन के मेट्रिक्स पढ़ता है, LLM से सलाह लेता है और फ़ैसले इंजन को वापस भेजता है।",
+  "The engine is an execution harness that any trading interface or AI agent can drive through one API.": "इंजन एक एक्ज़िक्यूशन हार्नेस है, जिसे कोई भी ट्रेडिंग इंटरफ़ेस या AI एजेंट एक ही API से चला सकता है।",
+  "Redis Streams feed the engine, which sends orders to the Broker and receives fills.": "Redis Streams इंजन को डेटा देती हैं, जो ऑर्डर ब्रोकर को भेजता है और फ़िल पाता है।",
+  "The Command Center, the AI agent and custom terminals send commands to the engine and receive updates through the same API.": "कमांड सेंटर, AI एजेंट और कस्टम टर्मिनल उसी API से इंजन को कमांड भेजते हैं और अपडेट पाते हैं।",
+  "Throughput grows by adding engines that read the same Redis Streams, with no architectural changes.": "उन्हीं Redis Streams को पढ़ने वाले इंजन जोड़कर थ्रूपुट बढ़ता है, आर्किटेक्चर में कोई बदलाव किए बिना।",
+  "In each column Redis Streams fan ticks out to every engine.": "हर कॉलम में Redis Streams टिक हर इंजन तक बाँटती हैं।",
+  "The same code and the same Redis scale linearly from one engine to N.": "वही कोड और वही Redis एक इंजन से N इंजन तक रैखिक रूप से स्केल होते हैं।",
+  "One trade on a master account is copied to every client account, sized by each client's multiplier.": "मास्टर खाते का एक ट्रेड हर क्लाइंट खाते में कॉपी होता है, हर क्लाइंट के मल्टीप्लायर के हिसाब से।",
+  "The Master Account places a 10-lot order with the Replication Manager.": "मास्टर खाता रेप्लिकेशन मैनेजर को 10 लॉट का ऑर्डर देता है।",
+  "The Replication Manager fans it out to Client A–D with multipliers of 2x, 1x, 0.5x and 0.25x.": "रेप्लिकेशन मैनेजर उसे 2x, 1x, 0.5x और 0.25x मल्टीप्लायर के साथ क्लाइंट A–D में बाँटता है।",
+  "Each client order goes to the Broker; together they total 37 lots.": "हर क्लाइंट ऑर्डर ब्रोकर को जाता है; सब मिलाकर 37 लॉट होते हैं।",
+  "Every strategy's orders pass pre-trade and portfolio risk checks before reaching the broker, while Greeks and P&L update live.": "हर स्ट्रैटेजी के ऑर्डर ब्रोकर तक पहुँचने से पहले प्री-ट्रेड और पोर्टफ़ोलियो रिस्क जाँच से गुज़रते हैं, जबकि Greeks और P&L लाइव अपडेट होते हैं।",
+  "The Momentum, Strangle and AI strategies send orders to the Position Manager.": "मोमेंटम, स्ट्रैंगल और AI स्ट्रैटेजी ऑर्डर पोज़िशन मैनेजर को भेजती हैं।",
+  "The Position Manager runs position limits, margin limits and stop-loss checks.": "पोज़िशन मैनेजर पोज़िशन सीमा, मार्जिन सीमा और स्टॉप-लॉस की जाँच करता है।",
+  "Orders that pass go to the Broker; breaches are rejected.": "पास होने वाले ऑर्डर ब्रोकर को जाते हैं; सीमा तोड़ने वाले अस्वीकार होते हैं।",
+  "Portfolio Greeks (Delta, Theta, Vega) and P&L update as positions change.": "पोज़िशन बदलने के साथ पोर्टफ़ोलियो Greeks (Delta, Theta, Vega) और P&L अपडेट होते हैं।",
+  "Strategies call one OMS interface; broker adapters translate it for Zerodha Kite, Jainam XTS or a custom broker.": "स्ट्रैटेजी एक ही OMS इंटरफ़ेस बुलाती हैं; ब्रोकर एडैप्टर उसे Zerodha Kite, Jainam XTS या कस्टम ब्रोकर के लिए बदलते हैं।",
+  "Your Strategy calls the Anekant Engine, which talks only to the OMS abstraction layer.": "आपकी स्ट्रैटेजी Anekant इंजन को बुलाती है, जो सिर्फ़ OMS एब्स्ट्रैक्शन लेयर से बात करता है।",
+  "The OMS layer routes calls to the KiteAdapter, XTSAdapter or a CustomAdapter.": "OMS लेयर कॉल KiteAdapter, XTSAdapter या किसी CustomAdapter तक भेजती है।",
+  "Each adapter talks to its broker's API and returns fills and order status to the engine.": "हर एडैप्टर अपने ब्रोकर के API से बात करता है और फ़िल व ऑर्डर की स्थिति इंजन को लौटाता है।",
+  "The engine streams every metric into SQLite, and dashboards, alerts, the AI agent and audit logs all read it through one API.": "इंजन हर मेट्रिक SQLite में स्ट्रीम करता है, और डैशबोर्ड, अलर्ट, AI एजेंट और ऑडिट लॉग सभी उसे एक ही API से पढ़ते हैं।",
+  "The Anekant Engine emits candles, indicators, positions, P&L and strategy state into SQLite with write-ahead logging.": "Anekant इंजन कैंडल, इंडिकेटर, पोज़िशन, P&L और स्ट्रैटेजी की स्थिति write-ahead logging के साथ SQLite में लिखता है।",
+  "The Metrics API, a FastAPI service, reads SQLite read-only and serves it over REST.": "मेट्रिक्स API, एक FastAPI सेवा, SQLite को केवल पढ़ने के लिए खोलती है और REST पर परोसती है।",
+  "The Live Dashboard, alerting, the AI Agent and post-session reports consume the API.": "लाइव डैशबोर्ड, अलर्टिंग, AI एजेंट और सत्र के बाद की रिपोर्ट इस API का उपयोग करते हैं।",
+  "Every strategy moves through the same five states, enforced by a state machine, and any state can fail into a recoverable FAILED state.": "हर स्ट्रैटेजी स्टेट मशीन द्वारा लागू उन्हीं पाँच स्थितियों से गुज़रती है, और कोई भी स्थिति विफल होकर रिकवर की जा सकने वाली विफल स्थिति में जा सकती है।",
+  "INITIALIZE leads to START, then CREATE, then MANAGE, then END.": "आरंभ से शुरू, फिर बनाएँ, फिर प्रबंधन, फिर समाप्त।",
+  "Any state can move to FAILED, which can recover by restarting the strategy.": "कोई भी स्थिति विफल में जा सकती है, जहाँ से स्ट्रैटेजी दोबारा शुरू करके रिकवरी होती है।",
+  "Only valid transitions are allowed, and every transition is logged.": "केवल मान्य परिवर्तन होने दिए जाते हैं, और हर परिवर्तन लॉग होता है।",
+};
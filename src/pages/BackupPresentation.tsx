@@ -1,6 +1,6 @@
 import { SlideDeck } from "@/pages/Presentation";
-import { BACKUP_SLIDES } from "@/pages/slideDecks";
+import { BACKUP_DECK } from "@/pages/slideDecks";
 
 export function BackupPresentation() {
-  return <SlideDeck slides={BACKUP_SLIDES} />;
+  return <SlideDeck deck={BACKUP_DECK} />;
 }
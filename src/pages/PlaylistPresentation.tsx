@@ -0,0 +1,22 @@
+import { Navigate, useParams } from "react-router-dom";
+import { SlideDeck } from "@/pages/Presentation";
+import { PresenterView } from "@/pages/PresenterView";
+import { PLAYLISTS } from "@/pages/slideDecks";
+
+type PlaylistPresentationProps = {
+  /** Render the presenter window for the playlist instead of the audience deck */
+  presenter?: boolean;
+};
+
+/** Audience deck (or presenter window) for `/deck/:name`; unknown names go to the main deck */
+export function PlaylistPresentation({ presenter = false }: PlaylistPresentationProps) {
+  const { name } = useParams();
+  const playlist = PLAYLISTS.find((p) => p.id === name);
+  if (!playlist) return <Navigate to="/" replace />;
+
+  return presenter ? (
+    <PresenterView key={playlist.id} slides={playlist.slides} basePath={playlist.basePath} />
+  ) : (
+    <SlideDeck key={playlist.id} deck={playlist} />
+  );
+}
@@ -1,76 +1,357 @@
-import { AnimatePresence, motion } from "framer-motion";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AnimatePresence, MotionConfig, motion } from "framer-motion";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { useSlideNavigation } from "@/hooks/useSlideNavigation";
 import { useTheme } from "@/hooks/useTheme";
+import { useMotionPreference } from "@/hooks/useMotionPreference";
+import { useLocale } from "@/hooks/useLocale";
+import { useDeckSync } from "@/hooks/useDeckSync";
+import { useDeckExport } from "@/hooks/useDeckExport";
+import { useSlideRecorder } from "@/hooks/useSlideRecorder";
+import { MOCK_LIVE_EVENTS_URL, useLiveEventFeed } from "@/hooks/useLiveEventFeed";
+import { useTimelineTransport } from "@/hooks/useTimelineTransport";
+import { useDeckOverview } from "@/hooks/useDeckOverview";
+import { useSwipe } from "@/hooks/useSwipe";
+import { useBlackout } from "@/hooks/useBlackout";
+import { useRemoteControl } from "@/hooks/useRemoteControl";
+import { useKiosk } from "@/hooks/useKiosk";
+import { useAnnotations } from "@/hooks/useAnnotations";
+import { useSlideZoom } from "@/hooks/useSlideZoom";
+import { useNodeFocus } from "@/hooks/useNodeFocus";
+import { useBrandTheme } from "@/hooks/useBrandTheme";
 import { ProgressBar } from "@/components/layout/ProgressBar";
 import { Navigation } from "@/components/layout/Navigation";
-import { ThemeToggle } from "@/components/layout/ThemeToggle";
-import type { SlideDefinition } from "@/pages/slideDecks";
-import { MAIN_SLIDES } from "@/pages/slideDecks";
-
-const slideVariants = {
-  enter: (direction: number) => ({
-    x: direction > 0 ? "100%" : "-100%",
-    opacity: 0,
-  }),
-  center: {
-    x: 0,
-    opacity: 1,
-  },
-  exit: (direction: number) => ({
-    x: direction > 0 ? "-100%" : "100%",
-    opacity: 0,
-  }),
-};
+import { ThemeMenu } from "@/components/layout/ThemeMenu";
+import { MotionToggle } from "@/components/layout/MotionToggle";
+import { LocaleToggle } from "@/components/layout/LocaleToggle";
+import { PresenterButton } from "@/components/layout/PresenterButton";
+import { ExportMenu } from "@/components/layout/ExportMenu";
+import { LiveIndicator } from "@/components/layout/LiveIndicator";
+import { TransportBar } from "@/components/layout/TransportBar";
+import { SlideOverview } from "@/components/layout/SlideOverview";
+import { CommandPalette } from "@/components/layout/CommandPalette";
+import { BlackoutScreen } from "@/components/layout/BlackoutScreen";
+import { RemoteIndicator } from "@/components/layout/RemoteIndicator";
+import { AnnotationOverlay } from "@/components/layout/AnnotationOverlay";
+import { AnnotationToolbar } from "@/components/layout/AnnotationToolbar";
+import { SlideOutline } from "@/components/layout/SlideOutline";
+import { LiveEventsContext } from "@/components/slides/shared/live-events";
+import { TimelineControllerContext } from "@/components/slides/shared/timeline-controller";
+import { LIVE_PLAYBACK, REDUCED_PLAYBACK, SlidePlaybackContext } from "@/components/slides/shared/playback";
+import { BrandContext } from "@/components/slides/shared/brand";
+import { I18nContext } from "@/components/slides/shared/i18n";
+import type { RemoteCommand } from "@/components/slides/shared/remote";
+import type { AnnotationTool } from "@/components/slides/shared/annotations";
+import {
+  FIXTURE_METRICS_PROVIDER,
+  MOCK_METRICS_URL,
+  MetricsContext,
+  createRestMetricsProvider,
+} from "@/components/slides/shared/metrics";
+import type { DeckDefinition } from "@/pages/slideDecks";
+import { MAIN_DECK, SLIDE_DECKS } from "@/pages/slideDecks";
+import { slideTransition, slideVariants } from "@/pages/slideTransition";
+
+const SLIDE_OUTLINE_ID = "slide-outline";
 
 type SlideDeckProps = {
-  slides: SlideDefinition[];
+  /** Slides live at `${deck.basePath}/${id}` */
+  deck: DeckDefinition;
 };
 
-export function SlideDeck({ slides }: SlideDeckProps) {
-  const { theme, toggleTheme } = useTheme();
-  const nav = useSlideNavigation({ totalSlides: slides.length });
+export function SlideDeck({ deck }: SlideDeckProps) {
+  const { slides, basePath } = deck;
+  const { theme, preference, themes, setTheme } = useTheme();
+  const { reduced, toggleMotion } = useMotionPreference();
+  const { locale, locales, setLocale, i18n } = useLocale();
+  const slideIds = useMemo(() => slides.map((s) => s.id), [slides]);
+  const stepCounts = useMemo(() => slides.map((s) => s.Component.steps?.length ?? 1), [slides]);
+  const sections = useMemo(() => slides.map((s) => s.section), [slides]);
+  const overview = useDeckOverview();
+  const nav = useSlideNavigation({ slideIds, basePath, stepCounts, keyboard: !overview.open });
 
   const currentSlideData = slides[nav.currentSlide];
 
+  const { goToSlide } = nav;
+  const followRemote = useCallback(
+    (id: string, step: number) => {
+      const index = slideIds.indexOf(id);
+      if (index !== -1) goToSlide(index, step);
+    },
+    [goToSlide, slideIds],
+  );
+  useDeckSync({
+    deckKey: basePath,
+    slideId: currentSlideData.id,
+    step: nav.step,
+    onRemoteSlide: followRemote,
+  });
+
+  const annotations = useAnnotations();
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool | null>(null);
+  /* The mounted slide's SVG, which annotations are drawn into */
+  const [slideSvg, setSlideSvg] = useState<SVGSVGElement | null>(null);
+  const stageRef = useCallback((stage: HTMLDivElement | null) => setSlideSvg(stage?.querySelector("svg") ?? null), []);
+
+  /* The diagram is labelled with its gist; SlideOutline carries the detail */
+  const { summary } = currentSlideData.description;
+  useEffect(() => {
+    if (!slideSvg) return;
+    slideSvg.setAttribute("role", "group");
+    slideSvg.setAttribute("aria-roledescription", "diagram");
+    slideSvg.setAttribute("aria-label", i18n.t(summary));
+  }, [slideSvg, summary, i18n]);
+
+  useNodeFocus({ svg: slideSvg, details: currentSlideData.Component.details });
+
+  const exporter = useDeckExport({ slides, deckName: deck.id, annotationsFor: annotations.marksFor, i18n });
+  const recorder = useSlideRecorder({ slides, deckName: deck.id, i18n });
+  const transport = useTimelineTransport({ keyboard: !overview.open });
+  const { blackout, toggleBlackout } = useBlackout({ keyboard: !overview.open });
+
+  /* Swiping left moves forward, like turning a page */
+  useSwipe({
+    enabled: !overview.open && annotationTool === null,
+    onSwipe: (direction) => (direction < 0 ? nav.nextSlide() : nav.prevSlide()),
+  });
+
+  /* `?live` streams from the bundled mock; `?live=<url>` from a real engine */
+  const [searchParams] = useSearchParams();
+  const liveParam = searchParams.get("live");
+  const live = useLiveEventFeed(liveParam === null ? null : liveParam || MOCK_LIVE_EVENTS_URL);
+
+  /* `?metrics` polls the bundled mock API; `?metrics=<url>` a real one */
+  const metricsParam = searchParams.get("metrics");
+  const metrics = useMemo(
+    () =>
+      metricsParam === null
+        ? FIXTURE_METRICS_PROVIDER
+        : createRestMetricsProvider(metricsParam || MOCK_METRICS_URL),
+    [metricsParam],
+  );
+
+  /* `?brand=<id>` (or a config URL) white-labels the deck for a client,
+     overriding the deck's own brand */
+  const { brand } = useBrandTheme(searchParams.get("brand") ?? deck.brand ?? null);
+
+  /* `?remote=<token>` hands the deck to a phone at /remote through the local relay */
+  const remoteToken = searchParams.get("remote");
+  const remote = useRemoteControl({
+    token: remoteToken,
+    state: { basePath, slideId: currentSlideData.id, step: nav.step, totalSteps: nav.totalSteps, blackout },
+    onCommand: (command: RemoteCommand) => {
+      switch (command.command) {
+        case "next":
+          nav.nextSlide();
+          break;
+        case "prev":
+          nav.prevSlide();
+          break;
+        case "step":
+          goToSlide(nav.currentSlide, command.step);
+          break;
+        case "blackout":
+          toggleBlackout();
+          break;
+      }
+    },
+  });
+
+  /* `?kiosk` cycles the deck unattended; `?kiosk=<seconds>` sets how long
+     after the last input it resumes */
+  const kioskParam = searchParams.get("kiosk");
+  const kiosk = useKiosk({
+    enabled: kioskParam !== null,
+    controller: transport.controller,
+    slideKey: currentSlideData.id,
+    dwellLoops: currentSlideData.dwellLoops,
+    idleSec: Number(kioskParam) || undefined,
+    onAdvance: () => {
+      const next = nav.isLast ? 0 : nav.currentSlide + 1;
+      goToSlide(next, stepCounts[next] - 1);
+    },
+  });
+
+  /* Kiosk slides play their whole reveal */
+  const lastStep = nav.totalSteps - 1;
+  useEffect(() => {
+    if (kiosk.cycling && nav.step < lastStep) goToSlide(nav.currentSlide, lastStep);
+  }, [kiosk.cycling, nav.step, nav.currentSlide, lastStep, goToSlide]);
+
+  /* Kiosk jumps straight to the last step, so step presets stay off */
+  useSlideZoom({
+    svg: slideSvg,
+    presets: currentSlideData.Component.focus,
+    step: nav.step,
+    followSteps: !kiosk.cycling,
+    keyboard: !overview.open,
+  });
+
+  /* Jumps within this deck keep the slide transition; other decks are
+     another route, carrying the deck options along */
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  const { close: closeOverview } = overview;
+  /* A playlist is listed ahead of the decks its slides come from */
+  const overviewDecks = useMemo(() => (SLIDE_DECKS.includes(deck) ? SLIDE_DECKS : [deck, ...SLIDE_DECKS]), [deck]);
+  const jumpTo = useCallback(
+    (target: DeckDefinition, index: number) => {
+      closeOverview();
+      if (target.basePath === basePath) {
+        goToSlide(index);
+      } else {
+        navigate({ pathname: `${target.basePath}/${target.slides[index].id}`, search });
+      }
+    },
+    [basePath, closeOverview, goToSlide, navigate, search],
+  );
+
+  const openPresenter = useCallback(() => {
+    window.open(
+      `${basePath}/presenter/${currentSlideData.id}`,
+      `presenter${basePath}`,
+      "popup,width=1280,height=800",
+    );
+  }, [basePath, currentSlideData.id]);
+
   return (
-    <div
-      className="relative h-full w-full overflow-hidden"
-      style={{ background: "var(--bg-primary)" }}
-    >
-      <ProgressBar current={nav.currentSlide} total={nav.totalSlides} />
-      <ThemeToggle theme={theme} onToggle={toggleTheme} />
-
-      <AnimatePresence mode="wait" custom={nav.direction}>
-        <motion.div
-          key={currentSlideData.id}
-          custom={nav.direction}
-          variants={slideVariants}
-          initial="enter"
-          animate="center"
-          exit="exit"
-          transition={{
-            x: { type: "spring", stiffness: 300, damping: 30 },
-            opacity: { duration: 0.2 },
-          }}
-          className="absolute inset-0"
-        >
-          <currentSlideData.Component active={true} />
-        </motion.div>
-      </AnimatePresence>
-
-      <Navigation
-        current={nav.currentSlide}
-        total={nav.totalSlides}
-        onPrev={nav.prevSlide}
-        onNext={nav.nextSlide}
-        onGoTo={nav.goToSlide}
-        isFirst={nav.isFirst}
-        isLast={nav.isLast}
-      />
-    </div>
+    /* Reduced motion swaps the slide's sideways spring for a fade */
+    <MotionConfig reducedMotion={reduced ? "always" : "never"}>
+      <SlidePlaybackContext value={reduced ? REDUCED_PLAYBACK : LIVE_PLAYBACK}>
+        <I18nContext value={i18n}>
+          <div
+            className={`relative h-full w-full overflow-hidden ${kiosk.cycling ? "cursor-none" : ""}`}
+            style={{ background: "var(--bg-primary)", touchAction: "pan-y pinch-zoom" }}
+          >
+            <ProgressBar current={nav.currentSlide} total={nav.totalSlides} sections={sections} />
+            {live.feed && <LiveIndicator connected={live.connected} />}
+            {/* Kiosk mode hides the deck chrome while it cycles */}
+            {!kiosk.cycling && (
+              <>
+                <ExportMenu
+                  exporting={exporter.exporting}
+                  recordProgress={recorder.progress}
+                  canRecord={recorder.supported}
+                  error={exporter.error ?? recorder.error}
+                  onDismissError={() => {
+                    exporter.clearError();
+                    recorder.clearError();
+                  }}
+                  onExportSvg={() => exporter.exportSlide(nav.currentSlide, "svg")}
+                  onExportPng={() => exporter.exportSlide(nav.currentSlide, "png")}
+                  onExportPdf={exporter.exportDeck}
+                  onRecordSlide={() => recorder.recordSlide(nav.currentSlide)}
+                  onRecordDeck={recorder.recordDeck}
+                />
+                {remoteToken !== null && <RemoteIndicator token={remoteToken} connected={remote.connected} />}
+                <PresenterButton onOpen={openPresenter} />
+                <MotionToggle reduced={reduced} onToggle={toggleMotion} />
+                <LocaleToggle locale={locale} locales={locales} onSelect={setLocale} />
+                <ThemeMenu theme={theme} preference={preference} themes={themes} onSelect={setTheme} />
+              </>
+            )}
+
+            <AnimatePresence mode="wait" custom={nav.direction}>
+              <motion.div
+                ref={stageRef}
+                key={currentSlideData.id}
+                custom={nav.direction}
+                variants={slideVariants}
+                initial="enter"
+                animate="center"
+                exit="exit"
+                transition={slideTransition}
+                className="absolute inset-0"
+                role="group"
+                aria-roledescription="slide"
+                aria-label={i18n.t(currentSlideData.title)}
+                aria-describedby={SLIDE_OUTLINE_ID}
+              >
+                <TimelineControllerContext value={transport.controller}>
+                  <LiveEventsContext value={live.feed}>
+                    <MetricsContext value={metrics}>
+                      <BrandContext value={brand}>
+                        <currentSlideData.Component active={true} step={nav.step} />
+                      </BrandContext>
+                    </MetricsContext>
+                  </LiveEventsContext>
+                </TimelineControllerContext>
+              </motion.div>
+            </AnimatePresence>
+
+            <SlideOutline
+              slide={currentSlideData}
+              id={SLIDE_OUTLINE_ID}
+              index={nav.currentSlide}
+              total={nav.totalSlides}
+            />
+
+            <AnnotationOverlay
+              svg={slideSvg}
+              tool={annotationTool}
+              marks={annotations.marksFor(currentSlideData.id)}
+              onAdd={(annotation) => annotations.add(currentSlideData.id, annotation)}
+            />
+
+            {!kiosk.cycling && (
+              <AnnotationToolbar
+                tool={annotationTool}
+                onTool={setAnnotationTool}
+                canUndo={annotations.canUndo(currentSlideData.id)}
+                onUndo={() => annotations.undo(currentSlideData.id)}
+                onClear={() => annotations.clear(currentSlideData.id)}
+                persist={annotations.persist}
+                onTogglePersist={annotations.togglePersist}
+              />
+            )}
+
+            {!kiosk.cycling && (
+              <TransportBar
+                controller={transport.controller}
+                playing={transport.playing}
+                speed={transport.speed}
+                attached={transport.attached}
+              />
+            )}
+
+            <AnimatePresence>
+              {overview.overviewOpen && (
+                <SlideOverview
+                  key="overview"
+                  decks={overviewDecks}
+                  currentBasePath={basePath}
+                  currentSlideId={currentSlideData.id}
+                  onSelect={jumpTo}
+                />
+              )}
+              {overview.paletteOpen && (
+                <CommandPalette key="palette" decks={overviewDecks} onSelect={jumpTo} onClose={overview.close} />
+              )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+              {blackout && <BlackoutScreen onDismiss={toggleBlackout} />}
+            </AnimatePresence>
+
+            {!kiosk.cycling && (
+              <Navigation
+                current={nav.currentSlide}
+                total={nav.totalSlides}
+                sections={sections}
+                onPrev={nav.prevSlide}
+                onNext={nav.nextSlide}
+                onGoTo={nav.goToSlide}
+                isFirst={nav.isFirst}
+                isLast={nav.isLast}
+              />
+            )}
+          </div>
+        </I18nContext>
+      </SlidePlaybackContext>
+    </MotionConfig>
   );
 }
 
 export function Presentation() {
-  return <SlideDeck slides={MAIN_SLIDES} />;
+  return <SlideDeck deck={MAIN_DECK} />;
 }
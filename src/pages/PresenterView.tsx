@@ -0,0 +1,189 @@
+import { useCallback, useMemo } from "react";
+import { Pause, Play, RotateCcw } from "lucide-react";
+import { useSlideNavigation } from "@/hooks/useSlideNavigation";
+import { useDeckSync } from "@/hooks/useDeckSync";
+import { useTalkTimer } from "@/hooks/useTalkTimer";
+import { useTheme } from "@/hooks/useTheme";
+import { useLocale } from "@/hooks/useLocale";
+import { useMotionPreference } from "@/hooks/useMotionPreference";
+import { Navigation } from "@/components/layout/Navigation";
+import { SlideThumbnail } from "@/components/layout/SlideThumbnail";
+import { LIVE_PLAYBACK, REDUCED_PLAYBACK, SlidePlaybackContext } from "@/components/slides/shared/playback";
+import { I18nContext } from "@/components/slides/shared/i18n";
+import type { SlideDefinition } from "@/pages/slideDecks";
+
+const DEFAULT_TALK_MINUTES = 20;
+
+function formatClock(totalSec: number) {
+  const abs = Math.abs(totalSec);
+  const mm = String(Math.floor(abs / 60)).padStart(2, "0");
+  const ss = String(abs % 60).padStart(2, "0");
+  return `${totalSec < 0 ? "-" : ""}${mm}:${ss}`;
+}
+
+type PresenterViewProps = {
+  slides: SlideDefinition[];
+  /** Route prefix of the audience deck; the presenter lives at `${basePath}/presenter` */
+  basePath: string;
+  talkMinutes?: number;
+};
+
+export function PresenterView({
+  slides,
+  basePath,
+  talkMinutes = DEFAULT_TALK_MINUTES,
+}: PresenterViewProps) {
+  useTheme();
+  const { i18n } = useLocale();
+  const { reduced } = useMotionPreference();
+  const slideIds = useMemo(() => slides.map((s) => s.id), [slides]);
+  const stepCounts = useMemo(() => slides.map((s) => s.Component.steps?.length ?? 1), [slides]);
+  const sections = useMemo(() => slides.map((s) => s.section), [slides]);
+  const nav = useSlideNavigation({
+    slideIds,
+    basePath: `${basePath}/presenter`,
+    stepCounts,
+  });
+  const timer = useTalkTimer({ durationSec: talkMinutes * 60 });
+
+  const currentSlideData = slides[nav.currentSlide];
+
+  /* "Next" previews the following build step while the current slide has
+     steps left, then the first step of the following slide. */
+  const nextSlideData = slides[nav.currentSlide + 1];
+  const upNext =
+    nav.step < nav.totalSteps - 1
+      ? { slide: currentSlideData, step: nav.step + 1 }
+      : nextSlideData && { slide: nextSlideData, step: 0 };
+
+  const { goToSlide } = nav;
+  const followRemote = useCallback(
+    (id: string, step: number) => {
+      const index = slideIds.indexOf(id);
+      if (index !== -1) goToSlide(index, step);
+    },
+    [goToSlide, slideIds],
+  );
+  useDeckSync({
+    deckKey: basePath,
+    slideId: currentSlideData.id,
+    step: nav.step,
+    onRemoteSlide: followRemote,
+  });
+
+  const overTime = timer.remaining < 0;
+
+  return (
+    <div
+      className="flex h-full w-full flex-col gap-5 overflow-hidden px-8 pb-24 pt-6"
+      style={{ background: "var(--bg-primary)", color: "var(--text-primary)" }}
+    >
+      {/* Header: timer */}
+      <div className="flex items-center justify-between">
+        <span
+          className="text-sm font-semibold uppercase tracking-widest"
+          style={{ color: "var(--text-muted)" }}
+        >
+          Presenter View
+        </span>
+
+        <div className="flex items-center gap-4">
+          <span className="text-2xl font-semibold tabular-nums">
+            {formatClock(timer.elapsed)}
+          </span>
+          <span
+            className="text-2xl font-semibold tabular-nums"
+            style={{ color: overTime ? "var(--accent-red)" : "var(--text-secondary)" }}
+            title="Remaining"
+          >
+            {formatClock(timer.remaining)}
+          </span>
+          {[
+            {
+              icon: timer.running ? <Pause size={16} /> : <Play size={16} />,
+              onClick: timer.toggle,
+              title: timer.running ? "Pause timer" : "Resume timer",
+            },
+            { icon: <RotateCcw size={16} />, onClick: timer.reset, title: "Reset timer" },
+          ].map(({ icon, onClick, title }) => (
+            <button
+              key={title}
+              onClick={onClick}
+              className="flex h-9 w-9 items-center justify-center rounded-lg transition-all duration-200 hover:scale-110"
+              style={{
+                background: "var(--bg-card)",
+                border: "1px solid var(--border-subtle)",
+                color: "var(--text-secondary)",
+              }}
+              title={title}
+            >
+              {icon}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid min-h-0 flex-1 grid-cols-[3fr_2fr] gap-6">
+        {/* Current slide */}
+        <div className="flex min-h-0 flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-widest" style={{ color: "var(--text-muted)" }}>
+            Current
+          </span>
+          <SlidePlaybackContext value={reduced ? REDUCED_PLAYBACK : LIVE_PLAYBACK}>
+            <I18nContext value={i18n}>
+              <SlideThumbnail slide={currentSlideData} step={nav.step} />
+            </I18nContext>
+          </SlidePlaybackContext>
+        </div>
+
+        {/* Next slide + notes */}
+        <div className="flex min-h-0 flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-widest" style={{ color: "var(--text-muted)" }}>
+            Next
+          </span>
+          {upNext ? (
+            <SlidePlaybackContext value={reduced ? REDUCED_PLAYBACK : LIVE_PLAYBACK}>
+              <I18nContext value={i18n}>
+                <SlideThumbnail slide={upNext.slide} step={upNext.step} />
+              </I18nContext>
+            </SlidePlaybackContext>
+          ) : (
+            <div
+              className="flex aspect-video w-full items-center justify-center rounded-xl text-sm"
+              style={{
+                background: "var(--bg-card)",
+                border: "1px solid var(--border-subtle)",
+                color: "var(--text-muted)",
+              }}
+            >
+              End of deck
+            </div>
+          )}
+
+          <span className="mt-3 text-xs font-semibold uppercase tracking-widest" style={{ color: "var(--text-muted)" }}>
+            Notes
+          </span>
+          <ul
+            className="min-h-0 flex-1 list-disc space-y-2 overflow-y-auto rounded-xl py-4 pl-9 pr-5 text-[17px] leading-relaxed"
+            style={{ background: "var(--bg-card)", border: "1px solid var(--border-subtle)" }}
+          >
+            {currentSlideData.notes.map((note) => (
+              <li key={note}>{note}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <Navigation
+        current={nav.currentSlide}
+        total={nav.totalSlides}
+        sections={sections}
+        onPrev={nav.prevSlide}
+        onNext={nav.nextSlide}
+        onGoTo={nav.goToSlide}
+        isFirst={nav.isFirst}
+        isLast={nav.isLast}
+      />
+    </div>
+  );
+}
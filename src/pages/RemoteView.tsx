@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ChevronLeft, ChevronRight, MonitorOff } from "lucide-react";
+import { useTheme } from "@/hooks/useTheme";
+import { useSwipe } from "@/hooks/useSwipe";
+import {
+  parseRemoteMessage,
+  remoteRelayUrl,
+  sendRemoteMessage,
+  type RemoteCommand,
+  type RemoteState,
+} from "@/components/slides/shared/remote";
+import { PLAYLISTS, SLIDES, SLIDE_DECKS } from "@/pages/slideDecks";
+
+/**
+ * Phone remote at `/remote?token=<token>`: follows the deck through the
+ * local relay, shows the current slide's notes, and sends
+ * next/prev/step commands.
+ */
+export function RemoteView() {
+  useTheme();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [state, setState] = useState<RemoteState | null>(null);
+  const [connected, setConnected] = useState(false);
+  const send = (command: RemoteCommand) => {
+    if (token) sendRemoteMessage(token, command);
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    const source = new EventSource(remoteRelayUrl(token));
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+    source.onmessage = (e) => {
+      const message = parseRemoteMessage(e.data);
+      if (message?.kind === "state") setState(message);
+    };
+    return () => source.close();
+  }, [token]);
+
+  useSwipe({ onSwipe: (direction) => send({ kind: "command", command: direction < 0 ? "next" : "prev" }) });
+
+  const deck = [...SLIDE_DECKS, ...PLAYLISTS].find((d) => d.basePath === state?.basePath);
+  const slide = SLIDES.find((s) => s.id === state?.slideId);
+  const index = deck && slide ? deck.slides.indexOf(slide) : -1;
+
+  const buttonStyle = {
+    background: "var(--bg-card)",
+    border: "1px solid var(--border-subtle)",
+    color: "var(--text-primary)",
+  };
+
+  return (
+    <div
+      className="flex h-full w-full select-none flex-col gap-4 p-5"
+      style={{ background: "var(--bg-primary)", color: "var(--text-primary)", touchAction: "pan-y" }}
+    >
+      <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-widest" style={{ color: "var(--text-muted)" }}>
+        <span>{deck ? `${deck.name} · ${index + 1} / ${deck.slides.length}` : "Remote"}</span>
+        <span className="flex items-center gap-2" style={{ color: connected ? "var(--accent-emerald)" : "var(--text-muted)" }}>
+          <span className="h-2 w-2 rounded-full" style={{ background: "currentColor" }} />
+          {connected ? (state ? "Connected" : "Waiting for deck") : "Connecting"}
+        </span>
+      </div>
+
+      {slide && state ? (
+        <>
+          <h1 className="text-2xl font-extrabold leading-tight">{slide.title}</h1>
+
+          {state.totalSteps > 1 && (
+            <div className="flex gap-2">
+              {Array.from({ length: state.totalSteps }, (_, i) => (
+                <button
+                  key={i}
+                  onClick={() => send({ kind: "command", command: "step", step: i })}
+                  className="h-9 flex-1 rounded-lg text-sm font-semibold"
+                  style={{
+                    ...buttonStyle,
+                    color: i === state.step ? "var(--accent-amber)" : "var(--text-muted)",
+                    borderColor: i === state.step ? "var(--accent-amber)" : "var(--border-subtle)",
+                  }}
+                >
+                  {slide.Component.steps?.[i] ?? i + 1}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <ul
+            className="min-h-0 flex-1 list-disc space-y-2 overflow-y-auto rounded-xl py-4 pl-8 pr-4 text-base leading-relaxed"
+            style={{ background: "var(--bg-card)", border: "1px solid var(--border-subtle)" }}
+          >
+            {slide.notes.map((note) => (
+              <li key={note}>{note}</li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p className="flex-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+          {token ? (
+            <>
+              Open the deck with the <code>?remote=</code> link the server printed on the presenting machine to take control.
+            </>
+          ) : (
+            <>
+              Open the <code>/remote?token=…</code> address shown on the presenting screen.
+            </>
+          )}
+        </p>
+      )}
+
+      <div className="grid grid-cols-[1fr_auto_1fr] gap-3">
+        <button
+          onClick={() => send({ kind: "command", command: "prev" })}
+          className="flex h-20 items-center justify-center rounded-xl"
+          style={buttonStyle}
+          aria-label="Previous"
+        >
+          <ChevronLeft size={32} />
+        </button>
+        <button
+          onClick={() => send({ kind: "command", command: "blackout" })}
+          className="flex h-20 w-16 items-center justify-center rounded-xl"
+          style={{ ...buttonStyle, color: state?.blackout ? "var(--accent-amber)" : "var(--text-muted)" }}
+          aria-label="Blackout"
+        >
+          <MonitorOff size={22} />
+        </button>
+        <button
+          onClick={() => send({ kind: "command", command: "next" })}
+          className="flex h-20 items-center justify-center rounded-xl"
+          style={{ ...buttonStyle, background: "var(--accent-amber)", color: "var(--bg-primary)" }}
+          aria-label="Next"
+        >
+          <ChevronRight size={32} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Download, Upload, X } from "lucide-react";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemeMenu } from "@/components/layout/ThemeMenu";
+import { SlideThumbnail } from "@/components/layout/SlideThumbnail";
+import {
+  BrandContext,
+  THEME_VARIABLES,
+  brandStyle,
+  loadBrandTheme,
+  parseBrandTheme,
+  type BrandTheme,
+  type ThemeVariable,
+} from "@/components/slides/shared/brand";
+import { download } from "@/components/slides/shared/capture";
+import { SLIDES } from "@/pages/slideDecks";
+
+const PREVIEW_SLIDE = SLIDES.find((s) => s.id === "engine-flow") ?? SLIDES[0];
+const PREVIEW_STEP = (PREVIEW_SLIDE.Component.steps?.length ?? 1) - 1;
+
+const BLANK_BRAND: BrandTheme = { id: "my-brand", name: "My Brand", colors: {} };
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** Read a picked file as text or as a data URL */
+function readFile(file: File, as: "text" | "dataUrl") {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    if (as === "text") reader.readAsText(file);
+    else reader.readAsDataURL(file);
+  });
+}
+
+const fieldStyle = {
+  background: "var(--bg-secondary)",
+  border: "1px solid var(--border-subtle)",
+  color: "var(--text-primary)",
+};
+
+const buttonStyle = {
+  background: "var(--bg-card)",
+  border: "1px solid var(--border-subtle)",
+  color: "var(--text-secondary)",
+};
+
+/**
+ * Brand theme editor at `/theme-editor` (`?brand=<id>` starts from an
+ * existing config). Every change previews live on the Engine Flow
+ * slide, and the result downloads as the JSON config the deck loads.
+ */
+export function ThemeEditor() {
+  const { theme, preference, themes, setTheme } = useTheme();
+  const [searchParams] = useSearchParams();
+  const source = searchParams.get("brand");
+  const [brand, setBrand] = useState<BrandTheme>(BLANK_BRAND);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!source) return;
+    const controller = new AbortController();
+    loadBrandTheme(source, controller.signal)
+      .then((loaded) => {
+        setBrand(loaded);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => controller.abort();
+  }, [source]);
+
+  const update = (patch: Partial<BrandTheme>) => setBrand((prev) => ({ ...prev, ...patch }));
+
+  const setColor = (variable: ThemeVariable, value: string | null) =>
+    setBrand((prev) => {
+      const colors = { ...prev.colors };
+      if (value) colors[variable] = value;
+      else delete colors[variable];
+      return { ...prev, colors };
+    });
+
+  const setLogo = (src: string) => update({ logo: src ? { src, alt: brand.logo?.alt } : undefined });
+
+  const importConfig = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setBrand(parseBrandTheme(JSON.parse(await readFile(file, "text"))));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const uploadLogo = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) setLogo(await readFile(file, "dataUrl"));
+  };
+
+  const exportConfig = () =>
+    download(new Blob([`${JSON.stringify(brand, null, 2)}\n`], { type: "application/json" }), `${brand.id}.json`);
+
+  return (
+    /* The draft's overrides apply to the whole page, so the editor chrome previews them too */
+    <div
+      className="flex h-full w-full"
+      style={{ ...brandStyle(brand), background: "var(--bg-primary)", color: "var(--text-primary)" }}
+    >
+      <aside
+        className="flex w-96 shrink-0 flex-col gap-5 overflow-y-auto p-6"
+        style={{ background: "var(--bg-secondary)", borderRight: "1px solid var(--border-subtle)" }}
+      >
+        <h1 className="text-2xl">Theme editor</h1>
+
+        <div className="flex gap-2">
+          <label className="flex cursor-pointer items-center gap-1.5 rounded-lg px-3 py-2 text-sm font-medium" style={buttonStyle}>
+            <Upload size={14} />
+            Import
+            <input type="file" accept="application/json,.json" className="sr-only" onChange={importConfig} />
+          </label>
+          <button onClick={exportConfig} className="flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm font-medium" style={buttonStyle}>
+            <Download size={14} />
+            Export JSON
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-sm" style={{ color: "var(--accent-red)" }} role="alert">
+            {error}
+          </p>
+        )}
+
+        <section className="flex flex-col gap-2 text-sm">
+          <label className="flex flex-col gap-1">
+            <span style={{ color: "var(--text-muted)" }}>Id (file name)</span>
+            <input value={brand.id} onChange={(e) => update({ id: e.target.value })} className="rounded-md px-2 py-1.5" style={fieldStyle} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span style={{ color: "var(--text-muted)" }}>Client name</span>
+            <input value={brand.name} onChange={(e) => update({ name: e.target.value })} className="rounded-md px-2 py-1.5" style={fieldStyle} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span style={{ color: "var(--text-muted)" }}>Logo URL</span>
+            <div className="flex gap-2">
+              <input
+                value={brand.logo?.src.startsWith("data:") ? "(uploaded image)" : (brand.logo?.src ?? "")}
+                onChange={(e) => setLogo(e.target.value)}
+                placeholder="https://…/logo.svg"
+                className="min-w-0 flex-1 rounded-md px-2 py-1.5"
+                style={fieldStyle}
+              />
+              <label className="flex cursor-pointer items-center rounded-md px-2" style={buttonStyle} title="Upload a logo">
+                <Upload size={14} />
+                <input type="file" accept="image/*" className="sr-only" onChange={uploadLogo} />
+              </label>
+            </div>
+          </label>
+        </section>
+
+        <section className="flex flex-col gap-1.5 text-sm">
+          <h2 className="mb-1 text-base">Colours</h2>
+          <p className="mb-1 text-xs" style={{ color: "var(--text-muted)" }}>
+            Unset colours follow the selected theme.
+          </p>
+          {THEME_VARIABLES.map((variable) => {
+            const value = brand.colors[variable];
+            return (
+              <div key={variable} className="flex items-center gap-2">
+                <label
+                  className="h-7 w-7 shrink-0 cursor-pointer rounded-md"
+                  style={{ background: `var(${variable})`, border: "1px solid var(--border-subtle)" }}
+                  title={`Pick ${variable}`}
+                >
+                  <input
+                    type="color"
+                    value={value && HEX_COLOR.test(value) ? value : "#000000"}
+                    onChange={(e) => setColor(variable, e.target.value)}
+                    className="sr-only"
+                  />
+                </label>
+                <code className="w-36 shrink-0 text-xs" style={{ color: "var(--text-secondary)" }}>
+                  {variable}
+                </code>
+                <input
+                  value={value ?? ""}
+                  onChange={(e) => setColor(variable, e.target.value.trim() || null)}
+                  placeholder="theme default"
+                  aria-label={variable}
+                  className="min-w-0 flex-1 rounded-md px-2 py-1 font-mono text-xs"
+                  style={fieldStyle}
+                />
+                <button
+                  onClick={() => setColor(variable, null)}
+                  disabled={!value}
+                  className="disabled:opacity-20"
+                  style={{ color: "var(--text-muted)" }}
+                  title="Reset to theme"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </section>
+
+        <p className="text-xs" style={{ color: "var(--text-muted)" }}>
+          Save the export as <code>public/brands/{brand.id}.json</code> and open the deck with{" "}
+          <code>?brand={brand.id}</code>, or set it as a deck's <code>brand</code>.
+        </p>
+      </aside>
+
+      <main className="flex flex-1 items-center justify-center p-10">
+        <div className="w-full max-w-6xl">
+          <BrandContext value={brand}>
+            <SlideThumbnail slide={PREVIEW_SLIDE} step={PREVIEW_STEP} />
+          </BrandContext>
+        </div>
+      </main>
+
+      <ThemeMenu theme={theme} preference={preference} themes={themes} onSelect={setTheme} />
+    </div>
+  );
+}
@@ -11,26 +11,360 @@ import { BrokerAgnosticSlide } from "@/components/slides/BrokerAgnosticSlide";
 import { ObservabilitySlide } from "@/components/slides/ObservabilitySlide";
 import { StrategyLifecycleSlide } from "@/components/slides/StrategyLifecycleSlide";
 import { BacktestingFlowSlide } from "@/components/slides/BacktestingFlowSlide";
+import type { NodeDetail } from "@/components/slides/shared/inspect";
+import type { FocusPreset } from "@/components/slides/shared/focus";
+
+/**
+ * A slide receives `active` plus the current build `step`, and may
+ * declare `steps`: ordered labels on its reveal timeline, `details`:
+ * its inspectable nodes, and `focus`: regions worth zooming into.
+ */
+export type SlideComponent = ComponentType<{ active: boolean; step: number }> & {
+  steps?: readonly string[];
+  details?: readonly NodeDetail[];
+  focus?: readonly FocusPreset[];
+};
+
+export const SECTIONS = ["Engine", "AI", "Backtesting", "Execution", "Operations"] as const;
+export type Section = (typeof SECTIONS)[number];
+
+export type Audience = "investor" | "broker" | "engineering";
+
+/** Text alternative to a diagram, for screen readers and reduced motion */
+export type SlideDescription = {
+  /** One-sentence gist, used as the slide's accessible label */
+  summary: string;
+  /** How data and orders move between the components, in reading order */
+  flows: string[];
+};
 
 export type SlideDefinition = {
   id: string;
-  Component: ComponentType<{ active: boolean }>;
+  /** Slide heading, used by the overview grid and the command palette */
+  title: string;
+  section: Section;
+  /** Topics such as "ai", "risk" or "infra" */
+  tags: string[];
+  /** Audiences whose playlists include the slide */
+  audiences: Audience[];
+  Component: SlideComponent;
+  /** Speaker notes shown in the presenter window, one talking point per entry */
+  notes: string[];
+  description: SlideDescription;
+  /** Kiosk mode: loop iterations to hold after the reveal before advancing */
+  dwellLoops?: number;
 };
 
-export const MAIN_SLIDES: SlideDefinition[] = [
-  { id: "engine-flow", Component: EngineFlowSlide },
-  { id: "llm-flow", Component: LLMFlowSlide },
-  { id: "traditional-backtest", Component: TraditionalBacktestSlide },
-  { id: "code-reuse", Component: CodeReuseSlide },
-  { id: "backtesting-flow", Component: BacktestingFlowSlide },
-  { id: "trading-terminal", Component: TradingTerminalSlide },
+/** The slide registry; decks and playlists are composed from it */
+export const SLIDES: SlideDefinition[] = [
+  {
+    id: "engine-flow",
+    title: "Speed Matters: Async vs Blocking",
+    section: "Engine",
+    tags: ["infra", "latency"],
+    audiences: ["investor", "broker", "engineering"],
+    Component: EngineFlowSlide,
+    notes: [
+      "Traditional setups poll the broker and block on every step; a full cycle takes 3-5 seconds.",
+      "Our engine is async end to end: ticks, orders and checks run concurrently in sub-millisecond time.",
+      "Point at the engine box: every stage ticks off in parallel instead of waiting in line.",
+    ],
+    description: {
+      summary: "A traditional polling pipeline that takes 3-5 seconds per cycle, compared with the async engine, which handles a tick in under a millisecond.",
+      flows: [
+        "Traditional: Exchange, Poll API, Candles, Indicators, Strategy, Place Order and Broker run one blocking step after another.",
+        "Async: the Exchange sends ticks to Redis Streams, which fan out to Engine 1–3.",
+        "Each engine runs candles, indicators, strategy and risk checks concurrently and sends orders to the Broker.",
+        "Fills return from the Broker to the engines.",
+      ],
+    },
+  },
+  {
+    id: "llm-flow",
+    title: "AI Agent Integration",
+    section: "AI",
+    tags: ["ai"],
+    audiences: ["investor", "engineering"],
+    Component: LLMFlowSlide,
+    notes: [
+      "The engine keeps trading on its fast loop; the agent never sits in the hot path.",
+      "On the slow loop (every 30-60s) the agent reads metrics from the Metrics DB/API and asks the LLM (Gemini or Claude) for a decision.",
+      "Decisions come back as parameter changes the engine applies on its next tick.",
+    ],
+    description: {
+      summary: "The engine trades on a fast loop while an AI agent tunes it on a slow loop through the metrics API.",
+      flows: [
+        "Fast loop: the Exchange sends ticks to Redis Streams, which feed the Engine; the Engine sends orders to the Broker and receives fills.",
+        "The Engine writes metrics to the Metrics DB, which the Metrics API serves.",
+        "Slow loop, every 30–60 s: the AI Agent reads the Metrics API and asks the LLM for a decision.",
+        "The agent sends parameter changes back to the Engine, applied on its next tick.",
+      ],
+    },
+  },
+  {
+    id: "traditional-backtest",
+    title: "The Backtesting Problem",
+    section: "Backtesting",
+    tags: ["backtesting"],
+    audiences: ["engineering"],
+    Component: TraditionalBacktestSlide,
+    notes: [
+      "Most teams backtest in a Jupyter notebook and rewrite the strategy for live trading.",
+      "Two codebases means two behaviours: backtest results do not match live results.",
+      "This is the gap the next slide closes.",
+    ],
+    description: {
+      summary: "Strategies are backtested in a notebook and rewritten for live trading, so backtest results do not match live results.",
+      flows: [
+        "The strategy is ported by hand from the notebook to the live system, a completely different codebase.",
+        "Different libraries and indicators mean different behaviour: the results do not match.",
+      ],
+    },
+  },
+  {
+    id: "code-reuse",
+    title: "One Engine, Live & Backtest",
+    section: "Backtesting",
+    tags: ["backtesting", "infra"],
+    audiences: ["engineering"],
+    Component: CodeReuseSlide,
+    notes: [
+      "The same engine and the same strategy code run both live and in backtest.",
+      "Only the data source and the order sink are swapped; the logic in between is identical.",
+      "What you validate in a backtest is exactly what goes live.",
+    ],
+    description: {
+      summary: "One engine and one strategy codebase run both live trading and backtests; only the data source and the order sink change.",
+      flows: [
+        "Live: the Exchange sends ticks through Redis Streams to the Engine, which sends real orders to the Broker and receives fills.",
+        "Backtest: the Backtesting Dispatcher replays historical data from S3 into the same Engine, which sends orders to the Replay OMS and receives simulated fills.",
+        "Replay granularity is either tick-by-tick for accuracy or 1-minute bars at about 100x speed.",
+      ],
+    },
+  },
+  {
+    id: "backtesting-flow",
+    title: "Benchmark AI Before You Deploy",
+    section: "Backtesting",
+    tags: ["backtesting", "ai"],
+    audiences: ["investor", "engineering"],
+    Component: BacktestingFlowSlide,
+    notes: [
+      "Historical data flows from S3 into SQLite, then through the dispatcher into the engine.",
+      "A replay OMS fills orders against the recorded market and a simulated clock drives time.",
+      "The AI agent and LLM sit in the loop too, so you can benchmark an agent before deploying it.",
+    ],
+    description: {
+      summary: "A backtest replays recorded market data through the production engine, with the AI agent in the loop.",
+      flows: [
+        "Historical data moves from S3 into the SQLite DB.",
+        "The Backtesting Dispatcher reads SQLite and feeds ticks to the Engine on a simulated clock.",
+        "The Engine sends orders to the Replay OMS, which fills them against the recorded market.",
+        "The AI Agent reads the Engine's metrics, consults the LLM, and sends decisions back to the Engine.",
+      ],
+    },
+  },
+  {
+    id: "trading-terminal",
+    title: "The AI-Ready Execution Harness",
+    section: "Execution",
+    tags: ["ai", "risk"],
+    audiences: ["investor", "broker"],
+    Component: TradingTerminalSlide,
+    notes: [
+      "Everything comes together in one execution harness: engine, agent, risk and brokers.",
+      "The terminal is where a trader watches the AI act and can step in at any time.",
+      "Close the main deck here and open the floor for questions; backup slides live under /backup.",
+    ],
+    description: {
+      summary: "The engine is an execution harness that any trading interface or AI agent can drive through one API.",
+      flows: [
+        "Redis Streams feed the engine, which sends orders to the Broker and receives fills.",
+        "The Command Center, the AI agent and custom terminals send commands to the engine and receive updates through the same API.",
+      ],
+    },
+  },
+  {
+    id: "horizontal-scaling",
+    title: "Scale Without Rewrites",
+    section: "Engine",
+    tags: ["infra", "scaling"],
+    audiences: ["investor", "engineering"],
+    Component: HorizontalScalingSlide,
+    dwellLoops: 4,
+    notes: [
+      "Strategies are independent, so throughput scales by adding engines rather than rewriting code.",
+      "One engine handles about 1,000 ticks/sec; three handle 3,000; N engines reach 10,000 and beyond.",
+    ],
+    description: {
+      summary: "Throughput grows by adding engines that read the same Redis Streams, with no architectural changes.",
+      flows: [
+        "In each column Redis Streams fan ticks out to every engine.",
+        "The same code and the same Redis scale linearly from one engine to N.",
+      ],
+    },
+  },
+  {
+    id: "order-replication",
+    title: "One Trade, Many Accounts",
+    section: "Execution",
+    tags: ["execution"],
+    audiences: ["broker"],
+    Component: OrderReplicationSlide,
+    notes: [
+      "A master account places one trade and the Replication Manager fans it out to client accounts.",
+      "Each client has its own multiplier (2x, 1x, 0.5x, 0.25x), so one signal becomes 37 lots in total.",
+      "Sizing is automatic; no one re-enters orders by hand.",
+    ],
+    description: {
+      summary: "One trade on a master account is copied to every client account, sized by each client's multiplier.",
+      flows: [
+        "The Master Account places a 10-lot order with the Replication Manager.",
+        "The Replication Manager fans it out to Client A–D with multipliers of 2x, 1x, 0.5x and 0.25x.",
+        "Each client order goes to the Broker; together they total 37 lots.",
+      ],
+    },
+  },
+  {
+    id: "risk-management",
+    title: "Institutional-Grade Risk Controls",
+    section: "Execution",
+    tags: ["risk"],
+    audiences: ["investor", "broker"],
+    Component: RiskManagementSlide,
+    notes: [
+      "Portfolio Greeks (Delta, Theta, Vega) and P&L update live as positions change.",
+      "Pre-trade and portfolio-level risk controls sit between every strategy and the broker.",
+      "Breaching a limit blocks or unwinds orders automatically.",
+    ],
+    description: {
+      summary: "Every strategy's orders pass pre-trade and portfolio risk checks before reaching the broker, while Greeks and P&L update live.",
+      flows: [
+        "The Momentum, Strangle and AI strategies send orders to the Position Manager.",
+        "The Position Manager runs position limits, margin limits and stop-loss checks.",
+        "Orders that pass go to the Broker; breaches are rejected.",
+        "Portfolio Greeks (Delta, Theta, Vega) and P&L update as positions change.",
+      ],
+    },
+  },
+  {
+    id: "broker-agnostic",
+    title: "One Strategy, Any Broker",
+    section: "Execution",
+    tags: ["execution", "infra"],
+    audiences: ["broker", "engineering"],
+    Component: BrokerAgnosticSlide,
+    notes: [
+      "Strategies talk to a single broker interface, never to a broker SDK directly.",
+      "Adapters exist for Kite and XTS; a custom adapter plugs in the same way.",
+      "Switching brokers is a configuration change, not a rewrite.",
+    ],
+    description: {
+      summary: "Strategies call one OMS interface; broker adapters translate it for Zerodha Kite, Jainam XTS or a custom broker.",
+      flows: [
+        "Your Strategy calls the Anekant Engine, which talks only to the OMS abstraction layer.",
+        "The OMS layer routes calls to the KiteAdapter, XTSAdapter or a CustomAdapter.",
+        "Each adapter talks to its broker's API and returns fills and order status to the engine.",
+      ],
+    },
+  },
+  {
+    id: "observability",
+    title: "See Everything, In Real-Time",
+    section: "Operations",
+    tags: ["infra", "metrics"],
+    audiences: ["broker", "engineering"],
+    Component: ObservabilitySlide,
+    notes: [
+      "The engine streams every metric into SQLite and exposes it through the Metrics API.",
+      "Dashboards, alerts, the AI agent and audit logs all read from the same source.",
+      "Call out the counter: about 15,000 metrics/sec with no impact on trading latency.",
+    ],
+    description: {
+      summary: "The engine streams every metric into SQLite, and dashboards, alerts, the AI agent and audit logs all read it through one API.",
+      flows: [
+        "The Anekant Engine emits candles, indicators, positions, P&L and strategy state into SQLite with write-ahead logging.",
+        "The Metrics API, a FastAPI service, reads SQLite read-only and serves it over REST.",
+        "The Live Dashboard, alerting, the AI Agent and post-session reports consume the API.",
+      ],
+    },
+  },
+  {
+    id: "strategy-lifecycle",
+    title: "Predictable Strategy Behavior",
+    section: "Operations",
+    tags: ["infra"],
+    audiences: ["engineering"],
+    Component: StrategyLifecycleSlide,
+    notes: [
+      "Every strategy moves through the same states: INITIALIZE, START, CREATE, MANAGE, END.",
+      "Any stage can drop to FAILED, which is handled the same way every time.",
+      "Predictable states make strategies easy to reason about, monitor and test.",
+    ],
+    description: {
+      summary: "Every strategy moves through the same five states, enforced by a state machine, and any state can fail into a recoverable FAILED state.",
+      flows: [
+        "INITIALIZE leads to START, then CREATE, then MANAGE, then END.",
+        "Any state can move to FAILED, which can recover by restarting the strategy.",
+        "Only valid transitions are allowed, and every transition is logged.",
+      ],
+    },
+  },
 ];
 
-export const BACKUP_SLIDES: SlideDefinition[] = [
-  { id: "horizontal-scaling", Component: HorizontalScalingSlide },
-  { id: "order-replication", Component: OrderReplicationSlide },
-  { id: "risk-management", Component: RiskManagementSlide },
-  { id: "broker-agnostic", Component: BrokerAgnosticSlide },
-  { id: "observability", Component: ObservabilitySlide },
-  { id: "strategy-lifecycle", Component: StrategyLifecycleSlide },
+export type DeckDefinition = {
+  /** Slug used in file names and `/deck/:name` routes */
+  id: string;
+  name: string;
+  /** Route prefix the deck is mounted under */
+  basePath: string;
+  slides: SlideDefinition[];
+  /** Brand theme id or config URL applied by default (see `shared/brand.ts`); `?brand` overrides it */
+  brand?: string;
+};
+
+function pickSlides(ids: string[]) {
+  return ids.map((id) => {
+    const slide = SLIDES.find((s) => s.id === id);
+    if (!slide) throw new Error(`Unknown slide "${id}"`);
+    return slide;
+  });
+}
+
+/** Audience slides in section order */
+function audienceSlides(audience: Audience) {
+  return SLIDES.filter((s) => s.audiences.includes(audience)).sort(
+    (a, b) => SECTIONS.indexOf(a.section) - SECTIONS.indexOf(b.section),
+  );
+}
+
+export const MAIN_DECK: DeckDefinition = {
+  id: "main",
+  name: "Main",
+  basePath: "",
+  slides: pickSlides(["engine-flow", "llm-flow", "traditional-backtest", "code-reuse", "backtesting-flow", "trading-terminal"]),
+};
+
+export const BACKUP_DECK: DeckDefinition = {
+  id: "backup",
+  name: "Backup",
+  basePath: "/backup",
+  slides: pickSlides(["horizontal-scaling", "order-replication", "risk-management", "broker-agnostic", "observability", "strategy-lifecycle"]),
+};
+
+/** Every slide lives in exactly one of these; the overview lists them in this order */
+export const SLIDE_DECKS: DeckDefinition[] = [MAIN_DECK, BACKUP_DECK];
+
+const playlist = (id: string, name: string, audience: Audience): DeckDefinition => ({
+  id,
+  name,
+  basePath: `/deck/${id}`,
+  slides: audienceSlides(audience),
+});
+
+/** Audience-specific running orders, served at `/deck/:name` */
+export const PLAYLISTS: DeckDefinition[] = [
+  playlist("investor-pitch", "Investor pitch", "investor"),
+  playlist("broker-partner", "Broker partner", "broker"),
+  playlist("engineering-deep-dive", "Engineering deep-dive", "engineering"),
 ];
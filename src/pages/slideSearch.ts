@@ -0,0 +1,82 @@
+import type { DeckDefinition, SlideDefinition } from "@/pages/slideDecks";
+
+/* ────────────────────────────────────────────────────────────
+ *  Fuzzy search over every deck's slides
+ *
+ *  A query matches a field when its characters appear in order;
+ *  consecutive runs and word starts score higher. Titles outrank
+ *  node labels, which outrank speaker notes.
+ * ──────────────────────────────────────────────────────────── */
+
+export type SlideMatchKind = "title" | "node" | "note";
+
+export interface SlideMatch {
+  deck: DeckDefinition;
+  slide: SlideDefinition;
+  index: number;
+  kind: SlideMatchKind;
+  /** The field that matched best */
+  text: string;
+  score: number;
+}
+
+const KIND_WEIGHT: Record<SlideMatchKind, number> = { title: 3, node: 2, note: 1 };
+
+/** Subsequence score of `query` in `text`, or null when it does not match */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  let score = 0;
+  let run = 0;
+  let from = 0;
+
+  for (const ch of q) {
+    if (ch === " ") continue;
+    const at = t.indexOf(ch, from);
+    if (at === -1) return null;
+    run = at === from ? run + 1 : 1;
+    score += run + (at === 0 || /[\s\-:&(/]/.test(t[at - 1]) ? 2 : 0);
+    from = at + 1;
+  }
+  /* Prefer tighter fields */
+  return score - t.length / 100;
+}
+
+function slideFields(slide: SlideDefinition): { kind: SlideMatchKind; text: string }[] {
+  return [
+    { kind: "title", text: slide.title },
+    ...(slide.Component.details ?? []).map((d) => ({ kind: "node" as const, text: d.title })),
+    ...slide.notes.map((note) => ({ kind: "note" as const, text: note })),
+  ];
+}
+
+/**
+ * Best match per slide, highest score first; an empty query lists every
+ * slide. A slide in several decks is reported for the first of them.
+ */
+export function searchSlides(decks: DeckDefinition[], query: string): SlideMatch[] {
+  const matches: SlideMatch[] = [];
+  const seen = new Set<string>();
+
+  for (const deck of decks) {
+    deck.slides.forEach((slide, index) => {
+      if (seen.has(slide.id)) return;
+      seen.add(slide.id);
+      if (!query.trim()) {
+        matches.push({ deck, slide, index, kind: "title", text: slide.title, score: 0 });
+        return;
+      }
+
+      let best: SlideMatch | null = null;
+      for (const { kind, text } of slideFields(slide)) {
+        const raw = fuzzyScore(query, text);
+        if (raw === null) continue;
+        const score = raw * KIND_WEIGHT[kind];
+        if (!best || score > best.score) best = { deck, slide, index, kind, text, score };
+      }
+      if (best) matches.push(best);
+    });
+  }
+
+  return query.trim() ? matches.sort((a, b) => b.score - a.score) : matches;
+}
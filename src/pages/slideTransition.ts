@@ -0,0 +1,31 @@
+/* ────────────────────────────────────────────────────────────
+ *  Slide-to-slide transition used by the deck
+ *
+ *  Shared with the video recorder, which replays the same spring
+ *  frame-by-frame when compositing deck recordings.
+ * ──────────────────────────────────────────────────────────── */
+
+export const SLIDE_SPRING = { stiffness: 300, damping: 30 };
+
+/** Cross-fade duration of the outgoing and incoming slide (s) */
+export const SLIDE_FADE_SEC = 0.2;
+
+export const slideVariants = {
+  enter: (direction: number) => ({
+    x: direction > 0 ? "100%" : "-100%",
+    opacity: 0,
+  }),
+  center: {
+    x: 0,
+    opacity: 1,
+  },
+  exit: (direction: number) => ({
+    x: direction > 0 ? "-100%" : "100%",
+    opacity: 0,
+  }),
+};
+
+export const slideTransition = {
+  x: { type: "spring" as const, ...SLIDE_SPRING },
+  opacity: { duration: SLIDE_FADE_SEC },
+};
@@ -2,9 +2,12 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 import path from "path";
+import { mockLiveEvents } from "./mock/liveEvents";
+import { mockMetrics } from "./mock/metrics";
+import { remoteRelay } from "./server/remoteRelay";
 
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), mockLiveEvents(), mockMetrics(), remoteRelay()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),